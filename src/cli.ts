@@ -2,13 +2,22 @@
 
 /**
  * CLI for SQL on FHIR tooling.
- * Supports transpiling ViewDefinitions and loading NDJSON data.
+ * Supports transpiling and type checking ViewDefinitions, loading NDJSON data
+ * and loading terminology.
  */
 
-import { Command } from "commander";
+import { Command, Option } from "commander";
 import { readFileSync, writeFileSync } from "fs";
-import { SqlOnFhir } from "./index.js";
+import {
+  annotateSql,
+  Diagnostic,
+  DiagnosticError,
+  formatDiagnostics,
+  QueryGeneratorOptions,
+  SqlOnFhir,
+} from "./index.js";
 import { createLoadCommand } from "./load.js";
+import { createTerminologyCommand } from "./terminologyCommand.js";
 
 /**
  * Read input from stdin or file.
@@ -37,6 +46,129 @@ function writeOutput(sql: string, outputFile?: string): void {
   }
 }
 
+interface TranspileCommandOptions {
+  input?: string;
+  output?: string;
+  package?: string[];
+  sqlServerVersion?: string;
+  now?: string;
+  resolveReferences?: boolean;
+  referenceBaseUrl?: string[];
+  typeCheck?: boolean;
+  annotate?: boolean;
+  format: DiagnosticFormat;
+}
+
+interface CheckCommandOptions {
+  input?: string;
+  package?: string[];
+  format: DiagnosticFormat;
+}
+
+/**
+ * How problems found in a ViewDefinition are reported: as text for people to
+ * read, or as a JSON array of diagnostics for tools such as editors.
+ */
+type DiagnosticFormat = "text" | "json";
+
+/**
+ * The option selecting how problems found in a ViewDefinition are reported.
+ */
+function formatOption(): Option {
+  return new Option("--format <format>", "Format of the problems reported")
+    .choices(["text", "json"])
+    .default("text");
+}
+
+/**
+ * Format the problems found in a ViewDefinition for output.
+ */
+function renderDiagnostics(
+  diagnostics: Diagnostic[],
+  viewDefinition: object,
+  format: DiagnosticFormat,
+): string {
+  return format === "json"
+    ? `${JSON.stringify(diagnostics, null, 2)}\n`
+    : formatDiagnostics(diagnostics, viewDefinition);
+}
+
+/**
+ * The query generator options given on the command line.
+ */
+function generatorOptions(
+  options: TranspileCommandOptions,
+): QueryGeneratorOptions {
+  return {
+    packages: options.package ?? [],
+    sqlServerVersion: options.sqlServerVersion
+      ? Number(options.sqlServerVersion)
+      : undefined,
+    now: options.now,
+    resolveReferences: options.resolveReferences,
+    referenceBaseUrls: options.referenceBaseUrl ?? [],
+    typeCheck: options.typeCheck,
+    sourceMap: options.annotate,
+  };
+}
+
+/**
+ * Handle the transpile command action.
+ */
+async function handleTranspileCommand(
+  options: TranspileCommandOptions,
+): Promise<void> {
+  let viewDefinition: object = {};
+  try {
+    // Read ViewDefinition from stdin or file.
+    const input = await readInput(options.input);
+
+    // Parse and validate JSON.
+    viewDefinition = JSON.parse(input);
+
+    // Transpile to SQL.
+    const sqlOnFhir = new SqlOnFhir(generatorOptions(options));
+    const result = sqlOnFhir.transpile(viewDefinition);
+
+    // Write SQL to stdout or file, annotated with the elements it came from.
+    writeOutput(
+      result.sourceMap ? annotateSql(result.sql, result.sourceMap) : result.sql,
+      options.output,
+    );
+    if (options.typeCheck) {
+      writeWarnings(sqlOnFhir, viewDefinition, options.format);
+    }
+  } catch (err) {
+    if (err instanceof DiagnosticError) {
+      process.stderr.write(
+        renderDiagnostics(err.diagnostics, viewDefinition, options.format),
+      );
+    } else {
+      console.error(
+        `Error: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Report the warnings found type checking a ViewDefinition that transpiled,
+ * on stderr so that they are kept apart from the SQL.
+ */
+function writeWarnings(
+  sqlOnFhir: SqlOnFhir,
+  viewDefinition: object,
+  format: DiagnosticFormat,
+): void {
+  const warnings = sqlOnFhir
+    .check(viewDefinition)
+    .filter((diagnostic) => diagnostic.severity === "warning");
+  if (warnings.length > 0) {
+    process.stderr.write(renderDiagnostics(warnings, viewDefinition, format));
+  }
+}
+
 /**
  * Create the transpile command (default behaviour).
  */
@@ -50,27 +182,90 @@ function createTranspileCommand(): Command {
       "Input ViewDefinition JSON file (default: stdin)",
     )
     .option("-o, --output <file>", "Output SQL file (default: stdout)")
-    .action(async (options: { input?: string; output?: string }) => {
-      try {
-        // Read ViewDefinition from stdin or file.
-        const input = await readInput(options.input);
-
-        // Parse and validate JSON.
-        const viewDefinition: object = JSON.parse(input);
-
-        // Transpile to SQL.
-        const sqlOnFhir = new SqlOnFhir();
-        const result = sqlOnFhir.transpile(viewDefinition);
-
-        // Write SQL to stdout or file.
-        writeOutput(result.sql, options.output);
-      } catch (err) {
-        console.error(
-          `Error: ${err instanceof Error ? err.message : String(err)}`,
-        );
-        process.exit(1);
+    .option(
+      "-p, --package <path...>",
+      "FHIR package (.tgz or directory) defining the profiles views refer to",
+    )
+    .option(
+      "--sql-server-version <year>",
+      "SQL Server version to target, e.g. 2025 for regular expressions (default: 2017)",
+    )
+    .option(
+      "--now <dateTime>",
+      "Fixed time for now(), today() and timeOfDay(), e.g. 2024-01-01T00:00:00Z (default: the server clock)",
+    )
+    .option(
+      "--resolve-references",
+      "Follow references with resolve() to resources in the same table",
+    )
+    .option(
+      "--reference-base-url <url...>",
+      "Base URL of absolute references that resolve() follows",
+    )
+    .option(
+      "--type-check",
+      "Type check the ViewDefinition before transpiling, failing on errors and reporting warnings",
+    )
+    .option(
+      "--annotate",
+      "Annotate the SQL with comments naming the ViewDefinition elements it came from, e.g. /* select[0].column[2] */",
+    )
+    .addOption(formatOption())
+    .action(handleTranspileCommand);
+
+  return command;
+}
+
+/**
+ * Handle the check command action, which reports the problems found and fails
+ * if any is an error.
+ */
+async function handleCheckCommand(options: CheckCommandOptions): Promise<void> {
+  try {
+    const viewDefinition: object = JSON.parse(await readInput(options.input));
+    const sqlOnFhir = new SqlOnFhir({ packages: options.package ?? [] });
+    let diagnostics: Diagnostic[];
+    try {
+      diagnostics = sqlOnFhir.check(viewDefinition);
+    } catch (err) {
+      if (!(err instanceof DiagnosticError)) {
+        throw err;
       }
-    });
+      diagnostics = err.diagnostics;
+    }
+
+    process.stdout.write(
+      renderDiagnostics(diagnostics, viewDefinition, options.format),
+    );
+    if (diagnostics.some((diagnostic) => diagnostic.severity === "error")) {
+      process.exit(1);
+    }
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Create the check command.
+ */
+function createCheckCommand(): Command {
+  const command = new Command("check");
+
+  command
+    .description(
+      "Type check the FHIRPath expressions of a ViewDefinition against the FHIR type model",
+    )
+    .option(
+      "-i, --input <file>",
+      "Input ViewDefinition JSON file (default: stdin)",
+    )
+    .option(
+      "-p, --package <path...>",
+      "FHIR package (.tgz or directory) defining the profiles views refer to",
+    )
+    .addOption(formatOption())
+    .action(handleCheckCommand);
 
   return command;
 }
@@ -87,7 +282,9 @@ async function main(): Promise<void> {
 
   // Add subcommands.
   program.addCommand(createTranspileCommand());
+  program.addCommand(createCheckCommand());
   program.addCommand(createLoadCommand());
+  program.addCommand(createTerminologyCommand());
 
   // Parse arguments.
   await program.parseAsync(process.argv);
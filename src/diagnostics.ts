@@ -0,0 +1,265 @@
+/**
+ * Problems found in ViewDefinitions, located by a JSON pointer to the element
+ * of the ViewDefinition they were found in and, within a FHIRPath expression,
+ * by the range of characters they were found at.
+ *
+ * @author John Grimes
+ */
+
+/**
+ * The kinds of problem reported, which tools may match on.
+ */
+export type DiagnosticCode =
+  | "invalid-view"
+  | "syntax-error"
+  | "unknown-element"
+  | "unknown-type"
+  | "choice-type"
+  | "singleton-function"
+  | "column-type"
+  | "where-type"
+  | "collection-column"
+  | "function-signature"
+  | "transpile-error";
+
+/**
+ * A range of characters within a FHIRPath expression, from the offset of the
+ * first to the offset after the last.
+ */
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A change that would resolve a problem.
+ */
+export interface SuggestedFix {
+  message: string;
+  /**
+   * The text to replace the range of the problem with or, where it has no
+   * range, the value of the element its pointer addresses.
+   */
+  replacement?: string;
+}
+
+/**
+ * A problem found in a ViewDefinition. Errors prevent the view from returning
+ * the intended result; warnings may do so, depending on the data.
+ */
+export interface Diagnostic {
+  severity: "error" | "warning";
+  code: DiagnosticCode;
+  message: string;
+  /** A JSON pointer to the element, e.g. `/select/0/column/1/path`. */
+  pointer: string;
+  /** The characters of the FHIRPath expression at the pointer, if any. */
+  range?: SourceRange;
+  fixes?: SuggestedFix[];
+}
+
+/**
+ * An error raised for problems found in a ViewDefinition, which are given by
+ * its diagnostics.
+ */
+export class DiagnosticError extends Error {
+  constructor(readonly diagnostics: Diagnostic[]) {
+    super(
+      diagnostics
+        .map((diagnostic) => `${diagnostic.pointer}: ${diagnostic.message}`)
+        .join("; "),
+    );
+    this.name = "DiagnosticError";
+  }
+}
+
+/**
+ * An error raised while generating the query for an element of a
+ * ViewDefinition, such as a column, located by the element and the name of
+ * its property holding the expression the error was found in.
+ */
+export class ViewElementError extends Error {
+  constructor(
+    message: string,
+    readonly element: object,
+    readonly property: string | null,
+    readonly code: DiagnosticCode = "transpile-error",
+    readonly range: SourceRange | null = null,
+    readonly expression: string | null = null,
+  ) {
+    super(message);
+    this.name = "ViewElementError";
+  }
+}
+
+/**
+ * Locate an error raised while generating the query for an element of a
+ * ViewDefinition. An error already located within a nested element keeps that
+ * location, and an error located within a FHIRPath expression keeps its range.
+ *
+ * @param error - The error raised.
+ * @param element - The element, e.g. a column.
+ * @param property - The property of the element holding the expression being
+ *   transpiled, e.g. `path`, or null for the element itself.
+ * @returns The located error.
+ */
+export function elementError(
+  error: unknown,
+  element: object,
+  property: string | null,
+): ViewElementError {
+  if (error instanceof ViewElementError) {
+    return error;
+  }
+  const located = error as {
+    code?: DiagnosticCode;
+    range?: SourceRange;
+    expression?: string | null;
+  };
+  return new ViewElementError(
+    error instanceof Error ? error.message : String(error),
+    element,
+    property,
+    located.code ?? "transpile-error",
+    located.range ?? null,
+    located.expression ?? null,
+  );
+}
+
+/**
+ * The diagnostic for an error raised while generating the query for a
+ * ViewDefinition. The range of an error located within an expression is
+ * given within the path it was found in, and an error found in one of the
+ * paths of a `repeat` is located by that path.
+ *
+ * @param error - The error raised.
+ * @param viewDefinition - The ViewDefinition the query was generated for.
+ * @returns The diagnostic, located at the root of the ViewDefinition if the
+ *   error was not located within it.
+ */
+export function errorDiagnostic(
+  error: unknown,
+  viewDefinition: object,
+): Diagnostic {
+  const message = error instanceof Error ? error.message : String(error);
+  if (!(error instanceof ViewElementError)) {
+    return { severity: "error", code: "transpile-error", message, pointer: "" };
+  }
+  const pointer = expressionPointer(error, viewDefinition);
+  const diagnostic: Diagnostic = {
+    severity: "error",
+    code: error.code,
+    message,
+    pointer,
+  };
+  const path = pointerValue(viewDefinition, pointer);
+  if (error.range && typeof path === "string" && path === error.expression) {
+    diagnostic.range = error.range;
+  }
+  return diagnostic;
+}
+
+/**
+ * The pointer to the expression a located error was found in.
+ */
+function expressionPointer(
+  error: ViewElementError,
+  viewDefinition: object,
+): string {
+  const element = elementPointers(viewDefinition).get(error.element) ?? "";
+  const pointer =
+    error.property === null
+      ? element
+      : `${element}/${escapeToken(error.property)}`;
+  const paths = pointerValue(viewDefinition, pointer);
+  const { expression } = error;
+  const index =
+    Array.isArray(paths) && expression !== null
+      ? paths.indexOf(expression)
+      : -1;
+  return index >= 0 ? `${pointer}/${index}` : pointer;
+}
+
+/**
+ * The JSON pointers to the objects and arrays within a JSON document, by
+ * identity.
+ */
+export function elementPointers(document: object): Map<object, string> {
+  const pointers = new Map<object, string>();
+  const visit = (value: unknown, pointer: string): void => {
+    if (typeof value !== "object" || value === null || pointers.has(value)) {
+      return;
+    }
+    pointers.set(value, pointer);
+    for (const [key, child] of Object.entries(value)) {
+      visit(child, `${pointer}/${escapeToken(key)}`);
+    }
+  };
+  visit(document, "");
+  return pointers;
+}
+
+function escapeToken(key: string): string {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * The value a JSON pointer addresses within a JSON document, or undefined if
+ * there is none.
+ */
+export function pointerValue(document: unknown, pointer: string): unknown {
+  const tokens = pointer === "" ? [] : pointer.split("/").slice(1);
+  return tokens.reduce<unknown>(
+    (value, token) =>
+      typeof value === "object" && value !== null
+        ? (value as Record<string, unknown>)[
+            token.replace(/~1/g, "/").replace(/~0/g, "~")
+          ]
+        : undefined,
+    document,
+  );
+}
+
+/**
+ * Formats diagnostics as text, one after another. Where the ViewDefinition is
+ * given, the FHIRPath expression each was found in is shown, with its range
+ * underlined.
+ *
+ * @param diagnostics - The diagnostics to format.
+ * @param viewDefinition - The ViewDefinition they were found in, if known.
+ * @returns The text, ending in a newline unless there are no diagnostics.
+ */
+export function formatDiagnostics(
+  diagnostics: Diagnostic[],
+  viewDefinition?: unknown,
+): string {
+  return diagnostics
+    .map((diagnostic) => formatDiagnostic(diagnostic, viewDefinition))
+    .join("");
+}
+
+function formatDiagnostic(
+  diagnostic: Diagnostic,
+  viewDefinition: unknown,
+): string {
+  const lines = [
+    `${diagnostic.severity}[${diagnostic.code}] ${diagnostic.pointer || "/"}: ${diagnostic.message}`,
+  ];
+  const expression = pointerValue(viewDefinition, diagnostic.pointer);
+  if (typeof expression === "string" && diagnostic.range) {
+    const { start, end } = diagnostic.range;
+    lines.push(
+      `  ${expression}`,
+      `  ${" ".repeat(start)}${"^".repeat(Math.max(end - start, 1))}`,
+    );
+  }
+  // A replacement is shown unless the message already names it.
+  for (const fix of diagnostic.fixes ?? []) {
+    lines.push(
+      fix.replacement === undefined || fix.message.includes(fix.replacement)
+        ? `  fix: ${fix.message}`
+        : `  fix: ${fix.message}: ${fix.replacement}`,
+    );
+  }
+  return lines.map((line) => `${line}\n`).join("");
+}
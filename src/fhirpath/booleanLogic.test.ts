@@ -0,0 +1,147 @@
+/**
+ * Unit tests for FHIRPath Boolean logic.
+ *
+ * Boolean results are transpiled to conditions, whose unknown result
+ * represents empty, so that SQL's three-valued logic gives the FHIRPath truth
+ * tables. Boolean elements and literals are read as conditions where they are
+ * operands of Boolean operators, and conditions become BIT values, which are
+ * NULL where empty, in columns.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { transpilePath, transpileView } from "../tests/utils/transpile";
+
+describe("Boolean operators", () => {
+  it("read Boolean elements as conditions", () => {
+    expect(transpilePath("Patient", "active and gender = 'male'")).toContain(
+      "((JSON_VALUE(r.json, '$.active') = 'true') AND (JSON_VALUE(r.json, '$.gender') = 'male'))",
+    );
+  });
+
+  it("read other values as conditions that they are present", () => {
+    expect(transpilePath("Patient", "name.family or active")).toContain(
+      "((JSON_VALUE(r.json, '$.name[0].family') IS NOT NULL) OR (JSON_VALUE(r.json, '$.active') = 'true'))",
+    );
+  });
+
+  it("are empty where an operand of xor is empty", () => {
+    expect(transpilePath("Patient", "active xor true")).toContain(
+      "(((JSON_VALUE(r.json, '$.active') = 'true') AND NOT ('true' = 'true')) OR (NOT (JSON_VALUE(r.json, '$.active') = 'true') AND ('true' = 'true')))",
+    );
+  });
+
+  it("negate the input of not()", () => {
+    expect(transpilePath("Patient", "active.not()")).toContain(
+      "(NOT (JSON_VALUE(r.json, '$.active') = 'true'))",
+    );
+  });
+
+  it("negate the current item in not() without an input", () => {
+    expect(transpilePath("Patient", "not()")).toContain(
+      "(NOT (r.json IS NOT NULL))",
+    );
+  });
+});
+
+describe("comparisons", () => {
+  it("use the operator of the expression", () => {
+    expect(transpilePath("Patient", "gender != 'male'")).toContain(
+      "(JSON_VALUE(r.json, '$.gender') != 'male')",
+    );
+  });
+
+  it("compare conditions as Boolean values", () => {
+    expect(transpilePath("Patient", "(gender = 'male') = true")).toContain(
+      "((CASE WHEN (JSON_VALUE(r.json, '$.gender') = 'male') THEN 'true' WHEN NOT (JSON_VALUE(r.json, '$.gender') = 'male') THEN 'false' END) = 'true')",
+    );
+  });
+
+  it("are empty where the item sought by in is empty", () => {
+    expect(transpilePath("Patient", "gender in ('male' | 'female')")).toContain(
+      "(CASE WHEN JSON_VALUE(r.json, '$.gender') IS NULL THEN NULL WHEN EXISTS",
+    );
+  });
+});
+
+describe("Boolean results", () => {
+  it("are BIT values in columns", () => {
+    expect(transpilePath("Patient", "name.exists()")).toMatch(
+      /^SELECT\s+CAST\(CASE WHEN \(.+\) THEN 1 WHEN NOT \(.+\) THEN 0 END AS BIT\) AS \[x\]/,
+    );
+  });
+
+  it("read Boolean elements in Boolean columns", () => {
+    expect(
+      transpilePath("Patient", "active", {}, { type: "boolean" }),
+    ).toContain(
+      "CAST(CASE WHEN (JSON_VALUE(r.json, '$.active') = 'true') THEN 1 WHEN NOT (JSON_VALUE(r.json, '$.active') = 'true') THEN 0 END AS BIT) AS [x]",
+    );
+  });
+
+  it("are conditions in view filters", () => {
+    expect(
+      transpileView(
+        "Patient",
+        [{ column: [{ name: "id", path: "id" }] }],
+        ["active"],
+      ),
+    ).toContain("AND ((JSON_VALUE(r.json, '$.active') = 'true'))");
+    expect(
+      transpileView(
+        "Patient",
+        [{ column: [{ name: "id", path: "id" }] }],
+        ["active.not()"],
+      ),
+    ).toContain("AND ((NOT (JSON_VALUE(r.json, '$.active') = 'true')))");
+  });
+});
+
+describe("iif()", () => {
+  it("is its true result where its criterion is true", () => {
+    expect(transpilePath("Patient", "iif(active, 'yes', 'no')")).toContain(
+      "(CASE WHEN (JSON_VALUE(r.json, '$.active') = 'true') THEN 'yes' ELSE 'no' END) AS [x]",
+    );
+  });
+
+  it("is empty otherwise, without an otherwise result", () => {
+    expect(transpilePath("Patient", "iif(active, 'yes')")).toContain(
+      "THEN 'yes' ELSE NULL END) AS [x]",
+    );
+  });
+
+  it("reads conditions as Boolean values in its results", () => {
+    expect(
+      transpilePath("Patient", "iif(active, gender = 'male', false)"),
+    ).toContain(
+      "THEN (CASE WHEN (JSON_VALUE(r.json, '$.gender') = 'male') THEN 'true' WHEN NOT (JSON_VALUE(r.json, '$.gender') = 'male') THEN 'false' END) ELSE 'false' END)",
+    );
+  });
+
+  it("evaluates its arguments against its input", () => {
+    expect(
+      transpilePath("Patient", "gender.iif($this = 'male', 'M', 'F')"),
+    ).toContain(
+      "(CASE WHEN (JSON_VALUE(r.json, '$.gender') = 'male') THEN 'M' ELSE 'F' END) AS [x]",
+    );
+  });
+
+  it("filters views", () => {
+    expect(
+      transpileView(
+        "Patient",
+        [{ column: [{ name: "id", path: "id" }] }],
+        ["iif(active.exists(), active, true)"],
+      ),
+    ).toContain(
+      "AND (((CASE WHEN (JSON_VALUE(r.json, '$.active') IS NOT NULL) THEN JSON_VALUE(r.json, '$.active') ELSE 'true' END) = 'true'))",
+    );
+  });
+
+  it("requires two or three arguments", () => {
+    expect(() => transpilePath("Patient", "iif(active)")).toThrow(
+      "iif() function requires two or three arguments",
+    );
+  });
+});
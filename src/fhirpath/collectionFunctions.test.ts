@@ -0,0 +1,256 @@
+/**
+ * Unit tests for FHIRPath aggregate, subsetting and combining functions, and
+ * the equivalence of collections.
+ *
+ * The items of a collection are read by correlated OPENJSON subqueries, which
+ * read every repetition of the repeating elements a path passes through and
+ * keep the items in document order.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { SqlOnFhir } from "../index";
+import { transpilePath } from "../tests/utils/transpile";
+
+describe("aggregate functions", () => {
+  it("count the items of every repetition of a repeating element", () => {
+    expect(transpilePath("Patient", "name.given.count()")).toContain(
+      "(SELECT COUNT(*) FROM OPENJSON(r.json, '$.name') AS item0 CROSS APPLY OPENJSON(item0.value, '$.given') AS item1 WHERE item0.value IS NOT NULL AND item1.value IS NOT NULL)",
+    );
+  });
+
+  it("sum numbers as the SQL type of their element, which is empty for no items", () => {
+    expect(transpilePath("Claim", "item.net.value.sum()")).toContain(
+      "(SELECT SUM(CAST(item1.value AS DECIMAL(18,6))) FROM OPENJSON(r.json, '$.item') AS item0 CROSS APPLY OPENJSON(item0.value, '$.net') AS item1 WHERE item0.value IS NOT NULL AND item1.value IS NOT NULL AND item1.[key] = 'value')",
+    );
+  });
+
+  it("aggregate the items matching where() criteria", () => {
+    expect(
+      transpilePath("Claim", "item.where(sequence > 1).sequence.max()"),
+    ).toContain(
+      "SELECT MAX(CAST(item0.value AS BIGINT)) FROM OPENJSON(r.json, '$.item') AS whereItem CROSS APPLY OPENJSON(whereItem.value, '$') AS item0 WHERE whereItem.value IS NOT NULL AND (CAST(JSON_VALUE(whereItem.value, '$.sequence') AS BIGINT) > 1)",
+    );
+  });
+
+  it("compare other values as text", () => {
+    expect(transpilePath("Patient", "name.family.min()")).toContain(
+      "MIN(item1.value COLLATE Latin1_General_BIN2)",
+    );
+  });
+});
+
+describe("subsetting functions", () => {
+  it("number items in document order", () => {
+    expect(transpilePath("Patient", "name.given.skip(1)")).toContain(
+      "ROW_NUMBER() OVER (ORDER BY CAST(item0.[key] AS INT), CAST(item1.[key] AS INT)) AS position",
+    );
+  });
+
+  it("return a JSON array of the remaining items", () => {
+    expect(transpilePath("Patient", "name.given.take(2)")).toMatch(
+      /^SELECT\s+JSON_QUERY\(\(SELECT '\[' \+ STRING_AGG\(selected\.item, ','\) WITHIN GROUP \(ORDER BY selected\.position\) \+ '\]' FROM .+ WHERE items\.position <= 2\) AS selected\)\) AS \[x\]/,
+    );
+  });
+
+  it("navigate into the items of a subset", () => {
+    expect(transpilePath("Patient", "name.tail().family")).toMatch(
+      /^SELECT\s+JSON_VALUE\(JSON_QUERY\(.+\), '\$\[0\]\.family'\) AS \[x\]/,
+    );
+  });
+
+  it("read the last item in document order", () => {
+    expect(transpilePath("Patient", "name.last().family")).toContain(
+      "JSON_VALUE((SELECT TOP 1 item0.value FROM OPENJSON(r.json, '$.name') AS item0 WHERE item0.value IS NOT NULL ORDER BY CAST(item0.[key] AS INT) DESC), '$.family')",
+    );
+  });
+
+  it("raise an error where single() has more than one item", () => {
+    expect(transpilePath("Patient", "name.single().family")).toContain(
+      "CASE WHEN COUNT(*) > 1 THEN CONVERT(NVARCHAR(MAX), CAST('single() requires an input of no more than one item' AS INT))",
+    );
+  });
+
+  it("compare items case-sensitively in distinct()", () => {
+    expect(transpilePath("Patient", "name.given.isDistinct()")).toContain(
+      "ELSE (CASE item1.type WHEN 1 THEN '\"' + STRING_ESCAPE(item1.value, 'json') + '\"' ELSE item1.value END) END) COLLATE Latin1_General_BIN2)",
+    );
+  });
+
+  it("compare numbers by their value in distinct()", () => {
+    expect(transpilePath("Claim", "item.sequence.distinct()")).toContain(
+      "GROUP BY (CASE items.type WHEN 2 THEN COALESCE(CONVERT(NVARCHAR(MAX), TRY_CAST(items.value AS DECIMAL(38,10))), items.value)",
+    );
+  });
+});
+
+describe("combining functions", () => {
+  it("combine the items of both operands of | in order", () => {
+    const sql = transpilePath("Patient", "name.given | name.family");
+    expect(sql).toContain(
+      "ROW_NUMBER() OVER (ORDER BY operands.operand, operands.position) AS position",
+    );
+    expect(sql).toContain("GROUP BY (CASE items.type WHEN 2");
+  });
+
+  it("keep duplicates in combine()", () => {
+    expect(
+      transpilePath("Patient", "name.given.combine(name.family)"),
+    ).not.toContain("GROUP BY");
+  });
+
+  it("keep the items equal to an item of the other collection in intersect()", () => {
+    expect(
+      transpilePath("Patient", "name.given.intersect(name.family)"),
+    ).toMatch(/AS items WHERE EXISTS \(SELECT 1 FROM .+ GROUP BY/);
+  });
+
+  it("remove the items equal to an item of the other collection in exclude()", () => {
+    expect(transpilePath("Patient", "name.given.exclude('Ann')")).toContain(
+      "WHERE NOT EXISTS (SELECT 1 FROM (SELECT CONVERT(NVARCHAR(MAX), 'Ann') AS value, 1 AS type) AS item0",
+    );
+  });
+
+  it("test a combined collection for existence", () => {
+    expect(
+      transpilePath("Patient", "(name.given | name.family).exists()"),
+    ).toMatch(
+      /^SELECT\s+CAST\(CASE WHEN \(JSON_QUERY\(.+\) IS NOT NULL\) THEN 1/,
+    );
+  });
+
+  it("iterate over a combined collection in forEach", () => {
+    expect(
+      new SqlOnFhir().transpile({
+        resource: "Patient",
+        status: "active",
+        select: [
+          {
+            forEach: "name | contact.name",
+            column: [{ name: "family", path: "family" }],
+          },
+        ],
+      }).sql,
+    ).toMatch(/CROSS APPLY OPENJSON\(JSON_QUERY\(.+\)\) AS forEach_0/);
+  });
+
+  it("give an empty array in a collection column where they have no items", () => {
+    expect(
+      new SqlOnFhir().transpile({
+        resource: "Patient",
+        status: "active",
+        select: [
+          {
+            column: [
+              {
+                name: "names",
+                path: "name.family | contact.name.family",
+                collection: true,
+              },
+            ],
+          },
+        ],
+      }).sql,
+    ).toMatch(
+      /^SELECT\n {2}COALESCE\(JSON_QUERY\(.+\), JSON_QUERY\('\[\]'\)\) AS \[names\]/,
+    );
+  });
+
+  it("give every item of an element in a collection column", () => {
+    const column = (path: string): string =>
+      new SqlOnFhir().transpile({
+        resource: "Observation",
+        status: "active",
+        select: [{ column: [{ name: "x", path, collection: true }] }],
+      }).sql;
+    expect(column("code.coding.where(system = 'x').code")).toContain(
+      "FROM OPENJSON(r.json, '$.code.coding') AS whereItem CROSS APPLY OPENJSON(whereItem.value, '$') AS item0 WHERE whereItem.value IS NOT NULL AND (JSON_VALUE(whereItem.value, '$.system') = 'x') AND item0.value IS NOT NULL AND item0.[key] = 'code'",
+    );
+    expect(column("component.value.ofType(Quantity).value")).toContain(
+      "FROM OPENJSON(r.json, '$.component') AS item0 CROSS APPLY OPENJSON(item0.value, '$.valueQuantity') AS item1 WHERE item0.value IS NOT NULL AND item1.value IS NOT NULL AND item1.[key] = 'value'",
+    );
+    expect(column("code.coding.exists()")).toContain(
+      "COALESCE(JSON_QUERY(('[' + (CASE WHEN",
+    );
+  });
+});
+
+describe("Boolean collection functions", () => {
+  it("evaluate the criteria of all() against each item", () => {
+    expect(
+      transpilePath("Observation", "component.all(value.exists())"),
+    ).toContain(
+      "(NOT EXISTS (SELECT 1 FROM OPENJSON(r.json, '$.component') AS item0 WHERE item0.value IS NOT NULL AND (CASE WHEN (JSON_VALUE(item0.value, '$.value') IS NOT NULL) THEN 1 ELSE 0 END) = 0))",
+    );
+  });
+
+  it("compare Boolean elements used as criteria to true", () => {
+    expect(transpilePath("Patient", "all(active)")).toContain(
+      "(CASE WHEN (JSON_VALUE(r.json, '$.active') = 'true') THEN 1 ELSE 0 END = 1)",
+    );
+  });
+
+  it("read Boolean conditions as items of allTrue()", () => {
+    expect(transpilePath("Patient", "(gender = 'male').allTrue()")).toContain(
+      "(SELECT CONVERT(NVARCHAR(MAX), (CASE WHEN (JSON_VALUE(r.json, '$.gender') = 'male') THEN 'true' WHEN NOT (JSON_VALUE(r.json, '$.gender') = 'male') THEN 'false' END)) AS value, 1 AS type) AS item0",
+    );
+  });
+
+  it("test for any false item in anyFalse()", () => {
+    expect(transpilePath("Patient", "active.anyFalse()")).toMatch(
+      /^SELECT\s+CAST\(CASE WHEN EXISTS \(SELECT 1 FROM .+ AND item0\.value = 'false'\) THEN 1/,
+    );
+  });
+
+  it("keep the aliases of subsetOf() operands apart", () => {
+    const sql = transpilePath("Patient", "name.given.subsetOf(name.family)");
+    expect(sql).toContain(
+      "AS item2 CROSS APPLY OPENJSON(item2.value, '$') AS item3",
+    );
+    expect(sql).toContain("COLLATE Latin1_General_BIN2 = (CASE item1.type");
+  });
+});
+
+describe("equivalence", () => {
+  it("compares collections regardless of order", () => {
+    const sql = transpilePath("Patient", "name.given ~ name.family");
+    expect(sql).toMatch(
+      /^SELECT\s+CAST\(CASE WHEN \(\(\(SELECT COUNT\(\*\) FROM .+\) = \(SELECT COUNT\(\*\) FROM .+ AND \(NOT EXISTS/,
+    );
+  });
+
+  it("compares strings ignoring case and kinds of whitespace", () => {
+    expect(transpilePath("Patient", "gender ~ 'MALE'")).toContain(
+      "IIF(LOWER(TRANSLATE(item0.value, CONCAT(CHAR(9), CHAR(10), CHAR(13)), '   ')) COLLATE Latin1_General_BIN2 = LOWER(TRANSLATE(item1.value, CONCAT(CHAR(9), CHAR(10), CHAR(13)), '   ')) COLLATE Latin1_General_BIN2, 1, 0)",
+    );
+  });
+
+  it("compares numbers at the precision of the less precise", () => {
+    expect(
+      transpilePath("Observation", "value.ofType(decimal) ~ 1.50"),
+    ).toContain(
+      "IIF(ROUND(TRY_CAST(item0.value AS DECIMAL(38, 18)), equivalence.places) = ROUND(TRY_CAST(item1.value AS DECIMAL(38, 18)), equivalence.places), 1, 0)",
+    );
+  });
+
+  it("compares objects element by element", () => {
+    expect(
+      transpilePath("Patient", "identifier.first() ~ identifier.last()"),
+    ).toContain(
+      "FROM OPENJSON(CASE WHEN equivalence.firstType IN (4, 5) THEN item0.value END) AS level1 OUTER APPLY (SELECT [key], value, type FROM OPENJSON(CASE WHEN level1.type IN (4, 5) THEN level1.value END)) AS level2",
+    );
+  });
+
+  it("negates equivalence for !~", () => {
+    expect(transpilePath("Patient", "gender !~ 'male'")).toMatch(
+      /^SELECT\s+CAST\(CASE WHEN \(NOT \(\(SELECT COUNT/,
+    );
+  });
+
+  it("compares dates and times at the same precision", () => {
+    expect(transpilePath("Patient", "birthDate ~ @2000")).toContain(
+      "(CASE WHEN JSON_VALUE(r.json, '$.birthDate') IS NULL AND '2000' IS NULL THEN 1 WHEN ((SELECT CASE",
+    );
+  });
+});
@@ -0,0 +1,829 @@
+/**
+ * FHIRPath aggregate, subsetting, combining and Boolean collection functions:
+ * `count()`, `sum()`, `min()`, `max()`, `avg()`, `last()`, `skip()`,
+ * `take()`, `tail()`, `single()`, `distinct()`, `isDistinct()`, `union()`,
+ * `combine()`, `intersect()`, `exclude()`, `allTrue()`, `anyTrue()`,
+ * `allFalse()`, `anyFalse()`, `subsetOf()` and `supersetOf()`, along with
+ * the items tested by `all()` and the equivalence of collections.
+ *
+ * The items of the input collection are read by a correlated OPENJSON
+ * subquery, one row per item, in document order. A path through a repeating
+ * element is transpiled to the path of its first item (`$.item[0].net.value`),
+ * so the items of every repetition of that element are read instead. Items
+ * that are JSON nulls are not part of the collection.
+ *
+ * Functions that return a collection return a JSON array (an
+ * {@link ArrayNode}), which is empty (NULL) where no items remain. Items are compared using FHIRPath equality: strings
+ * case-sensitively, numbers by their value and other items by their JSON,
+ * other than where compared with a complex constant, whose items are compared
+ * element by element.
+ * Collections are compared for equivalence (`~`) item by item, regardless of
+ * their order.
+ * Functions that test the items of a collection are true or false, and never
+ * empty, as FHIRPath defines them for empty input.
+ *
+ * @author John Grimes
+ */
+
+import {
+  type ArrayNode,
+  computedArray,
+  type ExpressionNode,
+  isRepeating,
+  type ItemQueryNode,
+} from "./ir.js";
+import {
+  DECIMAL_SQL_TYPE,
+  INTEGER_SQL_TYPE,
+  type NumericType,
+} from "./mathFunctions.js";
+import { type LibraryFunction, ordinal, quote } from "./stringFunctions.js";
+import { emitItemValues, emitTSql } from "./tsqlEmitter.js";
+
+/**
+ * A transpiled collection: its numeric type, if its items are numbers,
+ * whether the element it addresses repeats, if known, and the node it was
+ * rendered from, from which the rows of its items are read.
+ */
+export interface Collection {
+  sql: string;
+  type: NumericType | null;
+  repeating?: boolean | null;
+  node?: ExpressionNode;
+}
+
+/**
+ * The rows of a subquery holding the items of a collection.
+ */
+export interface ItemRows {
+  /** The FROM and CROSS APPLY clauses. */
+  clauses: string[];
+  /** The conditions the rows satisfy. */
+  conditions: string[];
+  /** Expressions ordering the rows in document order. */
+  order: string[];
+  /** The alias of the OPENJSON rows (or equivalent) holding the items. */
+  alias: string;
+}
+
+/**
+ * The message of the error raised by `single()` where its input has more
+ * than one item.
+ */
+const SINGLE_ERROR = "single() requires an input of no more than one item";
+
+/**
+ * The SQL type to which numbers are cast to compare them by their value.
+ */
+const EQUALITY_DECIMAL_TYPE = "DECIMAL(38,10)";
+
+/**
+ * The SQL type to which numbers are cast to round them to a shared precision
+ * for equivalence.
+ */
+const EQUIVALENCE_DECIMAL_TYPE = "DECIMAL(38, 18)";
+
+/**
+ * The functions whose result is a computed JSON array.
+ */
+export const COLLECTION_VALUED_FUNCTIONS = new Set([
+  "repeat",
+  "skip",
+  "take",
+  "tail",
+  "distinct",
+  "union",
+  "combine",
+  "intersect",
+  "exclude",
+]);
+
+export const COLLECTION_FUNCTIONS: Record<
+  string,
+  LibraryFunction<Collection>
+> = {
+  count: {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) => ({
+      sql: `(${select(itemRows(input), "COUNT(*)")})`,
+      type: "integer",
+    }),
+  },
+  sum: {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) => aggregate(input, "SUM", input.type),
+  },
+  min: {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) => aggregate(input, "MIN", input.type),
+  },
+  max: {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) => aggregate(input, "MAX", input.type),
+  },
+  avg: {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) => aggregate(input, "AVG", "decimal"),
+  },
+  last: {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) => ({ sql: last(itemRows(input)), type: input.type }),
+  },
+  skip: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [count]) => subset(input, `> ${count.sql}`),
+  },
+  take: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [count]) => subset(input, `<= ${count.sql}`),
+  },
+  tail: {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) => subset(input, "> 1"),
+  },
+  single: {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) => {
+      const rows = itemRows(input);
+      return {
+        sql: `(${select(rows, `CASE WHEN COUNT(*) > 1 THEN CONVERT(NVARCHAR(MAX), CAST(${quote(SINGLE_ERROR)} AS INT)) ELSE MIN(${rows.alias}.value) END`)})`,
+        type: input.type,
+      };
+    },
+  },
+  distinct: {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) =>
+      arrayCollection(deduplicate(positioned(itemRows(input))), input.type),
+  },
+  isDistinct: {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) => {
+      const rows = itemRows(input);
+      const item = equalityKey(rows.alias);
+      return {
+        sql: `((${select(rows, `CASE WHEN COUNT(*) = COUNT(DISTINCT ${item}) THEN 1 ELSE 0 END`)}) = 1)`,
+        type: null,
+      };
+    },
+  },
+  union: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [other]) =>
+      arrayCollection(
+        deduplicate(combined(input, other)),
+        commonType(input, other),
+      ),
+  },
+  combine: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [other]) =>
+      arrayCollection(
+        `SELECT ${jsonItem("items")} AS item, items.position FROM ${combined(input, other)}`,
+        commonType(input, other),
+      ),
+  },
+  intersect: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [other]) =>
+      arrayCollection(
+        deduplicate(
+          `${positioned(itemRows(input))} WHERE ${contains(other, "items")}`,
+        ),
+        input.type,
+      ),
+  },
+  exclude: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [other]) =>
+      arrayCollection(
+        `SELECT ${jsonItem("items")} AS item, items.position FROM ${positioned(itemRows(input))} WHERE NOT ${contains(other, "items")}`,
+        input.type,
+      ),
+  },
+  allTrue: {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) => ({
+      sql: everyItem(input, (alias) => `${alias}.value = 'true'`),
+      type: null,
+    }),
+  },
+  anyTrue: {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) => ({
+      sql: anyItem(input, (alias) => `${alias}.value = 'true'`),
+      type: null,
+    }),
+  },
+  allFalse: {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) => ({
+      sql: everyItem(input, (alias) => `${alias}.value = 'false'`),
+      type: null,
+    }),
+  },
+  anyFalse: {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) => ({
+      sql: anyItem(input, (alias) => `${alias}.value = 'false'`),
+      type: null,
+    }),
+  },
+  subsetOf: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [other]) => ({
+      sql: everyItem(input, (alias) => contains(other, alias)),
+      type: null,
+    }),
+  },
+  supersetOf: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [other]) => ({
+      sql: everyItem(other, (alias) => contains(input, alias)),
+      type: null,
+    }),
+  },
+};
+
+/**
+ * Whether every item of a collection satisfies a condition of the alias of
+ * the OPENJSON rows holding it, which is true for an empty collection. Items
+ * for which the condition is unknown do not satisfy it.
+ */
+export function everyItem(
+  input: Collection,
+  condition: (alias: string) => string,
+): string {
+  const rows = itemRows(input);
+  rows.conditions.push(
+    `(CASE WHEN ${condition(rows.alias)} THEN 1 ELSE 0 END) = 0`,
+  );
+  return `(NOT EXISTS (${select(rows, "1")}))`;
+}
+
+/**
+ * Whether any item of a collection satisfies a condition of the alias of the
+ * OPENJSON rows holding it, which is false for an empty collection. The
+ * aliases of the rows do not hide the alias of an enclosing query, if given.
+ */
+export function anyItem(
+  input: Collection,
+  condition: (alias: string) => string,
+  outerAlias = "",
+): string {
+  const rows = itemRows(input, outerAlias);
+  rows.conditions.push(condition(rows.alias));
+  return `EXISTS (${select(rows, "1")})`;
+}
+
+/**
+ * Whether a collection has any items (`exists()`).
+ */
+export function hasItems(input: Collection): string {
+  return `EXISTS (${select(itemRows(input), "1")})`;
+}
+
+/**
+ * The items of a collection that satisfy a condition of the alias of the
+ * OPENJSON rows holding them (`where()`), in their order.
+ */
+export function filterItems(
+  input: Collection,
+  condition: (alias: string) => string,
+): ArrayNode {
+  const rows = itemRows(input);
+  rows.conditions.push(condition(rows.alias));
+  return jsonArray(
+    `SELECT ${jsonItem("items")} AS item, items.position FROM ${positioned(rows)}`,
+  );
+}
+
+/**
+ * The projection of the first item of a collection by an expression of the
+ * alias of the OPENJSON rows holding it (`select()` read as a scalar).
+ */
+export function firstProjection(
+  input: Collection,
+  projection: (alias: string) => string,
+): string {
+  const rows = itemRows(input);
+  const order =
+    rows.order.length > 0 ? ` ORDER BY ${rows.order.join(", ")}` : "";
+  return `(${select(rows, `TOP 1 ${projection(rows.alias)}`)}${order})`;
+}
+
+/**
+ * The string and number items of a collection joined by a separator
+ * (`join()`), which is empty for an empty collection.
+ */
+export function joinItems(input: Collection, separator: string): string {
+  return `(SELECT STRING_AGG(items.value, ${separator}) WITHIN GROUP (ORDER BY items.position) FROM ${positioned(itemRows(input))} WHERE items.type IN (1, 2))`;
+}
+
+/**
+ * Whether any item of a collection satisfies a condition of the alias of the
+ * OPENJSON rows holding it, which is empty (unknown) for an empty collection.
+ */
+
+export function someItem(
+  input: Collection,
+  condition: (alias: string) => string,
+): string {
+  const rows = itemRows(input);
+  return `((${select(rows, `MAX(CASE WHEN ${condition(rows.alias)} THEN 1 ELSE 0 END)`)}) = 1)`;
+}
+
+/**
+ * Whether two collections are equivalent (`~`): they have the same number of
+ * items, and each item of either is equivalent to an item of the other,
+ * regardless of order. Two empty collections are equivalent, and the result
+ * is never empty.
+ */
+export function equivalent(left: Collection, right: Collection): string {
+  const count = (input: Collection): string =>
+    `(${select(itemRows(input), "COUNT(*)")})`;
+  const leftWithin = everyItem(left, (alias) =>
+    containsEquivalent(right, alias),
+  );
+  const rightWithin = everyItem(right, (alias) =>
+    containsEquivalent(left, alias),
+  );
+  return `(${count(left)} = ${count(right)} AND ${leftWithin} AND ${rightWithin})`;
+}
+
+/**
+ * Whether two collections are equal (`=`): they have the same number of
+ * items, and the items at each position are equal. Objects are compared
+ * element by element, regardless of the order of their members. The result is
+ * empty where either collection is empty.
+ */
+export function equal(left: Collection, right: Collection): string {
+  const [leftRows, rightRows] = [left, right].map((input) => itemRows(input));
+  const [leftCount, rightCount] = [leftRows, rightRows].map(
+    (rows) => `(${select(rows, "COUNT(*)")})`,
+  );
+  const unequal = `SELECT 1 FROM ${positioned(leftRows, "leftItems")} JOIN ${positioned(rightRows, "rightItems")} ON rightItems.position = leftItems.position WHERE NOT ${itemsEqual("leftItems", "rightItems")}`;
+  return `(CASE WHEN ${leftCount} = 0 OR ${rightCount} = 0 THEN NULL WHEN ${leftCount} = ${rightCount} AND NOT EXISTS (${unequal}) THEN 1 ELSE 0 END = 1)`;
+}
+
+/**
+ * Whether a collection contains an item (`contains` and `in`), comparing
+ * objects element by element. The result is empty where the item is empty.
+ */
+export function containsItem(collection: Collection, item: Collection): string {
+  const sought = itemRows(item);
+  const rows = itemRows(collection, select(sought, "1"));
+  rows.conditions.push(itemsEqual(rows.alias, sought.alias));
+  const found = {
+    ...sought,
+    conditions: [...sought.conditions, `EXISTS (${select(rows, "1")})`],
+  };
+  return `(CASE WHEN NOT EXISTS (${select(sought, "1")}) THEN NULL WHEN EXISTS (${select(found, "1")}) THEN 1 ELSE 0 END = 1)`;
+}
+
+/**
+ * Aggregate the items of a collection. Numbers are cast to the SQL type of
+ * their numeric type, while other values (e.g. strings and dates) are
+ * compared as text. The aggregate of an empty collection is empty.
+ */
+function aggregate(
+  input: Collection,
+  fn: string,
+  type: NumericType | null,
+): Collection {
+  const rows = itemRows(input);
+  const value = `${rows.alias}.value`;
+  const sqlType = type === "integer" ? INTEGER_SQL_TYPE : DECIMAL_SQL_TYPE;
+  const argument =
+    type !== null || fn === "SUM"
+      ? `CAST(${value} AS ${sqlType})`
+      : ordinal(value);
+  return { sql: `(${select(rows, `${fn}(${argument})`)})`, type };
+}
+
+/**
+ * The items of a collection whose (1-based) position satisfies a condition.
+ */
+function subset(input: Collection, position: string): Collection {
+  return arrayCollection(
+    `SELECT ${jsonItem("items")} AS item, items.position FROM ${positioned(itemRows(input))} WHERE items.position ${position}`,
+    input.type,
+  );
+}
+
+/**
+ * The last item of a collection.
+ */
+function last(rows: ItemRows): string {
+  const order =
+    rows.order.length > 0
+      ? ` ORDER BY ${rows.order.map((key) => `${key} DESC`).join(", ")}`
+      : "";
+  return `(${select(rows, `TOP 1 ${rows.alias}.value`)}${order})`;
+}
+
+/**
+ * A JSON array of the items selected by a query, which has an `item` column
+ * holding the JSON of each item and a `position` column ordering them.
+ */
+export function jsonArray(query: string): ArrayNode {
+  return computedArray(
+    `(SELECT '[' + STRING_AGG(selected.item, ',') WITHIN GROUP (ORDER BY selected.position) + ']' FROM (${query}) AS selected)`,
+  );
+}
+
+/**
+ * The items of a collection as a JSON array, in their order (e.g. for a
+ * collection column), which is NULL where it has no items.
+ */
+export function itemArray(input: Collection): ArrayNode {
+  return input.node?.kind === "array"
+    ? input.node
+    : jsonArray(
+        `SELECT ${jsonItem("items")} AS item, items.position FROM ${positioned(itemRows(input))}`,
+      );
+}
+
+/**
+ * The collection of the items selected by a query, as for {@link jsonArray}.
+ */
+function arrayCollection(query: string, type: NumericType | null): Collection {
+  const node = jsonArray(query);
+  return { sql: emitTSql(node), type, repeating: true, node };
+}
+
+/**
+ * The JSON of an item held by OPENJSON rows, quoting strings.
+ */
+export function jsonItem(alias: string): string {
+  return `(CASE ${alias}.type WHEN 1 THEN '"' + STRING_ESCAPE(${alias}.value, 'json') + '"' ELSE ${alias}.value END)`;
+}
+
+/**
+ * The key by which items held by OPENJSON rows are compared for equality.
+ * Numbers are compared by their value, so that `1` and `1.0` are equal.
+ */
+function equalityKey(alias: string): string {
+  return ordinal(
+    `(CASE ${alias}.type WHEN 2 THEN COALESCE(CONVERT(NVARCHAR(MAX), TRY_CAST(${alias}.value AS ${EQUALITY_DECIMAL_TYPE})), ${alias}.value) ELSE ${jsonItem(alias)} END)`,
+  );
+}
+
+/**
+ * Selects the first of each set of equal items from a derived table of
+ * positioned items.
+ */
+function deduplicate(items: string): string {
+  return `SELECT MIN(${jsonItem("items")}) AS item, MIN(items.position) AS position FROM ${items} GROUP BY ${equalityKey("items")}`;
+}
+
+/**
+ * Whether a collection contains an item equal to one held by OPENJSON rows.
+ */
+function contains(collection: Collection, alias: string): string {
+  const rows = itemRows(collection, alias);
+  rows.conditions.push(`${equalityKey(rows.alias)} = ${equalityKey(alias)}`);
+  return `EXISTS (${select(rows, "1")})`;
+}
+
+/**
+ * Whether two items held by OPENJSON rows are equal: objects element by
+ * element, and other items by their {@link equalityKey}.
+ */
+function itemsEqual(first: string, second: string): string {
+  const [firstType, secondType] = [first, second].map(jsonType);
+  const [firstElements, secondElements] = [
+    [`${first}.value`, firstType],
+    [`${second}.value`, secondType],
+  ].map(([value, type]) => leaves(value, type, ordinal));
+  return `(CASE WHEN ${firstType} IN (4, 5) OR ${secondType} IN (4, 5) THEN IIF(${firstType} = ${secondType} AND NOT EXISTS (${firstElements} EXCEPT ${secondElements}) AND NOT EXISTS (${secondElements} EXCEPT ${firstElements}), 1, 0) ELSE IIF(${equalityKey(first)} = ${equalityKey(second)}, 1, 0) END = 1)`;
+}
+
+/**
+ * Whether a collection contains an item equivalent to one held by OPENJSON
+ * rows. Numbers are compared rounded to the precision of the less precise,
+ * ignoring trailing zeros, so `1.5 ~ 1.52` is true. Objects are compared
+ * element by element, and other items as strings, ignoring case and treating
+ * all whitespace characters as equivalent.
+ */
+function containsEquivalent(collection: Collection, alias: string): string {
+  const rows = itemRows(collection, alias);
+  const [first, second] = [alias, rows.alias];
+  const places = [first, second].map((item) => decimalPlaces(`${item}.value`));
+  rows.clauses.push(
+    `(SELECT ${jsonType(first)} AS firstType, ${jsonType(second)} AS secondType, IIF(${places[0]} < ${places[1]}, ${places[0]}, ${places[1]}) AS places) AS equivalence`,
+  );
+  const rounded = (item: string): string =>
+    `ROUND(TRY_CAST(${item}.value AS ${EQUIVALENCE_DECIMAL_TYPE}), equivalence.places)`;
+  const [firstElements, secondElements] = [
+    [`${first}.value`, "equivalence.firstType"],
+    [`${second}.value`, "equivalence.secondType"],
+  ].map(([value, type]) => leaves(value, type));
+  rows.conditions.push(
+    `(CASE WHEN 2 IN (equivalence.firstType, equivalence.secondType) THEN IIF(${rounded(first)} = ${rounded(second)}, 1, 0) WHEN equivalence.firstType IN (4, 5) OR equivalence.secondType IN (4, 5) THEN IIF(equivalence.firstType = equivalence.secondType AND NOT EXISTS (${firstElements} EXCEPT ${secondElements}) AND NOT EXISTS (${secondElements} EXCEPT ${firstElements}), 1, 0) ELSE IIF(${equivalenceKey(`${first}.value`)} = ${equivalenceKey(`${second}.value`)}, 1, 0) END = 1)`,
+  );
+  return `EXISTS (${select(rows, "1")})`;
+}
+
+/**
+ * The JSON type of an item held by OPENJSON rows, reading the JSON text of
+ * an object computed by a function (e.g. `first()`) as an object.
+ */
+function jsonType(alias: string): string {
+  return `IIF(${alias}.type = 1 AND LEFT(${alias}.value, 1) = '{' AND ISJSON(${alias}.value) = 1, 5, ${alias}.type)`;
+}
+
+/**
+ * The number of decimal places of a number, ignoring trailing zeros.
+ */
+function decimalPlaces(value: string): string {
+  return `IIF(CHARINDEX('.', ${value}) = 0, 0, LEN(${value}) - CHARINDEX('.', ${value}) - PATINDEX('%[^0]%', REVERSE(${value})) + 1)`;
+}
+
+/**
+ * A query of the elements of an object or array, one row per primitive
+ * element with its path and value. Elements are read to a depth of three
+ * (e.g. `type.coding.0.code` within an Identifier), with anything deeper
+ * compared by its JSON. The items of repeating elements are compared in
+ * order. Strings are compared by the given key, which by default is their
+ * {@link equivalenceKey}.
+ */
+function leaves(
+  value: string,
+  type: string,
+  stringKey: (value: string) => string = equivalenceKey,
+): string {
+  const levels = ["level1", "level2", "level3"];
+  const elements = (json: string, jsonType: string): string =>
+    `OPENJSON(CASE WHEN ${jsonType} IN (4, 5) THEN ${json} END)`;
+  const clauses = levels.map((level, i) =>
+    i === 0
+      ? `${elements(value, type)} AS ${level}`
+      : `OUTER APPLY (SELECT [key], value, type FROM ${elements(`${levels[i - 1]}.value`, `${levels[i - 1]}.type`)}) AS ${level}`,
+  );
+  const deepest = (column: string): string =>
+    `COALESCE(${[...levels]
+      .reverse()
+      .map((level) => `${level}.${column}`)
+      .join(", ")})`;
+  const path = `CONCAT(${levels.map((level, i) => (i === 0 ? `${level}.[key]` : `'.' + ${level}.[key]`)).join(", ")})`;
+  return `SELECT ${ordinal(path)} AS path, CASE leaf.type WHEN 1 THEN ${stringKey("leaf.value")} WHEN 2 THEN ${ordinal(`COALESCE(CONVERT(NVARCHAR(MAX), TRY_CAST(leaf.value AS ${EQUALITY_DECIMAL_TYPE})), leaf.value)`)} ELSE ${ordinal("leaf.value")} END AS value FROM ${clauses.join(" ")} CROSS APPLY (SELECT ${deepest("value")} AS value, ${deepest("type")} AS type) AS leaf WHERE leaf.type <> 0`;
+}
+
+/**
+ * The key by which strings are compared for equivalence, ignoring case and
+ * treating tabs and line breaks as spaces.
+ */
+function equivalenceKey(value: string): string {
+  return ordinal(
+    `LOWER(TRANSLATE(${value}, CONCAT(CHAR(9), CHAR(10), CHAR(13)), '   '))`,
+  );
+}
+
+/**
+ * A derived table of the items of two collections, with the items of the
+ * first followed by those of the second.
+ */
+function combined(first: Collection, second: Collection): string {
+  const operands = [first, second].map(
+    (operand, i) =>
+      `SELECT items.value, items.type, ${i} AS operand, items.position FROM ${positioned(itemRows(operand))}`,
+  );
+  return `(SELECT operands.value, operands.type, ROW_NUMBER() OVER (ORDER BY operands.operand, operands.position) AS position FROM (${operands.join(" UNION ALL ")}) AS operands) AS items`;
+}
+
+/**
+ * The numeric type of the items of two collections combined.
+ */
+function commonType(first: Collection, second: Collection): NumericType | null {
+  if (first.type === null || second.type === null) {
+    return null;
+  }
+  return first.type === second.type ? first.type : "decimal";
+}
+
+/**
+ * A derived table of the items of a collection, with their value, JSON type
+ * and 1-based position.
+ */
+function positioned(rows: ItemRows, alias = "items"): string {
+  const order = rows.order.length > 0 ? rows.order.join(", ") : "(SELECT NULL)";
+  return `(${select(rows, `${rows.alias}.value, ${rows.alias}.type, ROW_NUMBER() OVER (ORDER BY ${order}) AS position`)}) AS ${alias}`;
+}
+
+/**
+ * A query selecting the value of each item of a collection as a column.
+ *
+ * @param input - The collection.
+ * @param column - The name of the column.
+ * @returns The query.
+ */
+export function selectItems(input: Collection, column: string): string {
+  const rows = itemRows(input);
+  return select(rows, `${rows.alias}.value AS ${column}`);
+}
+
+function select(rows: ItemRows, columns: string): string {
+  return `SELECT ${columns} FROM ${rows.clauses.join(" CROSS APPLY ")} WHERE ${rows.conditions.join(" AND ")}`;
+}
+
+/**
+ * The rows holding the items of a collection, with aliases that do not hide
+ * an alias of the enclosing query, if given.
+ */
+export function itemRows(input: Collection, outerAlias = ""): ItemRows {
+  const aliases = aliasGenerator(`${input.sql} ${outerAlias}`);
+  const rows = input.node ? nodeRows(input.node, input, aliases) : null;
+  if (rows) {
+    return rows;
+  }
+  const alias = aliases();
+  return rowsOf(
+    `(SELECT CONVERT(NVARCHAR(MAX), ${input.sql}) AS value, ${scalarType(input)} AS type) AS ${alias}`,
+    alias,
+    false,
+  );
+}
+
+/**
+ * The OPENJSON type of the items of a collection read as scalars: numbers if
+ * their numeric type is known, and otherwise strings (which may hold JSON).
+ */
+function scalarType(input: Collection): number {
+  return input.type === null ? 1 : 2;
+}
+
+/**
+ * The rows holding the items of an expression whose structure is known, or
+ * null if it is read as a scalar.
+ */
+function nodeRows(
+  node: ExpressionNode,
+  input: Collection,
+  aliases: () => string,
+): ItemRows | null {
+  switch (node.kind) {
+    case "itemQuery":
+      return filteredRows(node, input, aliases);
+    case "path":
+      return navigate(
+        null,
+        node.source,
+        node.jsonPath,
+        input.repeating ?? isRepeating(node, node.isJson),
+        aliases,
+      );
+    case "array": {
+      const alias = aliases();
+      return rowsOf(`OPENJSON(${node.json}) AS ${alias}`, alias, true);
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * The rows of the items of an item query that meet its conditions, or of the
+ * element within them it reads, read item by item where it repeats.
+ */
+function filteredRows(
+  node: ItemQueryNode,
+  input: Collection,
+  aliases: () => string,
+): ItemRows {
+  const rows = queriedItems(node, aliases);
+  return node.member === null
+    ? rows
+    : navigate(
+        rows,
+        `${rows.alias}.value`,
+        node.member.jsonPath,
+        input.repeating ?? false,
+        aliases,
+      );
+}
+
+/**
+ * The rows of the items of an item query that meet its conditions. Items
+ * whose conditions do not read them by an alias (e.g. resolved resources) are
+ * selected by a query of their own, and are JSON objects.
+ */
+function queriedItems(node: ItemQueryNode, aliases: () => string): ItemRows {
+  if (node.items.kind !== "json" || node.items.alias === null) {
+    const alias = aliases();
+    return rowsOf(
+      `(SELECT items.value, 5 AS type FROM (${emitItemValues({ ...node, member: null })}) AS items) AS ${alias}`,
+      alias,
+      false,
+    );
+  }
+  const { source, jsonPath, alias, repeating } = node.items;
+  const rows = navigate(null, source, jsonPath, repeating, aliases, alias);
+  rows.conditions.push(...node.conditions);
+  return rows;
+}
+
+/**
+ * Read the items at a path within a source, adding to existing rows if given.
+ * Each `[0]` within the path marks a repeating element whose items are all
+ * read. The element at the end of the path is read item by item if it
+ * repeats, and otherwise as the member of its parent.
+ */
+function navigate(
+  rows: ItemRows | null,
+  source: string,
+  path: string,
+  repeating: boolean,
+  aliases: () => string,
+  finalAlias?: string,
+): ItemRows {
+  const result = rows ?? { clauses: [], conditions: [], order: [], alias: "" };
+  const segments = path.replace(/^\$\.?/, "").split("[0].");
+  let currentSource = source;
+  segments.forEach((segment, i) => {
+    const isLast = i === segments.length - 1;
+    const alias = (isLast ? finalAlias : undefined) ?? aliases();
+    // An indexed item is never read item by item
+    const array = !isLast || (repeating && !segment.endsWith("]"));
+    const step = array ? null : lastStep(segment);
+    result.clauses.push(
+      `OPENJSON(${currentSource}, '${jsonPath(step ? step.parent : segment)}') AS ${alias}`,
+    );
+    result.conditions.push(`${alias}.value IS NOT NULL`);
+    if (step) {
+      result.conditions.push(`${alias}.[key] = '${step.key}'`);
+    } else {
+      result.order.push(`CAST(${alias}.[key] AS INT)`);
+    }
+    result.alias = alias;
+    currentSource = `${alias}.value`;
+  });
+  return result;
+}
+
+/**
+ * The last step of a relative path, a member or an array index, and the path
+ * of its parent, e.g. `period.start` → (`period`, `start`), or null for an
+ * empty path.
+ */
+function lastStep(path: string): { parent: string; key: string } | null {
+  if (path === "") {
+    return null;
+  }
+  if (path.endsWith("]")) {
+    const index = path.lastIndexOf("[");
+    return { parent: path.substring(0, index), key: path.slice(index + 1, -1) };
+  }
+  const separator = path.lastIndexOf(".");
+  return {
+    parent: separator === -1 ? "" : path.substring(0, separator),
+    key: path.substring(separator + 1),
+  };
+}
+
+function rowsOf(clause: string, alias: string, ordered: boolean): ItemRows {
+  return {
+    clauses: [clause],
+    conditions: [`${alias}.value IS NOT NULL`],
+    order: ordered ? [`CAST(${alias}.[key] AS INT)`] : [],
+    alias,
+  };
+}
+
+function jsonPath(relativePath: string): string {
+  return relativePath === "" ? "$" : `$.${relativePath}`;
+}
+
+/**
+ * Generates the aliases of OPENJSON rows, numbered after any already used
+ * within an expression so that they do not hide them.
+ */
+function aliasGenerator(sql: string): () => string {
+  const used = [...sql.matchAll(/\bitem(\d+)\b/g)].map((match) =>
+    Number(match[1]),
+  );
+  let next = used.length > 0 ? Math.max(...used) + 1 : 0;
+  return (): string => `item${next++}`;
+}
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for ViewDefinition constants of complex types, which are
+ * embedded as JSON and compared element by element.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { SqlOnFhir } from "../index";
+import type { ViewDefinitionConstant } from "../types";
+
+const TARGET_CODE = '\'{"system":"http://loinc.org","code":"1234-5"}\'';
+
+const constants: ViewDefinitionConstant[] = [
+  {
+    name: "targetCode",
+    valueCoding: { system: "http://loinc.org", code: "1234-5" },
+  },
+  {
+    name: "concept",
+    valueCodeableConcept: {
+      coding: [{ system: "http://loinc.org", code: "1234-5" }],
+      text: "Glucose",
+    },
+  },
+  {
+    name: "limit",
+    valueQuantity: {
+      value: 5,
+      system: "http://unitsofmeasure.org",
+      code: "mmol/L",
+    },
+  },
+  { name: "subject", valueReference: { reference: "Patient/1" } },
+];
+
+/**
+ * Transpile a single column of an Observation for the given FHIRPath
+ * expression, with the complex constants above.
+ *
+ * @param path - The FHIRPath expression to transpile.
+ * @returns The generated T-SQL.
+ */
+function transpilePath(path: string): string {
+  return new SqlOnFhir().transpile({
+    resource: "Observation",
+    status: "active",
+    constant: constants,
+    select: [{ column: [{ name: "x", path }] }],
+  }).sql;
+}
+
+describe("complex constants", () => {
+  it("are embedded as JSON", () => {
+    expect(transpilePath("%targetCode")).toContain(`${TARGET_CODE} AS [x]`);
+  });
+
+  it("can be navigated", () => {
+    expect(transpilePath("%targetCode.system")).toContain(
+      `JSON_VALUE(${TARGET_CODE}, '$.system') AS [x]`,
+    );
+    expect(transpilePath("%subject.reference")).toContain(
+      "JSON_VALUE('{\"reference\":\"Patient/1\"}', '$.reference') AS [x]",
+    );
+  });
+
+  it("can be navigated through repeating elements", () => {
+    const sql = transpilePath("%concept.coding.code");
+    expect(sql).toContain("'$.coding[0].code') AS [x]");
+  });
+
+  it("are compared element by element for equality", () => {
+    const sql = transpilePath("code.coding.first() = %targetCode");
+    expect(sql).toContain("AS leftItems JOIN");
+    expect(sql).toContain(
+      "CASE leaf.type WHEN 1 THEN leaf.value COLLATE Latin1_General_BIN2",
+    );
+    expect(sql).not.toContain(`= ${TARGET_CODE})`);
+  });
+
+  it("are sought element by element within collections", () => {
+    for (const path of [
+      "code.coding contains %targetCode",
+      "%targetCode in code.coding",
+    ]) {
+      const sql = transpilePath(path);
+      expect(sql).toContain(
+        `(CASE WHEN NOT EXISTS (SELECT 1 FROM (SELECT CONVERT(NVARCHAR(MAX), ${TARGET_CODE}) AS value, 1 AS type) AS item0`,
+      );
+      expect(sql).toContain("FROM OPENJSON(r.json, '$.code.coding') AS item1");
+    }
+  });
+
+  it("are compared element by element for equivalence", () => {
+    expect(transpilePath("code ~ %concept")).toContain(
+      "equivalence.firstType IN (4, 5) OR equivalence.secondType IN (4, 5)",
+    );
+  });
+
+  it("are compared as quantities", () => {
+    expect(transpilePath("value.ofType(Quantity) > %limit")).toContain(
+      'FROM (SELECT \'{"value":5,"system":"http://unitsofmeasure.org","code":"mmol/L"}\' AS q) AS input',
+    );
+  });
+
+  it("must have a single value", () => {
+    expect(() =>
+      new SqlOnFhir().transpile({
+        resource: "Observation",
+        status: "active",
+        constant: [
+          {
+            name: "both",
+            valueCoding: { code: "a" },
+            valueString: "a",
+          },
+        ],
+        select: [{ column: [{ name: "x", path: "%both" }] }],
+      }),
+    ).toThrow("must have exactly one value[x] element defined, but has 2");
+  });
+});
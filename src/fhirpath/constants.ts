@@ -0,0 +1,86 @@
+/**
+ * ViewDefinition constants of complex types, such as `valueCoding` and
+ * `valueQuantity`.
+ *
+ * A complex constant is embedded in the SQL as a JSON string literal, which
+ * is navigated like the JSON of a resource: the type of the constant gives
+ * the types and cardinality of its elements, so `%targetCode.system` is read
+ * from the literal with JSON_VALUE.
+ *
+ * @author John Grimes
+ */
+
+import type { ExpressionNode } from "./ir.js";
+import { quote } from "./stringFunctions.js";
+import { emitTSql } from "./tsqlEmitter.js";
+import type { TranspilerContext } from "./visitor.js";
+
+/**
+ * A constant of a complex type: the name of its FHIR type (e.g. `Coding`)
+ * and its JSON value.
+ */
+export interface ComplexConstant {
+  type: string;
+  value: object;
+}
+
+/**
+ * The value of a ViewDefinition constant.
+ */
+export type ConstantValue = string | number | boolean | null | ComplexConstant;
+
+/**
+ * Whether the value of a constant is of a complex type.
+ */
+export function isComplexConstant(
+  value: ConstantValue | undefined,
+): value is ComplexConstant {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * The JSON of a complex constant as a string literal.
+ *
+ * @param constant - The constant.
+ * @returns The transpiled constant.
+ */
+export function complexConstantLiteral(constant: ComplexConstant): string {
+  return quote(JSON.stringify(constant.value));
+}
+
+/**
+ * The FHIR type of the complex constant a transpiled expression embeds.
+ *
+ * @param context - The transpiler context holding the constants.
+ * @param sql - The transpiled expression.
+ * @returns The name of the type, or undefined if the expression is not a
+ *   complex constant.
+ */
+export function complexConstantType(
+  context: TranspilerContext,
+  sql: string,
+): string | undefined {
+  return Object.values(context.constants ?? {})
+    .filter(isComplexConstant)
+    .find((constant) => complexConstantLiteral(constant) === sql)?.type;
+}
+
+/**
+ * The complex constant an expression starts from, and the JSON path within
+ * it, e.g. `$.coding` for `%targetConcept.coding`.
+ *
+ * @param context - The transpiler context holding the constants.
+ * @param node - The transpiled expression.
+ * @returns The literal of the constant and the path, or null if the
+ *   expression does not start from a complex constant.
+ */
+export function complexConstantPath(
+  context: TranspilerContext,
+  node: ExpressionNode,
+): { literal: string; jsonPath: string } | null {
+  const [literal, jsonPath] =
+    node.kind === "path" ? [node.source, node.jsonPath] : [emitTSql(node), "$"];
+  return complexConstantType(context, literal) === undefined
+    ? null
+    : { literal, jsonPath };
+}
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for FHIRPath conversion functions.
+ *
+ * Conversions depend on the System type of their input, which is taken from
+ * literals, element definitions and the results of other expressions. Strings
+ * are checked against the lexical forms of the target type before being cast.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { transpilePath } from "../tests/utils/transpile";
+
+describe("toBoolean()", () => {
+  it("accepts the Boolean forms of strings regardless of case", () => {
+    expect(transpilePath("Observation", "valueString.toBoolean()")).toContain(
+      "LOWER(JSON_VALUE(r.json, '$.valueString')) IN ('true', 't', 'yes', 'y', '1', '1.0') THEN 1",
+    );
+  });
+
+  it("converts Integers of 1 and 0", () => {
+    expect(transpilePath("Observation", "valueInteger.toBoolean()")).toContain(
+      "(CASE WHEN JSON_VALUE(r.json, '$.valueInteger') = 1 THEN 1 WHEN JSON_VALUE(r.json, '$.valueInteger') = 0 THEN 0 END)",
+    );
+  });
+});
+
+describe("toInteger() and toDecimal()", () => {
+  it("cast strings only in the form of a number", () => {
+    const sql = transpilePath("Observation", "valueString.toInteger()");
+    expect(sql).toContain(
+      "STUFF(JSON_VALUE(r.json, '$.valueString'), 1, 1, '') NOT LIKE '%[^0-9]%'",
+    );
+    expect(sql).toContain(
+      "TRY_CAST(JSON_VALUE(r.json, '$.valueString') AS INT)",
+    );
+  });
+
+  it("type their results for arithmetic", () => {
+    expect(transpilePath("Observation", "'7'.toInteger() div 2")).toMatch(
+      /^SELECT\s+\(\(CASE WHEN .+ THEN TRY_CAST\('7' AS INT\) END\) \/ 2\)/,
+    );
+  });
+
+  it("are empty for values that never convert", () => {
+    expect(
+      transpilePath("Observation", "valueQuantity.value.toInteger()"),
+    ).toMatch(/^SELECT\s+NULL AS \[x\]/);
+  });
+});
+
+describe("toString()", () => {
+  it("returns numbers read from JSON as their text", () => {
+    expect(transpilePath("Observation", "valueInteger.toString()")).toMatch(
+      /^SELECT\s+JSON_VALUE\(r\.json, '\$\.valueInteger'\) AS \[x\]/,
+    );
+  });
+
+  it("converts Boolean conditions to text", () => {
+    expect(
+      transpilePath("Observation", "(status = 'final').toString()"),
+    ).toContain(
+      "THEN 'true' WHEN NOT (JSON_VALUE(r.json, '$.status') = 'final') THEN 'false' END",
+    );
+  });
+
+  it("writes quantities with their unit in quotes", () => {
+    expect(transpilePath("Observation", "valueQuantity.toString()")).toContain(
+      "COALESCE('''' + JSON_VALUE(JSON_QUERY(r.json, '$.valueQuantity'), '$.code') + ''''",
+    );
+  });
+});
+
+describe("date and time conversions", () => {
+  it("accept partial dates", () => {
+    const sql = transpilePath("Observation", "valueString.toDate()");
+    expect(sql).toContain(
+      "JSON_VALUE(r.json, '$.valueString') LIKE '[0-9][0-9][0-9][0-9]'",
+    );
+    expect(sql).toContain(
+      "TRY_CONVERT(DATE, JSON_VALUE(r.json, '$.valueString') + '-01', 23) IS NOT NULL",
+    );
+  });
+
+  it("are empty for dates that do not exist", () => {
+    expect(transpilePath("Observation", "'2019-02-30'.toDate()")).toContain(
+      "('2019-02-30' LIKE '[0-9][0-9][0-9][0-9]-[01][0-9]-[0-3][0-9]' AND TRY_CONVERT(DATE, '2019-02-30', 23) IS NOT NULL)) THEN '2019-02-30' END) AS [x]",
+    );
+  });
+
+  it("take the date of a date time", () => {
+    expect(
+      transpilePath("Observation", "effectiveDateTime.toDate()"),
+    ).toContain("LEFT(JSON_VALUE(r.json, '$.effectiveDateTime'), 10)");
+  });
+});
+
+describe("convertsTo*()", () => {
+  it("is empty for empty input and false for values that do not convert", () => {
+    expect(
+      transpilePath("Observation", "valueString.convertsToDecimal()"),
+    ).toMatch(
+      /^SELECT\s+CAST\(CASE WHEN \(CASE WHEN JSON_VALUE\(r\.json, '\$\.valueString'\) IS NULL THEN NULL WHEN .+ IS NOT NULL THEN 1 ELSE 0 END = 1\)/,
+    );
+  });
+
+  it("is true for any value converting to a String", () => {
+    expect(
+      transpilePath("Observation", "valueInteger.convertsToString()"),
+    ).toContain(
+      "(CASE WHEN JSON_VALUE(r.json, '$.valueInteger') IS NULL THEN NULL ELSE 1 END = 1)",
+    );
+  });
+});
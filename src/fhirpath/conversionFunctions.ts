@@ -0,0 +1,442 @@
+/**
+ * FHIRPath conversion functions: `toBoolean()`, `toInteger()`, `toDecimal()`,
+ * `toString()`, `toDate()`, `toDateTime()`, `toTime()` and `toQuantity()`,
+ * along with the `convertsTo*()` function that tests each conversion.
+ *
+ * A conversion depends on the System type of its input. Strings are accepted
+ * in the lexical forms FHIRPath defines for each type, e.g. 'yes' and '0' for
+ * Booleans and partial dates such as '2019-02'. Where the type of the input is
+ * not known it is treated as a String, whose forms include those of the other
+ * primitive types. Strings are checked against these forms before being cast
+ * with `TRY_CAST` or `TRY_CONVERT`, so a value that cannot be converted gives
+ * an empty result (and `convertsTo*()` is false) rather than a SQL error.
+ *
+ * Dates, date times and times are represented by their text, as they are in
+ * JSON. Quantities are FHIR Quantity objects, marked by JSON_QUERY.
+ *
+ * @author John Grimes
+ */
+
+import { type ExpressionNode, isJsonText } from "./ir.js";
+import { DECIMAL_SQL_TYPE, numericValue } from "./mathFunctions.js";
+import { convertQuantity } from "./quantityFunctions.js";
+import {
+  type LibraryFunction,
+  quote,
+  stringLiteral,
+} from "./stringFunctions.js";
+import { emitTSql } from "./tsqlEmitter.js";
+
+/**
+ * A transpiled expression with the System type of its values (e.g.
+ * `Integer`), or null if the type is not known, and the node it was rendered
+ * from, where its structure is consulted.
+ */
+export interface TypedValue {
+  sql: string;
+  type: string | null;
+  node?: ExpressionNode;
+}
+
+/**
+ * Transpiles a conversion of a value to the value of the target type, or to
+ * NULL where no value of the input type converts. Quantities may be converted
+ * to a unit.
+ */
+type Converter = (input: TypedValue, unit?: string) => string;
+
+/**
+ * The strings accepted as true and false by `toBoolean()`, compared without
+ * regard to case.
+ */
+const BOOLEAN_STRINGS = {
+  true: ["true", "t", "yes", "y", "1", "1.0"],
+  false: ["false", "f", "no", "n", "0", "0.0"],
+};
+
+/**
+ * The calendar duration units that may follow the number of a quantity
+ * string without quotes, e.g. '4 days'.
+ */
+const CALENDAR_UNITS = [
+  "year",
+  "years",
+  "month",
+  "months",
+  "week",
+  "weeks",
+  "day",
+  "days",
+  "hour",
+  "hours",
+  "minute",
+  "minutes",
+  "second",
+  "seconds",
+  "millisecond",
+  "milliseconds",
+];
+
+/**
+ * The code system of units within quantities.
+ */
+const UCUM_SYSTEM = "'http://unitsofmeasure.org'";
+
+/**
+ * Matches an expression that may be repeated within a conversion, rather
+ * than being evaluated once within a subquery: a JSON value or a literal.
+ */
+const SIMPLE_VALUE =
+  /^(?:JSON_(?:VALUE|QUERY)\([^()]*\)|N?'(?:[^']|'')*'|-?\d+(?:\.\d+)?)$/;
+
+const YEAR = "[0-9][0-9][0-9][0-9]";
+const MONTH = `${YEAR}-[01][0-9]`;
+const DAY = `${MONTH}-[0-3][0-9]`;
+const HOUR = "[0-2][0-9]";
+const MINUTE = `${HOUR}:[0-5][0-9]`;
+const SECOND = `${MINUTE}:[0-5][0-9]`;
+
+/**
+ * The SQL of a quantity of one (unitless), for Booleans and numbers converted
+ * to quantities.
+ */
+const UNITY = "'1'";
+
+const CONVERTERS = new Map<string, Converter>([
+  ["Boolean", toBoolean],
+  ["Integer", toInteger],
+  ["Decimal", toDecimal],
+  ["String", toString],
+  ["Date", toDate],
+  ["DateTime", toDateTime],
+  ["Time", toTime],
+  ["Quantity", toQuantity],
+]);
+
+export const CONVERSION_FUNCTIONS: Record<
+  string,
+  LibraryFunction<TypedValue>
+> = Object.fromEntries(
+  [...CONVERTERS].flatMap(([type, converter]) => {
+    const maxArgs = type === "Quantity" ? 1 : 0;
+    return [
+      [
+        `to${type}`,
+        {
+          minArgs: 0,
+          maxArgs,
+          sql: (input, [unit]): TypedValue =>
+            conversion(type, converter(normalise(input), unit?.sql)),
+        },
+      ],
+      [
+        `convertsTo${type}`,
+        {
+          minArgs: 0,
+          maxArgs,
+          sql: (input, [unit]): TypedValue => {
+            const value = normalise(input);
+            return {
+              sql: convertsTo(value.sql, converter(value, unit?.sql)),
+              type: "Boolean",
+            };
+          },
+        },
+      ],
+    ];
+  }),
+);
+
+/**
+ * A Quantity read with JSON_VALUE, which is empty for objects, read with
+ * JSON_QUERY instead.
+ */
+function normalise(input: TypedValue): TypedValue {
+  const { type, node } = input;
+  return type === "Quantity" && node?.kind === "path"
+    ? { ...input, sql: emitTSql({ ...node, isJson: true }) }
+    : input;
+}
+
+/**
+ * The result of a conversion. Booleans are returned as conditions, like other
+ * Boolean expressions.
+ */
+function conversion(type: string, value: string): TypedValue {
+  return { sql: type === "Boolean" ? `(${value} = 1)` : value, type };
+}
+
+/**
+ * Whether a value converts: empty if the value is empty, otherwise whether
+ * its conversion is not empty.
+ */
+function convertsTo(input: string, converted: string): string {
+  if (converted === input) {
+    return `(CASE WHEN ${input} IS NULL THEN NULL ELSE 1 END = 1)`;
+  }
+  const test =
+    converted === "NULL" ? "" : ` WHEN ${converted} IS NOT NULL THEN 1`;
+  return `(CASE WHEN ${input} IS NULL THEN NULL${test} ELSE 0 END = 1)`;
+}
+
+/**
+ * Build an expression that refers to a value several times. A value other
+ * than a JSON value or literal is evaluated once, within a subquery.
+ */
+function withValue(sql: string, body: (value: string) => string): string {
+  return SIMPLE_VALUE.test(sql)
+    ? body(sql)
+    : `(SELECT ${body("input.v")} FROM (SELECT ${sql} AS v) AS input)`;
+}
+
+/**
+ * Booleans convert to 1 and 0, as do the Integers and Decimals 1 and 0 and
+ * the strings in {@link BOOLEAN_STRINGS}.
+ */
+function toBoolean({ sql, type }: TypedValue): string {
+  if (type === "Integer" || type === "Decimal") {
+    return `(CASE WHEN ${sql} = 1 THEN 1 WHEN ${sql} = 0 THEN 0 END)`;
+  }
+  if (type === "Boolean") {
+    return `(CASE WHEN ${sql} = 'true' THEN 1 WHEN ${sql} = 'false' THEN 0 END)`;
+  }
+  if (type !== "String" && type !== null) {
+    return "NULL";
+  }
+  return withValue(
+    sql,
+    (value) =>
+      `(CASE WHEN LOWER(${value}) IN (${list(BOOLEAN_STRINGS.true)}) THEN 1 WHEN LOWER(${value}) IN (${list(BOOLEAN_STRINGS.false)}) THEN 0 END)`,
+  );
+}
+
+/**
+ * Integers convert as they are, Booleans to 1 and 0, and strings of digits
+ * with an optional sign to the Integer they represent.
+ */
+function toInteger({ sql, type, node }: TypedValue): string {
+  switch (type) {
+    case "Integer":
+      return numericValue({
+        sql,
+        type: "integer",
+        isText: node !== undefined && isJsonText(node),
+      });
+    case "Boolean":
+      return `(CASE WHEN ${sql} = 'true' THEN 1 WHEN ${sql} = 'false' THEN 0 END)`;
+    case "String":
+    case null:
+      return withValue(
+        sql,
+        (value) =>
+          `(CASE WHEN ${integerForm(value)} THEN TRY_CAST(${value} AS INT) END)`,
+      );
+    default:
+      return "NULL";
+  }
+}
+
+/**
+ * Integers and Decimals convert to Decimals, Booleans to 1.0 and 0.0, and
+ * strings of digits with an optional sign and decimal part to the Decimal
+ * they represent.
+ */
+function toDecimal({ sql, type }: TypedValue): string {
+  switch (type) {
+    case "Integer":
+    case "Decimal":
+      return `CAST(${sql} AS ${DECIMAL_SQL_TYPE})`;
+    case "Boolean":
+      return `(CASE WHEN ${sql} = 'true' THEN 1.0 WHEN ${sql} = 'false' THEN 0.0 END)`;
+    case "String":
+    case null:
+      return withValue(
+        sql,
+        (value) =>
+          `(CASE WHEN ${decimalForm(value)} THEN TRY_CAST(${value} AS ${DECIMAL_SQL_TYPE}) END)`,
+      );
+    default:
+      return "NULL";
+  }
+}
+
+/**
+ * Every primitive value converts to its text, as does a Quantity, to its value
+ * followed by its unit in quotes (`4.5 'mg'`), or by its calendar unit
+ * (`4 days`).
+ */
+function toString({ sql, type }: TypedValue): string {
+  if (type === "Quantity") {
+    return withValue(
+      sql,
+      (value) =>
+        `(JSON_VALUE(${value}, '$.value') + ' ' + COALESCE('''' + JSON_VALUE(${value}, '$.code') + '''', JSON_VALUE(${value}, '$.unit')))`,
+    );
+  }
+  if (type !== "Integer" && type !== "Decimal") {
+    return sql;
+  }
+  if (/^-?\d+(?:\.\d+)?$/.test(sql)) {
+    return quote(sql);
+  }
+  // Numbers read from JSON are already text
+  return /^JSON_VALUE\([^()]*\)$/.test(sql)
+    ? sql
+    : `CONVERT(NVARCHAR(MAX), ${sql})`;
+}
+
+/**
+ * Dates convert as they are, date times to their date, and strings in the
+ * form `YYYY`, `YYYY-MM` or `YYYY-MM-DD` to the (partial) date they represent.
+ */
+function toDate({ sql, type }: TypedValue): string {
+  switch (type) {
+    case "Date":
+      return sql;
+    case "DateTime":
+      return `LEFT(${sql}, 10)`;
+    case "String":
+    case null:
+      return withValue(
+        sql,
+        (value) => `(CASE WHEN ${dateForm(value)} THEN ${value} END)`,
+      );
+    default:
+      return "NULL";
+  }
+}
+
+/**
+ * Dates and date times convert as they are, and strings to the (partial) date
+ * time they represent, e.g. `2019-02-04T14:34:28.123+10:00`. The time of day
+ * may be given to the hour, minute, second or fraction of a second, and a
+ * time zone may follow it.
+ */
+function toDateTime({ sql, type }: TypedValue): string {
+  if (type === "Date" || type === "DateTime") {
+    return sql;
+  }
+  if (type !== "String" && type !== null) {
+    return "NULL";
+  }
+  const rest = "SUBSTRING(input.v, 12, 100)";
+  const time = `(CASE WHEN ${rest} LIKE '%Z' THEN LEFT(${rest}, LEN(${rest}) - 1) WHEN ${rest} LIKE '%[+-]${MINUTE}' THEN LEFT(${rest}, LEN(${rest}) - 6) ELSE ${rest} END)`;
+  return `(SELECT CASE WHEN ${dateForm("input.v")} OR (input.v LIKE '${DAY}T%' AND ${dateForm("LEFT(input.v, 10)")} AND ${timeForm("localTime.t")}) THEN input.v END FROM (SELECT ${sql} AS v) AS input CROSS APPLY (SELECT ${time} AS t) AS localTime)`;
+}
+
+/**
+ * Times convert as they are, and strings in the form `hh:mm:ss.fff` (to any
+ * precision) to the time they represent.
+ */
+function toTime({ sql, type }: TypedValue): string {
+  if (type === "Time") {
+    return sql;
+  }
+  return type === "String" || type === null
+    ? withValue(
+        sql,
+        (value) => `(CASE WHEN ${timeForm(value)} THEN ${value} END)`,
+      )
+    : "NULL";
+}
+
+/**
+ * Quantities convert as they are, Integers, Decimals and Booleans to
+ * quantities with the unit '1', and strings such as `4.5 'mg'` and `4 days`
+ * to the quantity they represent. Where a unit is given, quantities in
+ * compatible units are converted to it, so `1 'g'.toQuantity('mg')` is
+ * `1000 'mg'`; a unit that is not recognised only matches quantities in that
+ * unit.
+ */
+function toQuantity(input: TypedValue, unit?: string): string {
+  const quantity = quantityOf(input);
+  if (unit === undefined || quantity === "NULL") {
+    return quantity;
+  }
+  const target = stringLiteral(unit);
+  const converted =
+    target === null
+      ? null
+      : convertQuantity(
+          input.type === "Quantity"
+            ? input
+            : { sql: quantity, type: "Quantity" },
+          target,
+        );
+  if (converted !== null) {
+    return converted;
+  }
+  return `JSON_QUERY((SELECT quantity.v FROM (SELECT ${quantity} AS v) AS quantity WHERE COALESCE(JSON_VALUE(quantity.v, '$.code'), JSON_VALUE(quantity.v, '$.unit')) = ${unit}))`;
+}
+
+function quantityOf({ sql, type }: TypedValue): string {
+  switch (type) {
+    case "Quantity":
+      return sql;
+    case "Integer":
+    case "Decimal":
+    case "Boolean":
+      return unitQuantity(toDecimal({ sql, type }));
+    case "String":
+    case null:
+      return parseQuantity(sql);
+    default:
+      return "NULL";
+  }
+}
+
+/**
+ * A quantity of a number with the unit '1'.
+ */
+function unitQuantity(value: string): string {
+  return `JSON_QUERY((SELECT ${value} AS [value], ${UNITY} AS unit, ${UCUM_SYSTEM} AS system, ${UNITY} AS code WHERE ${value} IS NOT NULL FOR JSON PATH, WITHOUT_ARRAY_WRAPPER))`;
+}
+
+/**
+ * Parse a quantity string: a number, then optionally a UCUM unit in quotes or
+ * a calendar duration unit.
+ */
+function parseQuantity(sql: string): string {
+  const unit = "quantityUnit.u";
+  const code = `(CASE WHEN ${unit} = '' THEN ${UNITY} WHEN ${unit} LIKE '''_%''' THEN SUBSTRING(${unit}, 2, LEN(${unit}) - 2) END)`;
+  const calendar = `${unit} IN (${list(CALENDAR_UNITS)})`;
+  return `JSON_QUERY((SELECT TRY_CAST(quantityNumber.n AS ${DECIMAL_SQL_TYPE}) AS [value], COALESCE(${code}, ${unit}) AS unit, IIF(${calendar}, NULL, ${UCUM_SYSTEM}) AS system, ${code} AS code FROM (SELECT ${sql} AS v) AS input CROSS APPLY (SELECT LEFT(input.v, PATINDEX('%[^0-9.+-]%', input.v + ' ') - 1) AS n) AS quantityNumber CROSS APPLY (SELECT LTRIM(STUFF(input.v, 1, LEN(quantityNumber.n), '')) AS u) AS quantityUnit WHERE ${decimalForm("quantityNumber.n")} AND (${code} IS NOT NULL OR ${calendar}) FOR JSON PATH, WITHOUT_ARRAY_WRAPPER))`;
+}
+
+/**
+ * Whether a string is an Integer: digits with an optional sign.
+ */
+function integerForm(value: string): string {
+  return `${signedNumber(value)} AND STUFF(${value}, 1, 1, '') NOT LIKE '%[^0-9]%'`;
+}
+
+/**
+ * Whether a string is a Decimal: digits with an optional sign and an
+ * optional decimal part.
+ */
+function decimalForm(value: string): string {
+  return `${signedNumber(value)} AND STUFF(${value}, 1, 1, '') NOT LIKE '%[^0-9.]%' AND ${value} NOT LIKE '%.%.%' AND ${value} NOT LIKE '%.'`;
+}
+
+function signedNumber(value: string): string {
+  return `(${value} LIKE '[0-9]%' OR ${value} LIKE '[+-][0-9]%')`;
+}
+
+/**
+ * Whether a string is a (partial) date that exists.
+ */
+function dateForm(value: string): string {
+  return `(${value} LIKE '${YEAR}' OR (${value} LIKE '${MONTH}' AND TRY_CONVERT(DATE, ${value} + '-01', 23) IS NOT NULL) OR (${value} LIKE '${DAY}' AND TRY_CONVERT(DATE, ${value}, 23) IS NOT NULL))`;
+}
+
+/**
+ * Whether a string is a (partial) time of day. Hours before 24 sort before
+ * '24'.
+ */
+function timeForm(value: string): string {
+  return `(${value} < '24' AND (${value} LIKE '${HOUR}' OR ${value} LIKE '${MINUTE}' OR ${value} LIKE '${SECOND}' OR (${value} LIKE '${SECOND}.[0-9]%' AND SUBSTRING(${value}, 10, 100) NOT LIKE '%[^0-9]%')))`;
+}
+
+function list(values: string[]): string {
+  return values.map((value) => `'${value}'`).join(", ");
+}
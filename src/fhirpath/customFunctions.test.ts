@@ -0,0 +1,192 @@
+/**
+ * Unit tests for custom FHIRPath functions registered with the query
+ * generator.
+ *
+ * Each function is transpiled by its emitter from its transpiled input and
+ * arguments, and its calls are type checked against its signatures. Built-in
+ * functions are replaced only where a function is registered to override
+ * them.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { type CustomFunction, SqlOnFhir } from "../index";
+import type { ViewDefinitionSelect } from "../types";
+
+/**
+ * The IHI of an Australian patient, from their identifiers.
+ */
+const AU_IHI: CustomFunction = {
+  name: "auIhi",
+  minArgs: 0,
+  maxArgs: 0,
+  signatures: [{ input: "Identifier", args: [], result: "string" }],
+  emit: (_args, { input }) =>
+    `(SELECT TOP 1 JSON_VALUE(i.value, '$.value') FROM OPENJSON(${input}) AS i WHERE JSON_VALUE(i.value, '$.system') = 'http://ns.electronichealth.net.au/id/hi/ihi/1.0')`,
+};
+
+/**
+ * The age of a patient in whole years at a date.
+ */
+const AGE_AT: CustomFunction = {
+  name: "ageAt",
+  minArgs: 1,
+  maxArgs: 1,
+  signatures: [{ input: "Patient", args: ["date"], result: "integer" }],
+  emit: ([date], { iterationContext }) =>
+    `DATEDIFF(YEAR, JSON_VALUE(${iterationContext}, '$.birthDate'), ${date})`,
+};
+
+/**
+ * Whether a patient is an adult, as a condition.
+ */
+const IS_ADULT: CustomFunction = {
+  name: "isAdult",
+  minArgs: 0,
+  maxArgs: 0,
+  signatures: [{ input: "Patient", args: [], result: "boolean" }],
+  emit: (_args, { iterationContext }) =>
+    `(DATEDIFF(YEAR, JSON_VALUE(${iterationContext}, '$.birthDate'), GETDATE()) >= 18)`,
+};
+
+/**
+ * A view of patients.
+ */
+function patientView(select: ViewDefinitionSelect[], extra: object = {}) {
+  return {
+    resourceType: "ViewDefinition",
+    status: "active",
+    resource: "Patient",
+    select,
+    ...extra,
+  };
+}
+
+/**
+ * Transpile a single column for the given FHIRPath expression.
+ *
+ * @param path - The FHIRPath expression to transpile.
+ * @param functions - The custom functions registered.
+ * @returns The generated T-SQL.
+ */
+function transpilePath(
+  path: string,
+  functions: CustomFunction[] = [AU_IHI, AGE_AT, IS_ADULT],
+): string {
+  return new SqlOnFhir({ functions }).transpile(
+    patientView([{ column: [{ name: "x", path }] }]),
+  ).sql;
+}
+
+describe("custom functions", () => {
+  it("are emitted on the input they are invoked on", () => {
+    expect(transpilePath("identifier.auIhi()")).toContain(
+      "FROM OPENJSON(JSON_QUERY(r.json, '$.identifier')) AS i WHERE",
+    );
+  });
+
+  it("receive their transpiled arguments and the iteration context", () => {
+    expect(transpilePath("ageAt(@2024-01-01)")).toContain(
+      "DATEDIFF(YEAR, JSON_VALUE(r.json, '$.birthDate'), '2024-01-01')",
+    );
+    const sql = new SqlOnFhir({ functions: [AGE_AT] }).transpile(
+      patientView([
+        {
+          forEach: "contact",
+          column: [{ name: "age", path: "%resource.ageAt(@2024-01-01)" }],
+        },
+      ]),
+    ).sql;
+    expect(sql).toContain("DATEDIFF(YEAR, JSON_VALUE(forEach_0.value");
+  });
+
+  it("are read as conditions where their result is Boolean", () => {
+    const sql = new SqlOnFhir({ functions: [IS_ADULT] }).transpile(
+      patientView([{ column: [{ name: "id", path: "id" }] }], {
+        where: [{ path: "isAdult() and active" }],
+      }),
+    ).sql;
+    expect(sql).toContain(
+      "(((DATEDIFF(YEAR, JSON_VALUE(r.json, '$.birthDate'), GETDATE()) >= 18) AND",
+    );
+  });
+
+  it("must be called with the number of arguments they take", () => {
+    expect(() => transpilePath("ageAt()")).toThrow(
+      "ageAt() function requires 1 argument",
+    );
+  });
+});
+
+describe("registration", () => {
+  it("fails for the name of a built-in function unless overridden", () => {
+    const upper: CustomFunction = {
+      ...AU_IHI,
+      name: "upper",
+      emit: (_args, { value }) =>
+        `UPPER(${value} COLLATE Latin1_General_CI_AS)`,
+    };
+    expect(() => new SqlOnFhir({ functions: [upper] })).toThrow(
+      "Function 'upper' is built in: register it with override: true to replace it",
+    );
+    expect(
+      transpilePath("name.family.upper()", [{ ...upper, override: true }]),
+    ).toContain(
+      "UPPER(JSON_VALUE(r.json, '$.name[0].family') COLLATE Latin1_General_CI_AS)",
+    );
+  });
+
+  it("fails for functions registered twice or with an invalid arity", () => {
+    expect(() => new SqlOnFhir({ functions: [AU_IHI, AU_IHI] })).toThrow(
+      "Function 'auIhi' is registered more than once",
+    );
+    expect(
+      () => new SqlOnFhir({ functions: [{ ...AGE_AT, maxArgs: 0 }] }),
+    ).toThrow("Function 'ageAt' has an invalid arity");
+  });
+});
+
+describe("type checking", () => {
+  it("infers the type of a call from the signature that accepts it", () => {
+    expect(
+      new SqlOnFhir({ functions: [AU_IHI, AGE_AT] }).check(
+        patientView([
+          {
+            column: [
+              { name: "ihi", path: "identifier.auIhi()", type: "string" },
+              { name: "age", path: "ageAt(@2024-01-01)", type: "string" },
+            ],
+          },
+        ]),
+      ),
+    ).toMatchObject([
+      {
+        code: "column-type",
+        message:
+          "Column 'age' is declared as string, but its path is of type integer",
+      },
+    ]);
+  });
+
+  it("reports calls that no signature accepts", () => {
+    expect(
+      new SqlOnFhir({ functions: [AU_IHI] }).check(
+        patientView([
+          {
+            column: [{ name: "ihi", path: "name.auIhi()", collection: true }],
+          },
+        ]),
+      ),
+    ).toEqual([
+      {
+        severity: "error",
+        code: "function-signature",
+        message:
+          "auIhi() cannot be called on HumanName with arguments (): its signatures are Identifier.auIhi(): string",
+        pointer: "/select/0/column/0/path",
+        range: { start: 5, end: 12 },
+      },
+    ]);
+  });
+});
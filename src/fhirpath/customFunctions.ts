@@ -0,0 +1,216 @@
+/**
+ * Custom FHIRPath functions, registered with the query generator to provide
+ * site-specific helpers (e.g. `auIhi()` to extract an Australian IHI) or to
+ * replace the functions it supports.
+ *
+ * Each function gives the numbers of arguments it takes, the types of the
+ * inputs and arguments it accepts and of the result it returns for them, and
+ * an emitter that builds its T-SQL from its transpiled arguments. The type
+ * checker infers the type of a call from its signatures, and the transpiler
+ * reads a call of a function with a Boolean result as a condition.
+ *
+ * @author John Grimes
+ */
+
+import type { FhirTypeModel } from "../typeModel/index.js";
+import { COLLECTION_FUNCTIONS } from "./collectionFunctions.js";
+import { CONVERSION_FUNCTIONS } from "./conversionFunctions.js";
+import { MATH_FUNCTIONS } from "./mathFunctions.js";
+import { regexFunctions } from "./regexFunctions.js";
+import { STRING_FUNCTIONS } from "./stringFunctions.js";
+import { temporalFunctions } from "./temporalFunctions.js";
+import { terminologyFunctions } from "./terminologyFunctions.js";
+
+/**
+ * The types of an input and arguments a function accepts, and the type of its
+ * result for them.
+ */
+export interface FunctionSignature {
+  /** The FHIR type of the items of the input, or null for any input. */
+  input: string | null;
+  /** The FHIR types of the arguments, in order. */
+  args: string[];
+  /** The FHIR type of the result, e.g. `string` or `boolean`. */
+  result: string;
+  /** Whether the result may have several items. Default: false. */
+  collection?: boolean;
+}
+
+/**
+ * Where a custom function is called, as given to its emitter.
+ */
+export interface FunctionCallContext {
+  /**
+   * The transpiled input: the expression the function is invoked on (e.g.
+   * `JSON_QUERY(r.json, '$.identifier')`), or the item being iterated where
+   * it begins the expression.
+   */
+  input: string;
+  /** The first item of the input, for functions of a single value. */
+  value: string;
+  /**
+   * The JSON of the item the expression is evaluated against: the item of
+   * the enclosing `forEach` or function criteria, or the resource.
+   */
+  iterationContext: string;
+  /** The alias of the resources table, whose `json` column holds each. */
+  resourceAlias: string;
+}
+
+/**
+ * A function registered with the query generator.
+ */
+export interface CustomFunction {
+  /** The name it is called by, e.g. `ageAt`. */
+  name: string;
+  /** The minimum number of arguments. */
+  minArgs: number;
+  /** The maximum number of arguments. */
+  maxArgs: number;
+  /**
+   * The signatures it may be called with. Calls are type checked against
+   * them, and the type of the result of the first that accepts a call is the
+   * type of the call.
+   */
+  signatures: FunctionSignature[];
+  /**
+   * Build the T-SQL of a call from its transpiled arguments: a condition
+   * where its result is Boolean, and otherwise a scalar expression, or a JSON
+   * array (by JSON_QUERY) where its result is a collection.
+   */
+  emit: (args: string[], call: FunctionCallContext) => string;
+  /**
+   * Whether it replaces the function of the same name the transpiler
+   * supports. Without it, registering a function of that name fails, so that
+   * built-in functions are replaced only deliberately.
+   */
+  override?: boolean;
+}
+
+/**
+ * The custom functions registered with a query generator, by name.
+ */
+export type FunctionRegistry = ReadonlyMap<string, CustomFunction>;
+
+/**
+ * The functions the transpiler supports other than by a library.
+ */
+const TRANSPILED_FUNCTIONS = [
+  "exists",
+  "empty",
+  "first",
+  "last",
+  "count",
+  "join",
+  "where",
+  "select",
+  "all",
+  "ofType",
+  "is",
+  "as",
+  "type",
+  "not",
+  "extension",
+  "lowBoundary",
+  "highBoundary",
+  "getResourceKey",
+  "getReferenceKey",
+  "resolve",
+  "iif",
+  "repeat",
+  "aggregate",
+  "defineVariable",
+];
+
+/**
+ * The names of the functions the transpiler supports.
+ */
+export const BUILT_IN_FUNCTIONS: ReadonlySet<string> = new Set([
+  ...TRANSPILED_FUNCTIONS,
+  ...Object.keys(STRING_FUNCTIONS),
+  ...Object.keys(regexFunctions()),
+  ...Object.keys(MATH_FUNCTIONS),
+  ...Object.keys(COLLECTION_FUNCTIONS),
+  ...Object.keys(CONVERSION_FUNCTIONS),
+  ...Object.keys(temporalFunctions()),
+  ...Object.keys(terminologyFunctions()),
+]);
+
+/**
+ * Register custom functions, checking that each is well formed.
+ *
+ * @param functions - The functions to register.
+ * @returns The functions, by name.
+ * @throws If a function is registered twice, has an invalid name, arity or
+ *   signature, or has the name of a built-in function it does not override.
+ */
+export function functionRegistry(
+  functions: CustomFunction[],
+): FunctionRegistry {
+  const registry = new Map<string, CustomFunction>();
+  for (const fn of functions) {
+    validateFunction(fn);
+    if (registry.has(fn.name)) {
+      throw new Error(`Function '${fn.name}' is registered more than once`);
+    }
+    registry.set(fn.name, fn);
+  }
+  return registry;
+}
+
+function validateFunction(fn: CustomFunction): void {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(fn.name)) {
+    throw new Error(`Invalid function name '${fn.name}'`);
+  }
+  if (BUILT_IN_FUNCTIONS.has(fn.name) && fn.override !== true) {
+    throw new Error(
+      `Function '${fn.name}' is built in: register it with override: true to replace it`,
+    );
+  }
+  if (
+    !Number.isInteger(fn.minArgs) ||
+    !Number.isInteger(fn.maxArgs) ||
+    fn.minArgs < 0 ||
+    fn.maxArgs < fn.minArgs
+  ) {
+    throw new Error(
+      `Function '${fn.name}' has an invalid arity: ${fn.minArgs} to ${fn.maxArgs} arguments`,
+    );
+  }
+  const invalid = fn.signatures.find(
+    (signature) =>
+      signature.args.length < fn.minArgs || signature.args.length > fn.maxArgs,
+  );
+  if (invalid) {
+    throw new Error(
+      `Function '${fn.name}' has a signature of ${invalid.args.length} arguments, outside its arity`,
+    );
+  }
+}
+
+/**
+ * The first signature of a function that accepts a call, given the FHIR types
+ * of its input and arguments. A type that is not known is accepted.
+ *
+ * @returns The signature, or null if none accepts the call.
+ */
+export function matchingSignature(
+  fn: CustomFunction,
+  input: string | null,
+  args: (string | null)[],
+  model: FhirTypeModel,
+): FunctionSignature | null {
+  const accepts = (declared: string | null, actual: string | null): boolean =>
+    declared === null ||
+    actual === null ||
+    declared === actual ||
+    (model.hasType(actual) && model.isSubtypeOf(actual, declared));
+  return (
+    fn.signatures.find(
+      (signature) =>
+        signature.args.length === args.length &&
+        accepts(signature.input, input) &&
+        signature.args.every((type, index) => accepts(type, args[index])),
+    ) ?? null
+  );
+}
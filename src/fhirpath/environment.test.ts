@@ -0,0 +1,203 @@
+/**
+ * Unit tests for the FHIRPath environment variables and the variables given
+ * to the query generator.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { SqlOnFhir } from "../index";
+import { transpilePath } from "../tests/utils/transpile";
+
+describe("environment variables", () => {
+  it("address the resource being viewed", () => {
+    expect(transpilePath("Observation", "%resource.id")).toContain(
+      "JSON_VALUE(r.json, '$.id') AS [x]",
+    );
+    expect(transpilePath("Observation", "%rootResource.id")).toContain(
+      "JSON_VALUE(r.json, '$.id') AS [x]",
+    );
+  });
+
+  it("address the contained resource being iterated", () => {
+    const sql = new SqlOnFhir().transpile({
+      resource: "Observation",
+      status: "active",
+      select: [
+        {
+          forEach: "contained",
+          column: [
+            { name: "resource_id", path: "%resource.id" },
+            { name: "root_id", path: "%rootResource.id" },
+          ],
+        },
+      ],
+    }).sql;
+    expect(sql).toContain(
+      "JSON_VALUE(forEach_0.value, '$.id') AS [resource_id]",
+    );
+    expect(sql).toContain("JSON_VALUE(r.json, '$.id') AS [root_id]");
+  });
+
+  it("address the context of the expression", () => {
+    expect(transpilePath("Observation", "%context.status")).toContain(
+      "JSON_VALUE(r.json, '$.status') AS [x]",
+    );
+    expect(
+      transpilePath(
+        "Observation",
+        "code.coding.where(%context.status = 'final').code",
+      ),
+    ).toContain("WHERE (JSON_VALUE(r.json, '$.status') = 'final')");
+  });
+
+  it("name the usual code systems", () => {
+    expect(transpilePath("Observation", "%ucum")).toContain(
+      "'http://unitsofmeasure.org'",
+    );
+    expect(transpilePath("Observation", "%sct")).toContain(
+      "'http://snomed.info/sct'",
+    );
+    expect(
+      transpilePath("Observation", "code.coding.where(system = %loinc).code"),
+    ).toContain("= 'http://loinc.org'");
+  });
+
+  it("name HL7 value sets and extensions", () => {
+    expect(
+      transpilePath("Observation", "%`vs-administrative-gender`"),
+    ).toContain("'http://hl7.org/fhir/ValueSet/administrative-gender'");
+    expect(transpilePath("Observation", "%`ext-patient-birthTime`")).toContain(
+      "'http://hl7.org/fhir/StructureDefinition/patient-birthTime'",
+    );
+  });
+
+  it("reject unknown variables", () => {
+    expect(() => transpilePath("Observation", "%missing")).toThrow(
+      "Variable '%missing' is not defined",
+    );
+  });
+});
+
+describe("variables", () => {
+  it("are given to the query generator", () => {
+    const options = { variables: { cutoff: 5, label: "it's", flag: true } };
+    expect(transpilePath("Observation", "%cutoff", options)).toContain(
+      "5 AS [x]",
+    );
+    expect(transpilePath("Observation", "%label", options)).toContain(
+      "'it''s' AS [x]",
+    );
+    expect(transpilePath("Observation", "%flag", options)).toContain(
+      "'true' AS [x]",
+    );
+  });
+
+  it("are hidden by the constants of the ViewDefinition", () => {
+    const sql = new SqlOnFhir({ variables: { code: "variable" } }).transpile({
+      resource: "Observation",
+      status: "active",
+      constant: [{ name: "code", valueString: "constant" }],
+      select: [{ column: [{ name: "x", path: "%code" }] }],
+    }).sql;
+    expect(sql).toContain("'constant' AS [x]");
+  });
+
+  it("cannot redefine environment variables", () => {
+    expect(() => new SqlOnFhir({ variables: { resource: "x" } })).toThrow(
+      "Variable '%resource' is an environment variable and cannot be redefined",
+    );
+  });
+});
+
+describe("defineVariable()", () => {
+  it("defines a variable for the rest of the invocation chain", () => {
+    expect(
+      transpilePath(
+        "Observation",
+        "defineVariable('s', status).code.coding.where(%s = 'final').code",
+      ),
+    ).toContain(
+      "FROM OPENJSON(r.json, '$.code.coding') AS whereItem WHERE (JSON_VALUE(r.json, '$.status') = 'final')) AS [x]",
+    );
+  });
+
+  it("defines a variable of its input without a value", () => {
+    expect(
+      transpilePath(
+        "Observation",
+        "code.defineVariable('c').coding.where(%c.text = 'x')",
+      ),
+    ).toContain("WHERE (JSON_VALUE(r.json, '$.code.text') = 'x')");
+  });
+
+  it("binds a variable of a repeating element to each of its items", () => {
+    expect(
+      transpilePath("Patient", "name.defineVariable('n', family).select(%n)"),
+    ).toContain(
+      "(SELECT TOP 1 JSON_VALUE(selectItem.value, '$.family') FROM OPENJSON(r.json, '$.name') AS selectItem ORDER BY selectItem.[key]) AS [x]",
+    );
+    expect(
+      transpilePath(
+        "Patient",
+        "name.defineVariable('n', family).where(%n = 'x').use",
+      ),
+    ).toContain(
+      "FROM OPENJSON(r.json, '$.name') AS whereItem WHERE (JSON_VALUE(whereItem.value, '$.family') = 'x')",
+    );
+    expect(
+      transpilePath(
+        "Patient",
+        "name.defineVariable('u', use).exists(%u = 'official')",
+      ),
+    ).toContain(
+      "EXISTS (SELECT 1 FROM OPENJSON(r.json, '$.name') AS existsItem WHERE (JSON_VALUE(existsItem.value, '$.use') = 'official'))",
+    );
+  });
+
+  it("evaluates a variable of a repeating element against the element where its items are not iterated", () => {
+    expect(
+      transpilePath(
+        "Patient",
+        "name.defineVariable('n', family).given.where($this = %n)",
+      ),
+    ).toContain("(whereItem.value = JSON_VALUE(r.json, '$.name[0].family'))");
+  });
+
+  it("is its input", () => {
+    expect(
+      transpilePath("Observation", "status.defineVariable('s', length())"),
+    ).toContain("JSON_VALUE(r.json, '$.status') AS [x]");
+  });
+
+  it("scopes the variable to the invocation chain", () => {
+    expect(() =>
+      transpilePath(
+        "Observation",
+        "defineVariable('s', status).exists() and %s = 'final'",
+      ),
+    ).toThrow("Variable '%s' is not defined");
+  });
+
+  it("cannot redefine a variable", () => {
+    expect(() =>
+      transpilePath(
+        "Observation",
+        "defineVariable('s', status).defineVariable('s')",
+      ),
+    ).toThrow(
+      "Variable '%s' is already defined and cannot be redefined by defineVariable()",
+    );
+    expect(() =>
+      transpilePath("Observation", "defineVariable('resource')"),
+    ).toThrow("Variable '%resource' is already defined");
+  });
+
+  it("requires a string literal name", () => {
+    expect(() =>
+      transpilePath("Observation", "defineVariable(status)"),
+    ).toThrow(
+      "The name of a variable defined by defineVariable() must be a string literal: status",
+    );
+  });
+});
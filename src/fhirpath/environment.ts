@@ -0,0 +1,119 @@
+/**
+ * FHIRPath environment variables: `%resource`, `%rootResource` and
+ * `%context`, and the URLs `%ucum`, `%sct`, `%loinc`, `%vs-[name]` and
+ * `%ext-[name]`.
+ *
+ * The resource that `%resource` addresses is the resource holding the current
+ * item: the resource being viewed, or a resource contained within it (e.g.
+ * while iterating `contained`). `%rootResource` is always the resource being
+ * viewed.
+ *
+ * @author John Grimes
+ */
+
+import { getTypeModel } from "../typeModel/index.js";
+import { quote } from "./stringFunctions.js";
+import type { TranspilerContext } from "./visitor.js";
+
+/**
+ * The environment variables that are URLs, by name.
+ */
+const ENVIRONMENT_URLS = new Map([
+  ["ucum", "http://unitsofmeasure.org"],
+  ["sct", "http://snomed.info/sct"],
+  ["loinc", "http://loinc.org"],
+]);
+
+/**
+ * The environment variables that name HL7 value sets and extensions, by
+ * prefix, and the base URLs of the resources they name.
+ */
+const ENVIRONMENT_URL_PREFIXES = new Map([
+  ["vs-", "http://hl7.org/fhir/ValueSet/"],
+  ["ext-", "http://hl7.org/fhir/StructureDefinition/"],
+]);
+
+/**
+ * The names of the environment variables that are defined in every context,
+ * which ViewDefinition constants and variables cannot hide.
+ */
+export const ENVIRONMENT_VARIABLES = [
+  "rowIndex",
+  "resource",
+  "rootResource",
+  "context",
+  ...ENVIRONMENT_URLS.keys(),
+];
+
+/**
+ * The transpiled value of an environment variable that is a URL.
+ *
+ * @param name - The name of the variable, without `%`.
+ * @returns The URL as a string literal, or null if the variable is not one.
+ */
+export function environmentUrl(name: string): string | null {
+  const url = ENVIRONMENT_URLS.get(name);
+  if (url !== undefined) {
+    return quote(url);
+  }
+  for (const [prefix, base] of ENVIRONMENT_URL_PREFIXES) {
+    if (name.startsWith(prefix) && name.length > prefix.length) {
+      return quote(`${base}${name.slice(prefix.length)}`);
+    }
+  }
+  return null;
+}
+
+/**
+ * The JSON of the resource being viewed (`%rootResource`).
+ *
+ * @param context - The transpiler context.
+ * @returns The transpiled resource.
+ */
+export function rootResourceJson(context: TranspilerContext): string {
+  return context.rootResourceJson ?? `${context.resourceAlias}.json`;
+}
+
+/**
+ * The JSON of the resource holding the current item (`%resource`).
+ *
+ * @param context - The transpiler context.
+ * @returns The transpiled resource.
+ */
+export function resourceJson(context: TranspilerContext): string {
+  return context.resourceJson ?? rootResourceJson(context);
+}
+
+/**
+ * The item an expression is evaluated against (`%context`).
+ *
+ * @param context - The transpiler context.
+ * @returns The transpiled item.
+ */
+export function contextJson(context: TranspilerContext): string {
+  return (
+    context.contextJson ?? context.iterationContext ?? rootResourceJson(context)
+  );
+}
+
+/**
+ * The JSON of the resource holding the items of an element while they are
+ * iterated: each item itself, where the element holds resources (e.g.
+ * `contained`), and otherwise the resource holding the current item.
+ *
+ * @param context - The transpiler context the items are iterated within.
+ * @param itemPath - The element path of the items, if known.
+ * @param itemJson - The JSON of the current item.
+ * @returns The transpiled resource.
+ */
+export function itemResourceJson(
+  context: TranspilerContext,
+  itemPath: string | null | undefined,
+  itemJson: string,
+): string {
+  const model = context.typeModel ?? getTypeModel();
+  const element = itemPath ? model.resolvePath(itemPath) : null;
+  return element?.types.length === 1 && model.isResourceType(element.types[0])
+    ? itemJson
+    : resourceJson(context);
+}
@@ -0,0 +1,119 @@
+/**
+ * Errors raised while parsing and transpiling FHIRPath expressions, located by
+ * the range of characters of the expression they were raised at.
+ *
+ * @author John Grimes
+ */
+
+import type { ParserRuleContext } from "antlr4ts";
+import type { SourceRange } from "../diagnostics.js";
+
+/**
+ * The kinds of error raised of FHIRPath expressions.
+ */
+export type FhirPathErrorCode =
+  | "syntax-error"
+  | "unknown-element"
+  | "unknown-type"
+  | "transpile-error";
+
+export class FhirPathError extends Error {
+  /**
+   * @param message - Describes the error.
+   * @param range - The characters of the expression the error was raised at,
+   *   if known.
+   * @param expression - The expression, once known.
+   * @param code - Whether the expression could not be parsed, navigates to
+   *   an element or names a type that is not defined, or could not be
+   *   transpiled otherwise.
+   */
+  constructor(
+    message: string,
+    readonly range: SourceRange | null,
+    readonly expression: string | null = null,
+    readonly code: FhirPathErrorCode = "transpile-error",
+  ) {
+    super(message);
+    this.name = "FhirPathError";
+  }
+}
+
+/**
+ * Locate an error raised while transpiling an expression within it. An error
+ * already located within another expression transpiled on the way (e.g. the
+ * criteria of a forEach `where()`) keeps that location.
+ *
+ * @param error - The error raised.
+ * @param expression - The expression being transpiled.
+ * @returns The located error.
+ */
+export function locateError(error: unknown, expression: string): FhirPathError {
+  if (error instanceof FhirPathError && error.expression !== null) {
+    return error;
+  }
+  return new FhirPathError(
+    error instanceof Error ? error.message : String(error),
+    error instanceof FhirPathError ? error.range : null,
+    expression,
+    error instanceof FhirPathError ? error.code : "transpile-error",
+  );
+}
+
+/**
+ * Locate an error raised while transpiling a sub-expression (e.g. the
+ * criteria of a `where()`) within the expression it was found in, at the
+ * given offset.
+ *
+ * @param error - The error raised.
+ * @param subExpression - The sub-expression being transpiled.
+ * @param expression - The expression it was found in.
+ * @param offset - The offset of the sub-expression within the expression.
+ * @returns The located error.
+ */
+export function locateWithin(
+  error: unknown,
+  subExpression: string,
+  expression: string,
+  offset: number,
+): FhirPathError {
+  const located = locateError(error, subExpression);
+  if (located.expression !== subExpression) {
+    return located;
+  }
+  return new FhirPathError(
+    located.message,
+    located.range && {
+      start: located.range.start + offset,
+      end: located.range.end + offset,
+    },
+    expression,
+    located.code,
+  );
+}
+
+/**
+ * The characters of the expression a node of its parse tree was parsed from.
+ */
+export function rangeOf(ctx: ParserRuleContext): SourceRange {
+  const stop = ctx.stop ?? ctx.start;
+  return {
+    start: ctx.start.startIndex,
+    end: Math.max(stop.stopIndex + 1, ctx.start.startIndex),
+  };
+}
+
+/**
+ * The offset of a character within an expression, from its line (counted from
+ * 1) and its position within the line, as ANTLR reports them.
+ */
+export function offsetOf(
+  expression: string,
+  line: number,
+  charPositionInLine: number,
+): number {
+  const lines = expression.split("\n").slice(0, line - 1);
+  return (
+    lines.reduce((offset, text) => offset + text.length + 1, 0) +
+    charPositionInLine
+  );
+}
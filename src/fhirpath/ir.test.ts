@@ -0,0 +1,278 @@
+/**
+ * Unit tests for the intermediate representation of transpiled expressions,
+ * and its rendering to T-SQL.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { transpilePath } from "../tests/utils/transpile";
+import { getTypeModel } from "../typeModel/index.js";
+import {
+  computedArray,
+  elementType,
+  itemQuery,
+  jsonElementPath,
+  type PathNode,
+  sqlNode,
+  untyped,
+} from "./ir.js";
+import { emitTSql } from "./tsqlEmitter.js";
+
+describe("expression types", () => {
+  const model = getTypeModel();
+
+  it("describe the elements of the type model", () => {
+    expect(elementType("Patient.name.given", model, false)).toEqual({
+      elementPath: "Patient.name.given",
+      fhirType: "string",
+      cardinality: "multiple",
+      isBoolean: false,
+    });
+    expect(elementType("Patient.active", model, false)).toMatchObject({
+      fhirType: "boolean",
+      cardinality: "single",
+      isBoolean: true,
+    });
+  });
+
+  it("describe a single item of a repeating element", () => {
+    expect(elementType("Patient.name", model, true).cardinality).toBe("single");
+  });
+
+  it("are unknown for choice and unresolved elements", () => {
+    expect(elementType("Observation.value", model, false).fhirType).toBeNull();
+    expect(elementType("Patient.unknown", model, false)).toEqual({
+      elementPath: "Patient.unknown",
+      fhirType: null,
+      cardinality: null,
+      isBoolean: false,
+    });
+  });
+
+  it("follow JSON paths through array items", () => {
+    expect(jsonElementPath("Patient", "$.name[0].given")).toBe(
+      "Patient.name.given",
+    );
+    expect(jsonElementPath("Patient.contact", "$")).toBe("Patient.contact");
+  });
+});
+
+describe("T-SQL emission", () => {
+  const path: PathNode = {
+    kind: "path",
+    source: "r.json",
+    jsonPath: "$.name",
+    isJson: true,
+    ...elementType("Patient.name", getTypeModel(), false),
+  };
+
+  it("reads arrays and objects with JSON_QUERY, and scalars with JSON_VALUE", () => {
+    expect(emitTSql(path)).toBe("JSON_QUERY(r.json, '$.name')");
+    expect(
+      emitTSql({ ...path, jsonPath: "$.name[0].family", isJson: false }),
+    ).toBe("JSON_VALUE(r.json, '$.name[0].family')");
+  });
+
+  it("selects the first item of a query, or an element within it", () => {
+    const query = itemQuery(
+      {
+        kind: "json",
+        source: "r.json",
+        jsonPath: "$.name",
+        alias: "whereItem",
+        repeating: true,
+        isJson: false,
+      },
+      ["1 = 1"],
+      "Patient.name",
+    );
+    expect(emitTSql(query)).toBe(
+      "(SELECT TOP 1 value FROM OPENJSON(r.json, '$.name') AS whereItem WHERE 1 = 1)",
+    );
+    expect(
+      emitTSql({
+        ...query,
+        member: { jsonPath: "$.period.start", isJson: false },
+      }),
+    ).toBe(
+      "(SELECT TOP 1 JSON_VALUE(value, '$.period.start') FROM OPENJSON(r.json, '$.name') AS whereItem WHERE 1 = 1)",
+    );
+  });
+
+  it("reads the items of computed arrays and quantity literals as JSON", () => {
+    expect(emitTSql(computedArray("'[1,2]'"))).toBe("JSON_QUERY('[1,2]')");
+    expect(
+      emitTSql({
+        kind: "quantity",
+        value: "5",
+        unit: "mg",
+        calendar: false,
+        ...untyped(),
+      }),
+    ).toBe(
+      `JSON_QUERY('{"value":5,"unit":"mg","system":"http://unitsofmeasure.org","code":"mg"}')`,
+    );
+  });
+
+  it("renders unmodelled expressions as they are", () => {
+    expect(emitTSql(sqlNode("GETDATE()"))).toBe("GETDATE()");
+  });
+});
+
+describe("typed navigation", () => {
+  it("types the members of the items selected by where()", () => {
+    expect(
+      transpilePath(
+        "Patient",
+        "extension.where(url = 'http://example.org').value.ofType(string)",
+      ),
+    ).toContain(
+      "(SELECT TOP 1 JSON_VALUE(value, '$.valueString') FROM OPENJSON(r.json, '$.extension') AS whereItem",
+    );
+  });
+
+  it("reads repeating members of the items selected by where() by cardinality", () => {
+    expect(
+      transpilePath("Patient", "name.where(use = 'official').given.first()"),
+    ).toContain("JSON_VALUE(value, '$.given[0]')");
+    expect(
+      transpilePath(
+        "Patient",
+        "contact.where(gender = 'male').name.given.first()",
+      ),
+    ).toContain("JSON_VALUE(value, '$.name.given[0]')");
+  });
+
+  it("expands repeating members of the items selected by where()", () => {
+    const items =
+      "FROM OPENJSON(r.json, '$.name') AS whereItem CROSS APPLY OPENJSON(whereItem.value, '$.given') AS item0 WHERE whereItem.value IS NOT NULL AND (JSON_VALUE(whereItem.value, '$.use') = 'official') AND item0.value IS NOT NULL";
+    expect(
+      transpilePath("Patient", "name.where(use = 'official').given.count()"),
+    ).toContain(`(SELECT COUNT(*) ${items}) AS [x]`);
+    expect(
+      transpilePath("Patient", "name.where(use = 'official').given.exists()"),
+    ).toContain(`EXISTS (SELECT 1 ${items})`);
+    expect(
+      transpilePath("Patient", "name.where(use = 'official').given.join(' ')"),
+    ).toContain(
+      `(SELECT STRING_AGG(items.value, ' ') WITHIN GROUP (ORDER BY items.position) FROM (SELECT item0.value, item0.type, ROW_NUMBER() OVER (ORDER BY CAST(whereItem.[key] AS INT), CAST(item0.[key] AS INT)) AS position ${items}) AS items WHERE items.type IN (1, 2))`,
+    );
+    expect(
+      transpilePath(
+        "Patient",
+        "name.where(use = 'official').given.where($this = 'A')",
+      ),
+    ).toContain(`${items} AND (item0.value = 'A')) AS items`);
+    expect(
+      transpilePath(
+        "Patient",
+        "name.where(use = 'official').given.select($this + 'x')",
+      ),
+    ).toContain(
+      `(SELECT TOP 1 (item0.value + 'x') ${items} ORDER BY CAST(whereItem.[key] AS INT), CAST(item0.[key] AS INT))`,
+    );
+  });
+
+  it("adds the criteria of where() to the items selected by another", () => {
+    expect(
+      transpilePath(
+        "Patient",
+        "name.where(use = 'official').where(family = 'x').family",
+      ),
+    ).toContain(
+      "(SELECT TOP 1 JSON_VALUE(value, '$.family') FROM OPENJSON(r.json, '$.name') AS whereItem WHERE (JSON_VALUE(whereItem.value, '$.use') = 'official') AND (JSON_VALUE(whereItem.value, '$.family') = 'x'))",
+    );
+  });
+
+  it("reads singular elements of complex types as JSON", () => {
+    expect(transpilePath("Patient", "maritalStatus")).toContain(
+      "JSON_QUERY(r.json, '$.maritalStatus') AS [x]",
+    );
+    expect(transpilePath("Patient", "contact.name.exists()")).toContain(
+      "(JSON_QUERY(r.json, '$.contact[0].name') IS NOT NULL",
+    );
+    expect(transpilePath("Patient", "maritalStatus.first()")).toContain(
+      "JSON_QUERY(r.json, '$.maritalStatus') AS [x]",
+    );
+    expect(transpilePath("Patient", "maritalStatus.count()")).toContain(
+      "FROM OPENJSON(r.json, '$') AS item0 WHERE item0.value IS NOT NULL AND item0.[key] = 'maritalStatus'",
+    );
+  });
+
+  it("reads the complex types of choice elements as JSON", () => {
+    for (const path of ["value.ofType(Quantity)", "value as Quantity"]) {
+      expect(transpilePath("Observation", path)).toContain(
+        "JSON_QUERY(r.json, '$.valueQuantity') AS [x]",
+      );
+    }
+    expect(
+      transpilePath("Observation", "value.ofType(Quantity).exists()"),
+    ).toContain("(JSON_QUERY(r.json, '$.valueQuantity') IS NOT NULL");
+  });
+
+  it("reads a singular element filtered by where() as a single item", () => {
+    expect(
+      transpilePath("Patient", "contact.name.where(family = 'x').count()"),
+    ).toContain(
+      "FROM OPENJSON(r.json, '$.contact') AS item0 CROSS APPLY OPENJSON(item0.value, '$') AS whereItem WHERE item0.value IS NOT NULL AND whereItem.value IS NOT NULL AND whereItem.[key] = 'name' AND (JSON_VALUE(whereItem.value, '$.family') = 'x')",
+    );
+    expect(
+      transpilePath("Bundle", "entry.resource.where($this is Patient)"),
+    ).toContain(
+      "(SELECT TOP 1 value FROM (SELECT JSON_QUERY(whereItem_0.value, '$.resource') AS value FROM OPENJSON(r.json, '$.entry') AS whereItem_0) AS whereItem WHERE",
+    );
+    expect(transpilePath("Patient", "gender.where($this = 'male')")).toContain(
+      "FROM (SELECT JSON_VALUE(r.json, '$.gender') AS value) AS whereItem WHERE (whereItem.value = 'male')",
+    );
+  });
+
+  it("filters the items of an element within every item of its parent", () => {
+    expect(
+      transpilePath("Patient", "contact.telecom.where(system = 'phone').value"),
+    ).toContain(
+      "(SELECT TOP 1 JSON_VALUE(value, '$.value') FROM (SELECT whereItem_1.[key], whereItem_1.value, whereItem_1.type FROM OPENJSON(r.json, '$.contact') AS whereItem_0 CROSS APPLY OPENJSON(whereItem_0.value, '$.telecom') AS whereItem_1) AS whereItem WHERE",
+    );
+  });
+
+  it("tests the emptiness of scalars and conditions by whether they are NULL", () => {
+    expect(transpilePath("Patient", "'a'.empty()")).toContain("('a' IS NULL)");
+    expect(transpilePath("Patient", "maritalStatus.empty()")).toContain(
+      "(JSON_QUERY(r.json, '$.maritalStatus') IS NULL)",
+    );
+    expect(transpilePath("Patient", "(gender = 'male').empty()")).toContain(
+      "((CASE WHEN (JSON_VALUE(r.json, '$.gender') = 'male') THEN 'true' WHEN NOT (JSON_VALUE(r.json, '$.gender') = 'male') THEN 'false' END) IS NULL)",
+    );
+  });
+
+  it("tests the existence of items by the kind of expression", () => {
+    expect(transpilePath("Patient", "(gender = 'male').exists()")).toContain(
+      "WHEN NOT (JSON_VALUE(r.json, '$.gender') = 'male') THEN 'false' END) IS NOT NULL)",
+    );
+    expect(
+      transpilePath("Patient", "where(gender = 'male').exists()"),
+    ).toContain(
+      "EXISTS (SELECT TOP 1 value FROM (SELECT JSON_QUERY(r.json, '$') AS value) AS item WHERE (JSON_VALUE(r.json, '$.gender') = 'male'))",
+    );
+    expect(transpilePath("Patient", "exists(gender = 'male')")).toContain(
+      "CAST(CASE WHEN (JSON_VALUE(r.json, '$.gender') = 'male') THEN 1",
+    );
+    expect(
+      transpilePath("Patient", "name.where(use = 'x').exists(family = 'y')"),
+    ).toContain(
+      "EXISTS (SELECT TOP 1 value FROM OPENJSON(r.json, '$.name') AS whereItem WHERE (JSON_VALUE(whereItem.value, '$.use') = 'x') AND (JSON_VALUE(whereItem.value, '$.family') = 'y'))",
+    );
+  });
+
+  it("navigates from items selected by index", () => {
+    expect(transpilePath("Patient", "name[1].family")).toContain(
+      "JSON_VALUE(r.json, '$.name[1].family') AS [x]",
+    );
+  });
+
+  it("joins the items of arrays within every item of another", () => {
+    expect(transpilePath("Patient", "name.given.join(' ')")).toContain(
+      "FROM OPENJSON(r.json, '$.name') AS parentItem\n              CROSS APPLY OPENJSON(parentItem.value, '$.given') AS childValue",
+    );
+  });
+});
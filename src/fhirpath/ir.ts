@@ -0,0 +1,295 @@
+/**
+ * A typed intermediate representation (IR) of transpiled FHIRPath
+ * expressions.
+ *
+ * The visitor returns a node for each expression it transpiles, recording the
+ * structure that the functions and operators applied to it depend upon: the
+ * FHIR element it addresses, its type and cardinality, whether it is Boolean,
+ * and the JSON document and path it is read from. Type-driven decisions are
+ * made from the node rather than by matching patterns in the SQL, and each
+ * node is rendered by an emitter (see `tsqlEmitter.ts`) only where its SQL is
+ * needed. Expressions whose structure is not modelled are carried as
+ * {@link SqlNode}s.
+ *
+ * @author John Grimes
+ */
+
+import type { FhirTypeModel } from "../typeModel/index.js";
+
+/**
+ * The number of items an expression may evaluate to.
+ */
+export type Cardinality = "single" | "multiple";
+
+/**
+ * What is known of the type of an expression.
+ */
+export interface NodeType {
+  /** The FHIR element addressed, e.g. `Patient.name.given`. */
+  elementPath: string | null;
+  /** The FHIR type of the items, where the element has a single type. */
+  fhirType: string | null;
+  /** The number of items the expression may evaluate to, if known. */
+  cardinality: Cardinality | null;
+  /** Whether the items are Booleans. */
+  isBoolean: boolean;
+}
+
+/**
+ * An element at a JSON path within a JSON document, e.g. the `given` names of
+ * the first name of a Patient: (`r.json`, `$.name[0].given`).
+ */
+export interface PathNode extends NodeType {
+  kind: "path";
+  /** The transpiled JSON document, e.g. `r.json`. */
+  source: string;
+  /** The JSON path of the element within the document. */
+  jsonPath: string;
+  /** Whether the element is read as JSON (an object or an array). */
+  isJson: boolean;
+}
+
+/**
+ * The first of the items of a collection that meet some conditions, or an
+ * element within that item, e.g. `name.where(use = 'official').family`.
+ */
+export interface ItemQueryNode extends NodeType {
+  kind: "itemQuery";
+  /** The rows holding the items. */
+  items: JsonItems | ResolvedItems;
+  /** The conditions the items meet. */
+  conditions: string[];
+  /** The FHIR element of the items, if known. */
+  itemPath: string | null;
+  /** The element within the item read, if any. */
+  member: ItemMember | null;
+}
+
+/**
+ * The items of an element within a JSON document, read by OPENJSON where the
+ * element repeats, and otherwise as a single row of its value.
+ */
+export interface JsonItems {
+  kind: "json";
+  /** The transpiled JSON document, e.g. `r.json`. */
+  source: string;
+  /** The JSON path of the element within the document. */
+  jsonPath: string;
+  /** The alias of the rows, by which the conditions read each item, if any. */
+  alias: string | null;
+  /** Whether the element repeats, each of its items being a row. */
+  repeating: boolean;
+  /** Whether a non-repeating element is read as JSON (an object). */
+  isJson: boolean;
+}
+
+/**
+ * The resources resolved from references, held by the rows aliased
+ * `resolved` (see `referenceFunctions.ts`).
+ */
+export interface ResolvedItems {
+  kind: "resolved";
+  /** The clauses of the rows, up to and including their alias. */
+  from: string;
+}
+
+/**
+ * An element within an item, e.g. `$.period.start`, read as JSON (an object
+ * or an array) or as a scalar.
+ */
+export interface ItemMember {
+  jsonPath: string;
+  isJson: boolean;
+}
+
+/**
+ * A JSON array computed by a function, e.g. `distinct()` or `split()`, whose
+ * items are navigated like those of a repeating element.
+ */
+export interface ArrayNode extends NodeType {
+  kind: "array";
+  /** An expression yielding the JSON text of the array. */
+  json: string;
+}
+
+/**
+ * A quantity literal, e.g. `5 'mg'` or `3 days`.
+ */
+export interface QuantityNode extends NodeType {
+  kind: "quantity";
+  /** The number of the quantity, as it is written. */
+  value: string;
+  /** A UCUM unit, or a calendar duration (e.g. `days`). */
+  unit: string;
+  /** Whether the unit is a calendar duration, which has no UCUM code. */
+  calendar: boolean;
+}
+
+/**
+ * An expression whose structure is not modelled, such as a literal or the
+ * result of a function.
+ */
+export interface SqlNode extends NodeType {
+  kind: "sql";
+  sql: string;
+}
+
+export type ExpressionNode =
+  | PathNode
+  | ItemQueryNode
+  | ArrayNode
+  | QuantityNode
+  | SqlNode;
+
+/**
+ * Describes an element of the type model.
+ *
+ * @param elementPath - The FHIR element, or null if it is not known.
+ * @param model - The type model to resolve the element with.
+ * @param isItem - Whether a single item of the element is addressed, rather
+ *   than all of its items.
+ * @returns The type of the element.
+ */
+export function elementType(
+  elementPath: string | null,
+  model: FhirTypeModel,
+  isItem: boolean,
+): NodeType {
+  const element = elementPath ? model.resolvePath(elementPath) : null;
+  if (!element) {
+    return untyped(elementPath);
+  }
+  const fhirType = element.types.length === 1 ? element.types[0] : null;
+  return {
+    elementPath,
+    fhirType,
+    cardinality: element.isArray && !isItem ? "multiple" : "single",
+    isBoolean: fhirType === "boolean",
+  };
+}
+
+/**
+ * Whether an element addresses all the items of a repeating element, rather
+ * than a single value. Where its cardinality is not known, an element read as
+ * JSON is taken to repeat.
+ *
+ * @param type - The type of the element.
+ * @param isJson - Whether the element is read as JSON.
+ * @returns Whether the element repeats.
+ */
+export function isRepeating(type: NodeType, isJson: boolean): boolean {
+  return type.cardinality === null ? isJson : type.cardinality === "multiple";
+}
+
+/**
+ * Whether an expression is read from a JSON document, and so is text: an
+ * element at a JSON path, one read from the items of a query, or the current
+ * item of a collection being iterated.
+ *
+ * @param node - The expression.
+ * @returns Whether the expression is read from JSON.
+ */
+export function isJsonText(node: ExpressionNode): boolean {
+  return (
+    node.kind === "path" ||
+    node.kind === "itemQuery" ||
+    (node.kind === "sql" && node.elementPath !== null)
+  );
+}
+
+/**
+ * The type of an expression of which nothing is known but, possibly, the
+ * element it addresses.
+ */
+export function untyped(elementPath: string | null = null): NodeType {
+  return { elementPath, fhirType: null, cardinality: null, isBoolean: false };
+}
+
+/**
+ * The element path of the items of a JSON path within a document of the given
+ * element, e.g. (`Patient`, `$.name[0].given`) → `Patient.name.given`.
+ *
+ * @param basePath - The element path of the document.
+ * @param jsonPath - The JSON path within the document.
+ * @returns The element path.
+ */
+export function jsonElementPath(basePath: string, jsonPath: string): string {
+  const segments = jsonPath
+    .replace(/\[\d+]/g, "")
+    .split(".")
+    .filter((segment) => segment !== "$" && segment !== "");
+  return [basePath, ...segments].join(".");
+}
+
+/**
+ * The first of the items of a collection that meet some conditions.
+ *
+ * @param items - The rows holding the items.
+ * @param conditions - The conditions the items meet.
+ * @param itemPath - The FHIR element of the items, if known.
+ * @param type - The type of the items.
+ * @returns The expression.
+ */
+export function itemQuery(
+  items: JsonItems | ResolvedItems,
+  conditions: string[],
+  itemPath: string | null = null,
+  type: NodeType = untyped(itemPath),
+): ItemQueryNode {
+  return {
+    kind: "itemQuery",
+    items,
+    conditions,
+    itemPath,
+    member: null,
+    ...type,
+  };
+}
+
+/**
+ * The objects (e.g. resources) of an element within a JSON document.
+ *
+ * @param source - The transpiled JSON document.
+ * @param jsonPath - The JSON path of the element within the document.
+ * @param repeating - Whether the element repeats.
+ * @returns The items, which conditions read as `value`.
+ */
+export function objectItems(
+  source: string,
+  jsonPath: string,
+  repeating: boolean,
+): JsonItems {
+  return {
+    kind: "json",
+    source,
+    jsonPath,
+    alias: null,
+    repeating,
+    isJson: true,
+  };
+}
+
+/**
+ * A JSON array computed by a function.
+ *
+ * @param json - An expression yielding the JSON text of the array.
+ * @param type - The type of the items.
+ * @returns The expression.
+ */
+export function computedArray(
+  json: string,
+  type: NodeType = untyped(),
+): ArrayNode {
+  return { kind: "array", json, ...type };
+}
+
+/**
+ * An expression whose structure is not modelled.
+ *
+ * @param sql - The transpiled expression.
+ * @param type - The type of the expression.
+ * @returns The expression.
+ */
+export function sqlNode(sql: string, type: NodeType = untyped()): SqlNode {
+  return { kind: "sql", sql, ...type };
+}
@@ -17,22 +17,7 @@
  */
 
 import { describe, expect, it } from "vitest";
-import { SqlOnFhir } from "../index";
-
-/**
- * Transpile a single boolean column for the given FHIRPath expression.
- *
- * @param path - The FHIRPath expression to transpile.
- * @returns The generated T-SQL.
- */
-function transpilePath(path: string): string {
-  const sof = new SqlOnFhir();
-  return sof.transpile({
-    resource: "Patient",
-    status: "active",
-    select: [{ column: [{ name: "x", path, type: "boolean" }] }],
-  }).sql;
-}
+import { transpilePath } from "../tests/utils/transpile";
 
 /**
  * Report whether the SQL contains a comparison against the literal '[]' that is
@@ -65,13 +50,18 @@ describe("json-safe emptiness checks", () => {
 
   for (const path of expressions) {
     it(`emits no bare '[]' comparison for ${path}`, () => {
-      const sql = transpilePath(path);
+      const sql = transpilePath("Patient", path, {}, { type: "boolean" });
       expect(hasBareArrayLiteralComparison(sql)).toBe(false);
     });
   }
 
   it("wraps the exists() array check in CAST(... AS NVARCHAR(MAX))", () => {
-    const sql = transpilePath("name.exists()");
+    const sql = transpilePath(
+      "Patient",
+      "name.exists()",
+      {},
+      { type: "boolean" },
+    );
     expect(sql).toContain(
       "CAST(JSON_QUERY(r.json, '$.name') AS NVARCHAR(MAX)) != '[]'",
     );
@@ -80,7 +70,12 @@ describe("json-safe emptiness checks", () => {
   it("still guards exists() against a null array with IS NOT NULL", () => {
     // The presence check on the raw value is valid on a json column and must
     // remain so the empty-vs-absent distinction is preserved.
-    const sql = transpilePath("name.exists()");
+    const sql = transpilePath(
+      "Patient",
+      "name.exists()",
+      {},
+      { type: "boolean" },
+    );
     expect(sql).toContain("JSON_QUERY(r.json, '$.name') IS NOT NULL");
   });
 });
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for FHIRPath arithmetic and math functions.
+ *
+ * Operands are typed as Integers or Decimals from literals, element
+ * definitions and the results of other expressions, which decides how they
+ * are cast and how `div` and `/` divide.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { transpilePath } from "../tests/utils/transpile";
+
+describe("arithmetic", () => {
+  it("casts values to the SQL type of their element", () => {
+    expect(
+      transpilePath("Observation", "valueInteger + valueQuantity.value"),
+    ).toContain(
+      "(CAST(JSON_VALUE(r.json, '$.valueInteger') AS BIGINT) + CAST(JSON_VALUE(r.json, '$.valueQuantity.value') AS DECIMAL(18,6)))",
+    );
+  });
+
+  it("casts the items of elements, but not the results of arithmetic", () => {
+    expect(
+      transpilePath("Claim", "item.where(sequence + 1 > 2).sequence"),
+    ).toContain(
+      "WHERE ((CAST(JSON_VALUE(whereItem.value, '$.sequence') AS BIGINT) + 1) > 2)",
+    );
+    expect(transpilePath("Claim", "item.sequence.select($this + 1)")).toContain(
+      "(CAST(JSON_VALUE(r.json, '$.item[0].sequence') AS BIGINT) + 1) AS [x]",
+    );
+    expect(
+      transpilePath("Claim", "(item.sequence.first() + 1).abs()"),
+    ).toContain(
+      "ABS((CAST(JSON_VALUE(r.json, '$.item[0].sequence') AS BIGINT) + 1)) AS [x]",
+    );
+  });
+
+  it("compares numbers read from JSON as numbers", () => {
+    expect(
+      transpilePath("Observation", "value.ofType(Quantity).value > 5"),
+    ).toContain(
+      "(CAST(JSON_VALUE(r.json, '$.valueQuantity.value') AS DECIMAL(18,6)) > 5)",
+    );
+    expect(
+      transpilePath(
+        "Observation",
+        "component.where(value.ofType(integer) = 5).code.text",
+      ),
+    ).toContain(
+      "WHERE (CAST(JSON_VALUE(whereItem.value, '$.valueInteger') AS BIGINT) = 5)",
+    );
+    expect(transpilePath("Observation", "status = 'final'")).toContain(
+      "(JSON_VALUE(r.json, '$.status') = 'final')",
+    );
+  });
+
+  it("divides Integers as Decimals", () => {
+    expect(transpilePath("Observation", "7 / 2")).toContain(
+      "(CAST(7 AS DECIMAL(18,6)) / 2)",
+    );
+  });
+
+  it("truncates the division of Decimals with div", () => {
+    expect(transpilePath("Observation", "valueQuantity.value div 2")).toContain(
+      "CAST(ROUND(CAST(JSON_VALUE(r.json, '$.valueQuantity.value') AS DECIMAL(18,6)) / 2, 0, 1) AS BIGINT)",
+    );
+  });
+
+  it("tracks the type of nested expressions", () => {
+    expect(transpilePath("Observation", "(valueInteger * 2) div 3")).toContain(
+      "((CAST(JSON_VALUE(r.json, '$.valueInteger') AS BIGINT) * 2) / 3)",
+    );
+  });
+
+  it("concatenates strings with +, which is empty for an empty operand", () => {
+    expect(transpilePath("Observation", "id + status")).toContain(
+      "(JSON_VALUE(r.json, '$.id') + JSON_VALUE(r.json, '$.status')) AS [x]",
+    );
+    expect(transpilePath("Observation", "code.text + ', '")).toContain(
+      "(JSON_VALUE(r.json, '$.code.text') + ', ') AS [x]",
+    );
+  });
+
+  it("rejects numbers as operands of dates and times", () => {
+    expect(() => transpilePath("Observation", "issued + 1")).toThrow(
+      "Only a quantity of time can be added to or subtracted from a DateTime",
+    );
+  });
+
+  it("yields an empty result on division by zero", () => {
+    expect(
+      transpilePath("Observation", "valueInteger mod valueInteger"),
+    ).toContain(
+      "NULLIF(CAST(JSON_VALUE(r.json, '$.valueInteger') AS BIGINT), 0)",
+    );
+  });
+});
+
+describe("math functions", () => {
+  it("round Decimals to Integers", () => {
+    expect(
+      transpilePath("Observation", "valueQuantity.value.ceiling()"),
+    ).toContain(
+      "CAST(CEILING(CAST(JSON_VALUE(r.json, '$.valueQuantity.value') AS DECIMAL(18,6))) AS BIGINT)",
+    );
+  });
+
+  it("round to a literal precision", () => {
+    expect(
+      transpilePath("Observation", "valueQuantity.value.round(2)"),
+    ).toContain(
+      "CAST(ROUND(CAST(JSON_VALUE(r.json, '$.valueQuantity.value') AS DECIMAL(18,6)), 2) AS DECIMAL(38, 2))",
+    );
+  });
+
+  it("are empty outside their domain", () => {
+    expect(transpilePath("Observation", "valueQuantity.value.ln()")).toContain(
+      "(CASE WHEN CAST(JSON_VALUE(r.json, '$.valueQuantity.value') AS DECIMAL(18,6)) > 0 THEN TRY_CAST(LOG(",
+    );
+  });
+
+  it("raise Integers to Integer powers", () => {
+    expect(transpilePath("Observation", "valueInteger.power(2)")).toContain(
+      "POWER(CAST(JSON_VALUE(r.json, '$.valueInteger') AS BIGINT), 2)",
+    );
+  });
+
+  it("reject the wrong number of arguments", () => {
+    expect(() => transpilePath("Observation", "valueInteger.power()")).toThrow(
+      "power() function requires 1 argument",
+    );
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * FHIRPath arithmetic and math functions with numeric typing.
+ *
+ * Each operand is known to be an Integer or a Decimal (or is of unknown type,
+ * which is treated as a Decimal). Integer arithmetic stays in integer SQL
+ * types, so `div` truncates and results such as `ceiling()` are Integers,
+ * while `/` always divides as Decimals. Values read from JSON are cast to
+ * `BIGINT` or `DECIMAL(18,6)` according to their type.
+ *
+ * Division by zero, and math functions applied outside their domain (e.g.
+ * `sqrt()` of a negative number), yield an empty result rather than a SQL
+ * error.
+ *
+ * @author John Grimes
+ */
+
+import type { ElementInfo } from "../typeModel/index.js";
+import type { LibraryFunction } from "./stringFunctions.js";
+
+export type NumericType = "integer" | "decimal";
+
+/**
+ * A transpiled expression with its numeric type, or null if the type is not
+ * known.
+ */
+export interface NumericOperand {
+  sql: string;
+  type: NumericType | null;
+  // Whether the value is text read from JSON, rather than a SQL number.
+  isText?: boolean;
+}
+
+/**
+ * The SQL type of Decimal values read from JSON.
+ */
+export const DECIMAL_SQL_TYPE = "DECIMAL(18,6)";
+
+/**
+ * The SQL type of Integer values read from JSON.
+ */
+export const INTEGER_SQL_TYPE = "BIGINT";
+
+/**
+ * The SQL type of Decimal results of floating point functions such as
+ * `sqrt()`, with the 8 decimal places FHIRPath requires.
+ */
+const FLOAT_DECIMAL_SQL_TYPE = "DECIMAL(38, 8)";
+
+/**
+ * The largest power of e (exclusive) that `exp()` evaluates, beyond which
+ * the result exceeds the range of Decimals.
+ */
+const MAX_EXPONENT = 70;
+
+/**
+ * The FHIR types whose values are Integers.
+ */
+const INTEGER_TYPES = ["integer", "integer64", "positiveInt", "unsignedInt"];
+
+/**
+ * Functions whose result is an Integer, whatever their input.
+ */
+export const INTEGER_FUNCTIONS = new Set([
+  "count",
+  "length",
+  "indexOf",
+  "lastIndexOf",
+]);
+
+/**
+ * The numeric type of the values of an element, or null if they are not
+ * numbers.
+ */
+export function elementNumericType(
+  element: ElementInfo | null,
+): NumericType | null {
+  if (element?.types.length !== 1) {
+    return null;
+  }
+  const [type] = element.types;
+  if (INTEGER_TYPES.includes(type)) {
+    return "integer";
+  }
+  return type === "decimal" ? "decimal" : null;
+}
+
+/**
+ * The numeric type of a number literal.
+ */
+export function literalNumericType(literal: string): NumericType {
+  return /[.eE]/.test(literal) ? "decimal" : "integer";
+}
+
+/**
+ * The operand as a SQL number, casting a value read from JSON to the SQL type
+ * of its numeric type.
+ */
+export function numericValue(operand: NumericOperand): string {
+  const { sql, type, isText } = operand;
+  if (!isText) {
+    return sql;
+  }
+  return `CAST(${sql} AS ${type === "integer" ? INTEGER_SQL_TYPE : DECIMAL_SQL_TYPE})`;
+}
+
+/**
+ * Apply an arithmetic operator (`+`, `-`, `*`, `/`, `div`, `mod`).
+ */
+export function arithmetic(
+  operator: string,
+  left: NumericOperand,
+  right: NumericOperand,
+): NumericOperand {
+  const integer = left.type === "integer" && right.type === "integer";
+  const l = numericValue(left);
+  const r = numericValue(right);
+  // Division by zero is empty; literal divisors other than zero need no check
+  const d = isNumberLiteral(r) && Number(r) !== 0 ? r : `NULLIF(${r}, 0)`;
+  switch (operator) {
+    case "/":
+      return {
+        sql: `(${decimalValue(left)} / ${d})`,
+        type: "decimal",
+      };
+    case "div":
+      return {
+        sql: integer
+          ? `(${l} / ${d})`
+          : `CAST(ROUND(${l} / ${d}, 0, 1) AS ${INTEGER_SQL_TYPE})`,
+        type: "integer",
+      };
+    case "mod":
+      return { sql: `(${l} % ${d})`, type: resultType(left, right) };
+    default:
+      return {
+        sql: `(${l} ${operator} ${r})`,
+        type: resultType(left, right),
+      };
+  }
+}
+
+/**
+ * Negate an operand.
+ */
+export function negate(operand: NumericOperand): NumericOperand {
+  return { sql: `(-${numericValue(operand)})`, type: operand.type };
+}
+
+/**
+ * The type of the result of arithmetic on two operands: Integer for Integers,
+ * otherwise Decimal if either is known to be a Decimal.
+ */
+function resultType(
+  left: NumericOperand,
+  right: NumericOperand,
+): NumericType | null {
+  if (left.type === "integer" && right.type === "integer") {
+    return "integer";
+  }
+  return left.type === "decimal" || right.type === "decimal" ? "decimal" : null;
+}
+
+/**
+ * The operand as a SQL decimal, so that division does not truncate.
+ */
+function decimalValue(operand: NumericOperand): string {
+  const value = numericValue(operand);
+  return operand.type === "integer"
+    ? `CAST(${value} AS ${DECIMAL_SQL_TYPE})`
+    : value;
+}
+
+/**
+ * A floating point result as a Decimal, which is empty if it exceeds the
+ * range of Decimals.
+ */
+function asDecimal(float: string): string {
+  return `TRY_CAST(${float} AS ${FLOAT_DECIMAL_SQL_TYPE})`;
+}
+
+function integerResult(sql: string): NumericOperand {
+  return { sql, type: "integer" };
+}
+
+function decimalResult(sql: string): NumericOperand {
+  return { sql, type: "decimal" };
+}
+
+/**
+ * A function rounding its input to an Integer. Integers are returned as they
+ * are.
+ */
+function toInteger(
+  rounding: (value: string) => string,
+): LibraryFunction<NumericOperand> {
+  return {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) =>
+      integerResult(
+        input.type === "integer"
+          ? numericValue(input)
+          : `CAST(${rounding(numericValue(input))} AS ${INTEGER_SQL_TYPE})`,
+      ),
+  };
+}
+
+export const MATH_FUNCTIONS: Record<string, LibraryFunction<NumericOperand>> = {
+  abs: {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) => ({ sql: `ABS(${numericValue(input)})`, type: input.type }),
+  },
+  ceiling: toInteger((value) => `CEILING(${value})`),
+  floor: toInteger((value) => `FLOOR(${value})`),
+  truncate: toInteger((value) => `ROUND(${value}, 0, 1)`),
+  round: {
+    minArgs: 0,
+    maxArgs: 1,
+    sql: (input, [precision]) => round(input, precision),
+  },
+  sqrt: {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) => {
+      const value = numericValue(input);
+      return decimalResult(
+        `(CASE WHEN ${value} >= 0 THEN ${asDecimal(`SQRT(${value})`)} END)`,
+      );
+    },
+  },
+  exp: {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) =>
+      decimalResult(
+        `(CASE WHEN ${numericValue(input)} < ${MAX_EXPONENT} THEN ${asDecimal(`EXP(${numericValue(input)})`)} END)`,
+      ),
+  },
+  ln: {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) => {
+      const value = numericValue(input);
+      return decimalResult(
+        `(CASE WHEN ${value} > 0 THEN ${asDecimal(`LOG(${value})`)} END)`,
+      );
+    },
+  },
+  log: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [base]) => {
+      const value = numericValue(input);
+      const b = numericValue(base);
+      const validBase = isNumberLiteral(b)
+        ? Number(b) > 0 && Number(b) !== 1
+        : null;
+      if (validBase === false) {
+        return decimalResult("NULL");
+      }
+      const baseCondition = validBase ? "" : ` AND ${b} > 0 AND ${b} <> 1`;
+      return decimalResult(
+        `(CASE WHEN ${value} > 0${baseCondition} THEN ${asDecimal(`LOG(${value}, ${b})`)} END)`,
+      );
+    },
+  },
+  power: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [exponent]) => power(input, exponent),
+  },
+};
+
+/**
+ * Round to a number of decimal places (0 by default). A literal precision
+ * fixes the scale of the result.
+ */
+function round(
+  input: NumericOperand,
+  precision?: NumericOperand,
+): NumericOperand {
+  const places = precision ? numericValue(precision) : "0";
+  const rounded = `ROUND(${numericValue(input)}, ${places})`;
+  return decimalResult(
+    /^\d+$/.test(places)
+      ? `CAST(${rounded} AS DECIMAL(38, ${places}))`
+      : `(CASE WHEN ${places} >= 0 THEN ${rounded} END)`,
+  );
+}
+
+/**
+ * Raise to a power. An Integer raised to an Integer is an Integer, which is
+ * empty for negative exponents. Otherwise the result is empty where it is not
+ * a real number (e.g. `(-1).power(0.5)`).
+ */
+function power(
+  input: NumericOperand,
+  exponent: NumericOperand,
+): NumericOperand {
+  const base = numericValue(input);
+  const e = numericValue(exponent);
+  if (input.type === "integer" && exponent.type === "integer") {
+    const integerBase = base.endsWith(` AS ${INTEGER_SQL_TYPE})`)
+      ? base
+      : `CAST(${base} AS ${INTEGER_SQL_TYPE})`;
+    const result = `POWER(${integerBase}, ${e})`;
+    return integerResult(
+      isNumberLiteral(e) && Number(e) >= 0
+        ? result
+        : `(CASE WHEN ${e} >= 0 THEN ${result} END)`,
+    );
+  }
+  const result = asDecimal(`POWER(CAST(${base} AS FLOAT), ${e})`);
+  const undefinedCases = powerUndefinedCases(base, e);
+  return decimalResult(
+    undefinedCases.length > 0
+      ? `(CASE WHEN ${undefinedCases.join(" OR ")} THEN NULL ELSE ${result} END)`
+      : result,
+  );
+}
+
+/**
+ * The conditions under which a power is not a real number: a negative number
+ * raised to a fractional exponent, or zero raised to a negative one.
+ */
+function powerUndefinedCases(base: string, exponent: string): string[] {
+  if (!isNumberLiteral(exponent)) {
+    return [
+      `(${base} < 0 AND ${exponent} <> FLOOR(${exponent}))`,
+      `(${base} = 0 AND ${exponent} < 0)`,
+    ];
+  }
+  const value = Number(exponent);
+  return [
+    ...(Number.isInteger(value) ? [] : [`${base} < 0`]),
+    ...(value < 0 ? [`${base} = 0`] : []),
+  ];
+}
+
+function isNumberLiteral(sql: string): boolean {
+  return /^-?\d+(?:\.\d+)?$/.test(sql);
+}
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for FHIRPath quantities and the resolution of their UCUM units.
+ *
+ * Quantities are compared, added and converted through the factor that
+ * converts their unit to base units, so quantities in compatible units such
+ * as mg and g compare by their magnitude.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { transpilePath } from "../tests/utils/transpile";
+import { resolveUnit } from "./ucum";
+
+describe("UCUM units", () => {
+  it("resolve prefixed and derived units to base units", () => {
+    expect(resolveUnit("mg")).toEqual({
+      factor: 0.001,
+      shift: 0,
+      dimension: "g",
+    });
+    expect(resolveUnit("mmol/L")?.dimension).toBe("m-3.mol");
+    expect(resolveUnit("mm[Hg]")?.dimension).toBe(
+      resolveUnit("kPa")?.dimension,
+    );
+  });
+
+  it("resolve temperatures with an offset", () => {
+    expect(resolveUnit("Cel")).toEqual({
+      factor: 1,
+      shift: 273.15,
+      dimension: "K",
+    });
+  });
+
+  it("resolve calendar durations apart from UCUM years and months", () => {
+    expect(resolveUnit("weeks")?.factor).toBe(604800);
+    expect(resolveUnit("year")?.dimension).not.toBe(
+      resolveUnit("a")?.dimension,
+    );
+  });
+
+  it("do not resolve unknown units", () => {
+    expect(resolveUnit("furlong")).toBeNull();
+  });
+});
+
+describe("quantity literals", () => {
+  it("are FHIR Quantity objects", () => {
+    expect(transpilePath("Observation", "4.50 'mg'")).toMatch(
+      /^SELECT\s+JSON_QUERY\('\{"value":4\.50,"unit":"mg","system":"http:\/\/unitsofmeasure\.org","code":"mg"\}'\) AS \[x\]/,
+    );
+  });
+
+  it("have no code for calendar durations", () => {
+    expect(transpilePath("Observation", "3 days")).toContain(
+      `JSON_QUERY('{"value":3,"unit":"days"}')`,
+    );
+  });
+
+  it("reject arithmetic other than addition and subtraction", () => {
+    expect(() => transpilePath("Observation", "5 'mg' * 2")).toThrow(
+      "Arithmetic with quantities",
+    );
+  });
+});
+
+describe("quantity arithmetic", () => {
+  it("adds in the unit of the left operand", () => {
+    expect(transpilePath("Observation", "5 'mg' + 1 'g'")).toContain(
+      `JSON_QUERY((SELECT JSON_MODIFY(JSON_QUERY('{"value":5,"unit":"mg","system":"http://unitsofmeasure.org","code":"mg"}'), '$.value', CAST(lhs.value AS DECIMAL(38, 8)) + COALESCE(CAST(((rhs.value * rhs.factor + rhs.shift) - lhs.shift) / lhs.factor AS DECIMAL(38, 8)), CAST(rhs.value AS DECIMAL(38, 8)))) FROM (SELECT CAST(5 AS FLOAT) AS value, 'mg' AS code, 1e-3 AS factor`,
+    );
+  });
+
+  it("subtracts quantities in resources, and is empty for incompatible units", () => {
+    const sql = transpilePath("Observation", "value.ofType(Quantity) - 5 'mg'");
+    expect(sql).toContain(
+      "JSON_QUERY((SELECT JSON_MODIFY(JSON_QUERY(r.json, '$.valueQuantity'), '$.value', CAST(lhs.value AS DECIMAL(38, 8)) - ",
+    );
+    expect(sql).toContain(
+      "AS rhs WHERE (lhs.dimension = rhs.dimension OR lhs.code COLLATE Latin1_General_BIN2 = rhs.code)))",
+    );
+  });
+
+  it("rejects numbers as operands", () => {
+    expect(() =>
+      transpilePath("Observation", "value.ofType(Quantity) + 1"),
+    ).toThrow(
+      "Quantities can only be added to or subtracted from other quantities",
+    );
+  });
+});
+
+describe("quantity comparison", () => {
+  it("converts the right operand to the unit of the left", () => {
+    expect(transpilePath("Observation", "1000 'mg' = 1 'g'")).toContain(
+      "(SELECT CAST(1000 AS FLOAT) AS value, 'mg' AS code, 1e-3 AS factor, 0e+0 AS shift, 'g' AS dimension) AS lhs CROSS APPLY (SELECT CAST(1 AS FLOAT) AS value, 'g' AS code, 1e+0 AS factor, 0e+0 AS shift, 'g' AS dimension) AS rhs",
+    );
+  });
+
+  it("looks up the units of quantities in resources", () => {
+    const sql = transpilePath("Observation", "value.ofType(Quantity) > 5 'mg'");
+    expect(sql).toContain(
+      "FROM (SELECT JSON_QUERY(r.json, '$.valueQuantity') AS q) AS input LEFT JOIN (VALUES ('kg', 1e+3, 0e+0, 'g'),",
+    );
+    expect(sql).not.toContain("'m'");
+  });
+
+  it("is empty for units of different dimensions", () => {
+    expect(
+      transpilePath("Observation", "value.ofType(Quantity) < 5 'mg'"),
+    ).toContain(
+      "CASE WHEN (lhs.dimension = rhs.dimension OR lhs.code COLLATE Latin1_General_BIN2 = rhs.code) THEN",
+    );
+  });
+
+  it("compares the values of quantities in the same unknown unit", () => {
+    const sql = transpilePath(
+      "Observation",
+      "value.ofType(Quantity) > 5 '{beats}/min'",
+    );
+    expect(sql).toContain(
+      "(SELECT TRY_CAST(JSON_VALUE(input.q, '$.value') AS FLOAT) AS value, COALESCE(JSON_VALUE(input.q, '$.code'), JSON_VALUE(input.q, '$.unit')) AS code,",
+    );
+    expect(sql).toContain(
+      "COALESCE(CAST(((rhs.value * rhs.factor + rhs.shift) - lhs.shift) / lhs.factor AS DECIMAL(38, 8)), CAST(rhs.value AS DECIMAL(38, 8))) AS rightValue",
+    );
+  });
+
+  it("treats empty quantities as equivalent", () => {
+    expect(
+      transpilePath("Observation", "value.ofType(Quantity) ~ 5 'mg'"),
+    ).toContain("IIF(lhs.value IS NULL AND rhs.value IS NULL, 1, 0)");
+  });
+});
+
+describe("toQuantity() with a unit", () => {
+  it("converts quantities in compatible units", () => {
+    expect(
+      transpilePath("Observation", "value.ofType(Quantity).toQuantity('g')"),
+    ).toContain(
+      "CROSS APPLY (SELECT 1e+0 AS factor, 0e+0 AS shift, 'g' AS dimension) AS target WHERE quantity.dimension = target.dimension",
+    );
+  });
+
+  it("matches unknown units by their code", () => {
+    expect(
+      transpilePath(
+        "Observation",
+        "value.ofType(Quantity).toQuantity('furlong')",
+      ),
+    ).toContain("JSON_VALUE(quantity.v, '$.unit')) = 'furlong'");
+  });
+});
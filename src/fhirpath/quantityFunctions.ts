@@ -0,0 +1,244 @@
+/**
+ * FHIRPath quantities: literals, comparison, equivalence and arithmetic
+ * across compatible units, and conversion to a unit.
+ *
+ * Quantities are FHIR Quantity objects, marked by JSON_QUERY. The unit of a
+ * quantity is its UCUM code, or its unit where it has no code, which is
+ * resolved against the embedded table of units to its dimension and the
+ * factor (and offset, for temperatures) that converts it to base units. A
+ * quantity literal is resolved ahead of the query.
+ *
+ * Quantities of the same dimension are compared after converting the right
+ * operand to the unit of the left, so `1000 'mg' = 1 'g'` is true. Values are
+ * converted as floating point numbers and compared as decimals to 8 places,
+ * which absorbs the rounding of the conversion. Quantities are added and
+ * subtracted in the same way, giving a quantity in the unit of the left
+ * operand. Quantities in the same unit that is not recognised (e.g.
+ * `{beats}/min`) are compared by their values. Comparing quantities of
+ * different dimensions, or in different units that are not recognised, gives
+ * an empty result (and is false for equivalence).
+ * Integers and Decimals compare as quantities with the unit '1'.
+ *
+ * @author John Grimes
+ */
+
+import type { TypedValue } from "./conversionFunctions.js";
+import { ordinal, quote } from "./stringFunctions.js";
+import { COMPARISON_RESULTS } from "./temporalFunctions.js";
+import { emitTSql } from "./tsqlEmitter.js";
+import { resolveUnit, type UcumUnit, unitTable } from "./ucum.js";
+
+/**
+ * The code system of units within quantities.
+ */
+const UCUM_SYSTEM = "http://unitsofmeasure.org";
+
+/**
+ * The SQL type that converted values are compared as.
+ */
+const COMPARED_DECIMAL_TYPE = "DECIMAL(38, 8)";
+
+/**
+ * The condition under which the units of the rows of two operands (`lhs` and
+ * `rhs`) are compatible: they are of the same dimension, or have the same
+ * code.
+ */
+const COMPATIBLE_UNITS = `(lhs.dimension = rhs.dimension OR ${ordinal("lhs.code")} = rhs.code)`;
+
+/**
+ * The quantity of a literal, as a FHIR Quantity object.
+ *
+ * @param value - The number of the quantity.
+ * @param unit - A UCUM unit, or a calendar duration (e.g. `days`).
+ * @param calendar - Whether the unit is a calendar duration, which has no
+ *   UCUM code.
+ */
+export function quantityLiteral(
+  value: string,
+  unit: string,
+  calendar: boolean,
+): string {
+  const quantity = calendar
+    ? { value: Number(value), unit }
+    : { value: Number(value), unit, system: UCUM_SYSTEM, code: unit };
+  // The number is written as it is in the literal, to keep its precision
+  const json = JSON.stringify(quantity).replace(
+    /^\{"value":[^,]+/,
+    `{"value":${value}`,
+  );
+  return `JSON_QUERY(${quote(json)})`;
+}
+
+/**
+ * Whether two operands of a comparison are compared as quantities: one is a
+ * Quantity, and the other is too, or is a number or of unknown type.
+ */
+export function isQuantityComparison(
+  left: string | null,
+  right: string | null,
+): boolean {
+  const comparable = (type: string | null): boolean =>
+    type === null ||
+    type === "Quantity" ||
+    type === "Integer" ||
+    type === "Decimal";
+  return (
+    (left === "Quantity" || right === "Quantity") &&
+    comparable(left) &&
+    comparable(right)
+  );
+}
+
+/**
+ * Compare two quantities (`<`, `<=`, `>`, `>=`, `=`, `!=`, `~` or `!~`),
+ * giving a condition that is unknown where either is empty or their units are
+ * not compatible, other than for equivalence.
+ */
+export function compareQuantities(
+  operator: string,
+  left: TypedValue,
+  right: TypedValue,
+): string {
+  const dimension =
+    literalUnit(left)?.dimension ?? literalUnit(right)?.dimension;
+  const rows = `${quantityRow(left, dimension)} AS lhs CROSS APPLY ${quantityRow(right, dimension)} AS rhs CROSS APPLY (SELECT CAST(lhs.value AS ${COMPARED_DECIMAL_TYPE}) AS leftValue, ${rightValue()} AS rightValue) AS compared`;
+  if (operator === "~" || operator === "!~") {
+    // Empty quantities are equivalent to each other
+    return `((SELECT CASE WHEN lhs.value IS NULL OR rhs.value IS NULL THEN IIF(lhs.value IS NULL AND rhs.value IS NULL, 1, 0) WHEN ${COMPATIBLE_UNITS} AND compared.leftValue = compared.rightValue THEN 1 ELSE 0 END FROM ${rows}) = ${operator === "~" ? 1 : 0})`;
+  }
+  const [less, greater, equal] = COMPARISON_RESULTS.get(operator) ?? [];
+  return `((SELECT CASE WHEN ${COMPATIBLE_UNITS} THEN CASE WHEN compared.leftValue < compared.rightValue THEN ${less} WHEN compared.leftValue > compared.rightValue THEN ${greater} WHEN compared.leftValue = compared.rightValue THEN ${equal} END END FROM ${rows}) = 1)`;
+}
+
+/**
+ * Add or subtract two quantities (`+` or `-`), giving a quantity in the unit
+ * of the left operand, which is empty where either is empty or their units
+ * are not compatible.
+ */
+export function addQuantities(
+  operator: "+" | "-",
+  left: TypedValue,
+  right: TypedValue,
+): string {
+  if (!isQuantity(left) || !isQuantity(right)) {
+    throw new Error(
+      "Quantities can only be added to or subtracted from other quantities",
+    );
+  }
+  const dimension =
+    literalUnit(left)?.dimension ?? literalUnit(right)?.dimension;
+  const value = `CAST(lhs.value AS ${COMPARED_DECIMAL_TYPE}) ${operator} ${rightValue()}`;
+  return `JSON_QUERY((SELECT JSON_MODIFY(${quantityObject(left)}, '$.value', ${value}) FROM ${quantityRow(left, dimension)} AS lhs CROSS APPLY ${quantityRow(right, dimension)} AS rhs WHERE ${COMPATIBLE_UNITS}))`;
+}
+
+/**
+ * Convert a quantity to a unit, which is empty where the quantity is not in a
+ * compatible unit.
+ *
+ * @returns The converted quantity, or null if the unit is not recognised.
+ */
+export function convertQuantity(
+  input: TypedValue,
+  unit: string,
+): string | null {
+  const target = resolveUnit(unit);
+  if (target === null) {
+    return null;
+  }
+  const coding = isCalendarDuration(unit)
+    ? ""
+    : `, ${quote(UCUM_SYSTEM)} AS system, ${quote(unit)} AS code`;
+  const targetRow = `(SELECT ${unitColumns(target)}) AS target`;
+  return `JSON_QUERY((SELECT ${converted("quantity", "target")} AS [value], ${quote(unit)} AS unit${coding} FROM ${quantityRow(input, target.dimension)} AS quantity CROSS APPLY ${targetRow} WHERE quantity.dimension = target.dimension FOR JSON PATH, WITHOUT_ARRAY_WRAPPER))`;
+}
+
+/**
+ * The value of the right operand in the unit of the left, or as it is where
+ * either unit is not recognised.
+ */
+function rightValue(): string {
+  return `COALESCE(${converted("rhs", "lhs")}, CAST(rhs.value AS ${COMPARED_DECIMAL_TYPE}))`;
+}
+
+/**
+ * The value of a row in the unit of another, as a compared decimal.
+ */
+function converted(from: string, to: string): string {
+  return `CAST(((${from}.value * ${from}.factor + ${from}.shift) - ${to}.shift) / ${to}.factor AS ${COMPARED_DECIMAL_TYPE})`;
+}
+
+/**
+ * A row of an operand with its value, the code of its unit and the resolution
+ * of the unit. The unit of a quantity read from a resource is looked up in the
+ * embedded table, limited to a dimension where the other operand's is known.
+ */
+function quantityRow(operand: TypedValue, dimension?: string): string {
+  const { sql, type, node } = operand;
+  if (type === "Integer" || type === "Decimal") {
+    return `(SELECT CAST(${sql} AS FLOAT) AS value, '1' AS code, ${unitColumns({ factor: 1, shift: 0, dimension: "1" })})`;
+  }
+  if (node?.kind === "quantity") {
+    const unit = literalUnit(operand);
+    return `(SELECT CAST(${Number(node.value)} AS FLOAT) AS value, ${quote(node.unit)} AS code, ${unit ? unitColumns(unit) : "NULL AS factor, NULL AS shift, NULL AS dimension"})`;
+  }
+  const object = quantityObject(operand);
+  const units = unitTable(dimension)
+    .map(
+      ([code, unit]) =>
+        `(${quote(code)}, ${float(unit.factor)}, ${float(unit.shift)}, ${quote(unit.dimension)})`,
+    )
+    .join(", ");
+  const code =
+    "COALESCE(JSON_VALUE(input.q, '$.code'), JSON_VALUE(input.q, '$.unit'))";
+  const table =
+    units === ""
+      ? "(SELECT NULL AS code, NULL AS factor, NULL AS shift, NULL AS dimension) AS units"
+      : `(VALUES ${units}) AS units(code, factor, shift, dimension)`;
+  return `(SELECT TRY_CAST(JSON_VALUE(input.q, '$.value') AS FLOAT) AS value, ${code} AS code, units.factor, units.shift, units.dimension FROM (SELECT ${object} AS q) AS input LEFT JOIN ${table} ON ${ordinal("units.code")} = ${code})`;
+}
+
+/**
+ * The JSON object of a quantity. A quantity read with JSON_VALUE is empty, as
+ * it is an object.
+ */
+function quantityObject({ sql, node }: TypedValue): string {
+  return node?.kind === "path" ? emitTSql({ ...node, isJson: true }) : sql;
+}
+
+/**
+ * Whether an operand of arithmetic may be a quantity: it is one, or is of
+ * unknown type.
+ */
+function isQuantity({ type }: TypedValue): boolean {
+  return type === null || type === "Quantity";
+}
+
+/**
+ * The columns of the resolution of a unit.
+ */
+function unitColumns(unit: UcumUnit): string {
+  return `${float(unit.factor)} AS factor, ${float(unit.shift)} AS shift, ${quote(unit.dimension)} AS dimension`;
+}
+
+/**
+ * The resolution of the unit of a quantity literal, or null if the operand is
+ * not a literal or its unit is not recognised.
+ */
+function literalUnit({ node }: TypedValue): UcumUnit | null {
+  return node?.kind === "quantity" ? resolveUnit(node.unit) : null;
+}
+
+/**
+ * Whether a unit is a calendar duration rather than a UCUM unit.
+ */
+function isCalendarDuration(unit: string): boolean {
+  return /^(year|month|week|day|hour|minute|second|millisecond)s?$/.test(unit);
+}
+
+/**
+ * A number as a T-SQL floating point literal, rounded to the precision of a
+ * FLOAT.
+ */
+function float(value: number): string {
+  return Number(value.toPrecision(15)).toExponential();
+}
@@ -0,0 +1,195 @@
+/**
+ * Unit tests for repeat() and aggregate(), which are transpiled to recursive
+ * CTEs in the WITH clause of the view.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { transpilePath, transpileView } from "../tests/utils/transpile";
+
+describe("repeat()", () => {
+  it("is transpiled to a recursive CTE", () => {
+    const sql = transpilePath("Questionnaire", "item.repeat(item).linkId");
+    expect(sql).toMatch(/^WITH\nrepeat_0 AS \(\n {2}SELECT \[r\]\.\[id\] AS/);
+    expect(sql).toContain(
+      "FROM [dbo].[fhir_resources] AS [r]\n  CROSS APPLY OPENJSON(r.json, '$.item') AS item0",
+    );
+    expect(sql).toContain(
+      "FROM repeat_0 AS repeated\n  CROSS APPLY OPENJSON(repeated.value, '$.item') AS item0",
+    );
+    expect(sql).toContain(
+      "FROM repeat_0 AS repeated WHERE repeated.depth > 0 AND repeated.[id] = [r].[id]",
+    );
+  });
+
+  it("keeps the items in depth-first order", () => {
+    expect(transpilePath("Questionnaire", "item.repeat(item)")).toContain(
+      "CAST(repeated.position + '.' + RIGHT('0000000000' + CAST(CAST(item0.[key] AS INT) AS NVARCHAR(10)), 10) AS NVARCHAR(MAX))",
+    );
+  });
+
+  it("is keyed on the enclosing iterations", () => {
+    const sql = transpileView("Questionnaire", [
+      {
+        forEach: "item",
+        column: [{ name: "x", path: "item.repeat(item).count()" }],
+      },
+    ]);
+    expect(sql).toContain("forEach_0.[key] AS [forEach_0_key]");
+    expect(sql).toContain(
+      "FROM [dbo].[fhir_resources] AS [r]\nCROSS APPLY OPENJSON(r.json, '$.item') AS forEach_0\n  CROSS APPLY OPENJSON(forEach_0.value, '$.item') AS item0",
+    );
+    expect(sql).toContain(
+      "repeated.[id] = [r].[id] AND repeated.[forEach_0_key] = forEach_0.[key]",
+    );
+  });
+
+  it("can be iterated and filtered", () => {
+    const sql = transpileView(
+      "Questionnaire",
+      [
+        {
+          forEach: "item.repeat(item)",
+          column: [{ name: "x", path: "linkId" }],
+        },
+      ],
+      ["item.repeat(item).where(required = true).exists()"],
+    );
+    expect(sql).toContain(
+      "FROM repeat_1 AS repeated WHERE repeated.depth > 0 AND repeated.[id] = [r].[id]) AS selected))) AS forEach_0\n",
+    );
+    expect(sql).toContain(
+      "WHERE [r].[resource_type] = 'Questionnaire' AND (EXISTS (SELECT TOP 1 value FROM OPENJSON(JSON_QUERY((SELECT",
+    );
+    expect(sql).toContain(
+      "FROM repeat_2 AS repeated WHERE repeated.depth > 0 AND repeated.[id] = [r].[id]) AS selected)), '$') AS whereItem WHERE (JSON_VALUE(whereItem.value, '$.required') = 'true')))",
+    );
+  });
+
+  it("requires a path as its projection", () => {
+    expect(() =>
+      transpilePath("Questionnaire", "item.repeat(item.where(required))"),
+    ).toThrow(
+      "The projection of repeat() must be a path, such as item: item.where(required)",
+    );
+  });
+
+  it("is not supported within the criteria of another function", () => {
+    expect(() =>
+      transpilePath("Questionnaire", "item.where(item.repeat(item).exists())"),
+    ).toThrow(
+      "repeat() is supported only within the columns, iterations and where clauses of a view",
+    );
+  });
+});
+
+describe("aggregate()", () => {
+  it("is transpiled to a recursive CTE over the numbered items", () => {
+    const sql = transpilePath("Questionnaire", "item.aggregate($total + 1, 0)");
+    expect(sql).toContain(
+      "aggregate_0_items AS (\n  SELECT [r].[id] AS [id], ROW_NUMBER() OVER (PARTITION BY [r].[id] ORDER BY CAST(item0.[key] AS INT)) AS position, item0.value, item0.type",
+    );
+    expect(sql).toContain(
+      "SELECT aggregated.[id], aggregated.position, CAST((0 + 1) AS BIGINT) AS total\n  FROM aggregate_0_items AS aggregated\n  WHERE aggregated.position = 1",
+    );
+    expect(sql).toContain(
+      "CAST((accumulated.total + 1) AS BIGINT) AS total\n  FROM aggregate_0 AS accumulated\n  JOIN aggregate_0_items AS aggregated ON aggregated.[id] = accumulated.[id] AND aggregated.position = accumulated.position + 1",
+    );
+  });
+
+  it("is the total for the last item, or the initial value", () => {
+    expect(
+      transpilePath("Questionnaire", "item.aggregate($total + 1, 0)"),
+    ).toContain(
+      "(CASE WHEN EXISTS (SELECT 1 FROM aggregate_0_items AS items WHERE items.[id] = [r].[id]) THEN (SELECT TOP 1 accumulated.total FROM aggregate_0 AS accumulated WHERE accumulated.[id] = [r].[id] ORDER BY accumulated.position DESC) ELSE 0 END) AS [x]",
+    );
+  });
+
+  it("binds $this and $index to each item", () => {
+    const sql = transpilePath(
+      "Questionnaire",
+      "item.aggregate(iif($this.required, $total + $index, $total), 0)",
+    );
+    expect(sql).toContain(
+      "(CASE WHEN (JSON_VALUE(aggregated.value, '$.required') = 'true') THEN (accumulated.total + (aggregated.position - 1)) ELSE accumulated.total END)",
+    );
+  });
+
+  it("invokes functions on each item, as $this or as their input", () => {
+    expect(
+      transpilePath(
+        "Questionnaire",
+        "item.linkId.aggregate($this.length() + $total, 0)",
+      ),
+    ).toContain("CAST(((LEN(aggregated.value + 'x') - 1) + 0) AS BIGINT)");
+    expect(
+      transpilePath(
+        "Questionnaire",
+        "item.linkId.aggregate(length() + $total, 0)",
+      ),
+    ).toContain("CAST(((LEN(aggregated.value + 'x') - 1) + 0) AS BIGINT)");
+    expect(
+      transpilePath(
+        "Questionnaire",
+        "item.linkId.aggregate(iif($this.startsWith('a'), $total + 1, $total), 0)",
+      ),
+    ).toContain(
+      "(CASE WHEN (LEFT(aggregated.value, 1) COLLATE Latin1_General_BIN2 = 'a' COLLATE Latin1_General_BIN2) THEN (accumulated.total + 1) ELSE accumulated.total END)",
+    );
+  });
+
+  it("tests an initial total for emptiness by whether it is NULL", () => {
+    const sql = transpilePath(
+      "Questionnaire",
+      "item.linkId.aggregate(iif($total.empty(), $this, iif($this > $total, $this, $total)))",
+    );
+    expect(sql).toContain("(NULL IS NULL)");
+    expect(sql).toContain("CASE WHEN (accumulated.total IS NULL) THEN");
+  });
+
+  it("totals numbers in the type of their items", () => {
+    const sql = transpileView("Questionnaire", [
+      {
+        column: [
+          {
+            name: "x",
+            path: "item.initial.value.ofType(decimal).aggregate($this + $total, 0)",
+          },
+        ],
+      },
+    ]);
+    expect(sql).toContain(
+      "CAST((CAST(aggregated.value AS DECIMAL(18,6)) + accumulated.total) AS DECIMAL(18,6)) AS total",
+    );
+  });
+
+  it("can filter the view", () => {
+    expect(
+      transpileView(
+        "Questionnaire",
+        [{ column: [{ name: "id", path: "id" }] }],
+        ["item.aggregate($total + 1, 0) > 2"],
+      ),
+    ).toContain(
+      "WHERE [r].[resource_type] = 'Questionnaire' AND (((CASE WHEN EXISTS (SELECT 1 FROM aggregate_0_items AS items",
+    );
+  });
+
+  it("requires an aggregator that reads no collection", () => {
+    expect(() =>
+      transpilePath(
+        "Questionnaire",
+        "item.aggregate($total.combine($this.linkId))",
+      ),
+    ).toThrow(
+      "The aggregator of aggregate() must not read a collection, as it is evaluated within a recursive CTE: $total.combine($this.linkId)",
+    );
+  });
+
+  it("requires one or two arguments", () => {
+    expect(() => transpilePath("Questionnaire", "item.aggregate()")).toThrow(
+      "aggregate() function requires one or two arguments",
+    );
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * FHIRPath `repeat()` and `aggregate()`, which are transpiled to recursive
+ * common table expressions.
+ *
+ * T-SQL allows CTEs only at the start of a statement, so those of these
+ * functions are collected by the {@link RecursiveQueries} of the view and
+ * rendered in its WITH clause, alongside those of the `repeat` operator. Like
+ * those, each CTE is anchored on the resources table, reaches the input of
+ * the function through the same APPLY clauses as the view, and carries the
+ * keys of the row it belongs to (the id of the resource, and the key of each
+ * enclosing iteration). The expression then reads the rows of the CTE that
+ * belong to the current row.
+ *
+ * SQL Server does not allow subqueries within the recursive member of a CTE,
+ * so the projection of `repeat()` must be a path and the aggregator of
+ * `aggregate()` may not read a collection. Both are evaluated within the CTE,
+ * where only the item (and `$index` and `$total`) and constants are in scope.
+ * SQL Server also limits recursion to 100 levels unless the statement is run
+ * with `OPTION (MAXRECURSION n)`, which bounds the depth `repeat()` descends
+ * to and the number of items `aggregate()` reads.
+ *
+ * @author John Grimes
+ */
+
+import type {
+  CteDefinition,
+  PartitionKey,
+} from "../queryGenerator/treeWalker/types.js";
+import { type ItemRows, jsonArray, jsonItem } from "./collectionFunctions.js";
+import type { ArrayNode } from "./ir.js";
+
+/**
+ * The recursive queries of a view, and where the current row reads its items
+ * from.
+ */
+export interface RecursiveQueries {
+  /** The CTEs of the statement, to which those of functions are added. */
+  ctes: CteDefinition[];
+  /** A counter shared with the tree walker, which keeps CTE names unique. */
+  counter: { value: number };
+  /** The FROM clause of the resources, e.g. `FROM [dbo].[fhir_resources] AS [r]`. */
+  from: string;
+  /** The APPLY and JOIN clauses that bring the sources of the row in scope. */
+  applies: string;
+  /** The keys identifying the current row. */
+  keys: PartitionKey[];
+}
+
+/**
+ * The alias of the rows of a `repeat()` CTE within its recursive member, by
+ * which its projection reads each item.
+ */
+export const REPEATED_ALIAS = "repeated";
+
+/**
+ * The alias of the rows of the items of an `aggregate()` CTE, by which its
+ * aggregator reads each item.
+ */
+export const AGGREGATED_ALIAS = "aggregated";
+
+/**
+ * The recursive queries within an iteration, whose rows are reached through
+ * further APPLY or JOIN clauses and identified by further keys.
+ *
+ * @param queries - The recursive queries of the enclosing scope, if any.
+ * @param applies - The clauses that reach the rows of the iteration.
+ * @param keys - The keys identifying the rows of the iteration.
+ * @returns The recursive queries of the iteration.
+ */
+export function iterationQueries(
+  queries: RecursiveQueries | undefined,
+  applies: string,
+  keys: PartitionKey[],
+): RecursiveQueries | undefined {
+  return queries && { ...queries, applies, keys };
+}
+
+/**
+ * The items of the projection of each item of a collection, and of the
+ * projection of each of those, and so on, until no more are found
+ * (`repeat()`). The items are returned as a JSON array in depth-first order.
+ *
+ * @param queries - The recursive queries the CTE is added to.
+ * @param input - The rows holding the items of the input collection.
+ * @param projection - The rows holding the items of the projection of the
+ *   item `repeated.value`.
+ * @returns The transpiled collection.
+ */
+export function repeatItems(
+  queries: RecursiveQueries,
+  input: ItemRows,
+  projection: ItemRows,
+): ArrayNode {
+  const alias = `repeat_${queries.counter.value++}`;
+  const anchor = `SELECT ${keyColumns(queries.keys)}, CAST(${position(input)} AS NVARCHAR(MAX)) AS position, CAST(${input.alias}.value AS NVARCHAR(MAX)) AS value, CAST(${input.alias}.type AS INT) AS type, 0 AS depth
+  ${queries.from}${queries.applies}
+  CROSS APPLY ${input.clauses.join(" CROSS APPLY ")}
+  WHERE ${input.conditions.join(" AND ")}`;
+  const recursive = `SELECT ${carriedKeys(REPEATED_ALIAS, queries.keys)}, CAST(${REPEATED_ALIAS}.position + '.' + ${position(projection)} AS NVARCHAR(MAX)), CAST(${projection.alias}.value AS NVARCHAR(MAX)), CAST(${projection.alias}.type AS INT), ${REPEATED_ALIAS}.depth + 1
+  FROM ${alias} AS ${REPEATED_ALIAS}
+  CROSS APPLY ${projection.clauses.join(" CROSS APPLY ")}
+  WHERE ${projection.conditions.join(" AND ")}`;
+  queries.ctes.push({
+    alias,
+    body: `  ${anchor}\n  UNION ALL\n  ${recursive}`,
+  });
+  const conditions = [
+    `${REPEATED_ALIAS}.depth > 0`,
+    ...keyConditions(REPEATED_ALIAS, queries.keys),
+  ];
+  return jsonArray(
+    `SELECT ${jsonItem(REPEATED_ALIAS)} AS item, ${REPEATED_ALIAS}.position FROM ${alias} AS ${REPEATED_ALIAS} WHERE ${conditions.join(" AND ")}`,
+  );
+}
+
+/**
+ * The result of an aggregator evaluated for each item of a collection in
+ * turn, with `$total` the result for the previous item, or the initial value
+ * for the first (`aggregate()`). The result is the initial value where the
+ * collection is empty.
+ *
+ * @param queries - The recursive queries the CTEs are added to.
+ * @param input - The rows holding the items of the input collection.
+ * @param aggregator - The transpiled aggregator, given the transpiled total.
+ *   It reads the item from `aggregated.value`, and its 1-based position
+ *   from `aggregated.position`.
+ * @param init - The transpiled initial value, or null if there is none.
+ * @param sqlType - The SQL type of the total.
+ * @returns The transpiled total.
+ */
+export function aggregateItems(
+  queries: RecursiveQueries,
+  input: ItemRows,
+  aggregator: (total: string) => string,
+  init: string | null,
+  sqlType: string,
+): string {
+  const id = queries.counter.value++;
+  const [alias, itemsAlias] = [`aggregate_${id}`, `aggregate_${id}_items`];
+  const partition = queries.keys.map((key) => key.sqlExpr).join(", ");
+  const order =
+    input.order.length > 0 ? input.order.join(", ") : "(SELECT NULL)";
+  queries.ctes.push({
+    alias: itemsAlias,
+    body: `  SELECT ${keyColumns(queries.keys)}, ROW_NUMBER() OVER (PARTITION BY ${partition} ORDER BY ${order}) AS position, ${input.alias}.value, ${input.alias}.type
+  ${queries.from}${queries.applies}
+  CROSS APPLY ${input.clauses.join(" CROSS APPLY ")}
+  WHERE ${input.conditions.join(" AND ")}`,
+  });
+  const total = (value: string): string =>
+    `CAST(${aggregator(value)} AS ${sqlType}) AS total`;
+  const itemKeys = carriedKeys(AGGREGATED_ALIAS, queries.keys);
+  const joinConditions = [
+    ...queries.keys.map(
+      (key) => `${AGGREGATED_ALIAS}.[${key.name}] = accumulated.[${key.name}]`,
+    ),
+    `${AGGREGATED_ALIAS}.position = accumulated.position + 1`,
+  ];
+  queries.ctes.push({
+    alias,
+    body: `  SELECT ${itemKeys}, ${AGGREGATED_ALIAS}.position, ${total(init ?? "NULL")}
+  FROM ${itemsAlias} AS ${AGGREGATED_ALIAS}
+  WHERE ${AGGREGATED_ALIAS}.position = 1
+  UNION ALL
+  SELECT ${itemKeys}, ${AGGREGATED_ALIAS}.position, ${total("accumulated.total")}
+  FROM ${alias} AS accumulated
+  JOIN ${itemsAlias} AS ${AGGREGATED_ALIAS} ON ${joinConditions.join(" AND ")}`,
+  });
+  const where = (rowAlias: string): string =>
+    keyConditions(rowAlias, queries.keys).join(" AND ");
+  return `(CASE WHEN EXISTS (SELECT 1 FROM ${itemsAlias} AS items WHERE ${where("items")}) THEN (SELECT TOP 1 accumulated.total FROM ${alias} AS accumulated WHERE ${where("accumulated")} ORDER BY accumulated.position DESC) ELSE ${init ?? "NULL"} END)`;
+}
+
+/**
+ * The keys of the current row, as the columns of an anchor member.
+ */
+function keyColumns(keys: PartitionKey[]): string {
+  return keys.map((key) => `${key.sqlExpr} AS [${key.name}]`).join(", ");
+}
+
+/**
+ * The keys of the rows of a CTE, carried into its recursive member.
+ */
+function carriedKeys(alias: string, keys: PartitionKey[]): string {
+  return keys.map((key) => `${alias}.[${key.name}]`).join(", ");
+}
+
+/**
+ * The conditions matching the rows of a CTE to the current row.
+ */
+function keyConditions(alias: string, keys: PartitionKey[]): string[] {
+  return keys.map((key) => `${alias}.[${key.name}] = ${key.sqlExpr}`);
+}
+
+/**
+ * The position of an item within its collection, as text that sorts in
+ * document order: each array index, zero-padded to ten digits.
+ */
+function position(rows: ItemRows): string {
+  const segments = rows.order.map(
+    (key) => `RIGHT('0000000000' + CAST(${key} AS NVARCHAR(10)), 10)`,
+  );
+  return segments.length > 0 ? segments.join(" + '.' + ") : "'0000000000'";
+}
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for `resolve()`, which looks referenced resources up in the
+ * resources table or among the contained resources of the resource.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import type { QueryGeneratorOptions } from "../queryGenerator";
+import { transpilePath } from "../tests/utils/transpile";
+
+/**
+ * The options of a transpiler that resolves references.
+ */
+const RESOLVING: QueryGeneratorOptions = { resolveReferences: true };
+
+describe("resolve()", () => {
+  it("looks up the referenced resource by resource type and id", () => {
+    const sql = transpilePath(
+      "Observation",
+      "subject.resolve().ofType(Patient).birthDate",
+      RESOLVING,
+    );
+    expect(sql).toContain(
+      "(SELECT TOP 1 JSON_VALUE(value, '$.birthDate') FROM (SELECT JSON_VALUE(r.json, '$.subject.reference') AS reference) AS link",
+    );
+    expect(sql).toContain(
+      "JOIN [dbo].[fhir_resources] AS target ON target.[resource_type] = linkParts.resourceType AND JSON_VALUE(target.[json], '$.id') = ",
+    );
+    expect(sql).toContain(
+      "AS resolved WHERE JSON_VALUE(value, '$.resourceType') = 'Patient')",
+    );
+  });
+
+  it("resolves every reference of a repeating element", () => {
+    const sql = transpilePath(
+      "Observation",
+      "hasMember.resolve().count()",
+      RESOLVING,
+    );
+    expect(sql).toContain(
+      "(SELECT COUNT(*) FROM (SELECT items.value, 5 AS type FROM (SELECT value FROM (SELECT item1.value AS reference FROM OPENJSON(r.json, '$.hasMember') AS item0 CROSS APPLY OPENJSON(item0.value, '$') AS item1 WHERE item0.value IS NOT NULL AND item1.value IS NOT NULL AND item1.[key] = 'reference') AS link",
+    );
+  });
+
+  it("navigates the elements of a resource of the type selected", () => {
+    expect(
+      transpilePath(
+        "Observation",
+        "subject.resolve().ofType(Patient).name.family",
+        RESOLVING,
+      ),
+    ).toContain("(SELECT TOP 1 JSON_VALUE(value, '$.name[0].family') FROM");
+    expect(
+      transpilePath(
+        "Observation",
+        "subject.resolve().ofType(Patient).name.given.first()",
+        RESOLVING,
+      ),
+    ).toContain("(SELECT TOP 1 JSON_VALUE(value, '$.name[0].given[0]') FROM");
+  });
+
+  it("ignores the version of the reference", () => {
+    expect(
+      transpilePath("Observation", "subject.resolve()", RESOLVING),
+    ).toContain(
+      "LEFT(linkParts.remainder, CHARINDEX('/', CONCAT(linkParts.remainder, '/')) - 1)",
+    );
+  });
+
+  it("looks up contained resources", () => {
+    expect(
+      transpilePath("Observation", "subject.resolve()", RESOLVING),
+    ).toContain(
+      "FROM OPENJSON(JSON_QUERY(r.json, '$.contained')) AS contained WHERE link.reference = CONCAT('#', JSON_VALUE(contained.value, '$.id'))",
+    );
+  });
+
+  it("removes the configured base URLs from absolute references", () => {
+    expect(
+      transpilePath("Observation", "subject.resolve()", {
+        resolveReferences: true,
+        referenceBaseUrls: ["https://example.org/fhir/"],
+      }),
+    ).toContain(
+      "IIF(LEFT(link.reference, 25) = 'https://example.org/fhir/', SUBSTRING(link.reference, 26, LEN(link.reference)), link.reference) AS path",
+    );
+  });
+
+  it("reads the table named in the options", () => {
+    expect(
+      transpilePath("Observation", "subject.resolve()", {
+        resolveReferences: true,
+        schemaName: "fhir",
+        tableName: "resources",
+      }),
+    ).toContain("JOIN [fhir].[resources] AS target");
+  });
+
+  it("tests the type of the resolved resource", () => {
+    expect(
+      transpilePath("Observation", "subject.resolve() is Patient", RESOLVING),
+    ).toContain("AS resolved), '$.resourceType') = 'Patient')");
+  });
+
+  it("resolves the references within where() criteria", () => {
+    const sql = transpilePath(
+      "Observation",
+      "performer.where(resolve() is Practitioner).display",
+      RESOLVING,
+    );
+    expect(sql).toContain(
+      "(SELECT JSON_VALUE(whereItem.value, '$.reference') AS reference) AS link",
+    );
+    expect(sql).toContain("OPENJSON(JSON_QUERY(r.json, '$.contained'))");
+  });
+
+  it("is rejected unless enabled", () => {
+    expect(() => transpilePath("Observation", "subject.resolve()", {})).toThrow(
+      "resolve() requires reference resolution, which is not enabled",
+    );
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * FHIRPath `resolve()`, which follows references to the resources they
+ * address.
+ *
+ * A reference is resolved by a correlated lookup against the resources table,
+ * keyed on the resource type and id of the reference, or against the
+ * `contained` resources of the resource being viewed for a `#id` reference.
+ * Relative references (`Patient/123`) are resolved, as are absolute
+ * references whose base is among those configured. A version (`/_history/1`)
+ * is ignored. References that cannot be resolved, such as absolute references
+ * to other servers and logical references by identifier, are empty.
+ *
+ * Each resolution looks up every referenced resource by the `id` of its JSON,
+ * which is costly over a large table, so resolution is enabled only where it
+ * is configured.
+ *
+ * @author John Grimes
+ */
+
+import type { FhirTypeModel } from "../typeModel/index.js";
+import {
+  elementType,
+  type ExpressionNode,
+  itemQuery,
+  type ItemQueryNode,
+  sqlNode,
+} from "./ir.js";
+import { quote } from "./stringFunctions.js";
+import { resourceTypeCondition, type TypeSpecifier } from "./typeOperators.js";
+
+/**
+ * Where `resolve()` looks referenced resources up.
+ */
+export interface ReferenceResolution {
+  /** The qualified name of the resources table, e.g. `[dbo].[fhir_resources]`. */
+  table: string;
+  /** The base URLs of absolute references to resources within the table. */
+  baseUrls: string[];
+}
+
+/**
+ * The resources addressed by references, as a query of their JSON.
+ *
+ * @param references - A query selecting the `reference` element of each
+ *   Reference, as a `reference` column.
+ * @param resourceJson - The JSON of the resource being viewed, whose contained
+ *   resources may be referenced.
+ * @param resolution - Where referenced resources are looked up.
+ * @param testId - The test whose resources are looked up, if any.
+ * @returns The transpiled resource.
+ */
+export function resolveReference(
+  references: string,
+  resourceJson: string,
+  resolution: ReferenceResolution,
+  testId?: string,
+): ItemQueryNode {
+  const testCondition =
+    testId === undefined ? "" : ` AND target.[test_id] = ${quote(testId)}`;
+  const stored = `SELECT target.[json] AS value FROM (SELECT ${relativeReference("link.reference", resolution.baseUrls)} AS path) AS relativeLink CROSS APPLY (SELECT LEFT(relativeLink.path, CHARINDEX('/', CONCAT(relativeLink.path, '/')) - 1) AS resourceType, STUFF(relativeLink.path, 1, CHARINDEX('/', relativeLink.path), '') AS remainder) AS linkParts JOIN ${resolution.table} AS target ON target.[resource_type] = linkParts.resourceType AND JSON_VALUE(target.[json], '$.id') = LEFT(linkParts.remainder, CHARINDEX('/', CONCAT(linkParts.remainder, '/')) - 1) WHERE CHARINDEX('/', relativeLink.path) > 1${testCondition}`;
+  const contained = `SELECT contained.value FROM OPENJSON(JSON_QUERY(${resourceJson}, '$.contained')) AS contained WHERE link.reference = CONCAT('#', JSON_VALUE(contained.value, '$.id'))`;
+  return itemQuery(
+    {
+      kind: "resolved",
+      from: `(${references}) AS link CROSS APPLY (${stored} UNION ALL ${contained}) AS resolved`,
+    },
+    [],
+  );
+}
+
+/**
+ * Whether an expression is the result of `resolve()`.
+ */
+export function isResolvedResource(
+  node: ExpressionNode,
+): node is ItemQueryNode {
+  return (
+    node.kind === "itemQuery" &&
+    node.items.kind === "resolved" &&
+    node.member === null
+  );
+}
+
+/**
+ * The resolved resource, if it is of a type (`ofType()` and `as`), typed as a
+ * resource of that type, whose elements may then be navigated.
+ *
+ * @param resource - The result of `resolve()`.
+ * @param type - The type.
+ * @param model - The FHIR type model.
+ * @returns The resource, which is empty unless it is of the type.
+ */
+export function resolvedResourceCast(
+  resource: ItemQueryNode,
+  type: TypeSpecifier,
+  model: FhirTypeModel,
+): ExpressionNode {
+  const condition = resourceTypeCondition(
+    "JSON_VALUE(value, '$.resourceType')",
+    type,
+    model,
+  );
+  if (condition === null) {
+    return sqlNode("NULL");
+  }
+  return {
+    ...resource,
+    conditions: [...resource.conditions, condition],
+    itemPath: type.name,
+    ...elementType(type.name, model, true),
+  };
+}
+
+/**
+ * Whether the resolved resource is of a type (`is`).
+ *
+ * @param sql - The transpiled result of `resolve()`.
+ * @param type - The type.
+ * @param model - The FHIR type model.
+ * @returns The condition.
+ */
+export function resolvedResourceTest(
+  sql: string,
+  type: TypeSpecifier,
+  model: FhirTypeModel,
+): string {
+  const condition = resourceTypeCondition(
+    `JSON_VALUE(${sql}, '$.resourceType')`,
+    type,
+    model,
+  );
+  return condition === null ? "(1 = 0)" : `(${condition})`;
+}
+
+/**
+ * The reference with the base URL removed, where it is one of those given.
+ */
+function relativeReference(reference: string, baseUrls: string[]): string {
+  return baseUrls
+    .map((url) => `${url.replace(/\/+$/, "")}/`)
+    .reduce(
+      (relative, base) =>
+        `IIF(LEFT(${reference}, ${base.length}) = ${quote(base)}, SUBSTRING(${reference}, ${base.length + 1}, LEN(${reference})), ${relative})`,
+      reference,
+    );
+}
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for the FHIRPath regular expression functions.
+ *
+ * SQL Server 2025 evaluates patterns with `REGEXP_LIKE` and `REGEXP_REPLACE`.
+ * Earlier versions translate simple patterns to `LIKE` and reject the rest.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { SqlOnFhir } from "../index";
+import { transpilePath } from "../tests/utils/transpile";
+
+describe("regular expressions on SQL Server 2025", () => {
+  it("use REGEXP_LIKE in single-line mode", () => {
+    expect(
+      transpilePath("Patient", "id.matches('\\\\d+')", {
+        sqlServerVersion: 2025,
+      }),
+    ).toContain("REGEXP_LIKE(JSON_VALUE(r.json, '$.id'), '\\d+', 's')");
+  });
+
+  it("anchor the pattern of matchesFull()", () => {
+    expect(
+      transpilePath("Patient", "id.matchesFull('a|b')", {
+        sqlServerVersion: 2025,
+      }),
+    ).toContain("REGEXP_LIKE(JSON_VALUE(r.json, '$.id'), '^(?:a|b)$', 's')");
+  });
+
+  it("translate group references in substitutions", () => {
+    expect(
+      transpilePath(
+        "Patient",
+        "id.replaceMatches('(\\\\w+)-(\\\\w+)', '$2-$1')",
+        { sqlServerVersion: 2025 },
+      ),
+    ).toContain(
+      "REGEXP_REPLACE(JSON_VALUE(r.json, '$.id'), '(\\w+)-(\\w+)', '\\2-\\1', 1, 0, 's')",
+    );
+  });
+});
+
+describe("regular expressions before SQL Server 2025", () => {
+  it("translate simple patterns to LIKE", () => {
+    expect(
+      transpilePath("Patient", "id.matches('^[A-Z]{2}\\\\d.*')"),
+    ).toContain(
+      "(JSON_VALUE(r.json, '$.id') COLLATE Latin1_General_BIN2 LIKE '[A-Z][A-Z][0-9]%')",
+    );
+  });
+
+  it("escape the wildcards of LIKE", () => {
+    expect(
+      transpilePath("Patient", "id.matchesFull('a_b%|[\\\\-x]')"),
+    ).toContain(
+      "LIKE 'a[_]b[%]' OR JSON_VALUE(r.json, '$.id') COLLATE Latin1_General_BIN2 LIKE '[-x]')",
+    );
+  });
+
+  it("replace literal patterns", () => {
+    expect(
+      transpilePath("Patient", "id.replaceMatches('\\\\.', '-')"),
+    ).toContain(
+      "REPLACE(JSON_VALUE(r.json, '$.id') COLLATE Latin1_General_BIN2, '.', '-')",
+    );
+  });
+
+  it("reject patterns that LIKE cannot express", () => {
+    expect(() => transpilePath("Patient", "id.matches('\\\\d+')")).toThrow(
+      "matches() pattern '\\d+' cannot be evaluated before SQL Server 2025",
+    );
+    expect(() =>
+      transpilePath("Patient", "id.replaceMatches('a.', 'b')"),
+    ).toThrow("replaceMatches() pattern 'a.' cannot be evaluated");
+  });
+
+  it("reject patterns that are not literals", () => {
+    expect(() => transpilePath("Patient", "id.matches(gender)")).toThrow(
+      "matches() requires a literal pattern before SQL Server 2025",
+    );
+  });
+});
+
+describe("sqlServerVersion", () => {
+  it("rejects versions before SQL Server 2017", () => {
+    expect(() => new SqlOnFhir({ sqlServerVersion: 2016 })).toThrow(
+      "Unsupported SQL Server version '2016': 2017 or later is required",
+    );
+  });
+});
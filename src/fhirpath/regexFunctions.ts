@@ -0,0 +1,378 @@
+/**
+ * FHIRPath regular expression functions: `matches()`, `matchesFull()` and
+ * `replaceMatches()`.
+ *
+ * SQL Server 2025 evaluates regular expressions natively with `REGEXP_LIKE`
+ * and `REGEXP_REPLACE`. Earlier versions have no regular expressions, so a
+ * literal pattern is translated to `LIKE` where it only uses what `LIKE` can
+ * express: literal characters, `.`, `.*`, `.+`, character classes, `\d`, `\w`,
+ * fixed repetition (`{n}`), anchors and alternation of whole patterns.
+ * `replaceMatches()` is limited to patterns that match literal text. Any other
+ * pattern is rejected rather than approximated.
+ *
+ * Patterns are applied case-sensitively, with `.` matching line breaks, as
+ * FHIRPath requires.
+ *
+ * @author John Grimes
+ */
+
+import {
+  LibraryFunction,
+  ordinal,
+  quote,
+  STRING_FUNCTIONS,
+  stringLiteral,
+} from "./stringFunctions.js";
+
+/**
+ * The first SQL Server version with regular expression functions.
+ */
+export const NATIVE_REGEX_VERSION = 2025;
+
+/**
+ * The flags of the native functions: `.` matches line breaks.
+ */
+const REGEX_FLAGS = "'s'";
+
+/**
+ * The character class escapes that `LIKE` can express, as the content of a
+ * `LIKE` character class.
+ */
+const CLASS_ESCAPES = new Map([
+  ["d", "0-9"],
+  ["w", "0-9A-Z_a-z"],
+]);
+
+/**
+ * Characters that have a meaning in a regular expression unless escaped.
+ */
+const REGEX_METACHARACTERS = /[.^$|?*+()[\]{}\\]/;
+
+/**
+ * One alternative of a pattern translated to `LIKE`.
+ */
+interface LikeAlternative {
+  pattern: string;
+  anchoredStart: boolean;
+  anchoredEnd: boolean;
+}
+
+/**
+ * A piece of a translated pattern, and the position in the regular expression
+ * that follows it.
+ */
+interface LikePiece {
+  like: string;
+  anyCharacter: boolean;
+  next: number;
+}
+
+/**
+ * The regular expression functions for a target SQL Server version.
+ *
+ * @param sqlServerVersion - The targeted SQL Server version (e.g. 2022).
+ */
+export function regexFunctions(
+  sqlServerVersion?: number,
+): Record<string, LibraryFunction> {
+  const native = (sqlServerVersion ?? 0) >= NATIVE_REGEX_VERSION;
+  return {
+    matches: {
+      minArgs: 1,
+      maxArgs: 1,
+      sql: (input, [regex]) =>
+        native
+          ? `REGEXP_LIKE(${input}, ${regex}, ${REGEX_FLAGS})`
+          : likeMatch("matches", input, regex, false),
+    },
+    matchesFull: {
+      minArgs: 1,
+      maxArgs: 1,
+      sql: (input, [regex]) =>
+        native
+          ? `REGEXP_LIKE(${input}, ${fullPattern(regex)}, ${REGEX_FLAGS})`
+          : likeMatch("matchesFull", input, regex, true),
+    },
+    replaceMatches: {
+      minArgs: 2,
+      maxArgs: 2,
+      sql: (input, [regex, substitution]) =>
+        native
+          ? `REGEXP_REPLACE(${input}, ${regex}, ${nativeSubstitution(substitution)}, 1, 0, ${REGEX_FLAGS})`
+          : literalReplace(input, regex, substitution),
+    },
+  };
+}
+
+/**
+ * A pattern that must match the whole input.
+ */
+function fullPattern(regex: string): string {
+  const literal = stringLiteral(regex);
+  return literal === null
+    ? `'^(?:' + ${regex} + ')$'`
+    : quote(`^(?:${literal})$`);
+}
+
+/**
+ * A substitution for `REGEXP_REPLACE`, which refers to groups as `\1` where
+ * FHIRPath uses `$1`.
+ */
+function nativeSubstitution(substitution: string): string {
+  const literal = stringLiteral(substitution);
+  return literal === null
+    ? substitution
+    : quote(literal.replace(/\\/g, "\\\\").replace(/\$(\d)/g, "\\$1"));
+}
+
+/**
+ * Test the input against a pattern translated to `LIKE`.
+ *
+ * @throws If the pattern is not a literal or cannot be translated.
+ */
+function likeMatch(
+  name: string,
+  input: string,
+  regex: string,
+  full: boolean,
+): string {
+  const pattern = requireLiteralPattern(name, regex);
+  const alternatives = splitAlternatives(pattern).map(translateAlternative);
+  if (alternatives.some((alternative) => alternative === null)) {
+    throw untranslatable(name, pattern);
+  }
+  const tests = (alternatives as LikeAlternative[]).map(
+    (alternative) =>
+      `${ordinal(input)} LIKE ${quote(likePattern(alternative, full))}`,
+  );
+  return `(${tests.join(" OR ")})`;
+}
+
+/**
+ * Replace literal text matched by a pattern.
+ *
+ * @throws If the pattern is not a literal, matches anything other than literal
+ *   text, or the substitution refers to a group.
+ */
+function literalReplace(
+  input: string,
+  regex: string,
+  substitution: string,
+): string {
+  const pattern = requireLiteralPattern("replaceMatches", regex);
+  const text = literalText(pattern);
+  if (text === null || /\$\d/.test(stringLiteral(substitution) ?? "")) {
+    throw untranslatable("replaceMatches", pattern);
+  }
+  return STRING_FUNCTIONS.replace.sql(input, [quote(text), substitution]);
+}
+
+function requireLiteralPattern(name: string, regex: string): string {
+  const pattern = stringLiteral(regex);
+  if (pattern === null) {
+    throw new Error(
+      `${name}() requires a literal pattern before SQL Server ${NATIVE_REGEX_VERSION}`,
+    );
+  }
+  return pattern;
+}
+
+function untranslatable(name: string, pattern: string): Error {
+  return new Error(
+    `${name}() pattern '${pattern}' cannot be evaluated before SQL Server ${NATIVE_REGEX_VERSION}, which is required for regular expressions beyond simple patterns`,
+  );
+}
+
+function likePattern(alternative: LikeAlternative, full: boolean): string {
+  if (full) {
+    return alternative.pattern;
+  }
+  const start = alternative.anchoredStart ? "" : "%";
+  const end = alternative.anchoredEnd ? "" : "%";
+  return `${start}${alternative.pattern}${end}`.replace(/%{2,}/g, "%");
+}
+
+/**
+ * Split a pattern at the `|` characters that separate its alternatives.
+ * Characters within classes and escaped characters are skipped.
+ */
+function splitAlternatives(pattern: string): string[] {
+  const alternatives = [];
+  let start = 0;
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "[" || char === "]") {
+      inClass = char === "[";
+    } else if (char === "|" && !inClass) {
+      alternatives.push(pattern.substring(start, i));
+      start = i + 1;
+    }
+  }
+  alternatives.push(pattern.substring(start));
+  return alternatives;
+}
+
+/**
+ * Translate an alternative of a pattern to `LIKE`, or null if `LIKE` cannot
+ * express it.
+ */
+function translateAlternative(regex: string): LikeAlternative | null {
+  const anchoredStart = regex.startsWith("^");
+  let pattern = "";
+  let anchoredEnd = false;
+  let i = anchoredStart ? 1 : 0;
+  while (i < regex.length) {
+    if (regex[i] === "$" && i === regex.length - 1) {
+      anchoredEnd = true;
+      break;
+    }
+    const atom = readAtom(regex, i);
+    const piece = atom && quantify(regex, atom);
+    if (!piece) {
+      return null;
+    }
+    pattern += piece.like;
+    i = piece.next;
+  }
+  return { pattern, anchoredStart, anchoredEnd };
+}
+
+/**
+ * Read the single-character atom at a position.
+ */
+function readAtom(regex: string, i: number): LikePiece | null {
+  const char = regex[i];
+  if (char === ".") {
+    return { like: "_", anyCharacter: true, next: i + 1 };
+  }
+  if (char === "[") {
+    return readClass(regex, i);
+  }
+  if (char === "\\") {
+    const escaped = regex[i + 1] ?? "";
+    const range = CLASS_ESCAPES.get(escaped);
+    if (range) {
+      return { like: `[${range}]`, anyCharacter: false, next: i + 2 };
+    }
+    return /^[^0-9A-Za-z]$/.test(escaped)
+      ? { like: likeLiteral(escaped), anyCharacter: false, next: i + 2 }
+      : null;
+  }
+  return REGEX_METACHARACTERS.test(char)
+    ? null
+    : { like: likeLiteral(char), anyCharacter: false, next: i + 1 };
+}
+
+/**
+ * Read a character class such as `[A-Z]` or `[^0-9]`. A literal `-` is moved
+ * to the start of the class, where `LIKE` does not read it as a range.
+ */
+function readClass(regex: string, start: number): LikePiece | null {
+  const negated = regex[start + 1] === "^";
+  let content = "";
+  let hyphen = "";
+  for (let i = negated ? start + 2 : start + 1; i < regex.length; i++) {
+    if (regex[i] === "]") {
+      return classPiece(negated, `${hyphen}${content}`, i + 1);
+    }
+    const escaped = regex[i] === "\\";
+    const item = escaped ? classEscape(regex[++i] ?? "") : regex[i];
+    if (item === null) {
+      return null;
+    }
+    if (escaped && item === "-") {
+      hyphen = "-";
+    } else {
+      content += item;
+    }
+  }
+  return null;
+}
+
+function classPiece(
+  negated: boolean,
+  content: string,
+  next: number,
+): LikePiece | null {
+  return content === ""
+    ? null
+    : { like: `[${negated ? "^" : ""}${content}]`, anyCharacter: false, next };
+}
+
+/**
+ * The content of a `LIKE` character class for an escape within a regular
+ * expression class, or null if it has none.
+ */
+function classEscape(escaped: string): string | null {
+  return (
+    CLASS_ESCAPES.get(escaped) ??
+    (/^[^0-9A-Za-z\]^]$/.test(escaped) ? escaped : null)
+  );
+}
+
+/**
+ * Apply the quantifier following an atom, if any. Only repetitions that `LIKE`
+ * can express are accepted: any number of any character (`.*`, `.+`, `.{2,}`)
+ * and a fixed number of any atom (`\d{4}`). Lazy quantifiers match the same
+ * inputs as greedy ones.
+ */
+function quantify(regex: string, atom: LikePiece): LikePiece | null {
+  const quantifier = /^(?:\*|\+|\?|\{(\d+)(,?)(\d*)\})/.exec(
+    regex.substring(atom.next),
+  );
+  if (!quantifier) {
+    return atom;
+  }
+  const next = atom.next + quantifier[0].length;
+  const lazy = regex[next] === "?" ? 1 : 0;
+  const like = repetition(atom, quantifier);
+  return like === null ? null : { ...atom, like, next: next + lazy };
+}
+
+function repetition(
+  atom: LikePiece,
+  quantifier: RegExpExecArray,
+): string | null {
+  const [token, count, open, max] = quantifier;
+  if (token === "*" || token === "+") {
+    const minimum = token === "+" ? atom.like : "";
+    return atom.anyCharacter ? `${minimum}%` : null;
+  }
+  if (count === undefined) {
+    return null;
+  }
+  const repeated = atom.like.repeat(Number(count));
+  if (open === "") {
+    return repeated;
+  }
+  return atom.anyCharacter && max === "" ? `${repeated}%` : null;
+}
+
+/**
+ * A character matched literally by `LIKE`.
+ */
+function likeLiteral(char: string): string {
+  return /[%_[]/.test(char) ? `[${char}]` : char;
+}
+
+/**
+ * The text matched by a pattern that only consists of literal characters, or
+ * null if it has any other construct.
+ */
+function literalText(pattern: string): string | null {
+  let text = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\" && /^[^0-9A-Za-z]$/.test(pattern[i + 1] ?? "")) {
+      text += pattern[++i];
+    } else if (REGEX_METACHARACTERS.test(char)) {
+      return null;
+    } else {
+      text += char;
+    }
+  }
+  return text;
+}
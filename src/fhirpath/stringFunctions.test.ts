@@ -0,0 +1,56 @@
+/**
+ * Unit tests for the FHIRPath string functions.
+ *
+ * Comparisons are case-sensitive whatever the database collation, an empty
+ * input yields an empty result, and functions returning a collection yield a
+ * JSON array that later functions can index.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { transpilePath } from "../tests/utils/transpile";
+
+describe("string functions", () => {
+  it("compare case-sensitively", () => {
+    expect(transpilePath("Patient", "gender.startsWith('f')")).toContain(
+      "(LEFT(JSON_VALUE(r.json, '$.gender'), 1) COLLATE Latin1_General_BIN2 = 'f' COLLATE Latin1_General_BIN2)",
+    );
+  });
+
+  it("count trailing spaces in lengths", () => {
+    expect(transpilePath("Patient", "gender.length()")).toContain(
+      "(LEN(JSON_VALUE(r.json, '$.gender') + 'x') - 1)",
+    );
+  });
+
+  it("apply to the first item of a repeating element", () => {
+    expect(transpilePath("Patient", "name.given.upper()")).toContain(
+      "UPPER(JSON_VALUE(r.json, '$.name[0].given[0]'))",
+    );
+  });
+
+  it("apply to string literals", () => {
+    expect(transpilePath("Patient", "'abc'.substring(1)")).toContain(
+      "SUBSTRING('abc', 1 + 1, 3 - 1)",
+    );
+  });
+
+  it("index the collection returned by split()", () => {
+    expect(transpilePath("Patient", "gender.split('-').first()")).toMatch(
+      /JSON_VALUE\(JSON_QUERY\('\["' \+ REPLACE\(.*\), '\$\[0]'\)/,
+    );
+  });
+
+  it("reject the wrong number of arguments", () => {
+    expect(() => transpilePath("Patient", "gender.replace('a')")).toThrow(
+      "replace() function requires 2 arguments",
+    );
+  });
+
+  it("reject unsupported encodings", () => {
+    expect(() => transpilePath("Patient", "gender.encode('rot13')")).toThrow(
+      "encode() requires one of 'hex', 'base64', 'urlbase64' as its argument",
+    );
+  });
+});
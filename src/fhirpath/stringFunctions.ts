@@ -0,0 +1,351 @@
+/**
+ * FHIRPath string functions.
+ *
+ * Each function maps its (singular) input string and transpiled arguments to a
+ * T-SQL expression. An empty input or argument is SQL NULL, which propagates
+ * to an empty result. Functions that return a collection (`split()`,
+ * `toChars()`) return the JSON text of an array, which the visitor navigates
+ * like other computed arrays (see {@link ARRAY_FUNCTIONS}).
+ *
+ * Comparisons are case-sensitive, as FHIRPath requires, regardless of the
+ * collation of the database. String lengths count trailing spaces, which
+ * `LEN()` would otherwise ignore.
+ *
+ * @author John Grimes
+ */
+
+/**
+ * A function of a library that transpiles to an expression over its input.
+ * Expressions are T-SQL strings, or typed expressions for libraries that need
+ * to know the types of their operands.
+ */
+export interface LibraryFunction<T = string> {
+  /** The minimum number of arguments. */
+  minArgs: number;
+  /** The maximum number of arguments. */
+  maxArgs: number;
+  /** Build the T-SQL expression from the input and transpiled arguments. */
+  sql: (input: T, args: T[]) => T;
+}
+
+/**
+ * Collation used for case-sensitive, ordinal string comparison.
+ */
+const ORDINAL_COLLATION = "Latin1_General_BIN2";
+
+/**
+ * The characters removed by `trim()`.
+ */
+const WHITESPACE = "CONCAT(CHAR(9), CHAR(10), CHAR(13), CHAR(32))";
+
+/**
+ * The encodings supported by `encode()` and `decode()`.
+ */
+const ENCODINGS = ["hex", "base64", "urlbase64"];
+
+/**
+ * The targets supported by `escape()` and `unescape()`.
+ */
+const ESCAPE_TARGETS = ["html", "json"];
+
+/**
+ * The characters escaped for HTML, in the order they are escaped.
+ */
+const HTML_ENTITIES: [string, string][] = [
+  ["&", "&amp;"],
+  ["<", "&lt;"],
+  [">", "&gt;"],
+  ['"', "&quot;"],
+  ["'", "&#39;"],
+];
+
+/**
+ * The replacements that unescape HTML, with `&amp;` replaced last.
+ */
+const HTML_UNESCAPES = HTML_ENTITIES.map(([char, entity]): [string, string] => [
+  entity,
+  char,
+]).reverse();
+
+/**
+ * The string functions whose result is the JSON text of an array.
+ */
+export const ARRAY_FUNCTIONS = new Set(["split", "toChars"]);
+
+export const STRING_FUNCTIONS: Record<string, LibraryFunction> = {
+  startsWith: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [prefix]) =>
+      `(${ordinal(`LEFT(${input}, ${length(prefix)})`)} = ${ordinal(prefix)})`,
+  },
+  endsWith: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [suffix]) =>
+      `(${ordinal(`RIGHT(${input}, ${length(suffix)})`)} = ${ordinal(suffix)})`,
+  },
+  contains: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [substring]) =>
+      `(CASE WHEN ${anyEmpty(input, substring)} THEN NULL${whenEmpty(substring, "1")} WHEN ${find(substring, input)} > 0 THEN 1 ELSE 0 END = 1)`,
+  },
+  indexOf: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [substring]) =>
+      `(CASE WHEN ${anyEmpty(input, substring)} THEN NULL${whenEmpty(substring, "0")} ELSE ${find(substring, input)} - 1 END)`,
+  },
+  lastIndexOf: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [substring]) => lastIndexOf(input, substring),
+  },
+  substring: {
+    minArgs: 1,
+    maxArgs: 2,
+    sql: (input, [start, count]) => substring(input, start, count),
+  },
+  upper: { minArgs: 0, maxArgs: 0, sql: (input) => `UPPER(${input})` },
+  lower: { minArgs: 0, maxArgs: 0, sql: (input) => `LOWER(${input})` },
+  replace: {
+    minArgs: 2,
+    maxArgs: 2,
+    sql: (input, [pattern, substitution]) =>
+      replace(input, pattern, substitution),
+  },
+  length: { minArgs: 0, maxArgs: 0, sql: (input) => length(input) },
+  trim: {
+    minArgs: 0,
+    maxArgs: 0,
+    sql: (input) => `TRIM(${WHITESPACE} FROM ${input})`,
+  },
+  split: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [separator]) =>
+      `'["' + REPLACE(${ordinal(`STRING_ESCAPE(${input}, 'json')`)}, STRING_ESCAPE(${separator}, 'json'), '","') + '"]'`,
+  },
+  toChars: { minArgs: 0, maxArgs: 0, sql: (input) => toChars(input) },
+  encode: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [format]) =>
+      encode(input, literalOption("encode", format, ENCODINGS)),
+  },
+  decode: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [format]) =>
+      decode(input, literalOption("decode", format, ENCODINGS)),
+  },
+  escape: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [target]) =>
+      literalOption("escape", target, ESCAPE_TARGETS) === "json"
+        ? `STRING_ESCAPE(${input}, 'json')`
+        : replaceAll(input, HTML_ENTITIES),
+  },
+  unescape: {
+    minArgs: 1,
+    maxArgs: 1,
+    sql: (input, [target]) =>
+      literalOption("unescape", target, ESCAPE_TARGETS) === "json"
+        ? unescapeJson(input)
+        : replaceAll(input, HTML_UNESCAPES),
+  },
+};
+
+/**
+ * Transpile a call to a library function, checking the number of arguments.
+ *
+ * @throws If the function is called with the wrong number of arguments.
+ */
+export function callLibraryFunction<T>(
+  name: string,
+  fn: LibraryFunction<T>,
+  input: T,
+  args: T[],
+): T {
+  if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+    const expected =
+      fn.minArgs === fn.maxArgs
+        ? `${fn.minArgs}`
+        : `${fn.minArgs} to ${fn.maxArgs}`;
+    throw new Error(
+      `${name}() function requires ${expected} argument${fn.maxArgs === 1 ? "" : "s"}`,
+    );
+  }
+  return fn.sql(input, args);
+}
+
+/**
+ * The number of characters in a string, including trailing spaces.
+ */
+function length(value: string): string {
+  const literal = stringLiteral(value);
+  return literal === null ? `(LEN(${value} + 'x') - 1)` : `${literal.length}`;
+}
+
+/**
+ * The value of a string literal, or null if the expression is not one.
+ */
+export function stringLiteral(value: string): string | null {
+  const match = /^N?'((?:[^']|'')*)'$/.exec(value);
+  return match ? match[1].replace(/''/g, "'") : null;
+}
+
+/**
+ * A condition that holds if any of the values is empty. Literals are never
+ * empty, so they are not tested.
+ */
+function anyEmpty(...values: string[]): string {
+  const tests = values
+    .filter((value) => stringLiteral(value) === null)
+    .map((value) => `${value} IS NULL`);
+  return tests.length > 0 ? tests.join(" OR ") : "1 = 0";
+}
+
+/**
+ * A CASE branch yielding `result` for an empty string. The branch is omitted
+ * for literals that are not empty.
+ */
+function whenEmpty(value: string, result: string): string {
+  const literal = stringLiteral(value);
+  if (literal !== null) {
+    return literal === "" ? ` WHEN 1 = 1 THEN ${result}` : "";
+  }
+  return ` WHEN ${length(value)} = 0 THEN ${result}`;
+}
+
+/**
+ * A string compared case-sensitively, by code point.
+ */
+export function ordinal(value: string): string {
+  return `${value} COLLATE ${ORDINAL_COLLATION}`;
+}
+
+/**
+ * The 1-based position of the first occurrence of a substring, or 0.
+ */
+function find(substring: string, value: string): string {
+  return `CHARINDEX(${ordinal(substring)}, ${value})`;
+}
+
+function lastIndexOf(input: string, substring: string): string {
+  const reversed = find(`REVERSE(${substring})`, `REVERSE(${input})`);
+  return `(CASE WHEN ${anyEmpty(input, substring)} THEN NULL${whenEmpty(substring, "0")} WHEN ${reversed} = 0 THEN -1 ELSE ${length(input)} - ${reversed} - ${length(substring)} + 1 END)`;
+}
+
+/**
+ * The substring from a 0-based start, which is empty if the start lies
+ * outside the string.
+ */
+function substring(input: string, start: string, count?: string): string {
+  const take = count
+    ? `IIF(${count} < 0, 0, ${count})`
+    : `${length(input)} - ${start}`;
+  return `(CASE WHEN ${start} < 0 OR ${start} >= ${length(input)} THEN NULL ELSE SUBSTRING(${input}, ${start} + 1, ${take}) END)`;
+}
+
+/**
+ * Replace every occurrence of a pattern. An empty pattern inserts the
+ * substitution around every character (`'abc'.replace('', 'x')` →
+ * `'xaxbxcx'`).
+ */
+function replace(input: string, pattern: string, substitution: string): string {
+  const surrounded = `(SELECT STRING_AGG(CAST(SUBSTRING(${input}, CAST([key] AS INT) + 1, 1) + ${substitution} AS NVARCHAR(MAX)), '') WITHIN GROUP (ORDER BY CAST([key] AS INT)) FROM ${characterPositions(input)})`;
+  return `(CASE WHEN ${input} IS NULL THEN NULL${whenEmpty(pattern, `${substitution} + ISNULL(${surrounded}, '')`)} ELSE REPLACE(${ordinal(input)}, ${pattern}, ${substitution}) END)`;
+}
+
+/**
+ * Unescape a JSON string by parsing it as the item of an array. A string that
+ * is not validly escaped yields NULL.
+ */
+function unescapeJson(input: string): string {
+  const array = `'["' + ${input} + '"]'`;
+  return `IIF(ISJSON(${array}) = 1, JSON_VALUE(${array}, '$[0]'), NULL)`;
+}
+
+/**
+ * Apply a sequence of literal replacements.
+ */
+function replaceAll(input: string, replacements: [string, string][]): string {
+  return replacements.reduce(
+    (sql, [from, to]) => `REPLACE(${sql}, ${quote(from)}, ${quote(to)})`,
+    input,
+  );
+}
+
+/**
+ * The characters of a string as a JSON array, or NULL for an empty string.
+ */
+function toChars(input: string): string {
+  const char = `STRING_ESCAPE(SUBSTRING(${input}, CAST([key] AS INT) + 1, 1), 'json')`;
+  return `(SELECT '["' + STRING_AGG(CAST(${char} AS NVARCHAR(MAX)), '","') WITHIN GROUP (ORDER BY CAST([key] AS INT)) + '"]' FROM ${characterPositions(input)})`;
+}
+
+/**
+ * An OPENJSON row source with one row per character of a string, whose `key`
+ * is the 0-based position of the character. An empty string has no rows.
+ */
+function characterPositions(input: string): string {
+  return `OPENJSON('[' + REPLICATE(CAST('0,' AS VARCHAR(MAX)), ${length(input)} - 1) + '0]') WHERE ${length(input)} > 0`;
+}
+
+/**
+ * Encode a string. The string is converted to the database code page before
+ * encoding its bytes.
+ */
+function encode(input: string, format: string): string {
+  const bytes = `CAST(CAST(${input} AS VARCHAR(MAX)) AS VARBINARY(MAX))`;
+  if (format === "hex") {
+    return `LOWER(CONVERT(VARCHAR(MAX), ${bytes}, 2))`;
+  }
+  const base64 = `(SELECT ${bytes} FOR XML PATH(''), BINARY BASE64)`;
+  return format === "base64"
+    ? base64
+    : `REPLACE(REPLACE(${base64}, '+', '-'), '/', '_')`;
+}
+
+function decode(input: string, format: string): string {
+  if (format === "hex") {
+    return `CAST(CONVERT(VARBINARY(MAX), ${input}, 2) AS VARCHAR(MAX))`;
+  }
+  const base64 =
+    format === "base64"
+      ? input
+      : `REPLACE(REPLACE(${input}, '-', '+'), '_', '/')`;
+  return `(SELECT CAST(CAST('' AS XML).value('xs:base64Binary(sql:column("encoded.value"))', 'VARBINARY(MAX)') AS VARCHAR(MAX)) FROM (SELECT ${base64} AS value) AS encoded)`;
+}
+
+/**
+ * The value of an argument that must be one of a set of string literals, such
+ * as the format of `encode()`.
+ *
+ * @throws If the argument is not one of the literals.
+ */
+function literalOption(
+  functionName: string,
+  arg: string,
+  options: string[],
+): string {
+  const value = /^'([^']*)'$/.exec(arg)?.[1];
+  if (value === undefined || !options.includes(value)) {
+    throw new Error(
+      `${functionName}() requires one of ${options.map(quote).join(", ")} as its argument`,
+    );
+  }
+  return value;
+}
+
+/**
+ * A T-SQL string literal, which is a national string if it has characters
+ * beyond ASCII.
+ */
+export function quote(value: string): string {
+  const prefix = /[\u0080-\uffff]/.test(value) ? "N" : "";
+  return `${prefix}'${value.replace(/'/g, "''")}'`;
+}
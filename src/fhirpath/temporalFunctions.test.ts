@@ -0,0 +1,107 @@
+/**
+ * Unit tests for FHIRPath date and time comparison, date arithmetic and the
+ * functions that read the current time.
+ *
+ * Dates and times are compared as text padded to their complete form, up to
+ * the precision both values share, so that values differing only in
+ * precision give an empty result.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { SqlOnFhir } from "../index";
+import { transpilePath } from "../tests/utils/transpile";
+
+describe("date and time comparison", () => {
+  it("compares to the precision both values share", () => {
+    const sql = transpilePath("Patient", "birthDate < @2020-05");
+    expect(sql).toContain(
+      "CROSS APPLY (SELECT '2020-05-01T00:00:00.000' AS utc, 7 AS width) AS rhs",
+    );
+    expect(sql).toContain(
+      "CROSS APPLY (SELECT IIF(lhs.width < rhs.width, lhs.width, rhs.width) AS width) AS shared",
+    );
+  });
+
+  it("is empty where values differ only in precision", () => {
+    expect(transpilePath("Patient", "birthDate <= @2020")).toContain(
+      "WHEN lhs.width = rhs.width THEN 1 END",
+    );
+  });
+
+  it("compares seconds and milliseconds as one precision", () => {
+    expect(
+      transpilePath(
+        "Patient",
+        "@2020-01-01T10:00:00 = @2020-01-01T10:00:00.000",
+      ),
+    ).toContain(
+      "(SELECT '2020-01-01T10:00:00.000' AS utc, 23 AS width) AS lhs CROSS APPLY (SELECT '2020-01-01T10:00:00.000' AS utc, 23 AS width) AS rhs",
+    );
+  });
+
+  it("compares date times in UTC", () => {
+    expect(
+      transpilePath("Patient", "@2020-01-01T10:00+10:00 > deceasedDateTime"),
+    ).toContain(
+      "(SELECT '2020-01-01T00:00:00.000' AS utc, 16 AS width) AS lhs",
+    );
+    expect(transpilePath("Patient", "deceasedDateTime > @2020")).toContain(
+      "SWITCHOFFSET(TRY_CAST(parts.padded + parts.zone AS DATETIMEOFFSET(3)), '+00:00')",
+    );
+  });
+});
+
+describe("date arithmetic", () => {
+  it("adds calendar durations with DATEADD at the precision of the input", () => {
+    expect(transpilePath("Patient", "birthDate + 18 years")).toMatch(
+      /^SELECT\s+\(SELECT LEFT\(STUFF\(CONVERT\(VARCHAR\(23\), DATEADD\(year, 18, CAST\(parts\.padded AS DATETIME2\(3\)\)\), 121\), 11, 1, 'T'\), LEN\(parts\.value\)\) \+ COALESCE\(parts\.zone, ''\)/,
+    );
+  });
+
+  it("subtracts UCUM quantities of time", () => {
+    expect(transpilePath("Patient", "now() - 90 'd'")).toContain(
+      "DATEADD(day, -90,",
+    );
+  });
+
+  it("adds fractions of a second as milliseconds", () => {
+    expect(transpilePath("Patient", "@T10:00 + 1.5 seconds")).toContain(
+      "DATEADD(millisecond, 1500, CAST(parts.padded AS TIME(3)))",
+    );
+  });
+
+  it("rejects units of time finer than a date", () => {
+    expect(() => transpilePath("Patient", "birthDate + 2 hours")).toThrow(
+      "A quantity in hours cannot be added to a Date",
+    );
+  });
+});
+
+describe("now(), today() and timeOfDay()", () => {
+  it("read the clock of the server", () => {
+    expect(transpilePath("Patient", "today()")).toMatch(
+      /^SELECT\s+CONVERT\(VARCHAR\(10\), SYSDATETIMEOFFSET\(\), 23\) AS \[x\]/,
+    );
+  });
+
+  it("return a fixed time where one is given", () => {
+    const options = { now: "2024-03-01T09:30:15.5+10:00" };
+    expect(transpilePath("Patient", "now()", options)).toMatch(
+      /^SELECT\s+'2024-03-01T09:30:15\.500\+10:00' AS \[x\]/,
+    );
+    expect(transpilePath("Patient", "today()", options)).toMatch(
+      /^SELECT\s+'2024-03-01' AS \[x\]/,
+    );
+    expect(transpilePath("Patient", "timeOfDay()", options)).toMatch(
+      /^SELECT\s+'09:30:15\.500' AS \[x\]/,
+    );
+  });
+
+  it("require a fixed time to have a time zone offset", () => {
+    expect(() => new SqlOnFhir({ now: "2024-03-01T09:30:15" })).toThrow(
+      "Invalid current time '2024-03-01T09:30:15'",
+    );
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * FHIRPath date and time comparison, date arithmetic and the `now()`,
+ * `today()` and `timeOfDay()` functions.
+ *
+ * Dates, date times and times are represented by their text, as they are in
+ * JSON, and may be partial (e.g. `2020` or `2020-05`). Two values are compared
+ * to the precision they share: where they are equal to that precision but one
+ * is more precise than the other, the result is empty, so `@2020 <
+ * @2020-05-01` is empty. Seconds and milliseconds are a single precision.
+ * Date times with a time zone offset are compared in UTC, and those without
+ * one are taken to be in UTC.
+ *
+ * Quantities of time, with calendar duration units (e.g. `18 years`) or their
+ * UCUM equivalents (e.g. `18 'a'`), are added with `DATEADD`. The result keeps
+ * the precision and time zone offset of the input, so `@2014 + 24 months` is
+ * `@2016`.
+ *
+ * `now()` and the functions derived from it read the clock of the server,
+ * unless a fixed time is given so that results are reproducible.
+ *
+ * @author John Grimes
+ */
+
+import type { TypedValue } from "./conversionFunctions.js";
+import {
+  type LibraryFunction,
+  quote,
+  stringLiteral,
+} from "./stringFunctions.js";
+
+/**
+ * The System types of dates and times.
+ */
+export const TEMPORAL_TYPES = new Set(["Date", "DateTime", "Time"]);
+
+/**
+ * Matches a date time with a time zone offset, such as a fixed value of
+ * `now()`, capturing its date, time, fractional seconds and offset.
+ */
+export const DATE_TIME_WITH_OFFSET =
+  /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2}:\d{2})(?:\.(\d+))?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * A quantity of time, as a number of `DATEADD` date parts (e.g. `month`).
+ */
+export interface TimeQuantity {
+  value: number;
+  unit: string;
+}
+
+/**
+ * The `DATEADD` date parts of the calendar duration units and their UCUM
+ * equivalents.
+ */
+const TIME_UNITS = new Map([
+  ["year", "year"],
+  ["years", "year"],
+  ["a", "year"],
+  ["month", "month"],
+  ["months", "month"],
+  ["mo", "month"],
+  ["week", "week"],
+  ["weeks", "week"],
+  ["wk", "week"],
+  ["day", "day"],
+  ["days", "day"],
+  ["d", "day"],
+  ["hour", "hour"],
+  ["hours", "hour"],
+  ["h", "hour"],
+  ["minute", "minute"],
+  ["minutes", "minute"],
+  ["min", "minute"],
+  ["second", "second"],
+  ["seconds", "second"],
+  ["s", "second"],
+  ["millisecond", "millisecond"],
+  ["milliseconds", "millisecond"],
+  ["ms", "millisecond"],
+]);
+
+/**
+ * The length of each date part in seconds, from the longest to the shortest.
+ * Months and years are taken to have 30 and 365 days where a quantity of days
+ * is converted to them.
+ */
+const DATE_PART_SECONDS = new Map([
+  ["year", 31536000],
+  ["month", 2592000],
+  ["week", 604800],
+  ["day", 86400],
+  ["hour", 3600],
+  ["minute", 60],
+  ["second", 1],
+  ["millisecond", 0.001],
+]);
+
+/**
+ * The date parts that may be added to values of each type.
+ */
+const TYPE_UNITS = new Map([
+  ["Date", ["year", "month", "week", "day"]],
+  ["Time", ["hour", "minute", "second", "millisecond"]],
+]);
+
+/**
+ * The form of the values of a temporal type.
+ */
+interface TemporalForm {
+  /** The complete value that partial values are padded from. */
+  template: string;
+  /** Whether values may have a time zone offset. */
+  zoned: boolean;
+  /** The SQL type that values are cast to for arithmetic. */
+  sqlType: string;
+  /** The text of a value of the SQL type. */
+  text: (value: string) => string;
+  /** The date parts of the partial precisions, by the width of their text. */
+  precisions: [number, string][];
+}
+
+const DATE_TIME_FORM: TemporalForm = {
+  template: "0001-01-01T00:00:00.000",
+  zoned: true,
+  sqlType: "DATETIME2(3)",
+  text: (value) => `STUFF(CONVERT(VARCHAR(23), ${value}, 121), 11, 1, 'T')`,
+  precisions: [
+    [4, "year"],
+    [7, "month"],
+    [10, "day"],
+    [13, "hour"],
+    [16, "minute"],
+  ],
+};
+
+const TIME_FORM: TemporalForm = {
+  template: "00:00:00.000",
+  zoned: false,
+  sqlType: "TIME(3)",
+  text: (value) => `CONVERT(VARCHAR(12), ${value})`,
+  precisions: [
+    [2, "hour"],
+    [5, "minute"],
+  ],
+};
+
+/**
+ * The results of a comparison where the left operand is less than, greater
+ * than or equal to the right, to the precision they share.
+ */
+export const COMPARISON_RESULTS = new Map([
+  ["<", [1, 0, 0]],
+  ["<=", [1, 0, 1]],
+  [">", [0, 1, 0]],
+  [">=", [0, 1, 1]],
+  ["=", [0, 0, 1]],
+  ["!=", [1, 1, 0]],
+]);
+
+/**
+ * The time of the server, as a date time with its time zone offset, a date and
+ * a time.
+ */
+const SERVER_CLOCK = {
+  now: `(${DATE_TIME_FORM.text("CAST(SYSDATETIMEOFFSET() AS DATETIME2(3))")} + DATENAME(TZOFFSET, SYSDATETIMEOFFSET()))`,
+  today: "CONVERT(VARCHAR(10), SYSDATETIMEOFFSET(), 23)",
+  timeOfDay: TIME_FORM.text("CAST(SYSDATETIMEOFFSET() AS TIME(3))"),
+};
+
+/**
+ * The functions that read the current time.
+ *
+ * @param now - A fixed current time, as a date time with a time zone offset.
+ *   Without it, the clock of the server is read.
+ */
+export function temporalFunctions(
+  now?: string,
+): Record<string, LibraryFunction<TypedValue>> {
+  const clock = now === undefined ? SERVER_CLOCK : fixedClock(now);
+  return {
+    now: {
+      minArgs: 0,
+      maxArgs: 0,
+      sql: () => ({ sql: clock.now, type: "DateTime" }),
+    },
+    today: {
+      minArgs: 0,
+      maxArgs: 0,
+      sql: () => ({ sql: clock.today, type: "Date" }),
+    },
+    timeOfDay: {
+      minArgs: 0,
+      maxArgs: 0,
+      sql: () => ({ sql: clock.timeOfDay, type: "Time" }),
+    },
+  };
+}
+
+/**
+ * The current time as literals, from a fixed date time given to millisecond
+ * precision.
+ *
+ * @throws If the time is not a date time with a time zone offset.
+ */
+function fixedClock(now: string): typeof SERVER_CLOCK {
+  const match = DATE_TIME_WITH_OFFSET.exec(now);
+  if (!match) {
+    throw new Error(
+      `Invalid current time '${now}': a date time with a time zone offset is required`,
+    );
+  }
+  const [, date, time, fraction = "", offset] = match;
+  const timeOfDay = `${time}.${fraction.padEnd(3, "0").slice(0, 3)}`;
+  return {
+    now: quote(`${date}T${timeOfDay}${offset}`),
+    today: quote(date),
+    timeOfDay: quote(timeOfDay),
+  };
+}
+
+/**
+ * Whether two operands of a comparison are compared as dates and times: one
+ * is temporal and the other is too, or is a String or of unknown type.
+ */
+export function isTemporalComparison(
+  left: string | null,
+  right: string | null,
+): boolean {
+  const comparable = (type: string | null): boolean =>
+    type === null || type === "String" || TEMPORAL_TYPES.has(type);
+  return (
+    (TEMPORAL_TYPES.has(left ?? "") || TEMPORAL_TYPES.has(right ?? "")) &&
+    comparable(left) &&
+    comparable(right)
+  );
+}
+
+/**
+ * Compare two dates or times (`<`, `<=`, `>`, `>=`, `=` or `!=`) to the
+ * precision they share, giving a condition that is unknown where either is
+ * empty or where they differ only in precision.
+ */
+export function compareTemporal(
+  operator: string,
+  left: TypedValue,
+  right: TypedValue,
+): string {
+  const form =
+    left.type === "Time" || right.type === "Time" ? TIME_FORM : DATE_TIME_FORM;
+  const [less, greater, equal] = COMPARISON_RESULTS.get(operator) ?? [];
+  const lhs = "LEFT(lhs.utc, shared.width)";
+  const rhs = "LEFT(rhs.utc, shared.width)";
+  return `((SELECT CASE WHEN ${lhs} < ${rhs} THEN ${less} WHEN ${lhs} > ${rhs} THEN ${greater} WHEN lhs.width = rhs.width THEN ${equal} END FROM ${comparable(left.sql, form)} AS lhs CROSS APPLY ${comparable(right.sql, form)} AS rhs CROSS APPLY (SELECT IIF(lhs.width < rhs.width, lhs.width, rhs.width) AS width) AS shared) = 1)`;
+}
+
+/**
+ * The quantity of time of a quantity literal, or null if its unit is not a
+ * unit of time.
+ *
+ * @param value - The number of the quantity.
+ * @param unit - A calendar duration unit, or a UCUM unit without its quotes.
+ */
+export function timeQuantity(value: string, unit: string): TimeQuantity | null {
+  const datePart = TIME_UNITS.get(unit);
+  if (datePart === undefined) {
+    return null;
+  }
+  const amount = Number(value);
+  // Fractions of a second are added as milliseconds, and other fractions are
+  // removed.
+  return datePart === "second" && !Number.isInteger(amount)
+    ? { value: Math.round(amount * 1000), unit: "millisecond" }
+    : { value: Math.trunc(amount), unit: datePart };
+}
+
+/**
+ * Add a quantity of time to, or subtract it from, a date or time. The result
+ * has the precision and time zone offset of the input: for a partial value,
+ * the quantity is first converted to the unit of its precision, removing any
+ * fraction, so that `@2014 - 2 months` is `@2014`.
+ *
+ * @throws If the unit cannot be added to values of the type of the input.
+ */
+export function addTime(
+  operator: string,
+  input: TypedValue,
+  quantity: TimeQuantity,
+): TypedValue {
+  const allowed = TYPE_UNITS.get(input.type ?? "");
+  if (allowed && !allowed.includes(quantity.unit)) {
+    throw new Error(
+      `A quantity in ${quantity.unit}s cannot be added to a ${input.type}`,
+    );
+  }
+  const form = input.type === "Time" ? TIME_FORM : DATE_TIME_FORM;
+  const amount = operator === "-" ? -quantity.value : quantity.value;
+  const value = `CAST(parts.padded AS ${form.sqlType})`;
+  const units = [...DATE_PART_SECONDS.keys()];
+  const coarser = form.precisions.filter(
+    ([, part]) => units.indexOf(part) < units.indexOf(quantity.unit),
+  );
+  const added = `DATEADD(${quantity.unit}, ${amount}, ${value})`;
+  const result = form.text(
+    coarser.length === 0
+      ? added
+      : `CASE LEN(parts.value) ${coarser
+          .map(
+            ([width, part]) =>
+              `WHEN ${width} THEN DATEADD(${part}, ${convertTime(amount, quantity.unit, part)}, ${value})`,
+          )
+          .join(" ")} ELSE ${added} END`,
+  );
+  return {
+    sql: `(SELECT LEFT(${result}, LEN(parts.value)) + COALESCE(parts.zone, '') FROM ${temporalParts(input.sql, form)} AS parts)`,
+    type: input.type,
+  };
+}
+
+/**
+ * Convert an amount of time to a longer unit, removing any fraction. Months
+ * are converted to years exactly.
+ */
+function convertTime(amount: number, from: string, to: string): number {
+  const ratio =
+    from === "month" && to === "year"
+      ? 1 / 12
+      : (DATE_PART_SECONDS.get(from) ?? 1) / (DATE_PART_SECONDS.get(to) ?? 1);
+  // Adding zero avoids writing a negative zero as "-0"
+  return Math.trunc(amount * ratio) + 0;
+}
+
+/**
+ * A row of a date or time as comparable text in UTC, padded to the complete
+ * form, with the width of the text that is known to its precision.
+ */
+function comparable(sql: string, form: TemporalForm): string {
+  const literal = stringLiteral(sql);
+  if (literal !== null) {
+    return literalComparable(literal, form);
+  }
+  const padded = "parts.padded";
+  const utc = form.zoned
+    ? `CASE WHEN parts.zone IS NULL THEN ${padded} ELSE ${form.text(`CAST(SWITCHOFFSET(TRY_CAST(${padded} + parts.zone AS DATETIMEOFFSET(3)), '+00:00') AS DATETIME2(3))`)} END`
+    : padded;
+  // Milliseconds are compared along with seconds
+  const complete = form.template.length;
+  const width = `CASE WHEN LEN(parts.value) >= ${complete - 4} THEN ${complete} ELSE LEN(parts.value) END`;
+  return `(SELECT ${utc} AS utc, ${width} AS width FROM ${temporalParts(sql, form)} AS parts)`;
+}
+
+/**
+ * The row of a literal date or time as comparable text, which is computed
+ * ahead of the query.
+ */
+function literalComparable(literal: string, form: TemporalForm): string {
+  const zone = form.zoned
+    ? /T.*?(Z|[+-]\d{2}:\d{2})$/.exec(literal)?.[1]
+    : null;
+  const value = zone ? literal.slice(0, -zone.length) : literal;
+  const complete = form.template.length;
+  const padded = (value + form.template.slice(value.length)).slice(0, complete);
+  const instant = zone ? new Date(padded + zone) : null;
+  const utc =
+    instant && !isNaN(instant.getTime())
+      ? instant.toISOString().slice(0, complete)
+      : padded;
+  const width = value.length >= complete - 4 ? complete : value.length;
+  return `(SELECT ${quote(utc)} AS utc, ${width} AS width)`;
+}
+
+/**
+ * A row of a date or time, split into its value, its time zone offset (if
+ * any) and its value padded to the complete form.
+ */
+function temporalParts(sql: string, form: TemporalForm): string {
+  const input = "input.v";
+  const offset = `${input} LIKE '%T%[+-][0-9][0-9]:[0-9][0-9]'`;
+  const split = form.zoned
+    ? `CASE WHEN ${input} LIKE '%T%Z' THEN LEFT(${input}, LEN(${input}) - 1) WHEN ${offset} THEN LEFT(${input}, LEN(${input}) - 6) ELSE ${input} END AS value, CASE WHEN ${input} LIKE '%T%Z' THEN 'Z' WHEN ${offset} THEN RIGHT(${input}, 6) END AS zone`
+    : `${input} AS value, NULL AS zone`;
+  const complete = form.template.length;
+  return `(SELECT split.value, split.zone, LEFT(split.value + SUBSTRING('${form.template}', LEN(split.value) + 1, ${complete}), ${complete}) AS padded FROM (SELECT ${split} FROM (SELECT CONVERT(VARCHAR(40), ${sql}) AS v) AS input) AS split)`;
+}
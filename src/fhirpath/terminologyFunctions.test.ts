@@ -0,0 +1,127 @@
+/**
+ * Unit tests for the FHIRPath terminology functions, which read the
+ * terminology tables rather than a terminology server.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { SqlOnFhir } from "../index";
+import { transpilePath } from "../tests/utils/transpile";
+
+describe("memberOf()", () => {
+  it("joins the codings of a CodeableConcept to the value set table", () => {
+    const sql = transpilePath(
+      "Observation",
+      "code.memberOf('http://example.org/vs')",
+    );
+    expect(sql).toContain("FROM OPENJSON(item0.value, '$.coding') AS concept");
+    expect(sql).toContain(
+      "JOIN [dbo].[fhir_valueset_members] AS expansion ON expansion.code = coding.code COLLATE Latin1_General_BIN2 AND expansion.[system] = coding.[system] COLLATE Latin1_General_BIN2 WHERE expansion.valueset_url = 'http://example.org/vs'",
+    );
+  });
+
+  it("matches a Coding by system and code", () => {
+    expect(
+      transpilePath(
+        "Observation",
+        "code.coding.memberOf('http://example.org/vs')",
+      ),
+    ).toContain(
+      "(SELECT JSON_VALUE(item0.value, '$.system') AS [system], JSON_VALUE(item0.value, '$.code') AS [code]) AS coding",
+    );
+  });
+
+  it("matches a code by its value alone", () => {
+    const sql = transpilePath(
+      "Observation",
+      "status.memberOf('http://example.org/vs')",
+    );
+    expect(sql).toContain("(SELECT item0.value AS [code]) AS coding");
+    expect(sql).not.toContain("expansion.[system]");
+  });
+
+  it("ignores the version of the value set", () => {
+    expect(
+      transpilePath(
+        "Observation",
+        "code.memberOf('http://example.org/vs|2.0.0')",
+      ),
+    ).toContain("expansion.valueset_url = 'http://example.org/vs')");
+  });
+
+  it("is empty for empty input", () => {
+    expect(
+      transpilePath("Observation", "code.memberOf('http://example.org/vs')"),
+    ).toMatch(/^[\s\S]*\(\(SELECT MAX\(CASE WHEN EXISTS/);
+  });
+
+  it("reads the tables named in the options", () => {
+    const sql = transpilePath(
+      "Observation",
+      "code.memberOf('http://example.org/vs')",
+      {
+        schemaName: "fhir",
+        valueSetTableName: "expansions",
+      },
+    );
+    expect(sql).toContain("JOIN [fhir].[expansions] AS expansion");
+  });
+
+  it("can be used in a filter", () => {
+    const sql = new SqlOnFhir().transpile({
+      resource: "Observation",
+      status: "active",
+      select: [{ column: [{ name: "id", path: "id" }] }],
+      where: [{ path: "code.memberOf('http://example.org/vs')" }],
+    }).sql;
+    expect(sql).toContain("[dbo].[fhir_valueset_members]");
+  });
+
+  it("rejects input that is not coded", () => {
+    expect(() =>
+      transpilePath("Observation", "subject.memberOf('http://example.org/vs')"),
+    ).toThrow(
+      "memberOf() requires an input of type code, Coding or CodeableConcept",
+    );
+  });
+});
+
+describe("subsumes() and subsumedBy()", () => {
+  it("test the ancestors of the input within the hierarchy", () => {
+    expect(transpilePath("Observation", "code.subsumes(code)")).toContain(
+      "ancestor.ancestor_code = inputCoding.code COLLATE Latin1_General_BIN2 AND ancestor.descendant_code = otherCoding.code COLLATE Latin1_General_BIN2",
+    );
+  });
+
+  it("test the ancestors of the argument within the hierarchy", () => {
+    expect(
+      transpilePath("Observation", "code.coding.subsumedBy(code)"),
+    ).toContain(
+      "ancestor.ancestor_code = otherCoding.code COLLATE Latin1_General_BIN2 AND ancestor.descendant_code = inputCoding.code COLLATE Latin1_General_BIN2",
+    );
+  });
+
+  it("read the concept ancestor table", () => {
+    expect(transpilePath("Observation", "code.subsumes(code)")).toContain(
+      "FROM [dbo].[fhir_concept_ancestors] AS ancestor",
+    );
+  });
+
+  it("read operands of a type that is not known as Codings", () => {
+    const sql = transpilePath(
+      "Observation",
+      "code.coding.first().subsumes(code.coding.last())",
+    );
+    expect(sql).toContain(
+      "(SELECT JSON_VALUE(item0.value, '$.system') AS [system], JSON_VALUE(item0.value, '$.code') AS [code]) AS inputCoding",
+    );
+    expect(sql).toContain("AS [code]) AS otherCoding");
+  });
+
+  it("reject codes", () => {
+    expect(() => transpilePath("Observation", "status.subsumes(code)")).toThrow(
+      "subsumes() requires an input of type Coding or CodeableConcept",
+    );
+  });
+});
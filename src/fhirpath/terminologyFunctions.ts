@@ -0,0 +1,236 @@
+/**
+ * FHIRPath terminology functions: `memberOf()`, `subsumes()` and
+ * `subsumedBy()`.
+ *
+ * No terminology server is consulted. The functions read the tables that the
+ * terminology loader fills from ValueSets and CodeSystems: the expansion of
+ * each value set, and the ancestors of each concept within the hierarchy of
+ * its code system. A value set or code system that has not been loaded has
+ * no members and no hierarchy.
+ *
+ * The input of `memberOf()` may be a code, a Coding or a CodeableConcept,
+ * which is a member where any of its codings are. A code is matched by its
+ * value alone, as it carries no system. `subsumes()` and `subsumedBy()`
+ * compare Codings and CodeableConcepts, whose codes must share a system, and
+ * read operands of a type that is not known as Codings. Each function is true
+ * where any item of its input satisfies it, and empty where its input is
+ * empty.
+ *
+ * @author John Grimes
+ */
+
+import { canonicalUrl } from "../terminology/expansion.js";
+import { DEFAULT_TERMINOLOGY_TABLE_NAMES } from "../terminology/tables.js";
+import type { TerminologyTableNames } from "../terminology/types.js";
+import { validateSqlServerIdentifier } from "../validation.js";
+import { anyItem, type Collection, someItem } from "./collectionFunctions.js";
+import type { ExpressionNode } from "./ir.js";
+import {
+  type LibraryFunction,
+  ordinal,
+  quote,
+  stringLiteral,
+} from "./stringFunctions.js";
+
+/**
+ * The types of the coded values the terminology functions accept.
+ */
+export type CodedType = "code" | "Coding" | "CodeableConcept";
+
+/**
+ * A transpiled collection of coded values, and their type if known.
+ */
+export interface CodedCollection {
+  sql: string;
+  type: CodedType | null;
+  repeating?: boolean | null;
+  node?: ExpressionNode;
+}
+
+/**
+ * The qualified names of the terminology tables, as referenced by the
+ * transpiled SQL (e.g. `[dbo].[fhir_valueset_members]`).
+ */
+export interface TerminologyTables {
+  valueSetTable: string;
+  conceptAncestorTable: string;
+}
+
+/**
+ * The terminology tables of a schema.
+ *
+ * @param schemaName - Schema name.
+ * @param tableNames - The names of the terminology tables.
+ * @returns The qualified names of the tables.
+ */
+export function terminologyTables(
+  schemaName = "dbo",
+  tableNames: TerminologyTableNames = DEFAULT_TERMINOLOGY_TABLE_NAMES,
+): TerminologyTables {
+  validateSqlServerIdentifier(schemaName, "Schema name");
+  validateSqlServerIdentifier(tableNames.valueSetTableName, "Table name");
+  validateSqlServerIdentifier(
+    tableNames.conceptAncestorTableName,
+    "Table name",
+  );
+  return {
+    valueSetTable: `[${schemaName}].[${tableNames.valueSetTableName}]`,
+    conceptAncestorTable: `[${schemaName}].[${tableNames.conceptAncestorTableName}]`,
+  };
+}
+
+/**
+ * The terminology functions, reading the given tables.
+ *
+ * @param tables - The terminology tables.
+ * @returns The functions, by name.
+ */
+export function terminologyFunctions(
+  tables: TerminologyTables = terminologyTables(),
+): Record<string, LibraryFunction<CodedCollection>> {
+  return {
+    memberOf: {
+      minArgs: 1,
+      maxArgs: 1,
+      sql: (input, [valueSet]) => ({
+        sql: memberOf(input, valueSet.sql, tables),
+        type: null,
+      }),
+    },
+    subsumes: {
+      minArgs: 1,
+      maxArgs: 1,
+      sql: (input, [other]) => ({
+        sql: subsumption("subsumes", input, other, tables),
+        type: null,
+      }),
+    },
+    subsumedBy: {
+      minArgs: 1,
+      maxArgs: 1,
+      sql: (input, [other]) => ({
+        sql: subsumption("subsumedBy", input, other, tables),
+        type: null,
+      }),
+    },
+  };
+}
+
+/**
+ * Whether any coded value of the input is a member of a value set, matching
+ * the expansion of the value set by system and code.
+ */
+function memberOf(
+  input: CodedCollection,
+  valueSet: string,
+  tables: TerminologyTables,
+): string {
+  const type = codedType("memberOf", "input", input, [
+    "code",
+    "Coding",
+    "CodeableConcept",
+  ]);
+  const system =
+    type === "code"
+      ? ""
+      : ` AND expansion.[system] = ${ordinal("coding.[system]")}`;
+  return someItem(
+    collection(input),
+    (alias) =>
+      `EXISTS (SELECT 1 FROM ${codings(type, alias)} AS coding JOIN ${tables.valueSetTable} AS expansion ON expansion.code = ${ordinal("coding.code")}${system} WHERE expansion.valueset_url = ${valueSetUrl(valueSet)})`,
+  );
+}
+
+/**
+ * Whether any coding of the input subsumes (or is subsumed by) any coding of
+ * the argument: they share a system, and their codes are the same or one is
+ * an ancestor of the other. The result is empty where either is empty.
+ */
+function subsumption(
+  name: "subsumes" | "subsumedBy",
+  input: CodedCollection,
+  other: CodedCollection,
+  tables: TerminologyTables,
+): string {
+  const accepted: CodedType[] = ["Coding", "CodeableConcept"];
+  const inputType = codedType(name, "input", asCoding(input), accepted);
+  const otherType = codedType(name, "argument", asCoding(other), accepted);
+  const [ancestor, descendant] =
+    name === "subsumes"
+      ? ["inputCoding", "otherCoding"]
+      : ["otherCoding", "inputCoding"];
+  const subsumed = someItem(collection(input), (inputAlias) =>
+    anyItem(
+      collection(other),
+      (otherAlias) =>
+        `EXISTS (SELECT 1 FROM ${codings(inputType, inputAlias)} AS inputCoding CROSS JOIN ${codings(otherType, otherAlias)} AS otherCoding WHERE ${ordinal("inputCoding.[system]")} = otherCoding.[system] AND (${ordinal("inputCoding.code")} = otherCoding.code OR EXISTS (SELECT 1 FROM ${tables.conceptAncestorTable} AS ancestor WHERE ancestor.[system] = ${ordinal(`${ancestor}.[system]`)} AND ancestor.ancestor_code = ${ordinal(`${ancestor}.code`)} AND ancestor.descendant_code = ${ordinal(`${descendant}.code`)})))`,
+      inputAlias,
+    ),
+  );
+  // Empty (unknown) rather than false where the argument is empty
+  const otherPresent = someItem(collection(other), () => "1 = 1");
+  return `(${subsumed} AND ${otherPresent})`;
+}
+
+/**
+ * An operand whose type is not known (e.g. the result of `last()`), read as
+ * Codings.
+ */
+function asCoding(operand: CodedCollection): CodedCollection {
+  return operand.type === null ? { ...operand, type: "Coding" } : operand;
+}
+
+/**
+ * The type of the coded values of an operand, which must be among those
+ * accepted by a function.
+ */
+function codedType(
+  name: string,
+  role: "input" | "argument",
+  operand: CodedCollection,
+  accepted: CodedType[],
+): CodedType {
+  if (operand.type === null || !accepted.includes(operand.type)) {
+    const types = accepted.join(", ").replace(/, ([^,]+)$/, " or $1");
+    throw new Error(`${name}() requires an ${role} of type ${types}`);
+  }
+  return operand.type;
+}
+
+/**
+ * The system and code of each coding of an item held by OPENJSON rows, as a
+ * derived table. A code has no system, and is read as it is.
+ */
+function codings(type: CodedType, alias: string): string {
+  const member = (source: string, name: string): string =>
+    `JSON_VALUE(${source}, '$.${name}') AS [${name}]`;
+  switch (type) {
+    case "code":
+      return `(SELECT ${alias}.value AS [code])`;
+    case "Coding":
+      return `(SELECT ${member(`${alias}.value`, "system")}, ${member(`${alias}.value`, "code")})`;
+    case "CodeableConcept":
+      return `(SELECT ${member("concept.value", "system")}, ${member("concept.value", "code")} FROM OPENJSON(${alias}.value, '$.coding') AS concept)`;
+  }
+}
+
+/**
+ * The canonical URL of a value set without its version, which the expansions
+ * are keyed by.
+ */
+function valueSetUrl(valueSet: string): string {
+  const literal = stringLiteral(valueSet);
+  if (literal !== null) {
+    return quote(canonicalUrl(literal));
+  }
+  return `LEFT(${valueSet}, CHARINDEX('|', CONCAT(${valueSet}, '|')) - 1)`;
+}
+
+function collection(input: CodedCollection): Collection {
+  return {
+    sql: input.sql,
+    type: null,
+    repeating: input.repeating,
+    node: input.node,
+  };
+}
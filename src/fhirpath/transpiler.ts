@@ -3,44 +3,137 @@
  * Converts FHIRPath expressions to equivalent T-SQL expressions for MS SQL Server.
  */
 
-import { CharStreams, CommonTokenStream } from "antlr4ts";
+import { CharStreams, CommonTokenStream, type Token } from "antlr4ts";
+import type { SourceRange } from "../diagnostics.js";
 import { fhirpathLexer } from "../generated/grammar/fhirpathLexer";
 import {
   EntireExpressionContext,
   fhirpathParser,
+  FunctionInvocationContext,
+  InvocationExpressionContext,
+  UnionExpressionContext,
 } from "../generated/grammar/fhirpathParser";
 import type { ViewDefinitionColumnTag } from "../types.js";
 import { validateAnsiSqlType, validateMsSqlType } from "../validation.js";
+import { COLLECTION_VALUED_FUNCTIONS } from "./collectionFunctions.js";
+import { FhirPathError, locateError, offsetOf } from "./errors.js";
 import { FHIRPathToTSqlVisitor, TranspilerContext } from "./visitor";
 
 // Re-export TranspilerContext from visitor
 export { TranspilerContext } from "./visitor";
 
+/**
+ * A syntax error in a FHIRPath expression, as reported by the parser.
+ */
+export interface ParseError {
+  message: string;
+  range: SourceRange;
+}
+
 export class Transpiler {
   /**
    * Transpile a FHIRPath expression to T-SQL.
    */
   static transpile(expression: string, context: TranspilerContext): string {
+    return this.transpileWith(expression, context, (visitor, tree) =>
+      visitor.transpileValue(tree),
+    );
+  }
+
+  /**
+   * Transpile a FHIRPath expression to a JSON array of all of its items, which
+   * is the empty array where it has none.
+   */
+  static transpileCollection(
+    expression: string,
+    context: TranspilerContext,
+  ): string {
+    return this.transpileWith(expression, context, (visitor, tree) =>
+      visitor.transpileCollection(tree),
+    );
+  }
+
+  /**
+   * Transpile a FHIRPath expression to a T-SQL condition, for use as a filter.
+   * A Boolean value is true where it is true, and any other value is true
+   * where it is present.
+   */
+  static transpileCondition(
+    expression: string,
+    context: TranspilerContext,
+  ): string {
+    return this.transpileWith(expression, context, (visitor, tree) =>
+      visitor.transpileCondition(tree),
+    );
+  }
+
+  /**
+   * Transpile a FHIRPath expression to a T-SQL BIT, which is NULL where the
+   * result is empty.
+   */
+  static transpileBoolean(
+    expression: string,
+    context: TranspilerContext,
+  ): string {
+    return this.transpileWith(expression, context, (visitor, tree) =>
+      visitor.transpileBoolean(tree),
+    );
+  }
+
+  private static transpileWith(
+    expression: string,
+    context: TranspilerContext,
+    transpile: (
+      visitor: FHIRPathToTSqlVisitor,
+      tree: EntireExpressionContext,
+    ) => string,
+  ): string {
     // Check for syntax errors first, before any try-catch
     const parseResult = this.parseExpression(expression);
     if (!parseResult.success || !parseResult.tree) {
-      throw new Error(`Syntax error in FHIRPath expression '${expression}'`);
+      throw new FhirPathError(
+        `Syntax error in FHIRPath expression '${expression}': ${parseResult.error?.message}`,
+        parseResult.error?.range ?? null,
+        expression,
+        "syntax-error",
+      );
     }
 
     try {
       // Create visitor and visit the parse tree
-      const visitor = new FHIRPathToTSqlVisitor(context);
-      return visitor.visit(parseResult.tree);
+      return transpile(new FHIRPathToTSqlVisitor(context), parseResult.tree);
     } catch (error) {
-      throw new Error(
-        `Failed to transpile FHIRPath expression '${expression}': ${error}`,
-      );
+      throw locateError(error, expression);
+    }
+  }
+
+  /**
+   * Whether a FHIRPath expression transpiles to a computed JSON array, such
+   * as the result of `|` or `distinct()`, rather than a path within a
+   * resource.
+   */
+  static isComputedCollection(expression: string): boolean {
+    const { tree } = this.parseExpression(expression);
+    const root = tree?.expression();
+    if (root instanceof UnionExpressionContext) {
+      return true;
     }
+    const invocation =
+      root instanceof InvocationExpressionContext ? root.invocation() : null;
+    return (
+      invocation instanceof FunctionInvocationContext &&
+      COLLECTION_VALUED_FUNCTIONS.has(invocation.function().identifier().text)
+    );
   }
 
-  private static parseExpression(expression: string): {
+  /**
+   * Parse a FHIRPath expression, without reporting syntax errors to the
+   * console.
+   */
+  static parseExpression(expression: string): {
     success: boolean;
     tree: EntireExpressionContext | null;
+    error: ParseError | null;
   } {
     // Create ANTLR input stream
     const inputStream = CharStreams.fromString(expression);
@@ -52,18 +145,39 @@ export class Transpiler {
     // Create parser
     const parser = new fhirpathParser(tokenStream);
 
-    // Remove default error listeners to avoid console output
+    // Replace the default error listeners, which write to the console, with
+    // one that keeps the first error
+    let error: ParseError | null = null;
+    const listener = {
+      syntaxError: (
+        _recognizer: unknown,
+        offendingSymbol: Token | number | undefined,
+        line: number,
+        charPositionInLine: number,
+        message: string,
+      ): void => {
+        error ??= parseError(
+          expression,
+          offendingSymbol,
+          offsetOf(expression, line, charPositionInLine),
+          message,
+        );
+      },
+    };
+    lexer.removeErrorListeners();
+    lexer.addErrorListener(listener);
     parser.removeErrorListeners();
+    parser.addErrorListener(listener);
 
     // Parse the entire expression
     const tree = parser.entireExpression();
 
     // Check for parse errors
-    if (parser.numberOfSyntaxErrors > 0) {
-      return { success: false, tree: null };
+    if (error !== null || parser.numberOfSyntaxErrors > 0) {
+      return { success: false, tree: null, error };
     }
 
-    return { success: true, tree };
+    return { success: true, tree, error: null };
   }
 
   /**
@@ -184,3 +298,22 @@ export class Transpiler {
     return typeMap[fhirType.toLowerCase()] ?? "NVARCHAR(MAX)";
   }
 }
+
+/**
+ * Describes a syntax error at an offending token or, where the lexer found no
+ * token, at a character.
+ */
+function parseError(
+  expression: string,
+  offendingSymbol: Token | number | undefined,
+  offset: number,
+  message: string,
+): ParseError {
+  const token = typeof offendingSymbol === "object" ? offendingSymbol : null;
+  const start = token && token.startIndex >= 0 ? token.startIndex : offset;
+  const end =
+    token && token.stopIndex >= token.startIndex
+      ? token.stopIndex + 1
+      : Math.min(start + 1, expression.length);
+  return { message, range: { start, end: Math.max(end, start) } };
+}
@@ -0,0 +1,123 @@
+/**
+ * Renders the intermediate representation of FHIRPath expressions to T-SQL.
+ *
+ * @author John Grimes
+ */
+
+import type {
+  ExpressionNode,
+  ItemQueryNode,
+  JsonItems,
+  PathNode,
+  ResolvedItems,
+} from "./ir.js";
+import { quantityLiteral } from "./quantityFunctions.js";
+
+/**
+ * Renders an expression to T-SQL.
+ *
+ * @param node - The expression.
+ * @returns The T-SQL expression.
+ */
+export function emitTSql(node: ExpressionNode): string {
+  switch (node.kind) {
+    case "path":
+      return emitPath(node);
+    case "itemQuery":
+      return emitItemQuery(node);
+    case "array":
+      return `JSON_QUERY(${node.json})`;
+    case "quantity":
+      return quantityLiteral(node.value, node.unit, node.calendar);
+    case "sql":
+      return node.sql;
+  }
+}
+
+/**
+ * An element within a JSON document: JSON_QUERY for objects and arrays, and
+ * JSON_VALUE for scalars, as each yields NULL for the other.
+ */
+function emitPath(node: PathNode): string {
+  return jsonElement(node.source, node.jsonPath, node.isJson);
+}
+
+/**
+ * The first item selected by a query, or an element within it.
+ */
+function emitItemQuery(node: ItemQueryNode): string {
+  return `(SELECT TOP 1 ${itemQueryColumn(node)} ${itemQueryFrom(node)})`;
+}
+
+/**
+ * Every item selected by a query, or an element within each, as a query of
+ * their values.
+ *
+ * @param node - The item query.
+ * @returns The T-SQL query, selecting a `value` column.
+ */
+export function emitItemValues(node: ItemQueryNode): string {
+  const column = node.member ? `${itemQueryColumn(node)} AS value` : "value";
+  return `SELECT ${column} ${itemQueryFrom(node)}`;
+}
+
+function itemQueryColumn(node: ItemQueryNode): string {
+  return node.member
+    ? jsonElement("value", node.member.jsonPath, node.member.isJson)
+    : "value";
+}
+
+function itemQueryFrom(node: ItemQueryNode): string {
+  const where =
+    node.conditions.length > 0 ? ` WHERE ${node.conditions.join(" AND ")}` : "";
+  return `FROM ${itemsClause(node.items)}${where}`;
+}
+
+function itemsClause(items: JsonItems | ResolvedItems): string {
+  if (items.kind === "resolved") {
+    return items.from;
+  }
+  const steps = items.jsonPath.split("[0].");
+  if (steps.length > 1) {
+    return nestedItemsClause(items, steps);
+  }
+  // A derived table of the single item of an element that does not repeat
+  if (!items.repeating) {
+    const value = jsonElement(items.source, items.jsonPath, items.isJson);
+    return `(SELECT ${value} AS value) AS ${items.alias ?? "item"}`;
+  }
+  const alias = items.alias ? ` AS ${items.alias}` : "";
+  return `OPENJSON(${items.source}, '${items.jsonPath}')${alias}`;
+}
+
+/**
+ * The items of an element beneath repeating elements (each marked by `[0].`
+ * within its path), within every item of those elements, as a derived table.
+ */
+function nestedItemsClause(items: JsonItems, steps: string[]): string {
+  const alias = items.alias ?? "item";
+  const clauses = steps.map(
+    (step, i) =>
+      `OPENJSON(${i === 0 ? items.source : `${alias}_${i - 1}.value`}, '${i === 0 ? step : `$.${step}`}') AS ${alias}_${i}`,
+  );
+  const last = steps.length - 1;
+  if (items.repeating) {
+    const columns = `${alias}_${last}.[key], ${alias}_${last}.value, ${alias}_${last}.type`;
+    return `(SELECT ${columns} FROM ${clauses.join(" CROSS APPLY ")}) AS ${alias}`;
+  }
+  const value = jsonElement(
+    `${alias}_${last - 1}.value`,
+    `$.${steps[last]}`,
+    items.isJson,
+  );
+  return `(SELECT ${value} AS value FROM ${clauses.slice(0, last).join(" CROSS APPLY ")}) AS ${alias}`;
+}
+
+function jsonElement(
+  source: string,
+  jsonPath: string,
+  isJson: boolean,
+): string {
+  const fn = isJson ? "JSON_QUERY" : "JSON_VALUE";
+  return `${fn}(${source}, '${jsonPath}')`;
+}
@@ -0,0 +1,977 @@
+/**
+ * Static type checking of FHIRPath expressions against the FHIR type model.
+ *
+ * The checker infers the type of an expression (the element it addresses, its
+ * FHIR types and whether it may evaluate to more than one item) without
+ * transpiling it, and reports the problems it finds along the way: elements
+ * that are not defined, misuse of choice elements, and functions that require
+ * a single item applied to a collection. Where the type of an expression
+ * cannot be inferred, it is treated as unknown and nothing is reported of it.
+ *
+ * @author John Grimes
+ */
+
+import type { ParserRuleContext } from "antlr4ts";
+import { AbstractParseTreeVisitor } from "antlr4ts/tree/AbstractParseTreeVisitor";
+import type { Diagnostic, SuggestedFix } from "../diagnostics.js";
+import {
+  AdditiveExpressionContext,
+  AndExpressionContext,
+  EntireExpressionContext,
+  EqualityExpressionContext,
+  ExpressionContext,
+  ExternalConstantContext,
+  FunctionContext,
+  FunctionInvocationContext,
+  IdentifierContext,
+  ImpliesExpressionContext,
+  IndexerExpressionContext,
+  IndexInvocationContext,
+  InequalityExpressionContext,
+  InvocationContext,
+  InvocationExpressionContext,
+  InvocationTermContext,
+  MemberInvocationContext,
+  MembershipExpressionContext,
+  MultiplicativeExpressionContext,
+  NumberLiteralContext,
+  OrExpressionContext,
+  ParenthesizedTermContext,
+  PolarityExpressionContext,
+  ThisInvocationContext,
+  TypeExpressionContext,
+  UnionExpressionContext,
+} from "../generated/grammar/fhirpathParser.js";
+import type { fhirpathVisitor } from "../generated/grammar/fhirpathVisitor.js";
+import {
+  choiceTypeSuffix,
+  type ElementInfo,
+  type FhirProfile,
+  type FhirTypeModel,
+} from "../typeModel/index.js";
+import { CONVERSION_FUNCTIONS } from "./conversionFunctions.js";
+import {
+  type CustomFunction,
+  type FunctionRegistry,
+  type FunctionSignature,
+  matchingSignature,
+} from "./customFunctions.js";
+import { environmentUrl } from "./environment.js";
+import { rangeOf } from "./errors.js";
+import { MATH_FUNCTIONS } from "./mathFunctions.js";
+import { STRING_FUNCTIONS } from "./stringFunctions.js";
+import {
+  matchingChoiceTypes,
+  resolveTypeSpecifier,
+  type TypeSpecifier,
+} from "./typeOperators.js";
+
+/**
+ * What is known of the type of an expression.
+ */
+export interface ExpressionType {
+  /** The FHIR element of the items (e.g. `Patient.name`), or their type. */
+  elementPath: string | null;
+  /** The FHIR types the items may have: several for a choice element. */
+  types: string[];
+  /** Whether the expression may evaluate to more than one item. */
+  collection: boolean;
+  /** Whether the items are of a choice element not narrowed to one type. */
+  choice: boolean;
+}
+
+/**
+ * A problem found in an expression, to be located within the ViewDefinition
+ * by the caller.
+ */
+export type ExpressionProblem = Omit<Diagnostic, "pointer">;
+
+/**
+ * The definitions an expression is checked against.
+ */
+export interface TypeScope {
+  model: FhirTypeModel;
+  /** Profile constraints on the resource type, if any. */
+  profile?: FhirProfile;
+  /** The type of the resource being viewed. */
+  resourceType: string;
+  /** The item the expression is evaluated against. */
+  focus: ExpressionType;
+  /** The FHIR types of the constants of the ViewDefinition, by name. */
+  constants: Record<string, string | null>;
+  /** The custom functions registered with the query generator, if any. */
+  functions?: FunctionRegistry;
+}
+
+/**
+ * The type of an expression of which nothing is known.
+ */
+export const UNKNOWN: ExpressionType = {
+  elementPath: null,
+  types: [],
+  collection: false,
+  choice: false,
+};
+
+/**
+ * The functions that require their input to be a single item, for which the
+ * FHIRPath specification signals an error on a collection.
+ */
+const SINGLETON_FUNCTIONS = new Set([
+  ...Object.keys(STRING_FUNCTIONS),
+  ...Object.keys(MATH_FUNCTIONS),
+  ...Object.keys(CONVERSION_FUNCTIONS),
+  "matches",
+  "matchesFull",
+  "replaceMatches",
+  "lowBoundary",
+  "highBoundary",
+  "not",
+]);
+
+/**
+ * The functions returning a single item of a fixed type, by type.
+ */
+const RESULT_TYPES = new Map<string, string>(
+  (
+    [
+      [
+        "boolean",
+        [
+          "exists",
+          "empty",
+          "all",
+          "allTrue",
+          "anyTrue",
+          "allFalse",
+          "anyFalse",
+          "subsetOf",
+          "supersetOf",
+          "isDistinct",
+          "not",
+          "hasValue",
+          "is",
+          "startsWith",
+          "endsWith",
+          "contains",
+          "matches",
+          "matchesFull",
+          "memberOf",
+          "subsumes",
+          "subsumedBy",
+          "toBoolean",
+          ...Object.keys(CONVERSION_FUNCTIONS).filter((name) =>
+            name.startsWith("convertsTo"),
+          ),
+        ],
+      ],
+      [
+        "integer",
+        [
+          "count",
+          "length",
+          "indexOf",
+          "lastIndexOf",
+          "toInteger",
+          "ceiling",
+          "floor",
+          "truncate",
+        ],
+      ],
+      ["decimal", ["toDecimal", "avg", "sqrt", "exp", "ln", "log"]],
+      [
+        "string",
+        [
+          "toString",
+          "substring",
+          "upper",
+          "lower",
+          "replace",
+          "replaceMatches",
+          "join",
+          "trim",
+          "encode",
+          "decode",
+          "escape",
+          "unescape",
+          "getResourceKey",
+          "getReferenceKey",
+        ],
+      ],
+      ["date", ["toDate", "today"]],
+      ["dateTime", ["toDateTime", "now"]],
+      ["time", ["toTime", "timeOfDay"]],
+      ["Quantity", ["toQuantity"]],
+    ] as [string, string[]][]
+  ).flatMap(([type, names]) => names.map((name) => [name, type] as const)),
+);
+
+/**
+ * The types of the results of the division operators, which do not depend on
+ * those of their operands.
+ */
+const DIVISION_RESULT_TYPES = new Map([
+  ["/", "decimal"],
+  ["div", "integer"],
+]);
+
+/**
+ * The functions returning a collection of a fixed type, by name.
+ */
+const COLLECTION_RESULT_TYPES = new Map([
+  ["split", "string"],
+  ["toChars", "string"],
+  ["extension", "Extension"],
+]);
+
+/**
+ * The functions returning a single item of the type of their input.
+ */
+const ITEM_FUNCTIONS = new Set([
+  "first",
+  "last",
+  "single",
+  "sum",
+  "min",
+  "max",
+  "abs",
+  "round",
+  "lowBoundary",
+  "highBoundary",
+]);
+
+/**
+ * The functions returning some of the items of their input.
+ */
+const FILTER_FUNCTIONS = new Set([
+  "where",
+  "tail",
+  "skip",
+  "take",
+  "distinct",
+  "intersect",
+  "exclude",
+  "trace",
+  "defineVariable",
+]);
+
+/**
+ * The functions whose argument is a type specifier rather than an expression.
+ */
+const TYPE_ARGUMENT_FUNCTIONS = new Set(["is", "getReferenceKey"]);
+
+/**
+ * The functions whose arguments are evaluated against each item of their
+ * input, rather than the item the expression is evaluated against.
+ */
+const ITEM_ARGUMENT_FUNCTIONS = new Set([
+  "where",
+  "select",
+  "all",
+  "exists",
+  "repeat",
+  "aggregate",
+]);
+
+/**
+ * Infers the type of a FHIRPath expression, and reports the problems found in
+ * it.
+ *
+ * @param tree - The parsed expression.
+ * @param scope - The definitions the expression is checked against.
+ * @returns The type of the expression and the problems found in it.
+ */
+export function checkExpression(
+  tree: EntireExpressionContext,
+  scope: TypeScope,
+): { type: ExpressionType; problems: ExpressionProblem[] } {
+  const checker = new TypeChecker(scope, []);
+  const type = checker.visit(tree.expression());
+  return { type, problems: checker.problems };
+}
+
+/**
+ * The type of a single item of an expression.
+ */
+export function itemType(type: ExpressionType): ExpressionType {
+  return { ...type, collection: false };
+}
+
+/**
+ * The type of the resource being viewed.
+ */
+export function resourceType(type: string): ExpressionType {
+  return { elementPath: type, types: [type], collection: false, choice: false };
+}
+
+/**
+ * The type of a single item of a FHIR type, e.g. the result of `count()`.
+ */
+function valueType(type: string): ExpressionType {
+  return { elementPath: null, types: [type], collection: false, choice: false };
+}
+
+class TypeChecker
+  extends AbstractParseTreeVisitor<ExpressionType>
+  implements fhirpathVisitor<ExpressionType>
+{
+  constructor(
+    private readonly scope: TypeScope,
+    readonly problems: ExpressionProblem[],
+  ) {
+    super();
+  }
+
+  protected defaultResult(): ExpressionType {
+    return UNKNOWN;
+  }
+
+  visitInvocationTerm(ctx: InvocationTermContext): ExpressionType {
+    return this.invoke(ctx.invocation(), this.scope.focus, true);
+  }
+
+  visitParenthesizedTerm(ctx: ParenthesizedTermContext): ExpressionType {
+    return this.visit(ctx.expression());
+  }
+
+  visitInvocationExpression(ctx: InvocationExpressionContext): ExpressionType {
+    return this.invoke(ctx.invocation(), this.visit(ctx.expression()), false);
+  }
+
+  visitIndexerExpression(ctx: IndexerExpressionContext): ExpressionType {
+    this.visit(ctx.expression(1));
+    return itemType(this.visit(ctx.expression(0)));
+  }
+
+  visitPolarityExpression(ctx: PolarityExpressionContext): ExpressionType {
+    return this.visit(ctx.expression());
+  }
+
+  visitMultiplicativeExpression(
+    ctx: MultiplicativeExpressionContext,
+  ): ExpressionType {
+    const [left, right] = this.visitOperands(ctx.expression());
+    const resultType = DIVISION_RESULT_TYPES.get(ctx.getChild(1).text);
+    return resultType ? valueType(resultType) : arithmeticType(left, right);
+  }
+
+  visitAdditiveExpression(ctx: AdditiveExpressionContext): ExpressionType {
+    const [left, right] = this.visitOperands(ctx.expression());
+    return ctx.getChild(1).text === "&"
+      ? valueType("string")
+      : arithmeticType(left, right);
+  }
+
+  visitUnionExpression(ctx: UnionExpressionContext): ExpressionType {
+    const [left, right] = this.visitOperands(ctx.expression());
+    return { ...this.commonType(left, right), collection: true };
+  }
+
+  visitTypeExpression(ctx: TypeExpressionContext): ExpressionType {
+    const input = this.visit(ctx.expression());
+    if (ctx.getChild(1).text === "as") {
+      return this.narrow(input, ctx.typeSpecifier());
+    }
+    this.typeSpecifier(ctx.typeSpecifier());
+    return valueType("boolean");
+  }
+
+  visitInequalityExpression(ctx: InequalityExpressionContext): ExpressionType {
+    return this.visitCondition(ctx.expression());
+  }
+
+  visitEqualityExpression(ctx: EqualityExpressionContext): ExpressionType {
+    return this.visitCondition(ctx.expression());
+  }
+
+  visitMembershipExpression(ctx: MembershipExpressionContext): ExpressionType {
+    return this.visitCondition(ctx.expression());
+  }
+
+  visitAndExpression(ctx: AndExpressionContext): ExpressionType {
+    return this.visitCondition(ctx.expression());
+  }
+
+  visitOrExpression(ctx: OrExpressionContext): ExpressionType {
+    return this.visitCondition(ctx.expression());
+  }
+
+  visitImpliesExpression(ctx: ImpliesExpressionContext): ExpressionType {
+    return this.visitCondition(ctx.expression());
+  }
+
+  visitStringLiteral(): ExpressionType {
+    return valueType("string");
+  }
+
+  visitBooleanLiteral(): ExpressionType {
+    return valueType("boolean");
+  }
+
+  visitNumberLiteral(ctx: NumberLiteralContext): ExpressionType {
+    return valueType(ctx.text.includes(".") ? "decimal" : "integer");
+  }
+
+  visitLongNumberLiteral(): ExpressionType {
+    return valueType("integer");
+  }
+
+  visitDateLiteral(): ExpressionType {
+    return valueType("date");
+  }
+
+  visitDateTimeLiteral(): ExpressionType {
+    return valueType("dateTime");
+  }
+
+  visitTimeLiteral(): ExpressionType {
+    return valueType("time");
+  }
+
+  visitQuantityLiteral(): ExpressionType {
+    return valueType("Quantity");
+  }
+
+  visitExternalConstant(ctx: ExternalConstantContext): ExpressionType {
+    const identifier = ctx.identifier();
+    const name = identifier
+      ? identifierName(identifier)
+      : (ctx.STRING()?.text.slice(1, -1) ?? "");
+    switch (name) {
+      case "rowIndex":
+        return valueType("integer");
+      case "resource":
+      case "rootResource":
+        return resourceType(this.scope.resourceType);
+      case "context":
+        return this.scope.focus;
+    }
+    const constant = this.scope.constants[name];
+    if (constant) {
+      return valueType(constant);
+    }
+    return environmentUrl(name) === null ? UNKNOWN : valueType("string");
+  }
+
+  /**
+   * The type of an invocation of a member or function on an input.
+   *
+   * @param isTerm - Whether the invocation begins the expression, where it
+   *   may name the type of the resource being viewed.
+   */
+  private invoke(
+    ctx: InvocationContext,
+    input: ExpressionType,
+    isTerm: boolean,
+  ): ExpressionType {
+    if (ctx instanceof MemberInvocationContext) {
+      const identifier = ctx.identifier();
+      const isResource =
+        isTerm &&
+        identifierName(identifier) === this.scope.resourceType &&
+        input.elementPath === this.scope.resourceType;
+      return isResource ? input : this.member(input, identifier);
+    }
+    if (ctx instanceof FunctionInvocationContext) {
+      return this.function(ctx.function(), input);
+    }
+    if (ctx instanceof ThisInvocationContext) {
+      return this.scope.focus;
+    }
+    return ctx instanceof IndexInvocationContext
+      ? valueType("integer")
+      : UNKNOWN;
+  }
+
+  /**
+   * The type of a member of the items of an input.
+   */
+  private member(
+    input: ExpressionType,
+    identifier: IdentifierContext,
+  ): ExpressionType {
+    if (input.choice) {
+      return this.choiceMember(input, identifier);
+    }
+    const name = identifierName(identifier);
+    const base = input.elementPath ?? onlyType(input);
+    if (!base) {
+      return { ...UNKNOWN, collection: input.collection };
+    }
+
+    const path = `${base}.${name}`;
+    const element = this.scope.model.isDefined(path)
+      ? this.scope.model.resolvePath(path)
+      : null;
+    if (!element) {
+      return this.undefinedMember(input, base, identifier);
+    }
+    this.checkTypedChoiceName(base, identifier, element);
+    return this.elementType(path, element, input);
+  }
+
+  /**
+   * The type of a member of the items of a choice element, which is defined
+   * only if one of the types of the element defines it.
+   */
+  private choiceMember(
+    input: ExpressionType,
+    identifier: IdentifierContext,
+  ): ExpressionType {
+    const name = identifierName(identifier);
+    const types = input.types.filter((type) =>
+      this.scope.model.isDefined(`${type}.${name}`),
+    );
+    if (types.length === 0) {
+      return this.undefinedMember(input, input.elementPath ?? "", identifier);
+    }
+    this.report(
+      "warning",
+      "choice-type",
+      `'${input.elementPath}' is a choice of types: select one with ofType() before navigating to '${name}', e.g. ${input.elementPath}.ofType(${types[0]}).${name}`,
+      identifier,
+      types.map((type) => ({
+        message: `Navigate to '${name}' of ${type}`,
+        replacement: `ofType(${type}).${identifier.text}`,
+      })),
+    );
+    return types.length === 1
+      ? this.member(
+          { ...input, elementPath: types[0], choice: false },
+          identifier,
+        )
+      : { ...UNKNOWN, collection: input.collection };
+  }
+
+  /**
+   * The type of a member that is not an element of the type model, which is
+   * an extension slice of the profile or an error.
+   */
+  private undefinedMember(
+    input: ExpressionType,
+    base: string,
+    identifier: IdentifierContext,
+  ): ExpressionType {
+    const name = identifierName(identifier);
+    if (this.scope.profile?.extensionSlice(base, name)) {
+      return { ...valueType("Extension"), collection: input.collection };
+    }
+    this.report(
+      "error",
+      "unknown-element",
+      `Element '${base}.${name}' is not defined in FHIR ${this.scope.model.fhirVersion}`,
+      identifier,
+      similarNames(name, this.scope.model.childNames(base)).map((similar) => ({
+        message: `Did you mean '${similar}'?`,
+        replacement: similar,
+      })),
+    );
+    return { ...UNKNOWN, collection: input.collection };
+  }
+
+  /**
+   * Warns of navigating to a choice element by the name of one of its types
+   * (e.g. `valueQuantity`), which is the JSON property name rather than a
+   * FHIRPath element.
+   */
+  private checkTypedChoiceName(
+    base: string,
+    identifier: IdentifierContext,
+    element: ElementInfo,
+  ): void {
+    const name = identifierName(identifier);
+    const type = element.types.length === 1 ? element.types[0] : null;
+    const suffix = type ? choiceTypeSuffix(type) : "";
+    const choiceName = name.slice(0, -suffix.length);
+    if (
+      !type ||
+      !name.endsWith(suffix) ||
+      !this.scope.model.isChoice(`${base}.${choiceName}`)
+    ) {
+      return;
+    }
+    this.report(
+      "warning",
+      "choice-type",
+      `'${name}' is not a FHIRPath element of '${base}': use ${choiceName}.ofType(${type})`,
+      identifier,
+      [
+        {
+          message: `Select the ${type} of '${choiceName}'`,
+          replacement: `${choiceName}.ofType(${type})`,
+        },
+      ],
+    );
+  }
+
+  /**
+   * The type of an element of the type model, reached from an input.
+   */
+  private elementType(
+    path: string,
+    element: ElementInfo,
+    input: ExpressionType,
+  ): ExpressionType {
+    const types = this.scope.profile?.constrainedTypes(path) ?? element.types;
+    const choice = element.isChoice && types.length !== 1;
+    const repeats =
+      element.isArray && this.scope.profile?.isSingleton(path) !== true;
+    return {
+      elementPath: element.isChoice && !choice ? types[0] : path,
+      types,
+      collection: input.collection || repeats,
+      choice,
+    };
+  }
+
+  /**
+   * The type of a function applied to an input.
+   */
+  private function(
+    ctx: FunctionContext,
+    input: ExpressionType,
+  ): ExpressionType {
+    const name = identifierName(ctx.identifier());
+    const args = ctx.paramList()?.expression() ?? [];
+    const custom = this.scope.functions?.get(name);
+    if (custom) {
+      return this.customFunction(ctx, custom, input, args);
+    }
+    this.checkSingletonInput(ctx, name, input);
+    if (name === "ofType" || name === "as") {
+      return args.length === 1 ? this.narrow(input, args[0]) : UNKNOWN;
+    }
+    if (TYPE_ARGUMENT_FUNCTIONS.has(name)) {
+      return this.typeArgumentFunction(name, input, args);
+    }
+
+    const argumentScope = ITEM_ARGUMENT_FUNCTIONS.has(name)
+      ? new TypeChecker(
+          { ...this.scope, focus: itemType(input) },
+          this.problems,
+        )
+      : this;
+    const argTypes = args.map((arg) => argumentScope.visit(arg));
+    return this.resultType(name, input, argTypes);
+  }
+
+  /**
+   * The type of a function whose argument is a type rather than an
+   * expression, checking the type named by `is()`.
+   */
+  private typeArgumentFunction(
+    name: string,
+    input: ExpressionType,
+    args: ExpressionContext[],
+  ): ExpressionType {
+    if (name === "is" && args.length === 1) {
+      this.typeSpecifier(args[0]);
+    }
+    return this.resultType(name, input, []);
+  }
+
+  /**
+   * Warns of a function that requires a single item applied to an input that
+   * may have several.
+   */
+  private checkSingletonInput(
+    ctx: FunctionContext,
+    name: string,
+    input: ExpressionType,
+  ): void {
+    if (!SINGLETON_FUNCTIONS.has(name) || !input.collection) {
+      return;
+    }
+    this.report(
+      "warning",
+      "singleton-function",
+      `${name}() requires a single item, but its input may have several: select one with first() or where()`,
+      ctx,
+      [
+        {
+          message: "Select the first item",
+          replacement: `first().${ctx.text}`,
+        },
+      ],
+    );
+  }
+
+  /**
+   * The type of a call of a custom function: that of the result of the first
+   * of its signatures that accepts the types of its input and arguments.
+   */
+  private customFunction(
+    ctx: FunctionContext,
+    fn: CustomFunction,
+    input: ExpressionType,
+    args: ExpressionContext[],
+  ): ExpressionType {
+    const argTypes = args.map((arg) => onlyType(this.visit(arg)));
+    const signature = matchingSignature(
+      fn,
+      onlyType(input),
+      argTypes,
+      this.scope.model,
+    );
+    if (signature) {
+      return {
+        ...valueType(signature.result),
+        collection: signature.collection === true,
+      };
+    }
+    if (fn.signatures.length > 0) {
+      const types = argTypes.map((type) => type ?? "unknown").join(", ");
+      this.report(
+        "error",
+        "function-signature",
+        `${fn.name}() cannot be called on ${onlyType(input) ?? "unknown"} with arguments (${types}): its signatures are ${fn.signatures.map((signature) => signatureText(fn.name, signature)).join("; ")}`,
+        ctx,
+      );
+    }
+    return { ...UNKNOWN, collection: input.collection };
+  }
+
+  /**
+   * The type of the result of a function, given those of its input and
+   * arguments.
+   */
+  private resultType(
+    name: string,
+    input: ExpressionType,
+    args: ExpressionType[],
+  ): ExpressionType {
+    const type = RESULT_TYPES.get(name);
+    if (type) {
+      return valueType(type);
+    }
+    if (ITEM_FUNCTIONS.has(name)) {
+      return itemType(input);
+    }
+    const collectionType = COLLECTION_RESULT_TYPES.get(name);
+    if (collectionType) {
+      return { ...valueType(collectionType), collection: true };
+    }
+    return FILTER_FUNCTIONS.has(name)
+      ? input
+      : this.derivedType(name, input, args);
+  }
+
+  /**
+   * The type of the result of a function that is derived from those of its
+   * input and arguments.
+   */
+  private derivedType(
+    name: string,
+    input: ExpressionType,
+    args: ExpressionType[],
+  ): ExpressionType {
+    switch (name) {
+      case "union":
+      case "combine":
+        return { ...this.commonType(input, args[0]), collection: true };
+      case "select":
+        return {
+          ...args[0],
+          collection: input.collection || args[0].collection,
+        };
+      case "repeat":
+        return { ...args[0], collection: true };
+      case "power":
+        return arithmeticType(input, args[0]);
+      case "iif":
+        return this.commonType(args[1], args[2] ?? args[1]);
+      default:
+        return { ...UNKNOWN, collection: input.collection };
+    }
+  }
+
+  /**
+   * The type of the items of an input that are of a type, as selected by
+   * `ofType()` and `as`. A choice element must permit the type.
+   */
+  private narrow(
+    input: ExpressionType,
+    specifierCtx: ParserRuleContext,
+  ): ExpressionType {
+    const specifier = specifierCtx.text;
+    const type = this.typeSpecifier(specifierCtx);
+    if (type === null) {
+      return { ...UNKNOWN, collection: input.collection };
+    }
+    const name = type.namespace === "FHIR" ? type.name : null;
+    const element = input.choice
+      ? this.scope.model.resolvePath(input.elementPath ?? "")
+      : null;
+    if (element) {
+      const matching = matchingChoiceTypes(
+        { ...element, types: input.types },
+        type,
+        this.scope.model,
+      );
+      if (matching.length === 0) {
+        this.report(
+          "error",
+          "choice-type",
+          `'${input.elementPath}' cannot be of type ${specifier}: it may be ${input.types.join(", ")}`,
+          specifierCtx,
+        );
+      }
+      return this.narrowedType(matching[0] ?? name, input);
+    }
+    return this.narrowedType(name, input);
+  }
+
+  /**
+   * The type named by a type specifier, or null (reporting it) if it does not
+   * name a known type.
+   */
+  private typeSpecifier(specifierCtx: ParserRuleContext): TypeSpecifier | null {
+    try {
+      return resolveTypeSpecifier(specifierCtx.text, this.scope.model);
+    } catch (error) {
+      this.report(
+        "error",
+        "unknown-type",
+        error instanceof Error ? error.message : String(error),
+        specifierCtx,
+      );
+      return null;
+    }
+  }
+
+  private narrowedType(
+    type: string | null,
+    input: ExpressionType,
+  ): ExpressionType {
+    return type
+      ? {
+          elementPath: type,
+          types: [type],
+          collection: input.collection,
+          choice: false,
+        }
+      : { ...UNKNOWN, collection: input.collection };
+  }
+
+  /**
+   * The type of a collection holding the items of two expressions: theirs, if
+   * they are the same.
+   */
+  private commonType(
+    left: ExpressionType,
+    right: ExpressionType,
+  ): ExpressionType {
+    const same =
+      left.types.length === 1 &&
+      right.types.length === 1 &&
+      left.types[0] === right.types[0];
+    return {
+      ...(same ? valueType(left.types[0]) : UNKNOWN),
+      collection: left.collection || right.collection,
+    };
+  }
+
+  private visitOperands(operands: ExpressionContext[]): ExpressionType[] {
+    return operands.map((operand) => this.visit(operand));
+  }
+
+  private visitCondition(operands: ExpressionContext[]): ExpressionType {
+    this.visitOperands(operands);
+    return valueType("boolean");
+  }
+
+  /**
+   * Report a problem found at a node of the expression, with any changes that
+   * would resolve it.
+   */
+  private report(
+    severity: ExpressionProblem["severity"],
+    code: ExpressionProblem["code"],
+    message: string,
+    ctx: ParserRuleContext,
+    fixes: SuggestedFix[] = [],
+  ): void {
+    this.problems.push({
+      severity,
+      code,
+      message,
+      range: rangeOf(ctx),
+      ...(fixes.length > 0 ? { fixes } : {}),
+    });
+  }
+}
+
+/**
+ * The type of the result of arithmetic on two operands: a decimal where an
+ * integer is combined with a decimal, and otherwise that of the left operand
+ * (e.g. a Quantity multiplied by a number).
+ */
+function arithmeticType(
+  left: ExpressionType,
+  right: ExpressionType,
+): ExpressionType {
+  return onlyType(left) === "integer" && onlyType(right) === "decimal"
+    ? valueType("decimal")
+    : itemType(left);
+}
+
+/**
+ * A function signature as text, e.g. `Patient.ageAt(date): integer`.
+ */
+function signatureText(name: string, signature: FunctionSignature): string {
+  const input = signature.input === null ? "" : `${signature.input}.`;
+  const result = signature.collection
+    ? `${signature.result}*`
+    : signature.result;
+  return `${input}${name}(${signature.args.join(", ")}): ${result}`;
+}
+
+/**
+ * The type of the items of an expression, if they have only one.
+ */
+function onlyType(type: ExpressionType): string | null {
+  return type.types.length === 1 ? type.types[0] : null;
+}
+
+/**
+ * The names most similar to a name that is not defined, which may have been
+ * intended: those within two edits of it, closest first.
+ */
+function similarNames(name: string, names: string[]): string[] {
+  return names
+    .map((candidate) => ({
+      candidate,
+      distance: editDistance(name, candidate),
+    }))
+    .filter(({ distance }) => distance <= 2)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * The Levenshtein distance between two strings.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * The name an identifier gives, without the backticks of a delimited one.
+ */
+function identifierName(ctx: IdentifierContext): string {
+  const delimited = ctx.DELIMITEDIDENTIFIER();
+  return delimited ? delimited.text.slice(1, -1) : ctx.text;
+}
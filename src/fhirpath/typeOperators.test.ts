@@ -0,0 +1,149 @@
+/**
+ * Unit tests for the FHIRPath type operators `is`, `as`, `ofType()` and
+ * `type()`.
+ *
+ * Choice elements are tested for the property of the type (`valueQuantity`),
+ * elements holding resources are matched on `resourceType` (including the
+ * subtypes of abstract resource types), and other elements are decided from
+ * their type in the FHIR type model.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { transpilePath } from "../tests/utils/transpile";
+
+describe("is", () => {
+  it("tests choice elements for the property of the type", () => {
+    const sql = transpilePath("Observation", "value is Quantity");
+    expect(sql).toContain(
+      "(JSON_QUERY(r.json, '$.valueQuantity') IS NOT NULL)",
+    );
+  });
+
+  it("accepts the function form and qualified type names", () => {
+    expect(transpilePath("Observation", "value.is(FHIR.Quantity)")).toContain(
+      "(JSON_QUERY(r.json, '$.valueQuantity') IS NOT NULL)",
+    );
+  });
+
+  it("matches resources on their resource type", () => {
+    expect(transpilePath("Bundle", "entry.resource is Patient")).toContain(
+      "(JSON_VALUE(r.json, '$.entry[0].resource.resourceType') = 'Patient')",
+    );
+  });
+
+  it("matches the subtypes of abstract resource types", () => {
+    expect(
+      transpilePath("Bundle", "entry.resource is DomainResource"),
+    ).toContain(
+      "(JSON_VALUE(r.json, '$.entry[0].resource.resourceType') NOT IN ('Binary', 'Bundle', 'Parameters'))",
+    );
+  });
+
+  it("decides the type of other elements from the type model", () => {
+    expect(transpilePath("Observation", "status is code")).toContain(
+      "(JSON_VALUE(r.json, '$.status') IS NOT NULL)",
+    );
+    expect(transpilePath("Observation", "status is string")).toContain(
+      "(JSON_VALUE(r.json, '$.status') IS NOT NULL)",
+    );
+    expect(transpilePath("Observation", "status is Quantity")).toContain(
+      "(1 = 0)",
+    );
+  });
+
+  it("rejects unknown types", () => {
+    expect(() => transpilePath("Observation", "value is Foo")).toThrow(
+      "Unknown type 'Foo'",
+    );
+  });
+});
+
+describe("as and ofType", () => {
+  it("select the property of a choice element", () => {
+    expect(transpilePath("Observation", "(value as Quantity).unit")).toContain(
+      "JSON_VALUE(r.json, '$.valueQuantity.unit')",
+    );
+  });
+
+  it("prefer the exact type permitted by a choice element", () => {
+    expect(
+      transpilePath("Patient", "extension('http://x').value.ofType(string)"),
+    ).toContain(
+      "(SELECT TOP 1 JSON_VALUE(value, '$.valueString') FROM OPENJSON(r.json, '$.extension') WHERE JSON_VALUE(value, '$.url') = 'http://x')",
+    );
+  });
+
+  it("filter contained resources by resource type", () => {
+    expect(
+      transpilePath("Observation", "contained.ofType(Patient).id"),
+    ).toContain(
+      "(SELECT TOP 1 JSON_VALUE(value, '$.id') FROM OPENJSON(r.json, '$.contained') WHERE JSON_VALUE(value, '$.resourceType') = 'Patient')",
+    );
+  });
+
+  it("navigate the elements of the resources selected", () => {
+    expect(
+      transpilePath("Observation", "contained.ofType(Patient).name.family"),
+    ).toContain(
+      "(SELECT TOP 1 JSON_VALUE(value, '$.name[0].family') FROM OPENJSON(r.json, '$.contained') WHERE JSON_VALUE(value, '$.resourceType') = 'Patient')",
+    );
+  });
+
+  it("select a singular resource of the type", () => {
+    expect(
+      transpilePath("Bundle", "(entry.resource as Patient).gender"),
+    ).toContain(
+      "(SELECT TOP 1 JSON_VALUE(value, '$.gender') FROM (SELECT JSON_QUERY(item_0.value, '$.resource') AS value FROM OPENJSON(r.json, '$.entry') AS item_0) AS item WHERE JSON_VALUE(value, '$.resourceType') = 'Patient')",
+    );
+  });
+
+  it("select resources of the type from every item of a repeating element", () => {
+    const resources =
+      "(SELECT value FROM (SELECT JSON_QUERY(item_0.value, '$.resource') AS value FROM OPENJSON(r.json, '$.entry') AS item_0) AS item WHERE JSON_VALUE(value, '$.resourceType') = 'Patient')";
+    expect(
+      transpilePath("Bundle", "entry.resource.ofType(Patient).count()"),
+    ).toContain(
+      `(SELECT COUNT(*) FROM (SELECT items.value, 5 AS type FROM ${resources} AS items)`,
+    );
+    expect(
+      transpilePath("Bundle", "entry.resource.ofType(Patient).id"),
+    ).toContain(
+      "(SELECT TOP 1 JSON_VALUE(value, '$.id') FROM (SELECT JSON_QUERY(item_0.value, '$.resource') AS value FROM OPENJSON(r.json, '$.entry') AS item_0) AS item WHERE",
+    );
+  });
+
+  it("yield an empty result for elements of another type", () => {
+    expect(transpilePath("Observation", "status as Quantity")).toMatch(
+      /NULL AS \[x]/,
+    );
+  });
+});
+
+describe("type()", () => {
+  it("reports the namespace and name of an element's type", () => {
+    const sql = transpilePath("Observation", "status.type().name");
+    expect(sql).toContain(
+      "JSON_VALUE((SELECT 'FHIR' AS [namespace], 'code' AS [name] WHERE (JSON_VALUE(r.json, '$.status') IS NOT NULL) FOR JSON PATH, WITHOUT_ARRAY_WRAPPER), '$.name')",
+    );
+  });
+
+  it("reports the type of resources from their resource type", () => {
+    expect(transpilePath("Bundle", "entry.resource.type().name")).toContain(
+      "FROM (SELECT JSON_VALUE(r.json, '$.entry[0].resource.resourceType') AS name) AS typeName",
+    );
+  });
+
+  it("reports the type of the context item where it has no input", () => {
+    expect(transpilePath("Patient", "type().name")).toContain(
+      "JSON_VALUE((SELECT 'FHIR' AS [namespace], 'Patient' AS [name] WHERE (r.json IS NOT NULL) FOR JSON PATH, WITHOUT_ARRAY_WRAPPER), '$.name')",
+    );
+  });
+
+  it("reports the type held by a choice element", () => {
+    expect(transpilePath("Observation", "value.type().name")).toContain(
+      "WHEN JSON_QUERY(r.json, '$.valueQuantity') IS NOT NULL THEN 'Quantity'",
+    );
+  });
+});
@@ -0,0 +1,511 @@
+/**
+ * FHIRPath type operators: `is`, `as`, `ofType()` and `type()`.
+ *
+ * Types are decided by the FHIR type model wherever the element an expression
+ * addresses is known. A choice element is of a type when the property for that
+ * type (`valueQuantity`) is present, and an element holding a resource
+ * (`contained`, `Bundle.entry.resource`) is matched on the `resourceType` of
+ * the resource. Any other element has a single type, so the test is decided
+ * during transpilation. Where the element is not known, primitive types are
+ * tested against the JSON token type reported by OPENJSON.
+ *
+ * @author John Grimes
+ */
+
+import {
+  choiceTypeSuffix,
+  type ElementInfo,
+  type FhirTypeModel,
+} from "../typeModel/index.js";
+import {
+  elementType,
+  type ExpressionNode,
+  itemQuery,
+  objectItems,
+  sqlNode,
+} from "./ir.js";
+import { FhirPathError } from "./errors.js";
+import { emitTSql } from "./tsqlEmitter.js";
+
+/**
+ * A type named by a type specifier, e.g. `FHIR.Quantity` or `System.String`.
+ */
+export interface TypeSpecifier {
+  namespace: "FHIR" | "System";
+  name: string;
+}
+
+/**
+ * A transpiled expression together with the element it addresses, if known.
+ */
+export interface TypedExpression {
+  node: ExpressionNode;
+  element: ElementInfo | null;
+}
+
+/**
+ * The FHIR types that are instances of each System type. Their subtypes are
+ * included too, e.g. `code` and `id` are instances of `System.String`.
+ */
+const SYSTEM_TYPES = new Map<string, string[]>([
+  ["Boolean", ["boolean"]],
+  ["String", ["string", "uri", "base64Binary", "xhtml"]],
+  ["Integer", ["integer"]],
+  ["Decimal", ["decimal"]],
+  ["Date", ["date"]],
+  ["DateTime", ["dateTime", "instant"]],
+  ["Time", ["time"]],
+  ["Quantity", ["Quantity"]],
+]);
+
+/**
+ * Values of the `type` column returned by OPENJSON for each JSON token type.
+ */
+const JSON_TOKEN = { string: 1, number: 2, boolean: 3, object: 5 };
+
+/**
+ * The condition used where a type test is decided to be false.
+ */
+const FALSE_CONDITION = "(1 = 0)";
+
+/**
+ * Ends the subquery that builds the JSON object returned by `type()`.
+ */
+const TYPE_INFO_SUFFIX = " FOR JSON PATH, WITHOUT_ARRAY_WRAPPER)";
+
+/**
+ * Resolve a type specifier. Unqualified names are looked up in the FHIR
+ * namespace first, then the System namespace.
+ *
+ * @throws If the specifier does not name a known type.
+ */
+export function resolveTypeSpecifier(
+  specifier: string,
+  model: FhirTypeModel,
+): TypeSpecifier {
+  const match = /^(?:(FHIR|System)\.)?`?([A-Za-z]\w*)`?$/.exec(specifier);
+  const name = match?.[2] ?? "";
+  const namespace = (match?.[1] ??
+    (model.hasType(name) ? "FHIR" : "System")) as TypeSpecifier["namespace"];
+  const known =
+    namespace === "FHIR" ? model.hasType(name) : SYSTEM_TYPES.has(name);
+  if (!match || !known) {
+    throw new FhirPathError(
+      `Unknown type '${specifier}'`,
+      null,
+      null,
+      "unknown-type",
+    );
+  }
+  return { namespace, name };
+}
+
+/**
+ * Whether values of the FHIR type `typeCode` are instances of a type.
+ */
+export function isOfType(
+  typeCode: string,
+  type: TypeSpecifier,
+  model: FhirTypeModel,
+): boolean {
+  const targets =
+    type.namespace === "FHIR" ? [type.name] : systemTypes(type.name);
+  return targets.some((target) => model.isSubtypeOf(typeCode, target));
+}
+
+/**
+ * The System type of the values of a FHIR type (e.g. `String` for `code`), or
+ * null if they are not of a System type.
+ */
+export function systemTypeOf(
+  typeCode: string,
+  model: FhirTypeModel,
+): string | null {
+  for (const name of SYSTEM_TYPES.keys()) {
+    if (isOfType(typeCode, { namespace: "System", name }, model)) {
+      return name;
+    }
+  }
+  return null;
+}
+
+/**
+ * The types of a choice element that are instances of a type. A type the
+ * element permits is matched exactly, so that `ofType(string)` selects
+ * `valueString` rather than also selecting `valueCode` and `valueMarkdown`.
+ */
+export function matchingChoiceTypes(
+  element: ElementInfo,
+  type: TypeSpecifier,
+  model: FhirTypeModel,
+): string[] {
+  if (type.namespace === "FHIR" && element.types.includes(type.name)) {
+    return [type.name];
+  }
+  return element.types.filter((code) => isOfType(code, type, model));
+}
+
+/**
+ * Whether the expression returned by `type()` is being navigated into.
+ */
+export function isTypeInfo(sql: string): boolean {
+  return sql.endsWith(TYPE_INFO_SUFFIX);
+}
+
+/**
+ * Transpile `expression is Type` to a condition.
+ */
+export function typeTest(
+  expression: TypedExpression,
+  type: TypeSpecifier,
+  model: FhirTypeModel,
+): string {
+  const { node, element } = expression;
+  if (!element || element.types.length === 0) {
+    return (
+      tokenTypeTest(node, type, model) ?? `(${emitTSql(node)} IS NOT NULL)`
+    );
+  }
+  if (element.isChoice) {
+    return choiceTypeTest(node, element, type, model);
+  }
+  if (holdsResource(element, model)) {
+    const condition = resourceTypeCondition(
+      resourceTypeOf(node, element),
+      type,
+      model,
+    );
+    return condition ? `(${condition})` : FALSE_CONDITION;
+  }
+  return isOfType(element.types[0], type, model)
+    ? presenceTest(node, element, model)
+    : FALSE_CONDITION;
+}
+
+/**
+ * Transpile `expression as Type` (or `expression.ofType(Type)`) for an
+ * expression that does not address a choice element. Choice elements are
+ * mapped to the property for the type by the visitor.
+ */
+export function typeCast(
+  expression: TypedExpression,
+  type: TypeSpecifier,
+  model: FhirTypeModel,
+): ExpressionNode {
+  const { node, element } = expression;
+  if (!element || element.types.length === 0) {
+    const test = tokenTypeTest(node, type, model);
+    return test
+      ? sqlNode(`CASE WHEN ${test} THEN ${emitTSql(node)} END`)
+      : node;
+  }
+  if (holdsResource(element, model)) {
+    return resourceFilter(node, element, type, model);
+  }
+  return isOfType(element.types[0], type, model) ? node : sqlNode("NULL");
+}
+
+/**
+ * Transpile `expression.type()` to a JSON object with the `namespace` and
+ * `name` of the type, e.g. `{"namespace":"FHIR","name":"Quantity"}`.
+ *
+ * @throws If the type cannot be determined.
+ */
+export function typeInfo(
+  expression: TypedExpression,
+  model: FhirTypeModel,
+): string {
+  const { node, element } = expression;
+  if (!element || element.types.length === 0) {
+    return tokenTypeInfo(node);
+  }
+  if (element.isChoice) {
+    const cases = element.types.map((code) => {
+      const value = choiceValue(node, code, model) ?? emitTSql(node);
+      return `WHEN ${value} IS NOT NULL THEN '${code}'`;
+    });
+    const name = `CASE ${cases.join(" ")} END`;
+    return typeInfoObject("FHIR", name);
+  }
+  if (holdsResource(element, model)) {
+    return typeInfoObject("FHIR", resourceTypeOf(node, element));
+  }
+  return typeInfoObject(
+    "FHIR",
+    `'${element.types[0]}'`,
+    presenceTest(node, element, model),
+  );
+}
+
+/**
+ * The FHIR types that are instances of a System type.
+ */
+function systemTypes(name: string): string[] {
+  return SYSTEM_TYPES.get(name) ?? [];
+}
+
+/**
+ * Whether an element holds a resource whose type is only known at run time,
+ * such as `contained` or `Bundle.entry.resource`.
+ */
+function holdsResource(element: ElementInfo, model: FhirTypeModel): boolean {
+  const [type] = element.types;
+  return (
+    element.types.length === 1 &&
+    model.isResourceType(type) &&
+    model.isAbstract(type)
+  );
+}
+
+/**
+ * Test for a choice element holding a value of the type: the property for at
+ * least one of its matching types must be present.
+ */
+function choiceTypeTest(
+  node: ExpressionNode,
+  element: ElementInfo,
+  type: TypeSpecifier,
+  model: FhirTypeModel,
+): string {
+  const values = matchingChoiceTypes(element, type, model).map((code) =>
+    choiceValue(node, code, model),
+  );
+  if (values.length === 0) {
+    return FALSE_CONDITION;
+  }
+  if (values.includes(null)) {
+    return `(${emitTSql(node)} IS NOT NULL)`;
+  }
+  return `(${values.map((value) => `${value} IS NOT NULL`).join(" OR ")})`;
+}
+
+/**
+ * The property of a choice element for one of its types, e.g. `$.value` →
+ * `$.valueQuantity`, or null if the expression cannot be retargeted.
+ */
+function choiceValue(
+  node: ExpressionNode,
+  typeCode: string,
+  model: FhirTypeModel,
+): string | null {
+  const suffix = choiceTypeSuffix(typeCode);
+  const isJson = !model.isPrimitiveType(typeCode);
+  if (node.kind === "path") {
+    return emitTSql({ ...node, jsonPath: `${node.jsonPath}${suffix}`, isJson });
+  }
+  if (node.kind === "itemQuery" && node.member) {
+    return emitTSql({
+      ...node,
+      member: { jsonPath: `${node.member.jsonPath}${suffix}`, isJson },
+    });
+  }
+  return null;
+}
+
+/**
+ * Test for the presence of an element. Elements of complex types are selected
+ * with JSON_QUERY, as JSON_VALUE yields NULL for objects.
+ */
+function presenceTest(
+  node: ExpressionNode,
+  element: ElementInfo,
+  model: FhirTypeModel,
+): string {
+  const complex = !model.isPrimitiveType(element.types[0]);
+  if (complex && node.kind === "path") {
+    return `(${emitTSql({ ...node, isJson: true })} IS NOT NULL)`;
+  }
+  return `(${emitTSql(node)} IS NOT NULL)`;
+}
+
+/**
+ * The `resourceType` of the (first) resource held by an element.
+ */
+function resourceTypeOf(node: ExpressionNode, element: ElementInfo): string {
+  if (node.kind !== "path") {
+    return `JSON_VALUE(${emitTSql(node)}, '$.resourceType')`;
+  }
+  const { source, jsonPath } = node;
+  const itemPath =
+    element.isArray && !jsonPath.endsWith("]") ? `${jsonPath}[0]` : jsonPath;
+  return `JSON_VALUE(${source}, '${itemPath}.resourceType')`;
+}
+
+/**
+ * A condition on a `resourceType` value that holds for resources of the type
+ * and its subtypes, or null if no resource can be of the type.
+ */
+export function resourceTypeCondition(
+  resourceType: string,
+  type: TypeSpecifier,
+  model: FhirTypeModel,
+): string | null {
+  if (type.namespace !== "FHIR" || !model.isResourceType(type.name)) {
+    return null;
+  }
+  const root = rootResourceType(type.name, model);
+  if (type.name === root) {
+    return `${resourceType} IS NOT NULL`;
+  }
+  const types = model.concreteResourceTypes(type.name);
+  if (types.length === 1) {
+    return `${resourceType} = '${types[0]}'`;
+  }
+  // Abstract types such as DomainResource are more briefly expressed by the
+  // resource types that are not among their subtypes
+  const others = model
+    .concreteResourceTypes(root)
+    .filter((name) => !types.includes(name));
+  return others.length < types.length
+    ? `${resourceType} NOT IN (${quotedList(others)})`
+    : `${resourceType} IN (${quotedList(types)})`;
+}
+
+/**
+ * The resource type at the root of the hierarchy a resource type belongs to.
+ */
+function rootResourceType(typeName: string, model: FhirTypeModel): string {
+  let current = typeName;
+  let base = model.baseTypeOf(current);
+  while (base && model.isResourceType(base)) {
+    current = base;
+    base = model.baseTypeOf(current);
+  }
+  return current;
+}
+
+function quotedList(values: string[]): string {
+  return values.map((value) => `'${value}'`).join(", ");
+}
+
+/**
+ * Select the resources of a type from an element holding resources.
+ */
+function resourceFilter(
+  node: ExpressionNode,
+  element: ElementInfo,
+  type: TypeSpecifier,
+  model: FhirTypeModel,
+): ExpressionNode {
+  const condition = resourceTypeCondition(
+    "JSON_VALUE(value, '$.resourceType')",
+    type,
+    model,
+  );
+  const member = pathMember(node);
+  if (!condition) {
+    return sqlNode("NULL");
+  }
+  if (node.kind !== "path" || !member) {
+    const test = resourceTypeCondition(
+      resourceTypeOf(node, element),
+      type,
+      model,
+    );
+    return sqlNode(`CASE WHEN ${test} THEN ${emitTSql(node)} END`);
+  }
+  // The resources selected are typed as resources of the type, and are read
+  // from every item of the repeating elements above them
+  const { source, jsonPath } = node;
+  return itemQuery(
+    objectItems(source, jsonPath, element.isArray && !jsonPath.endsWith("]")),
+    [condition],
+    type.name,
+    elementType(type.name, model, true),
+  );
+}
+
+/**
+ * Test the JSON token type of a value against a type, or null if the token
+ * type cannot be found or does not identify the type.
+ */
+function tokenTypeTest(
+  node: ExpressionNode,
+  type: TypeSpecifier,
+  model: FhirTypeModel,
+): string | null {
+  const member = pathMember(node);
+  const tokenType = jsonTokenType(type, model);
+  if (!member || tokenType === null) {
+    return null;
+  }
+  return `EXISTS (SELECT 1 FROM OPENJSON(${member.source}, '${member.parent}') WHERE [key] = '${member.key}' AND type = ${tokenType})`;
+}
+
+/**
+ * The JSON token type that values of a type are represented by, or null for
+ * abstract types.
+ */
+function jsonTokenType(
+  type: TypeSpecifier,
+  model: FhirTypeModel,
+): number | null {
+  const name =
+    type.namespace === "FHIR" ? type.name : systemTypes(type.name)[0];
+  if (!model.isPrimitiveType(name)) {
+    return model.isAbstract(name) ? null : JSON_TOKEN.object;
+  }
+  if (model.isSubtypeOf(name, "boolean")) {
+    return JSON_TOKEN.boolean;
+  }
+  const numeric =
+    model.isSubtypeOf(name, "integer") || model.isSubtypeOf(name, "decimal");
+  return numeric ? JSON_TOKEN.number : JSON_TOKEN.string;
+}
+
+/**
+ * The type of a value of unknown element, reported as a System type according
+ * to its JSON token type.
+ *
+ * @throws If the value is not a member of a JSON document.
+ */
+function tokenTypeInfo(node: ExpressionNode): string {
+  const member = pathMember(node);
+  if (!member) {
+    throw new Error("Unable to determine the type of the input to type()");
+  }
+  const name = `CASE type WHEN ${JSON_TOKEN.string} THEN 'String' WHEN ${JSON_TOKEN.boolean} THEN 'Boolean' ELSE IIF(value LIKE '%[.eE]%', 'Decimal', 'Integer') END`;
+  return `(SELECT 'System' AS [namespace], ${name} AS [name] FROM OPENJSON(${member.source}, '${member.parent}') WHERE [key] = '${member.key}' AND type IN (${JSON_TOKEN.string}, ${JSON_TOKEN.number}, ${JSON_TOKEN.boolean})${TYPE_INFO_SUFFIX}`;
+}
+
+/**
+ * Build the JSON object returned by `type()`, which is absent (NULL) unless
+ * the condition holds, or by default unless the name is known.
+ */
+function typeInfoObject(
+  namespace: TypeSpecifier["namespace"],
+  name: string,
+  condition?: string,
+): string {
+  if (condition) {
+    return `(SELECT '${namespace}' AS [namespace], ${name} AS [name] WHERE ${condition}${TYPE_INFO_SUFFIX}`;
+  }
+  return `(SELECT '${namespace}' AS [namespace], typeName.name AS [name] FROM (SELECT ${name} AS name) AS typeName WHERE typeName.name IS NOT NULL${TYPE_INFO_SUFFIX}`;
+}
+
+/**
+ * The document of an element within one, the path of its parent and its key
+ * within the parent, e.g. `$.entry[0].resource` → (`$.entry[0]`, `resource`),
+ * or null if the expression is not an element within a document.
+ */
+function pathMember(
+  node: ExpressionNode,
+): { source: string; parent: string; key: string } | null {
+  if (node.kind !== "path") {
+    return null;
+  }
+  const member = jsonMember(node.jsonPath);
+  return member && { source: node.source, ...member };
+}
+
+/**
+ * Split a JSON path into the path of its parent and the key of the last
+ * member, e.g. `$.entry[0].resource` → (`$.entry[0]`, `resource`).
+ */
+function jsonMember(path: string): { parent: string; key: string } | null {
+  const match = /^(.+)(?:\.([^.[\]]+)|\[(\d+)])$/.exec(path);
+  if (!match) {
+    return null;
+  }
+  return { parent: match[1], key: match[2] ?? match[3] };
+}
@@ -0,0 +1,518 @@
+/**
+ * UCUM units of measure, resolved offline from an embedded table of units.
+ *
+ * A unit is resolved to its dimension (e.g. `g.m-3` for `mg/dL`) and the
+ * factor, and for temperatures the offset, that converts its values to the
+ * base units of that dimension. Units of the same dimension are compatible,
+ * and a value converts between them through the base units.
+ *
+ * Unit expressions are parsed from prefixed atoms with exponents, multiplied
+ * with `.` and divided with `/`, along with integer factors such as `10*9`
+ * and annotations such as `{cells}`. The atoms are those in common clinical
+ * use rather than the whole of UCUM. Moles are treated as a base unit rather
+ * than as a number of particles, so that amounts of substance are never
+ * compatible with plain numbers.
+ *
+ * The calendar durations of FHIRPath are units too: weeks, days and the
+ * shorter durations are the same as their UCUM equivalents, while years and
+ * months are calendar units that are not compatible with the UCUM `a` and
+ * `mo`.
+ *
+ * @author John Grimes
+ */
+
+/**
+ * A unit resolved to base units: a value `v` in the unit is `v * factor +
+ * shift` in the base units of its dimension.
+ */
+export interface UcumUnit {
+  factor: number;
+  shift: number;
+  dimension: string;
+}
+
+/**
+ * The exponents of the base units of a dimension, by base unit.
+ */
+type Dimension = Map<string, number>;
+
+/**
+ * A unit being parsed, as a factor of its dimension.
+ */
+interface Term {
+  factor: number;
+  dimension: Dimension;
+}
+
+/**
+ * An atom defined in terms of other units.
+ */
+interface AtomDefinition {
+  definition: string;
+  factor?: number;
+  shift?: number;
+  metric?: boolean;
+}
+
+/**
+ * The base units. Each is its own dimension.
+ */
+const BASE_UNITS = new Set([
+  "m",
+  "s",
+  "g",
+  "rad",
+  "K",
+  "C",
+  "cd",
+  "mol",
+  "[IU]",
+  "[arb'U]",
+]);
+
+/**
+ * The factors of the metric prefixes.
+ */
+const PREFIXES = new Map([
+  ["Y", 1e24],
+  ["Z", 1e21],
+  ["E", 1e18],
+  ["P", 1e15],
+  ["T", 1e12],
+  ["G", 1e9],
+  ["M", 1e6],
+  ["k", 1e3],
+  ["h", 1e2],
+  ["da", 1e1],
+  ["d", 1e-1],
+  ["c", 1e-2],
+  ["m", 1e-3],
+  ["u", 1e-6],
+  ["n", 1e-9],
+  ["p", 1e-12],
+  ["f", 1e-15],
+  ["a", 1e-18],
+  ["z", 1e-21],
+  ["y", 1e-24],
+]);
+
+/**
+ * The atoms other than the base units, which may take a metric prefix where
+ * they are metric.
+ */
+const ATOMS = new Map<string, AtomDefinition>([
+  ["10*", { definition: "1", factor: 10 }],
+  ["10^", { definition: "1", factor: 10 }],
+  ["%", { definition: "1", factor: 1e-2 }],
+  ["[ppth]", { definition: "1", factor: 1e-3 }],
+  ["[ppm]", { definition: "1", factor: 1e-6 }],
+  ["[ppb]", { definition: "1", factor: 1e-9 }],
+  ["[HPF]", { definition: "1" }],
+  ["[LPF]", { definition: "1" }],
+  ["L", { definition: "dm3", metric: true }],
+  ["l", { definition: "dm3", metric: true }],
+  ["ar", { definition: "m2", factor: 100, metric: true }],
+  ["t", { definition: "kg", factor: 1e3, metric: true }],
+  ["min", { definition: "s", factor: 60 }],
+  ["h", { definition: "s", factor: 3600 }],
+  ["d", { definition: "s", factor: 86400 }],
+  ["wk", { definition: "d", factor: 7 }],
+  ["mo", { definition: "d", factor: 30.4375 }],
+  ["a", { definition: "d", factor: 365.25 }],
+  ["Hz", { definition: "s-1", metric: true }],
+  ["N", { definition: "kg.m/s2", metric: true }],
+  ["Pa", { definition: "N/m2", metric: true }],
+  ["J", { definition: "N.m", metric: true }],
+  ["W", { definition: "J/s", metric: true }],
+  ["A", { definition: "C/s", metric: true }],
+  ["V", { definition: "J/C", metric: true }],
+  ["Ohm", { definition: "V/A", metric: true }],
+  ["bar", { definition: "Pa", factor: 1e5, metric: true }],
+  ["m[Hg]", { definition: "kPa", factor: 133.322, metric: true }],
+  ["m[H2O]", { definition: "kPa", factor: 9.80665, metric: true }],
+  ["cal", { definition: "J", factor: 4.184, metric: true }],
+  ["[Cal]", { definition: "kcal" }],
+  ["eq", { definition: "mol", metric: true }],
+  ["osm", { definition: "mol", metric: true }],
+  ["kat", { definition: "mol/s", metric: true }],
+  ["U", { definition: "umol/min", metric: true }],
+  ["[iU]", { definition: "[IU]", metric: true }],
+  ["Cel", { definition: "K", shift: 273.15, metric: true }],
+  ["[degF]", { definition: "K", factor: 5 / 9, shift: (459.67 * 5) / 9 }],
+  ["deg", { definition: "rad", factor: Math.PI / 180 }],
+  ["sr", { definition: "rad2", metric: true }],
+  ["[in_i]", { definition: "cm", factor: 2.54 }],
+  ["[ft_i]", { definition: "[in_i]", factor: 12 }],
+  ["[yd_i]", { definition: "[ft_i]", factor: 3 }],
+  ["[mi_i]", { definition: "[ft_i]", factor: 5280 }],
+  ["[lb_av]", { definition: "g", factor: 453.59237 }],
+  ["[oz_av]", { definition: "[lb_av]", factor: 1 / 16 }],
+  ["[gal_us]", { definition: "[in_i]3", factor: 231 }],
+  ["[foz_us]", { definition: "[gal_us]", factor: 1 / 128 }],
+]);
+
+/**
+ * The calendar durations of FHIRPath, as units.
+ */
+const CALENDAR_DURATIONS = new Map<string, UcumUnit>([
+  ["year", { factor: 12, shift: 0, dimension: "[calendar month]" }],
+  ["month", { factor: 1, shift: 0, dimension: "[calendar month]" }],
+  ["week", { factor: 604800, shift: 0, dimension: "s" }],
+  ["day", { factor: 86400, shift: 0, dimension: "s" }],
+  ["hour", { factor: 3600, shift: 0, dimension: "s" }],
+  ["minute", { factor: 60, shift: 0, dimension: "s" }],
+  ["second", { factor: 1, shift: 0, dimension: "s" }],
+  ["millisecond", { factor: 1e-3, shift: 0, dimension: "s" }],
+]);
+
+/**
+ * The units of the embedded table, which are those recognised in the
+ * quantities of resources.
+ */
+export const COMMON_UNITS = [
+  // Ratios and counts
+  "1",
+  "%",
+  "[ppm]",
+  "[ppb]",
+  "10*3/uL",
+  "10*6/uL",
+  "10*9/L",
+  "10*12/L",
+  "/uL",
+  "/mL",
+  "/L",
+  "/[HPF]",
+  "/[LPF]",
+  // Mass
+  "kg",
+  "g",
+  "mg",
+  "ug",
+  "ng",
+  "pg",
+  "[lb_av]",
+  "[oz_av]",
+  // Length and area
+  "km",
+  "m",
+  "cm",
+  "mm",
+  "um",
+  "nm",
+  "[in_i]",
+  "[ft_i]",
+  "[mi_i]",
+  "m2",
+  "cm2",
+  // Volume
+  "L",
+  "dL",
+  "mL",
+  "uL",
+  "nL",
+  "pL",
+  "fL",
+  "m3",
+  "cm3",
+  "mm3",
+  "[gal_us]",
+  "[foz_us]",
+  // Time
+  "a",
+  "mo",
+  "wk",
+  "d",
+  "h",
+  "min",
+  "s",
+  "ms",
+  "us",
+  // Mass concentration
+  "kg/L",
+  "g/L",
+  "g/dL",
+  "g/mL",
+  "mg/L",
+  "mg/dL",
+  "mg/mL",
+  "ug/L",
+  "ug/dL",
+  "ug/mL",
+  "ng/L",
+  "ng/dL",
+  "ng/mL",
+  "pg/mL",
+  "kg/m3",
+  // Amount of substance and its concentration
+  "mol",
+  "mmol",
+  "umol",
+  "nmol",
+  "pmol",
+  "mol/L",
+  "mmol/L",
+  "umol/L",
+  "nmol/L",
+  "pmol/L",
+  "meq/L",
+  "mmol/mol",
+  // Enzymes and international units
+  "U",
+  "U/L",
+  "mU/L",
+  "U/mL",
+  "[IU]",
+  "[IU]/L",
+  "[IU]/mL",
+  "m[IU]/L",
+  "m[IU]/mL",
+  "[iU]/L",
+  "[iU]/mL",
+  "m[iU]/L",
+  "u[IU]/mL",
+  // Pressure
+  "Pa",
+  "kPa",
+  "bar",
+  "mbar",
+  "mm[Hg]",
+  "cm[H2O]",
+  // Temperature
+  "K",
+  "Cel",
+  "[degF]",
+  // Energy
+  "J",
+  "kJ",
+  "cal",
+  "kcal",
+  "[Cal]",
+  // Rates and ratios to body size
+  "/s",
+  "/min",
+  "/h",
+  "/d",
+  "L/min",
+  "mL/min",
+  "mL/h",
+  "L/d",
+  "mL/d",
+  "g/d",
+  "mg/d",
+  "mmol/d",
+  "km/h",
+  "m/s",
+  "kg/m2",
+  "mg/kg",
+  "mL/kg",
+  "Hz",
+  "deg",
+];
+
+/**
+ * Resolve a unit: a UCUM unit, or a FHIRPath calendar duration.
+ *
+ * @returns The resolved unit, or null if it is not recognised.
+ */
+export function resolveUnit(unit: string): UcumUnit | null {
+  const calendar = CALENDAR_DURATIONS.get(unit.replace(/s$/, ""));
+  if (calendar) {
+    return calendar;
+  }
+  try {
+    return resolveUcum(unit);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The units of the embedded table with their resolutions, optionally limited
+ * to those of a dimension.
+ */
+export function unitTable(dimension?: string): [string, UcumUnit][] {
+  return COMMON_TABLE.filter(
+    ([, unit]) => dimension === undefined || unit.dimension === dimension,
+  );
+}
+
+/**
+ * Resolve a UCUM unit expression. A unit with a shift (e.g. `Cel`) must be
+ * used alone.
+ *
+ * @throws If the expression is not a unit that is recognised.
+ */
+function resolveUcum(unit: string): UcumUnit {
+  const atom = ATOMS.get(unit);
+  if (atom?.shift !== undefined) {
+    const base = parseTerm(atom.definition);
+    return {
+      factor: base.factor * (atom.factor ?? 1),
+      shift: atom.shift,
+      dimension: dimensionKey(base.dimension),
+    };
+  }
+  const term = parseTerm(unit);
+  return {
+    factor: term.factor,
+    shift: 0,
+    dimension: dimensionKey(term.dimension),
+  };
+}
+
+/**
+ * Parse a unit expression: components multiplied with `.` or divided with
+ * `/`, from left to right.
+ */
+function parseTerm(expression: string): Term {
+  let result: Term = { factor: 1, dimension: new Map() };
+  for (const [operator, component] of splitComponents(expression)) {
+    const term = parseComponent(component);
+    result = combine(result, term, operator === "/" ? -1 : 1);
+  }
+  return result;
+}
+
+/**
+ * Split a unit expression into its components, each with the operator that
+ * precedes it. Operators within brackets, braces and parentheses are part of
+ * the component.
+ */
+function splitComponents(expression: string): [string, string][] {
+  const components: [string, string][] = [];
+  let operator = ".";
+  let start = 0;
+  let depth = 0;
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if ("[{(".includes(char)) {
+      depth++;
+    } else if ("]})".includes(char)) {
+      depth--;
+    } else if (depth === 0 && (char === "." || char === "/")) {
+      if (i > start) {
+        components.push([operator, expression.slice(start, i)]);
+      }
+      operator = char;
+      start = i + 1;
+    }
+  }
+  components.push([operator, expression.slice(start)]);
+  return components;
+}
+
+/**
+ * Parse a component of a unit expression: an integer factor, an annotation,
+ * a term in parentheses or a prefixed atom, with an optional exponent.
+ */
+function parseComponent(component: string): Term {
+  const unit = component.replace(/\{[^}]*\}/g, "");
+  if (unit === "") {
+    return { factor: 1, dimension: new Map() };
+  }
+  if (/^\d+$/.test(unit)) {
+    return { factor: Number(unit), dimension: new Map() };
+  }
+  const match = /^(.*?[^\d+-])([+-]?\d+)?$/.exec(unit);
+  if (!match) {
+    throw new Error(`Unrecognised unit '${component}'`);
+  }
+  const [, symbol, exponent = "1"] = match;
+  const term =
+    symbol.startsWith("(") && symbol.endsWith(")")
+      ? parseTerm(symbol.slice(1, -1))
+      : parseSymbol(symbol);
+  return combine({ factor: 1, dimension: new Map() }, term, Number(exponent));
+}
+
+/**
+ * Parse a unit symbol: an atom, or a metric atom with a prefix.
+ */
+function parseSymbol(symbol: string): Term {
+  const atom = atomTerm(symbol);
+  if (atom) {
+    return atom;
+  }
+  for (const [prefix, factor] of PREFIXES) {
+    const rest = symbol.slice(prefix.length);
+    const prefixed =
+      symbol.startsWith(prefix) && isMetric(rest) ? atomTerm(rest) : null;
+    if (prefixed) {
+      return {
+        factor: factor * prefixed.factor,
+        dimension: prefixed.dimension,
+      };
+    }
+  }
+  throw new Error(`Unrecognised unit '${symbol}'`);
+}
+
+/**
+ * The term of an atom, or null if the symbol is not an atom.
+ */
+function atomTerm(symbol: string): Term | null {
+  if (BASE_UNITS.has(symbol)) {
+    return { factor: 1, dimension: new Map([[symbol, 1]]) };
+  }
+  const atom = ATOMS.get(symbol);
+  if (!atom) {
+    return null;
+  }
+  const definition = parseTerm(atom.definition);
+  return {
+    factor: definition.factor * (atom.factor ?? 1),
+    dimension: definition.dimension,
+  };
+}
+
+/**
+ * Whether an atom may take a metric prefix.
+ */
+function isMetric(symbol: string): boolean {
+  return BASE_UNITS.has(symbol) || ATOMS.get(symbol)?.metric === true;
+}
+
+/**
+ * Multiply a term by another raised to a power.
+ */
+function combine(term: Term, other: Term, exponent: number): Term {
+  const dimension = new Map(term.dimension);
+  for (const [base, power] of other.dimension) {
+    const combined = (dimension.get(base) ?? 0) + power * exponent;
+    if (combined === 0) {
+      dimension.delete(base);
+    } else {
+      dimension.set(base, combined);
+    }
+  }
+  return { factor: term.factor * other.factor ** exponent, dimension };
+}
+
+/**
+ * The key of a dimension, which is the same for compatible units (e.g.
+ * `g.m-3`), or `1` for a dimensionless unit.
+ */
+function dimensionKey(dimension: Dimension): string {
+  const bases = [...dimension.keys()].sort();
+  return bases.length === 0
+    ? "1"
+    : bases
+        .map((base) => {
+          const power = dimension.get(base);
+          return power === 1 ? base : `${base}${power}`;
+        })
+        .join(".");
+}
+
+/**
+ * The resolutions of the units of the embedded table, along with the calendar
+ * durations in their singular and plural forms.
+ */
+const COMMON_TABLE: [string, UcumUnit][] = [
+  ...COMMON_UNITS.map((unit): [string, UcumUnit] => [unit, resolveUcum(unit)]),
+  ...[...CALENDAR_DURATIONS].flatMap(([name, unit]): [string, UcumUnit][] => [
+    [name, unit],
+    [`${name}s`, unit],
+  ]),
+];
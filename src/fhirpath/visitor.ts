@@ -4,7 +4,9 @@
  * @author John Grimes
  */
 
+import { ParserRuleContext } from "antlr4ts";
 import { AbstractParseTreeVisitor } from "antlr4ts/tree/AbstractParseTreeVisitor";
+import type { ParseTree } from "antlr4ts/tree/ParseTree";
 import {
   AdditiveExpressionContext,
   AndExpressionContext,
@@ -23,8 +25,10 @@ import {
   IndexerExpressionContext,
   IndexInvocationContext,
   InequalityExpressionContext,
+  InvocationContext,
   InvocationExpressionContext,
   InvocationTermContext,
+  LiteralContext,
   LiteralTermContext,
   LongNumberLiteralContext,
   MemberInvocationContext,
@@ -36,7 +40,6 @@ import {
   ParamListContext,
   ParenthesizedTermContext,
   PolarityExpressionContext,
-  QualifiedIdentifierContext,
   QuantityContext,
   QuantityLiteralContext,
   StringLiteralContext,
@@ -45,14 +48,250 @@ import {
   TimeLiteralContext,
   TotalInvocationContext,
   TypeExpressionContext,
+  TypeSpecifierContext,
   UnionExpressionContext,
 } from "../generated/grammar/fhirpathParser";
 import { fhirpathVisitor } from "../generated/grammar/fhirpathVisitor";
+import {
+  choiceTypeSuffix,
+  type ElementInfo,
+  FhirProfile,
+  FhirTypeModel,
+  getTypeModel,
+} from "../typeModel/index.js";
+import {
+  type Collection,
+  COLLECTION_FUNCTIONS,
+  containsItem,
+  equal,
+  equivalent,
+  everyItem,
+  filterItems,
+  firstProjection,
+  hasItems,
+  itemArray,
+  itemRows,
+  joinItems,
+  selectItems,
+} from "./collectionFunctions.js";
+import {
+  complexConstantLiteral,
+  complexConstantPath,
+  complexConstantType,
+  type ConstantValue,
+  isComplexConstant,
+} from "./constants.js";
+import {
+  CONVERSION_FUNCTIONS,
+  type TypedValue,
+} from "./conversionFunctions.js";
+import {
+  type CustomFunction,
+  type FunctionRegistry,
+  matchingSignature,
+} from "./customFunctions.js";
+import {
+  contextJson,
+  environmentUrl,
+  itemResourceJson,
+  resourceJson,
+  rootResourceJson,
+} from "./environment.js";
+import { FhirPathError, rangeOf } from "./errors.js";
+import {
+  computedArray,
+  elementType,
+  type ExpressionNode,
+  isJsonText,
+  isRepeating,
+  itemQuery,
+  type ItemQueryNode,
+  jsonElementPath,
+  type NodeType,
+  objectItems,
+  type PathNode,
+  sqlNode,
+  untyped,
+} from "./ir.js";
+import {
+  arithmetic,
+  DECIMAL_SQL_TYPE,
+  elementNumericType,
+  INTEGER_FUNCTIONS,
+  INTEGER_SQL_TYPE,
+  literalNumericType,
+  MATH_FUNCTIONS,
+  negate,
+  type NumericOperand,
+  type NumericType,
+  numericValue,
+} from "./mathFunctions.js";
+import {
+  addQuantities,
+  compareQuantities,
+  isQuantityComparison,
+} from "./quantityFunctions.js";
+import {
+  AGGREGATED_ALIAS,
+  aggregateItems,
+  type RecursiveQueries,
+  REPEATED_ALIAS,
+  repeatItems,
+} from "./recursiveFunctions.js";
+import {
+  isResolvedResource,
+  type ReferenceResolution,
+  resolvedResourceCast,
+  resolvedResourceTest,
+  resolveReference,
+} from "./referenceFunctions.js";
+import { regexFunctions } from "./regexFunctions.js";
+import {
+  ARRAY_FUNCTIONS,
+  callLibraryFunction,
+  type LibraryFunction,
+  quote,
+  STRING_FUNCTIONS,
+} from "./stringFunctions.js";
+import {
+  addTime,
+  compareTemporal,
+  isTemporalComparison,
+  TEMPORAL_TYPES,
+  temporalFunctions,
+  timeQuantity,
+} from "./temporalFunctions.js";
+import {
+  type CodedCollection,
+  type CodedType,
+  terminologyFunctions,
+  type TerminologyTables,
+} from "./terminologyFunctions.js";
+import {
+  isTypeInfo,
+  matchingChoiceTypes,
+  resolveTypeSpecifier,
+  systemTypeOf,
+  typeCast,
+  typeInfo,
+  type TypeSpecifier,
+  typeTest,
+} from "./typeOperators.js";
+import { emitTSql } from "./tsqlEmitter.js";
+
+/**
+ * The characters denoted by FHIRPath string escapes, keyed by the character
+ * following the backslash.
+ */
+const STRING_ESCAPES = new Map([
+  ["'", "'"],
+  ['"', '"'],
+  ["`", "`"],
+  ["\\", "\\"],
+  ["/", "/"],
+  ["f", "\f"],
+  ["n", "\n"],
+  ["r", "\r"],
+  ["t", "\t"],
+]);
+
+/**
+ * The System types of the numeric types, and the reverse.
+ */
+const NUMERIC_SYSTEM_TYPES = new Map<string | null, string>([
+  ["integer", "Integer"],
+  ["decimal", "Decimal"],
+]);
+const SYSTEM_NUMERIC_TYPES = new Map<string | null, NumericType>([
+  ["Integer", "integer"],
+  ["Decimal", "decimal"],
+]);
+
+/**
+ * Functions whose result is a Boolean, other than conversions.
+ */
+const BOOLEAN_FUNCTIONS = new Set([
+  "exists",
+  "empty",
+  "not",
+  "is",
+  "startsWith",
+  "endsWith",
+  "contains",
+  "matches",
+  "matchesFull",
+  "isDistinct",
+  "all",
+  "allTrue",
+  "anyTrue",
+  "allFalse",
+  "anyFalse",
+  "subsetOf",
+  "supersetOf",
+  "memberOf",
+  "subsumes",
+  "subsumedBy",
+]);
+
+/**
+ * The FHIR types of the coded values read by the terminology functions.
+ */
+const CODED_TYPES = new Set<string>(["code", "Coding", "CodeableConcept"]);
+
+/**
+ * Functions that read a collection by a subquery, other than the exists()
+ * with criteria.
+ */
+const COLLECTION_READERS = new Set([
+  ...Object.keys(COLLECTION_FUNCTIONS),
+  "where",
+  "select",
+  "all",
+  "repeat",
+  "aggregate",
+  "join",
+  "extension",
+  "resolve",
+]);
+
+/**
+ * The numbers of arguments a function may take, in words.
+ */
+const ARGUMENT_COUNTS = ["no", "one", "two", "three"];
+
+/**
+ * The expressions of the operators with a Boolean result.
+ */
+const BOOLEAN_OPERATORS = [
+  EqualityExpressionContext,
+  InequalityExpressionContext,
+  MembershipExpressionContext,
+  AndExpressionContext,
+  OrExpressionContext,
+  ImpliesExpressionContext,
+];
+
+/**
+ * A transpiled operand of a comparison, along with its System type.
+ */
+type Comparand = TypedValue & { node: ExpressionNode };
 
 export interface TranspilerContext {
   resourceAlias: string;
-  constants?: { [key: string]: string | number | boolean | null };
+  constants?: { [key: string]: ConstantValue };
   iterationContext?: string;
+  // The expression of the iteration context, where it is the input of a
+  // function, from which its type and structure are read.
+  iterationNode?: ExpressionNode;
+  // FHIR type information. Cardinality and choice-type decisions are answered
+  // by the type model for the element a JSON path addresses: `resourceType` is
+  // the type of the `<resourceAlias>.json` document and `iterationPath` is the
+  // element path of the items in `iterationContext` (e.g. "Patient.name").
+  // Without them, elements are treated as singular and untyped.
+  resourceType?: string;
+  iterationPath?: string;
+  typeModel?: FhirTypeModel; // Defaults to the bundled R4 model
+  profile?: FhirProfile; // Profile constraints on the resource type, if any
   // forEach iteration context
   currentForEachAlias?: string; // The OPENJSON table alias (e.g., "forEach_0")
   forEachSource?: string; // The JSON source being iterated (e.g., "r.json")
@@ -68,360 +307,1172 @@ export interface TranspilerContext {
   // iteration context created for a boundary dispatch; absent means the datatype
   // is inferred from the value's lexical form at SQL runtime.
   boundaryType?: string;
+  // The targeted SQL Server version (e.g. 2022), which determines the T-SQL
+  // features that may be used. Without it, SQL Server 2017 is assumed.
+  sqlServerVersion?: number;
+  // A fixed time returned by now(), as a date time with a time zone offset
+  // (e.g. "2024-01-01T00:00:00Z"). Without it, the clock of the server is read.
+  now?: string;
+  // The tables holding the expansions of value sets and the ancestors of
+  // concepts, read by memberOf(), subsumes() and subsumedBy(). Without them,
+  // the default tables of the dbo schema are read.
+  terminologyTables?: TerminologyTables;
+  // The resources table that resolve() looks referenced resources up in, and
+  // the base URLs of absolute references to them. resolve() is supported only
+  // where it is given, as each resolution is a correlated lookup.
+  referenceResolution?: ReferenceResolution;
+  // The JSON of the resource being viewed (%rootResource), where the resource
+  // alias does not address its row (e.g. within the criteria of where()).
+  // Defaults to `<resourceAlias>.json`.
+  rootResourceJson?: string;
+  // The JSON of the resource holding the current item (%resource): the
+  // resource being viewed, or a resource contained within it. Defaults to the
+  // resource being viewed.
+  resourceJson?: string;
+  // The item the expression is evaluated against (%context), where the
+  // iteration context is that of the criteria of a function. Defaults to the
+  // iteration context, or the resource being viewed.
+  contextJson?: string;
+  // Variables given to the query generator, by name (without `%`).
+  variables?: { [key: string]: string | number | boolean | null };
+  // The values of the variables defined by defineVariable(), by name (without
+  // `%`). Each is in scope for the rest of the invocation chain defining it.
+  definedVariables?: { [key: string]: ExpressionNode };
+  // The values of the variables defined by defineVariable() on a repeating
+  // element, by name, which are bound to each item where the next function of
+  // the chain iterates the items of that element.
+  itemVariables?: { [key: string]: ItemVariable };
+  // The recursive queries of the view, to which repeat() and aggregate() add
+  // their CTEs. Those functions are supported only where it is given.
+  recursiveQueries?: RecursiveQueries;
+  // The SQL expressions yielding $index and $total, and the numeric type of
+  // $total, within the aggregator of aggregate().
+  indexExpr?: string;
+  totalExpr?: string;
+  totalType?: NumericType | null;
+  // Custom functions registered with the query generator, by name, which are
+  // transpiled by their emitters in place of any built-in function.
+  functions?: FunctionRegistry;
   testId?: string; // Optional test identifier for parallel test execution
 }
 
+/**
+ * A variable defined on the items of a repeating element, whose value is
+ * evaluated against each of them.
+ */
+interface ItemVariable {
+  elementPath: string;
+  value: ExpressionContext;
+}
+
 export class FHIRPathToTSqlVisitor
-  extends AbstractParseTreeVisitor<string>
-  implements fhirpathVisitor<string>
+  extends AbstractParseTreeVisitor<ExpressionNode>
+  implements fhirpathVisitor<ExpressionNode>
 {
-  constructor(private readonly context: TranspilerContext) {
+  // Numeric types of the arithmetic and function expressions visited, by
+  // expression.
+  private readonly numericTypes = new Map<
+    ExpressionContext,
+    NumericType | null
+  >();
+  // System types of the conversion expressions visited, by expression.
+  private readonly systemTypes = new Map<ExpressionContext, string | null>();
+
+  constructor(private context: TranspilerContext) {
     super();
   }
 
-  protected defaultResult(): string {
-    return "NULL";
+  /**
+   * Visits a node of the parse tree, locating an error raised within it at the
+   * node, unless it has been located within a node beneath it.
+   */
+  visit(tree: ParseTree): ExpressionNode {
+    return tree instanceof ParserRuleContext
+      ? this.locatedAt(tree, () => super.visit(tree))
+      : super.visit(tree);
+  }
+
+  /**
+   * Runs a step of transpilation, locating an error raised by it at a node of
+   * the parse tree, unless it has been located within a node beneath it.
+   */
+  private locatedAt<T>(ctx: ParserRuleContext, step: () => T): T {
+    try {
+      return step();
+    } catch (error) {
+      if (error instanceof FhirPathError && error.range !== null) {
+        throw error;
+      }
+      throw new FhirPathError(
+        error instanceof Error ? error.message : String(error),
+        rangeOf(ctx),
+        null,
+        error instanceof FhirPathError ? error.code : "transpile-error",
+      );
+    }
+  }
+
+  protected defaultResult(): ExpressionNode {
+    return sqlNode("NULL");
+  }
+
+  /**
+   * Transpiles a node of the parse tree to T-SQL.
+   */
+  private visitSql(tree: ParseTree): string {
+    return emitTSql(this.visit(tree));
   }
 
-  visitEntireExpression(ctx: EntireExpressionContext): string {
+  visitEntireExpression(ctx: EntireExpressionContext): ExpressionNode {
     return this.visit(ctx.expression());
   }
 
-  visitTermExpression(ctx: TermExpressionContext): string {
-    return this.visit(ctx.term());
+  /**
+   * Transpiles an entire expression to a value, such as a column. A Boolean
+   * condition becomes a BIT, which is NULL where the result is empty.
+   */
+  transpileValue(ctx: EntireExpressionContext): string {
+    const sql = this.visitSql(ctx.expression());
+    return this.isCondition(ctx.expression()) ? bitValue(sql) : sql;
+  }
+
+  /**
+   * Transpiles an entire expression to a JSON array of its items, such as a
+   * collection column, which is the empty array where it has none.
+   */
+  transpileCollection(ctx: EntireExpressionContext): string {
+    const expression = ctx.expression();
+    const node = this.visit(expression);
+    const items = this.isCondition(expression)
+      ? computedArray(`('[' + ${booleanText(emitTSql(node))} + ']')`)
+      : itemArray(this.collection(expression, node));
+    return `COALESCE(${emitTSql(items)}, JSON_QUERY('[]'))`;
+  }
+
+  /**
+   * Transpiles an entire expression to a condition, such as a filter.
+   */
+  transpileCondition(ctx: EntireExpressionContext): string {
+    return this.predicate(ctx.expression());
+  }
+
+  /**
+   * Transpiles an entire expression to a BIT, such as a Boolean column.
+   */
+  transpileBoolean(ctx: EntireExpressionContext): string {
+    return bitValue(this.predicate(ctx.expression()));
+  }
+
+  visitTermExpression(ctx: TermExpressionContext): ExpressionNode {
+    return this.scopedToChain(ctx, () => this.termExpression(ctx));
+  }
+
+  private termExpression(ctx: TermExpressionContext): ExpressionNode {
+    const term = ctx.term();
+    const invocation =
+      term instanceof InvocationTermContext ? term.invocation() : null;
+    if (invocation instanceof TotalInvocationContext) {
+      this.numericTypes.set(ctx, this.context.totalType ?? null);
+    }
+    return invocation instanceof FunctionInvocationContext
+      ? (this.termFunction(ctx, invocation) ?? this.visit(term))
+      : this.visit(term);
+  }
+
+  /**
+   * Transpiles a function beginning an expression that is a custom function,
+   * or reads the current time (e.g. `now()`), or returns null if it is
+   * neither.
+   */
+  private termFunction(
+    ctx: TermExpressionContext,
+    invocation: FunctionInvocationContext,
+  ): ExpressionNode | null {
+    const name = invocation.function().identifier().text;
+    const custom = this.context.functions?.get(name);
+    if (custom) {
+      return this.handleCustomFunction(
+        ctx,
+        custom,
+        this.contextItem(),
+        invocation,
+      );
+    }
+    const clockFunctions = temporalFunctions(this.context.now);
+    return Object.hasOwn(clockFunctions, name)
+      ? this.handleClockFunction(ctx, name, clockFunctions[name], invocation)
+      : null;
   }
 
-  visitInvocationExpression(ctx: InvocationExpressionContext): string {
+  /**
+   * Transpiles a call of a custom function by its emitter, recording the
+   * System type of its result as given by the first of its signatures that
+   * accepts the element it is invoked on.
+   */
+  private handleCustomFunction(
+    ctx: ExpressionContext,
+    fn: CustomFunction,
+    base: ExpressionNode,
+    invocation: FunctionInvocationContext,
+  ): ExpressionNode {
+    const paramList = invocation.function().paramList();
+    const args = paramList
+      ? this.getParameterList(paramList).map((arg) => emitTSql(arg))
+      : [];
+    const element = this.expressionElement(base);
+    const signature = matchingSignature(
+      fn,
+      element?.types.length === 1 ? element.types[0] : null,
+      args.map(() => null),
+      this.typeModel,
+    );
+    const sql = callLibraryFunction(
+      fn.name,
+      {
+        minArgs: fn.minArgs,
+        maxArgs: fn.maxArgs,
+        sql: (input, args) =>
+          fn.emit(args, {
+            input,
+            value: emitTSql(this.singleValue(base)),
+            iterationContext:
+              this.context.iterationContext ??
+              `${this.context.resourceAlias}.json`,
+            resourceAlias: this.context.resourceAlias,
+          }),
+      },
+      emitTSql(base),
+      args,
+    );
+    if (signature) {
+      this.systemTypes.set(
+        ctx,
+        systemTypeOf(signature.result, this.typeModel) ?? null,
+      );
+    }
+    return sqlNode(sql);
+  }
+
+  /**
+   * Transpiles a function that reads the current time (e.g. `now()`),
+   * recording the type of its result.
+   */
+  private handleClockFunction(
+    ctx: TermExpressionContext,
+    name: string,
+    clockFunction: LibraryFunction<TypedValue>,
+    invocation: FunctionInvocationContext,
+  ): ExpressionNode {
+    const paramList = invocation.function().paramList();
+    const result = callLibraryFunction(
+      name,
+      clockFunction,
+      { sql: emitTSql(this.singletonInput()), type: null },
+      paramList
+        ? paramList
+            .expression()
+            .map((expr) => ({ sql: this.visitSql(expr), type: null }))
+        : [],
+    );
+    this.systemTypes.set(ctx, result.type);
+    return sqlNode(result.sql);
+  }
+
+  visitInvocationExpression(ctx: InvocationExpressionContext): ExpressionNode {
+    return this.scopedToChain(ctx, () => this.invocationExpression(ctx));
+  }
+
+  /**
+   * Visits an expression, ending the scope of the variables defined by
+   * defineVariable() within it where it is the last of an invocation chain.
+   */
+  private scopedToChain(
+    ctx: ExpressionContext,
+    visit: () => ExpressionNode,
+  ): ExpressionNode {
+    if (ctx.parent instanceof InvocationExpressionContext) {
+      return visit();
+    }
+    const { definedVariables, itemVariables } = this.context;
+    try {
+      return visit();
+    } finally {
+      this.context = { ...this.context, definedVariables, itemVariables };
+    }
+  }
+
+  private invocationExpression(
+    ctx: InvocationExpressionContext,
+  ): ExpressionNode {
     const base = this.visit(ctx.expression());
     const invocation = ctx.invocation();
 
     if (invocation instanceof MemberInvocationContext) {
-      return this.handleMemberInvocation(base, invocation);
+      // An error navigating to the member is located at its name
+      return this.locatedAt(invocation.identifier(), () =>
+        this.handleMemberInvocation(base, invocation),
+      );
     } else if (invocation instanceof FunctionInvocationContext) {
+      const functionName = invocation.function().identifier().text;
+      const custom = this.context.functions?.get(functionName);
+      if (custom) {
+        return this.handleCustomFunction(ctx, custom, base, invocation);
+      }
+      const typedResult = this.handleTypedFunction(ctx, base, invocation);
+      if (typedResult !== null) {
+        return typedResult;
+      }
+      if (INTEGER_FUNCTIONS.has(functionName)) {
+        this.numericTypes.set(ctx, "integer");
+      }
       // Pass the base expression's parse tree so boundary functions can detect
       // an explicit ofType() applied directly to their input (research
-      // Decision 2).
-      return this.handleFunctionInvocation(base, invocation, ctx.expression());
+      // Decision 2). A condition is passed as its Boolean value.
+      const input = this.isCondition(ctx.expression())
+        ? booleanValue(emitTSql(base))
+        : base;
+      return this.handleFunctionInvocation(input, invocation, ctx.expression());
     }
 
     return this.defaultResult();
   }
 
-  visitIndexerExpression(ctx: IndexerExpressionContext): string {
+  /**
+   * Transpiles a function of a library that types its operands: math,
+   * collection and conversion functions, and not(), which reads its input as
+   * a condition.
+   *
+   * @returns The transpiled invocation, or null if the function is not typed.
+   */
+  private handleTypedFunction(
+    ctx: InvocationExpressionContext,
+    base: ExpressionNode,
+    invocation: FunctionInvocationContext,
+  ): ExpressionNode | null {
+    const functionName = invocation.function().identifier().text;
+    if (functionName === "not") {
+      return sqlNode(`(NOT ${this.condition(ctx.expression(), base)})`);
+    }
+    // Library lookups must not find inherited members such as toString()
+    if (Object.hasOwn(MATH_FUNCTIONS, functionName)) {
+      return this.typedResult(
+        ctx,
+        callLibraryFunction(
+          functionName,
+          MATH_FUNCTIONS[functionName],
+          {
+            sql: emitTSql(this.singleValue(base)),
+            type: this.numericType(ctx.expression(), base),
+            isText: isJsonText(base),
+          },
+          this.numericArguments(invocation),
+        ),
+      );
+    }
+    if (Object.hasOwn(COLLECTION_FUNCTIONS, functionName)) {
+      return this.typedResult(
+        ctx,
+        this.collectionFunction(functionName, base, {
+          ctx: ctx.expression(),
+          invocation,
+        }),
+      );
+    }
+    if (Object.hasOwn(CONVERSION_FUNCTIONS, functionName)) {
+      return this.handleConversion(
+        ctx,
+        base,
+        invocation,
+        CONVERSION_FUNCTIONS[functionName],
+      );
+    }
+    return this.handleTerminologyFunction(ctx, base, invocation);
+  }
+
+  /**
+   * Transpiles a terminology function, which reads the types of the coded
+   * values of its input and arguments, or returns null if the function is
+   * not one.
+   */
+  private handleTerminologyFunction(
+    ctx: InvocationExpressionContext,
+    base: ExpressionNode,
+    invocation: FunctionInvocationContext,
+  ): ExpressionNode | null {
+    const functionName = invocation.function().identifier().text;
+    const terminology = terminologyFunctions(this.context.terminologyTables);
+    if (!Object.hasOwn(terminology, functionName)) {
+      return null;
+    }
+    const paramList = invocation.function().paramList();
+    const result = callLibraryFunction(
+      functionName,
+      terminology[functionName],
+      this.codedCollection(ctx.expression(), base),
+      paramList
+        ? paramList
+            .expression()
+            .map((expr) => this.codedCollection(expr, this.visit(expr)))
+        : [],
+    );
+    return sqlNode(result.sql);
+  }
+
+  /**
+   * The collection of a transpiled operand of a terminology function, along
+   * with the type of its coded values. Strings are read as codes.
+   */
+  private codedCollection(
+    ctx: ExpressionContext,
+    node: ExpressionNode,
+  ): CodedCollection {
+    const element = this.expressionElement(node);
+    const elementType =
+      element?.types.length === 1 && CODED_TYPES.has(element.types[0])
+        ? (element.types[0] as CodedType)
+        : null;
+    const type =
+      elementType ?? (this.systemType(ctx, node) === "String" ? "code" : null);
+    return {
+      sql: emitTSql(node),
+      type,
+      repeating: element?.isArray ?? null,
+      node,
+    };
+  }
+
+  visitIndexerExpression(ctx: IndexerExpressionContext): ExpressionNode {
     const base = this.visit(ctx.expression(0));
-    const index = this.visit(ctx.expression(1));
+    const index = this.visitSql(ctx.expression(1));
 
     // Generate JSON path with array index
-    if (base.includes("JSON_VALUE")) {
-      const pathMatch = /JSON_VALUE\(([^,]+),\s*'([^']+)'\)/.exec(base);
-      if (pathMatch) {
-        const source = pathMatch[1];
-        const path = pathMatch[2];
-        return `JSON_VALUE(${source}, '${path}[${index}]')`;
-      }
+    if (base.kind === "path") {
+      return this.pathNode(base.source, `${base.jsonPath}[${index}]`, false);
     }
 
-    return `JSON_VALUE(${base}, '$[${index}]')`;
+    return this.pathNode(emitTSql(base), `$[${index}]`, false);
   }
 
-  visitPolarityExpression(ctx: PolarityExpressionContext): string {
-    const operand = this.visit(ctx.expression());
+  visitPolarityExpression(ctx: PolarityExpressionContext): ExpressionNode {
+    const operand = this.numericOperand(ctx.expression());
     const operator = ctx.text.charAt(0); // '+' or '-'
 
     if (operator === "-") {
-      return `(-${operand})`;
+      return this.typedResult(ctx, negate(operand));
     } else {
-      return `(+${operand})`;
+      return this.typedResult(ctx, {
+        sql: `(+${numericValue(operand)})`,
+        type: operand.type,
+      });
     }
   }
 
-  visitMultiplicativeExpression(ctx: MultiplicativeExpressionContext): string {
-    const left = this.visit(ctx.expression(0));
-    const right = this.visit(ctx.expression(1));
+  visitMultiplicativeExpression(
+    ctx: MultiplicativeExpressionContext,
+  ): ExpressionNode {
+    const left = this.numericOperand(ctx.expression(0));
+    const right = this.numericOperand(ctx.expression(1));
 
     // Get the original expression texts from the parse tree to find the operator
     const leftText = ctx.expression(0).text;
     const rightText = ctx.expression(1).text;
     const operator = this.getOperatorFromContext(ctx.text, leftText, rightText);
 
-    // Cast JSON_VALUE results to DECIMAL for numeric operations
-    const leftCasted = this.castForNumericOperation(left);
-    const rightCasted = this.castForNumericOperation(right);
-
-    switch (operator) {
-      case "*":
-        return `(${leftCasted} * ${rightCasted})`;
-      case "/":
-      case "div":
-        return `(${leftCasted} / ${rightCasted})`;
-      case "mod":
-        return `(${leftCasted} % ${rightCasted})`;
-      default:
-        return `(${leftCasted} * ${rightCasted})`;
-    }
+    return this.typedResult(
+      ctx,
+      arithmetic(
+        ["/", "div", "mod"].includes(operator) ? operator : "*",
+        left,
+        right,
+      ),
+    );
   }
 
-  visitAdditiveExpression(ctx: AdditiveExpressionContext): string {
-    const left = this.visit(ctx.expression(0));
-    const right = this.visit(ctx.expression(1));
-
+  visitAdditiveExpression(ctx: AdditiveExpressionContext): ExpressionNode {
     // Get the original expression texts from the parse tree to find the operator
     const leftText = ctx.expression(0).text;
     const rightText = ctx.expression(1).text;
     const operator = this.getOperatorFromContext(ctx.text, leftText, rightText);
 
-    switch (operator) {
-      case "+":
-      case "-": {
-        // Cast JSON_VALUE results to DECIMAL for numeric operations
-        const leftCasted = this.castForNumericOperation(left);
-        const rightCasted = this.castForNumericOperation(right);
-        return operator === "+"
-          ? `(${leftCasted} + ${rightCasted})`
-          : `(${leftCasted} - ${rightCasted})`;
-      }
-      case "&":
-        // String concatenation in FHIRPath, use CONCAT in SQL Server
-        return `CONCAT(${left}, ${right})`;
-      default: {
-        const leftCasted = this.castForNumericOperation(left);
-        const rightCasted = this.castForNumericOperation(right);
-        return `(${leftCasted} + ${rightCasted})`;
+    if (operator === "&") {
+      // String concatenation in FHIRPath, use CONCAT in SQL Server
+      const left = this.visitSql(ctx.expression(0));
+      const right = this.visitSql(ctx.expression(1));
+      return sqlNode(`CONCAT(${left}, ${right})`);
+    }
+
+    const quantity = quantityLiteral(ctx.expression(1));
+    if (quantity) {
+      const time = this.handleTimeArithmetic(ctx, operator, quantity);
+      if (time !== null) {
+        return time;
       }
     }
+
+    return this.handleAddition(ctx, operator === "-" ? "-" : "+");
   }
 
-  visitTypeExpression(ctx: TypeExpressionContext): string {
-    const expression = this.visit(ctx.expression());
-    const typeSpec = this.visit(ctx.typeSpecifier());
-    const operator = this.getOperatorFromContext(
-      ctx.text,
-      expression,
-      typeSpec,
-    );
+  /**
+   * Transpiles addition or subtraction by the types of its operands: the
+   * concatenation of strings, the arithmetic of quantities, or otherwise of
+   * numbers. Either is empty where an operand is empty.
+   */
+  private handleAddition(
+    ctx: AdditiveExpressionContext,
+    operator: "+" | "-",
+  ): ExpressionNode {
+    const operands = this.comparands(ctx);
+    const [left, right] = operands;
+    const types = operands.map(({ type }) => type);
+    if (operator === "+" && types.includes("String")) {
+      this.systemTypes.set(ctx, "String");
+      return sqlNode(`(${left.sql} + ${right.sql})`);
+    }
+    if (types.includes("Quantity")) {
+      this.systemTypes.set(ctx, "Quantity");
+      return sqlNode(addQuantities(operator, left, right));
+    }
+    const temporal = types.find((type) => TEMPORAL_TYPES.has(type ?? ""));
+    if (temporal) {
+      throw new Error(
+        `Only a quantity of time can be added to or subtracted from a ${temporal}`,
+      );
+    }
+    const [leftNumber, rightNumber] = operands.map((operand, i) => ({
+      sql: operand.sql,
+      type: this.numericType(ctx.expression(i), operand.node),
+      isText: isJsonText(operand.node),
+    }));
+    return this.typedResult(ctx, arithmetic(operator, leftNumber, rightNumber));
+  }
 
-    if (operator === "is") {
-      // Type checking - simplified implementation
-      return `(${expression} IS NOT NULL)`;
-    } else if (operator === "as") {
-      // Type casting - return the expression as-is for simplification
-      return expression;
+  /**
+   * Transpiles the addition or subtraction of a quantity of time to a date or
+   * time, recording the type of its result. Values of unknown type are taken
+   * to be date times.
+   *
+   * @returns The transpiled expression, or null if the quantity is not a
+   *   quantity of time or the input is not a date or time.
+   */
+  private handleTimeArithmetic(
+    ctx: AdditiveExpressionContext,
+    operator: string,
+    quantity: QuantityContext,
+  ): ExpressionNode | null {
+    const time = timeQuantity(quantity.NUMBER().text, quantityUnit(quantity));
+    const input = ctx.expression(0);
+    if (time === null || quantityLiteral(input)) {
+      return null;
+    }
+    const node = this.visit(input);
+    const type = this.systemType(input, node) ?? "DateTime";
+    // Quantities of time are added to other quantities as quantities
+    if (type === "Quantity") {
+      return null;
     }
+    if (!TEMPORAL_TYPES.has(type)) {
+      throw new Error(`A quantity of time cannot be added to a ${type}`);
+    }
+    const result = addTime(operator, { sql: emitTSql(node), type }, time);
+    this.systemTypes.set(ctx, result.type);
+    return sqlNode(result.sql);
+  }
 
-    return expression;
+  /**
+   * Transpiles an operand of arithmetic along with its numeric type.
+   */
+  private numericOperand(ctx: ExpressionContext): NumericOperand {
+    if (quantityLiteral(ctx)) {
+      throw new Error(
+        "Arithmetic with quantities other than quantities of time added to dates and times is not supported",
+      );
+    }
+    const node = this.visit(ctx);
+    return {
+      sql: emitTSql(node),
+      type: this.numericType(ctx, node),
+      isText: isJsonText(node),
+    };
   }
 
-  visitUnionExpression(ctx: UnionExpressionContext): string {
-    const left = this.visit(ctx.expression(0));
-    const right = this.visit(ctx.expression(1));
+  /**
+   * The numeric type of a transpiled expression: the type of a number literal,
+   * of the result of arithmetic or a function, or of the element a path
+   * addresses.
+   */
+  private numericType(
+    ctx: ExpressionContext,
+    node: ExpressionNode,
+  ): NumericType | null {
+    const term = ctx instanceof TermExpressionContext ? ctx.term() : null;
+    if (term instanceof ParenthesizedTermContext) {
+      return this.numericType(term.expression(), node);
+    }
+    const literal = term instanceof LiteralTermContext ? term.literal() : null;
+    if (
+      literal instanceof NumberLiteralContext ||
+      literal instanceof LongNumberLiteralContext
+    ) {
+      return literalNumericType(literal.text);
+    }
+    return (
+      this.numericTypes.get(ctx) ??
+      elementNumericType(this.expressionElement(node))
+    );
+  }
+
+  /**
+   * The transpiled arguments of a function, with their numeric types.
+   */
+  private numericArguments(
+    functionCtx: FunctionInvocationContext,
+  ): NumericOperand[] {
+    const paramList = functionCtx.function().paramList();
+    return paramList
+      ? paramList.expression().map((expr) => this.numericOperand(expr))
+      : [];
+  }
+
+  /**
+   * Records the numeric type of a typed result, returning its expression.
+   */
+  private typedResult(
+    ctx: ExpressionContext,
+    result: NumericOperand & { node?: ExpressionNode },
+  ): ExpressionNode {
+    this.numericTypes.set(ctx, result.type);
+    return result.node ?? sqlNode(result.sql);
+  }
+
+  /**
+   * Transpiles an aggregate or subsetting function of a collection, typed
+   * from the expression that yields it where given.
+   */
+  private collectionFunction(
+    functionName: string,
+    input: ExpressionNode,
+    parse?: {
+      ctx: ExpressionContext;
+      invocation: FunctionInvocationContext;
+    },
+  ): Collection {
+    const paramList = parse?.invocation.function().paramList();
+    const node =
+      parse && this.isCondition(parse.ctx)
+        ? sqlNode(booleanText(emitTSql(input)))
+        : input;
+    return callLibraryFunction<Collection>(
+      functionName,
+      COLLECTION_FUNCTIONS[functionName],
+      {
+        sql: emitTSql(node),
+        type: parse ? this.numericType(parse.ctx, input) : null,
+        repeating: this.expressionElement(input)?.isArray ?? null,
+        node,
+      },
+      paramList
+        ? paramList.expression().map((expr) => this.collectionOperand(expr))
+        : [],
+    );
+  }
+
+  /**
+   * Transpiles an operand that is a collection, along with the numeric type
+   * of its items and whether the element it addresses repeats.
+   */
+  private collectionOperand(ctx: ExpressionContext): Collection {
+    return this.collection(ctx, this.comparand(ctx));
+  }
+
+  /**
+   * The collection of a transpiled operand, as read by {@link comparand}.
+   */
+  private collection(ctx: ExpressionContext, node: ExpressionNode): Collection {
+    return {
+      sql: emitTSql(node),
+      type: this.numericType(ctx, node),
+      repeating: this.expressionElement(node)?.isArray ?? null,
+      node,
+    };
+  }
 
-    // Union operation - in SQL Server, we'd need a more complex implementation
-    // For now, we'll use a simplified approach
-    return `COALESCE(${left}, ${right})`;
+  /**
+   * Transpiles a conversion function, recording the type of its result.
+   */
+  private handleConversion(
+    ctx: InvocationExpressionContext,
+    base: ExpressionNode,
+    invocation: FunctionInvocationContext,
+    conversionFunction: LibraryFunction<TypedValue>,
+  ): ExpressionNode {
+    const type = this.systemType(ctx.expression(), base);
+    const paramList = invocation.function().paramList();
+    const node =
+      type === "Boolean" && this.isCondition(ctx.expression())
+        ? sqlNode(booleanText(emitTSql(base)))
+        : this.singleValue(base);
+    const result = callLibraryFunction(
+      invocation.function().identifier().text,
+      conversionFunction,
+      { sql: emitTSql(node), type, node },
+      paramList
+        ? paramList
+            .expression()
+            .map((expr) => ({ sql: this.visitSql(expr), type: null }))
+        : [],
+    );
+    this.systemTypes.set(ctx, result.type);
+    this.numericTypes.set(ctx, SYSTEM_NUMERIC_TYPES.get(result.type) ?? null);
+    return sqlNode(result.sql);
   }
 
-  visitInequalityExpression(ctx: InequalityExpressionContext): string {
-    const left = this.visit(ctx.expression(0));
-    const right = this.visit(ctx.expression(1));
+  /**
+   * The System type of a transpiled expression (e.g. `String`): the type of a
+   * literal, of the result of arithmetic or a conversion, of a Boolean
+   * operator or function, or of the element a path addresses.
+   */
+  private systemType(
+    ctx: ExpressionContext,
+    node: ExpressionNode,
+  ): string | null {
+    const term = ctx instanceof TermExpressionContext ? ctx.term() : null;
+    if (term instanceof ParenthesizedTermContext) {
+      return this.systemType(term.expression(), node);
+    }
+    const literalType =
+      term instanceof LiteralTermContext
+        ? literalSystemType(term.literal())
+        : null;
+    const numericType = this.numericType(ctx, node);
+    return (
+      literalType ??
+      this.systemTypes.get(ctx) ??
+      (numericType && NUMERIC_SYSTEM_TYPES.get(numericType)) ??
+      (isBooleanContext(ctx) ? "Boolean" : this.elementSystemType(node))
+    );
+  }
+
+  /**
+   * Whether an expression transpiles to a condition rather than a value: a
+   * Boolean operator, or a Boolean function or conversion.
+   */
+  private isCondition(ctx: ExpressionContext): boolean {
+    const term = ctx instanceof TermExpressionContext ? ctx.term() : null;
+    if (term instanceof ParenthesizedTermContext) {
+      return this.isCondition(term.expression());
+    }
+    return isBooleanContext(ctx) || this.systemTypes.get(ctx) === "Boolean";
+  }
+
+  /**
+   * The System type of the element a transpiled path addresses, if it has a
+   * single type.
+   */
+  private elementSystemType(node: ExpressionNode): string | null {
+    const element = this.expressionElement(node);
+    return element?.types.length === 1
+      ? systemTypeOf(element.types[0], this.typeModel)
+      : null;
+  }
+
+  visitTypeExpression(ctx: TypeExpressionContext): ExpressionNode {
+    const expression = this.visit(ctx.expression());
+    const type = this.locatedAt(ctx.typeSpecifier(), () =>
+      resolveTypeSpecifier(
+        typeSpecifierName(ctx.typeSpecifier()),
+        this.typeModel,
+      ),
+    );
+    return ctx.getChild(1).text === "as"
+      ? this.handleTypeCast(expression, type)
+      : this.handleTypeTest(expression, type);
+  }
+
+  visitUnionExpression(ctx: UnionExpressionContext): ExpressionNode {
+    return this.typedResult(
+      ctx,
+      callLibraryFunction<Collection>(
+        "union",
+        COLLECTION_FUNCTIONS.union,
+        this.collectionOperand(ctx.expression(0)),
+        [this.collectionOperand(ctx.expression(1))],
+      ),
+    );
+  }
+
+  visitInequalityExpression(ctx: InequalityExpressionContext): ExpressionNode {
+    const [leftOperand, rightOperand] = this.comparands(ctx);
+    const [left, right] = this.comparedValues(ctx, leftOperand, rightOperand);
 
     // Get the operator from the middle child (between the two expressions)
     // The context has 3 children: expr0, operator, expr1
     const operator = ctx.childCount >= 3 ? ctx.getChild(1).text : "";
 
+    // Dates and times are compared to the precision they share
+    if (isTemporalComparison(leftOperand.type, rightOperand.type)) {
+      return sqlNode(compareTemporal(operator, leftOperand, rightOperand));
+    }
+    // Quantities are compared in the unit of the left operand
+    if (isQuantityComparison(leftOperand.type, rightOperand.type)) {
+      return sqlNode(compareQuantities(operator, leftOperand, rightOperand));
+    }
+
     switch (operator) {
       case "<":
-        return `(${left} < ${right})`;
+        return sqlNode(`(${left} < ${right})`);
       case "<=":
-        return `(${left} <= ${right})`;
+        return sqlNode(`(${left} <= ${right})`);
       case ">":
-        return `(${left} > ${right})`;
+        return sqlNode(`(${left} > ${right})`);
       case ">=":
-        return `(${left} >= ${right})`;
+        return sqlNode(`(${left} >= ${right})`);
       default:
-        return `(${left} < ${right})`;
+        return sqlNode(`(${left} < ${right})`);
     }
   }
 
-  visitEqualityExpression(ctx: EqualityExpressionContext): string {
-    const left = this.visit(ctx.expression(0));
-    const right = this.visit(ctx.expression(1));
-    const operator = this.getOperatorFromContext(ctx.text, left, right);
+  visitEqualityExpression(ctx: EqualityExpressionContext): ExpressionNode {
+    const [leftOperand, rightOperand] = this.comparands(ctx);
+    const operator = ctx.getChild(1).text;
 
-    switch (operator) {
-      case "=":
-        // Handle boolean comparisons - now that boolean literals return quoted strings
-        return `(${left} = ${right})`;
-      case "!=":
-        return `(${left} != ${right})`;
-      case "~":
-        // Equivalent/approximately equal
-        return `(${left} = ${right})`;
-      case "!~":
-        // Not equivalent
-        return `(${left} != ${right})`;
-      default:
-        return `(${left} = ${right})`;
+    if (
+      (operator === "=" || operator === "!=") &&
+      isTemporalComparison(leftOperand.type, rightOperand.type)
+    ) {
+      return sqlNode(compareTemporal(operator, leftOperand, rightOperand));
+    }
+    if (isQuantityComparison(leftOperand.type, rightOperand.type)) {
+      return sqlNode(compareQuantities(operator, leftOperand, rightOperand));
+    }
+    if (operator === "~" || operator === "!~") {
+      return sqlNode(
+        this.handleEquivalence(ctx, operator, leftOperand, rightOperand),
+      );
+    }
+    if (
+      this.isComplexConstantComparison([leftOperand.node, rightOperand.node])
+    ) {
+      const [leftItems, rightItems] = [leftOperand, rightOperand].map(
+        (operand, i) => this.collection(ctx.expression(i), operand.node),
+      );
+      const negation = operator === "!=" ? "NOT " : "";
+      return sqlNode(`(${negation}${equal(leftItems, rightItems)})`);
+    }
+
+    // Empty operands give an unknown (empty) result
+    const [left, right] = this.comparedValues(ctx, leftOperand, rightOperand);
+    return sqlNode(
+      operator === "!=" ? `(${left} != ${right})` : `(${left} = ${right})`,
+    );
+  }
+
+  /**
+   * The values compared by a comparison, casting numbers read from JSON to
+   * the SQL type of their numeric type so that they compare as numbers rather
+   * than as text.
+   */
+  private comparedValues(
+    ctx: EqualityExpressionContext | InequalityExpressionContext,
+    ...operands: [Comparand, Comparand]
+  ): [string, string] {
+    return operands.map((operand, i) => {
+      const type = this.numericType(ctx.expression(i), operand.node);
+      return type === null
+        ? operand.sql
+        : numericValue({
+            sql: operand.sql,
+            type,
+            isText: isJsonText(operand.node),
+          });
+    }) as [string, string];
+  }
+
+  /**
+   * Whether a comparison is of a complex constant, or an element of a complex
+   * type within one, whose items are compared element by element rather than
+   * by their JSON.
+   */
+  private isComplexConstantComparison(operands: ExpressionNode[]): boolean {
+    return operands.some((node) => {
+      const element =
+        complexConstantPath(this.context, node) === null
+          ? null
+          : this.expressionElement(node);
+      return (
+        element?.types.length === 1 &&
+        !this.typeModel.isPrimitiveType(element.types[0])
+      );
+    });
+  }
+
+  /**
+   * Transpiles equivalence (`~`) or its negation (`!~`), which is true or
+   * false and never empty. Dates and times are equivalent where they are
+   * equal at the same precision, and other operands are compared as
+   * collections.
+   */
+  private handleEquivalence(
+    ctx: EqualityExpressionContext,
+    operator: string,
+    leftOperand: Comparand,
+    rightOperand: Comparand,
+  ): string {
+    const negation = operator === "!~" ? "NOT " : "";
+    if (isTemporalComparison(leftOperand.type, rightOperand.type)) {
+      const equal = compareTemporal("=", leftOperand, rightOperand);
+      return `(${negation}(CASE WHEN ${leftOperand.sql} IS NULL AND ${rightOperand.sql} IS NULL THEN 1 WHEN ${equal} THEN 1 ELSE 0 END = 1))`;
     }
+    const [left, right] = [leftOperand, rightOperand].map((operand, i) =>
+      this.collection(ctx.expression(i), operand.node),
+    );
+    return `(${negation}${equivalent(left, right)})`;
   }
 
-  visitMembershipExpression(ctx: MembershipExpressionContext): string {
-    const left = this.visit(ctx.expression(0));
-    const right = this.visit(ctx.expression(1));
-    const operator = this.getOperatorFromContext(ctx.text, left, right);
+  visitMembershipExpression(ctx: MembershipExpressionContext): ExpressionNode {
+    const leftNode = this.comparand(ctx.expression(0));
+    const rightNode = this.comparand(ctx.expression(1));
+    const operator = ctx.getChild(1).text;
 
+    // Complex constants are compared element by element
+    if (this.isComplexConstantComparison([leftNode, rightNode])) {
+      const [leftItems, rightItems] = [leftNode, rightNode].map((node, i) =>
+        this.collection(ctx.expression(i), node),
+      );
+      return sqlNode(
+        operator === "in"
+          ? containsItem(rightItems, leftItems)
+          : containsItem(leftItems, rightItems),
+      );
+    }
+
+    // The result is empty where the item sought is empty
+    const left = emitTSql(leftNode);
+    const right = emitTSql(rightNode);
     if (operator === "in") {
       // Check if left is in the collection right
-      return `EXISTS (SELECT 1 FROM OPENJSON(${right}) WHERE value = ${left})`;
+      return sqlNode(
+        `(CASE WHEN ${left} IS NULL THEN NULL WHEN EXISTS (SELECT 1 FROM OPENJSON(${right}) WHERE value = ${left}) THEN 1 ELSE 0 END = 1)`,
+      );
     } else if (operator === "contains") {
       // Check if collection left contains right
-      return `EXISTS (SELECT 1 FROM OPENJSON(${left}) WHERE value = ${right})`;
+      return sqlNode(
+        `(CASE WHEN ${right} IS NULL THEN NULL WHEN EXISTS (SELECT 1 FROM OPENJSON(${left}) WHERE value = ${right}) THEN 1 ELSE 0 END = 1)`,
+      );
     }
 
     return this.defaultResult();
   }
 
-  visitAndExpression(ctx: AndExpressionContext): string {
-    const left = this.visit(ctx.expression(0));
-    const right = this.visit(ctx.expression(1));
-    return `(${left} AND ${right})`;
+  // The Boolean operators combine conditions, whose unknown result represents
+  // empty, so SQL's three-valued logic gives the FHIRPath truth tables.
+
+  visitAndExpression(ctx: AndExpressionContext): ExpressionNode {
+    const left = this.predicate(ctx.expression(0));
+    const right = this.predicate(ctx.expression(1));
+    return sqlNode(`(${left} AND ${right})`);
   }
 
-  visitOrExpression(ctx: OrExpressionContext): string {
-    const left = this.visit(ctx.expression(0));
-    const right = this.visit(ctx.expression(1));
-    const operator = this.getOperatorFromContext(ctx.text, left, right);
+  visitOrExpression(ctx: OrExpressionContext): ExpressionNode {
+    const left = this.predicate(ctx.expression(0));
+    const right = this.predicate(ctx.expression(1));
 
-    if (operator === "or") {
-      return `(${left} OR ${right})`;
-    } else if (operator === "xor") {
-      // Exclusive OR
-      return `((${left} AND NOT ${right}) OR (NOT ${left} AND ${right}))`;
+    if (ctx.getChild(1).text === "xor") {
+      // Exclusive OR, which is empty where either operand is empty
+      return sqlNode(
+        `((${left} AND NOT ${right}) OR (NOT ${left} AND ${right}))`,
+      );
     }
 
-    return `(${left} OR ${right})`;
+    return sqlNode(`(${left} OR ${right})`);
   }
 
-  visitImpliesExpression(ctx: ImpliesExpressionContext): string {
-    const left = this.visit(ctx.expression(0));
-    const right = this.visit(ctx.expression(1));
-    // A implies B is equivalent to (NOT A) OR B
-    return `((NOT ${left}) OR ${right})`;
+  visitImpliesExpression(ctx: ImpliesExpressionContext): ExpressionNode {
+    const left = this.predicate(ctx.expression(0));
+    const right = this.predicate(ctx.expression(1));
+    // A implies B is equivalent to (NOT A) OR B, which is true where A is
+    // empty and B is true
+    return sqlNode(`((NOT ${left}) OR ${right})`);
+  }
+
+  /**
+   * Transpiles an expression as a condition.
+   */
+  private predicate(ctx: ExpressionContext): string {
+    return this.condition(ctx, this.visit(ctx));
+  }
+
+  /**
+   * The condition for a transpiled expression. A Boolean value is true where
+   * it is true, and any other value is true where it is present, following
+   * the singleton evaluation of collections. Values of unknown type are read
+   * as Booleans.
+   */
+  private condition(ctx: ExpressionContext, node: ExpressionNode): string {
+    const sql = emitTSql(node);
+    if (this.isCondition(ctx)) {
+      return sql;
+    }
+    const type = this.systemType(ctx, node);
+    return valueCondition(
+      sql,
+      type === null
+        ? (this.expressionElement(node)?.types.includes("boolean") ?? true)
+        : type === "Boolean",
+    );
+  }
+
+  /**
+   * Transpiles an operand of a comparison, reading a condition as a Boolean
+   * value so that it compares with Boolean elements and literals.
+   */
+  private comparand(ctx: ExpressionContext): ExpressionNode {
+    const node = this.visit(ctx);
+    return this.isCondition(ctx) ? sqlNode(booleanText(emitTSql(node))) : node;
+  }
+
+  /**
+   * Transpiles the operands of a comparison, or of addition or subtraction,
+   * along with their System types.
+   */
+  private comparands(
+    ctx:
+      | EqualityExpressionContext
+      | InequalityExpressionContext
+      | AdditiveExpressionContext,
+  ): [Comparand, Comparand] {
+    return [ctx.expression(0), ctx.expression(1)].map((operand) => {
+      const node = this.comparand(operand);
+      return {
+        sql: emitTSql(node),
+        type: this.systemType(operand, node),
+        node,
+      };
+    }) as [Comparand, Comparand];
   }
 
   // Literal visitors
-  visitNullLiteral(_ctx: NullLiteralContext): string {
-    return "NULL";
+  visitNullLiteral(_ctx: NullLiteralContext): ExpressionNode {
+    return sqlNode("NULL");
   }
 
-  visitBooleanLiteral(ctx: BooleanLiteralContext): string {
+  visitBooleanLiteral(ctx: BooleanLiteralContext): ExpressionNode {
     const value = ctx.text.toLowerCase();
     // Return quoted boolean for JSON comparisons
-    return value === "true" ? "'true'" : "'false'";
+    return sqlNode(value === "true" ? "'true'" : "'false'");
   }
 
-  visitStringLiteral(ctx: StringLiteralContext): string {
-    // Remove surrounding quotes and escape internal quotes
-    const value = ctx.text.slice(1, -1).replace(/'/g, "''");
-    return `'${value}'`;
+  visitStringLiteral(ctx: StringLiteralContext): ExpressionNode {
+    // Remove surrounding quotes, resolve FHIRPath escapes and escape internal
+    // quotes.
+    return sqlNode(quote(this.unescapeString(ctx.text.slice(1, -1))));
+  }
+
+  /**
+   * Resolve the escape sequences of a FHIRPath string (`\'`, `\\`, `\n`,
+   * `\u0041`, etc.). A backslash before any other character is kept, so
+   * regular expressions such as `'\d+'` keep their meaning.
+   */
+  private unescapeString(value: string): string {
+    return value.replace(
+      /\\(u[0-9a-fA-F]{4}|.)/gs,
+      (escape: string, sequence: string): string => {
+        if (sequence.length === 5) {
+          return String.fromCharCode(parseInt(sequence.substring(1), 16));
+        }
+        return STRING_ESCAPES.get(sequence) ?? escape;
+      },
+    );
   }
 
-  visitNumberLiteral(ctx: NumberLiteralContext): string {
-    return ctx.text;
+  visitNumberLiteral(ctx: NumberLiteralContext): ExpressionNode {
+    return sqlNode(ctx.text);
   }
 
-  visitLongNumberLiteral(ctx: LongNumberLiteralContext): string {
-    return ctx.text.replace(/L$/i, "");
+  visitLongNumberLiteral(ctx: LongNumberLiteralContext): ExpressionNode {
+    return sqlNode(ctx.text.replace(/L$/i, ""));
   }
 
-  visitDateLiteral(ctx: DateLiteralContext): string {
+  visitDateLiteral(ctx: DateLiteralContext): ExpressionNode {
     // Remove @ prefix and wrap in quotes for SQL
     const value = ctx.text.substring(1);
-    return `'${value}'`;
+    return sqlNode(`'${value}'`);
   }
 
-  visitDateTimeLiteral(ctx: DateTimeLiteralContext): string {
-    // Remove @ prefix and wrap in quotes for SQL
-    const value = ctx.text.substring(1);
-    return `'${value}'`;
+  visitDateTimeLiteral(ctx: DateTimeLiteralContext): ExpressionNode {
+    // Remove @ prefix and wrap in quotes for SQL. A date time without a time
+    // (e.g. @2015T) has the text of a date, as it does in JSON.
+    const value = ctx.text.substring(1).replace(/T$/, "");
+    return sqlNode(`'${value}'`);
   }
 
-  visitTimeLiteral(ctx: TimeLiteralContext): string {
+  visitTimeLiteral(ctx: TimeLiteralContext): ExpressionNode {
     // Remove @T prefix and wrap in quotes for SQL
     const value = ctx.text.substring(2);
-    return `'${value}'`;
+    return sqlNode(`'${value}'`);
   }
 
-  visitQuantityLiteral(ctx: QuantityLiteralContext): string {
+  visitQuantityLiteral(ctx: QuantityLiteralContext): ExpressionNode {
     return this.visit(ctx.quantity());
   }
 
   // Invocation visitors
-  visitMemberInvocation(ctx: MemberInvocationContext): string {
-    const memberName = this.visit(ctx.identifier());
+  visitMemberInvocation(ctx: MemberInvocationContext): ExpressionNode {
+    const memberName = identifierName(ctx.identifier());
 
     // Handle special identifiers
     if (memberName === "id") {
       // Extract id from JSON, not from database row ID
-      return `JSON_VALUE(${this.context.resourceAlias}.json, '$.id')`;
-    }
-
-    // Known FHIR array fields should use JSON_QUERY
-    const knownArrayFields = [
-      "name",
-      "given",
-      "telecom",
-      "address",
-      "line",
-      "identifier",
-      "extension",
-      "contact",
-      "output",
-      "item",
-      "udiCarrier",
-      "coding",
-      "component",
-    ];
+      return this.pathNode(`${this.context.resourceAlias}.json`, "$.id", false);
+    }
 
-    // Regular JSON property access
-    if (this.context.iterationContext) {
-      // Check if the member is a known array field - use JSON_QUERY for arrays
-      if (knownArrayFields.includes(memberName)) {
-        return `JSON_QUERY(${this.context.iterationContext}, '$.${memberName}')`;
-      }
-      return `JSON_VALUE(${this.context.iterationContext}, '$.${memberName}')`;
+    // A leading resource type name (e.g. `Patient.name`) refers to the resource
+    // itself.
+    if (
+      !this.context.iterationContext &&
+      memberName === this.context.resourceType
+    ) {
+      return this.sourceNode(`${this.context.resourceAlias}.json`);
     }
 
-    // Use JSON_QUERY for known array fields, JSON_VALUE for others
-    if (knownArrayFields.includes(memberName)) {
-      return `JSON_QUERY(${this.context.resourceAlias}.json, '$.${memberName}')`;
+    // An element of the input of a function, as it is navigated from the
+    // input
+    const input = this.context.iterationNode;
+    if (input?.kind === "path") {
+      return this.member(input, memberName);
     }
 
-    return `JSON_VALUE(${this.context.resourceAlias}.json, '$.${memberName}')`;
+    // Regular JSON property access, relative to the current item when iterating
+    const source =
+      this.context.iterationContext ?? `${this.context.resourceAlias}.json`;
+    return this.navigateMember(source, "$", memberName);
   }
 
-  visitFunctionInvocation(ctx: FunctionInvocationContext): string {
+  visitFunctionInvocation(ctx: FunctionInvocationContext): ExpressionNode {
     return this.visit(ctx.function());
   }
 
-  visitThisInvocation(_ctx: ThisInvocationContext): string {
+  visitThisInvocation(_ctx: ThisInvocationContext): ExpressionNode {
     // $this refers to the current item in an iteration context
-    if (this.context.iterationContext) {
-      return this.context.iterationContext;
-    }
-    return `${this.context.resourceAlias}.json`;
+    return this.contextItem();
   }
 
-  visitIndexInvocation(_ctx: IndexInvocationContext): string {
+  visitIndexInvocation(_ctx: IndexInvocationContext): ExpressionNode {
+    if (this.context.indexExpr) {
+      return sqlNode(this.context.indexExpr);
+    }
     // $index in forEach contexts - return current iteration index (0-based)
     if (this.context.currentForEachAlias) {
       // In a forEach context, use the [key] column from OPENJSON which gives the array index
-      return `${this.context.currentForEachAlias}.[key]`;
+      return sqlNode(`${this.context.currentForEachAlias}.[key]`);
     }
     // Outside forEach context, default to 0
-    return "0";
+    return sqlNode("0");
   }
 
-  visitTotalInvocation(_ctx: TotalInvocationContext): string {
+  visitTotalInvocation(_ctx: TotalInvocationContext): ExpressionNode {
+    if (this.context.totalExpr) {
+      return sqlNode(this.context.totalExpr);
+    }
     // $total in forEach contexts - return total count of items in current iteration
     if (
       this.context.currentForEachAlias &&
@@ -430,43 +1481,61 @@ export class FHIRPathToTSqlVisitor
     ) {
       // Calculate total count using JSON_VALUE with array length
       // Use a subquery to count items in the JSON array
-      return `(
+      return sqlNode(`(
         SELECT COUNT(*)
         FROM OPENJSON(${this.context.forEachSource}, '${this.context.forEachPath}') 
-      )`;
+      )`);
     }
     // Outside forEach context, default to 1
-    return "1";
+    return sqlNode("1");
   }
 
   // Term visitors
-  visitInvocationTerm(ctx: InvocationTermContext): string {
+  visitInvocationTerm(ctx: InvocationTermContext): ExpressionNode {
     return this.visit(ctx.invocation());
   }
 
-  visitLiteralTerm(ctx: LiteralTermContext): string {
+  visitLiteralTerm(ctx: LiteralTermContext): ExpressionNode {
     return this.visit(ctx.literal());
   }
 
-  visitExternalConstantTerm(ctx: ExternalConstantTermContext): string {
+  visitExternalConstantTerm(ctx: ExternalConstantTermContext): ExpressionNode {
     return this.visit(ctx.externalConstant());
   }
 
-  visitParenthesizedTerm(ctx: ParenthesizedTermContext): string {
-    const expr = this.visit(ctx.expression());
-    return `(${expr})`;
+  visitParenthesizedTerm(ctx: ParenthesizedTermContext): ExpressionNode {
+    const node = this.visit(ctx.expression());
+    // A single JSON_VALUE/JSON_QUERY call or subquery needs no parentheses,
+    // and leaving them off lets members be navigated from it, e.g.
+    // `(value as Quantity).unit`.
+    return node.kind !== "sql" || this.isSingleTerm(node.sql)
+      ? node
+      : { ...node, sql: `(${node.sql})` };
   }
 
-  visitExternalConstant(ctx: ExternalConstantContext): string {
-    let constantName: string;
-
-    const identifier = ctx.identifier();
-    if (identifier) {
-      constantName = this.visit(identifier);
-    } else {
-      // STRING case - remove quotes
-      constantName = ctx.STRING()?.text.slice(1, -1) ?? "";
+  /**
+   * Whether a transpiled expression is a single JSON_VALUE/JSON_QUERY call
+   * or parenthesised subquery, i.e. its first opening parenthesis is closed
+   * by its last character.
+   */
+  private isSingleTerm(expr: string): boolean {
+    const open = expr.indexOf("(");
+    const head = expr.substring(0, open);
+    if (open === -1 || !["", "JSON_VALUE", "JSON_QUERY"].includes(head)) {
+      return false;
     }
+    let depth = 0;
+    for (let i = open; i < expr.length; i++) {
+      depth += expr[i] === "(" ? 1 : expr[i] === ")" ? -1 : 0;
+      if (depth === 0) {
+        return i === expr.length - 1;
+      }
+    }
+    return false;
+  }
+
+  visitExternalConstant(ctx: ExternalConstantContext): ExpressionNode {
+    const constantName = this.externalConstantName(ctx);
 
     // `%rowIndex` is a built-in SQL on FHIR environment variable holding the
     // 0-based position of the current element within the active forEach,
@@ -475,25 +1544,64 @@ export class FHIRPathToTSqlVisitor
     // a user constant named `rowIndex` cannot shadow it. With no active
     // iteration (resource root) it resolves to 0.
     if (constantName === "rowIndex") {
-      return this.context.rowIndexExpr ?? "0";
+      return sqlNode(this.context.rowIndexExpr ?? "0");
     }
 
-    // Check if the constant is defined in the context
-    if (
-      this.context.constants &&
-      this.context.constants[constantName] !== undefined
-    ) {
-      return this.formatConstantValue(this.context.constants[constantName]);
+    const environmentVariable = this.environmentVariable(constantName);
+    if (environmentVariable !== null) {
+      return environmentVariable;
+    }
+
+    const definedVariable = this.context.definedVariables?.[constantName];
+    if (definedVariable !== undefined) {
+      return definedVariable;
+    }
+
+    // ViewDefinition constants, then the variables given to the generator
+    for (const values of [this.context.constants, this.context.variables]) {
+      if (values?.[constantName] !== undefined) {
+        return this.sourceNode(this.formatConstantValue(values[constantName]));
+      }
     }
 
-    // Constant not found - throw an error
     throw new Error(
-      `Constant '%${constantName}' is not defined in the ViewDefinition`,
+      `Variable '%${constantName}' is not defined: it is not a constant of the ViewDefinition, a variable given to the query generator, an environment variable or a variable defined by defineVariable()`,
     );
   }
 
-  visitFunction(ctx: FunctionContext): string {
-    const functionName = this.visit(ctx.identifier());
+  /**
+   * The name of a variable, without `%`.
+   */
+  private externalConstantName(ctx: ExternalConstantContext): string {
+    const identifier = ctx.identifier();
+    if (identifier) {
+      return identifierName(identifier);
+    }
+    // STRING case - remove quotes
+    return ctx.STRING()?.text.slice(1, -1) ?? "";
+  }
+
+  /**
+   * The value of an environment variable, or null if there is none of the
+   * name.
+   */
+  private environmentVariable(name: string): ExpressionNode | null {
+    switch (name) {
+      case "resource":
+        return this.sourceNode(this.resourceJson());
+      case "rootResource":
+        return this.sourceNode(this.rootResourceJson());
+      case "context":
+        return this.sourceNode(this.contextJson());
+      default: {
+        const url = environmentUrl(name);
+        return url === null ? null : sqlNode(url);
+      }
+    }
+  }
+
+  visitFunction(ctx: FunctionContext): ExpressionNode {
+    const functionName = identifierName(ctx.identifier());
     const paramList = ctx.paramList();
 
     // Special handling for where() function - need raw expression, not transpiled
@@ -502,363 +1610,722 @@ export class FHIRPathToTSqlVisitor
         throw new Error("where() function requires exactly one argument");
       }
 
-      // Get the raw filter expression context (not transpiled yet)
-      const filterExprCtx = paramList.expression()[0];
-
-      // Transpile the filter expression with current context
-      const filterVisitor = new FHIRPathToTSqlVisitor(this.context);
-
-      // Return the condition directly - this is for root-level where() calls
-      return filterVisitor.visit(filterExprCtx);
+      return this.filterItem(this.contextItem(), paramList.expression()[0]);
     }
 
-    const args = paramList ? this.getParameterList(paramList) : [];
-    return this.executeFunctionHandler(functionName, args);
-  }
+    if (functionName === "all") {
+      return this.handleAllFunction(this.contextItem(), ctx);
+    }
 
-  visitQuantity(ctx: QuantityContext): string {
-    // For now, just return the number - unit handling would be more complex
-    return ctx.NUMBER().text;
-  }
+    if (functionName === "exists") {
+      return sqlNode(
+        this.existsFunction(this.contextItem(), paramList?.expression()[0]),
+      );
+    }
 
-  visitIdentifier(ctx: IdentifierContext): string {
-    const identifier = ctx.IDENTIFIER();
-    const delimitedIdentifier = ctx.DELIMITEDIDENTIFIER();
+    if (functionName === "type") {
+      return this.typeOf(this.contextItem());
+    }
 
-    if (identifier) {
-      return identifier.text;
-    } else if (delimitedIdentifier) {
-      // Remove backticks
-      return delimitedIdentifier.text.slice(1, -1);
-    } else {
-      // One of the keyword identifiers
-      return ctx.text;
+    const lambdaResult = this.handleLambdaFunction(
+      functionName,
+      this.contextItem(),
+      ctx,
+    );
+    if (lambdaResult !== null) {
+      return lambdaResult;
     }
+
+    const args = paramList ? this.getParameterList(paramList) : [];
+    return this.executeFunctionHandler(functionName, args);
   }
 
-  visitQualifiedIdentifier(ctx: QualifiedIdentifierContext): string {
-    const parts = ctx.identifier().map((id) => this.visit(id));
-    return parts.join(".");
+  visitQuantity(ctx: QuantityContext): ExpressionNode {
+    const unit = ctx.unit();
+    return {
+      kind: "quantity",
+      value: ctx.NUMBER().text,
+      unit: quantityUnit(ctx),
+      calendar: unit !== undefined && unit.STRING() === undefined,
+      ...untyped(),
+    };
   }
 
   // Helper methods
   private handleMemberInvocation(
-    base: string,
+    base: ExpressionNode,
     memberCtx: MemberInvocationContext,
-  ): string {
-    const memberName = this.visit(memberCtx.identifier());
-
-    // Handle subquery results from .where() or .extension() functions
-    // Pattern: (SELECT TOP 1 value FROM OPENJSON(...) WHERE ...)
-    // OR: (SELECT TOP 1 JSON_VALUE(value, '$.field') FROM OPENJSON(...) WHERE ...)
-    if (base.startsWith("(SELECT TOP 1 ")) {
-      // Check if it already has JSON_VALUE in the SELECT
-      const jsonValueMatch =
-        /\(SELECT TOP 1 JSON_VALUE\(value, '\$\.([^']+)'\)(.*)/.exec(base);
-      if (jsonValueMatch) {
-        // Already has JSON_VALUE, append to the path
-        // Convert: (SELECT TOP 1 JSON_VALUE(value, '$.field') FROM ...)
-        // To: (SELECT TOP 1 JSON_VALUE(value, '$.field.member') FROM ...)
-        const existingPath = jsonValueMatch[1];
-        const rest = jsonValueMatch[2];
-        return `(SELECT TOP 1 JSON_VALUE(value, '$.${existingPath}.${memberName}')${rest}`;
-      } else if (base.startsWith("(SELECT TOP 1 value FROM OPENJSON")) {
-        // Simple value select, add JSON_VALUE
-        // Convert: (SELECT TOP 1 value FROM OPENJSON(...))
-        // To: (SELECT TOP 1 JSON_VALUE(value, '$.member') FROM OPENJSON(...))
-        const fromPart = base.substring(base.indexOf(" FROM "));
-        return `(SELECT TOP 1 JSON_VALUE(value, '$.${memberName}')${fromPart}`;
-      }
+  ): ExpressionNode {
+    return this.member(base, identifierName(memberCtx.identifier()));
+  }
+
+  /**
+   * Navigates to a member of a transpiled expression.
+   */
+  private member(base: ExpressionNode, memberName: string): ExpressionNode {
+    const sql = emitTSql(base);
+    // The namespace and name of the type returned by type()
+    if (isTypeInfo(sql)) {
+      return sqlNode(`JSON_VALUE(${sql}, '$.${memberName}')`);
+    }
+
+    // A JSON array computed by a function (e.g. skip()), whose items are
+    // navigated like those of a repeating element
+    if (base.kind === "array") {
+      return this.pathNode(sql, `$[0].${memberName}`, false);
+    }
+
+    // A complex constant, or an element within one
+    const constantPath = complexConstantPath(this.context, base);
+    if (constantPath) {
+      return this.navigateMember(
+        constantPath.literal,
+        constantPath.jsonPath,
+        memberName,
+      );
     }
 
-    // Handle JSON_VALUE expressions - check this BEFORE JSON_QUERY
-    // because the base might be JSON_VALUE(JSON_QUERY(...))
-    if (base.startsWith("JSON_VALUE")) {
-      return this.handleJsonValueMember(base, memberName);
+    // The item selected by a subquery, such as that of `.where()` or
+    // `.extension()`
+    if (base.kind === "itemQuery") {
+      return this.itemQueryMember(base, memberName);
     }
+    if (base.kind === "path") {
+      return this.navigateMember(base.source, base.jsonPath, memberName);
+    }
+    return this.navigateMember(sql, "$", memberName);
+  }
 
-    // Handle JSON_QUERY expressions (arrays)
-    if (base.includes("JSON_QUERY")) {
-      return this.handleJsonQueryMember(base, memberName);
+  /**
+   * Navigates from the element at `jsonPath` within `source` to one of its
+   * members. A repeating element is narrowed to its first item before
+   * navigating into it, and a repeating member is selected as a JSON array
+   * (JSON_QUERY) rather than a scalar (JSON_VALUE), unless the profile limits
+   * it to a single item. The element is that of the JSON path within the
+   * source, unless given.
+   */
+  private navigateMember(
+    source: string,
+    jsonPath: string,
+    memberName: string,
+    elementPath = this.elementPathFor(source, jsonPath),
+  ): ExpressionNode {
+    const parentPath = this.firstItemPath(jsonPath, elementPath);
+    if (elementPath === null) {
+      return this.pathNode(source, `${parentPath}.${memberName}`, false);
     }
 
-    return `JSON_VALUE(${base}, '$.${memberName}')`;
-  }
+    const memberPath = `${elementPath}.${memberName}`;
+    if (!this.typeModel.isDefined(memberPath)) {
+      return this.navigateExtensionSlice(source, parentPath, memberPath);
+    }
 
-  private handleJsonQueryMember(base: string, memberName: string): string {
-    const pathMatch = /JSON_QUERY\(([^,]+),\s*'([^']+)'\)/.exec(base);
-    if (!pathMatch) {
-      return `JSON_VALUE(${base}, '$.${memberName}')`;
+    const newPath = `${parentPath}.${this.profiledMemberName(memberPath)}`;
+    if (!this.typeModel.isRepeating(memberPath)) {
+      return this.pathNode(source, newPath, false);
     }
+    return this.context.profile?.isSingleton(memberPath)
+      ? this.pathNode(source, `${newPath}[0]`, false)
+      : this.pathNode(source, newPath, true);
+  }
 
-    const source = pathMatch[1];
-    const existingPath = pathMatch[2];
-    const isForEachValue = /forEach_\d+\.value/.test(source);
+  /**
+   * The JSON path of the first item of a repeating element, or of the element
+   * itself if it does not repeat or an item of it is already addressed.
+   */
+  private firstItemPath(jsonPath: string, elementPath: string | null): string {
+    const repeating =
+      jsonPath !== "$" &&
+      !jsonPath.endsWith("]") &&
+      elementPath !== null &&
+      this.typeModel.isRepeating(elementPath);
+    return repeating ? `${jsonPath}[0]` : jsonPath;
+  }
 
-    const previousFieldIsArray = this.checkPreviousFieldIsArray(
-      existingPath,
-      isForEachValue,
+  /**
+   * Navigates to an extension by the name of a slice the profile declares for
+   * it, e.g. `indigenousStatus` → `extension('<url>')`.
+   *
+   * @throws If the member is neither an element defined by the FHIR version
+   *   being targeted nor an extension slice of the profile.
+   */
+  private navigateExtensionSlice(
+    source: string,
+    parentPath: string,
+    memberPath: string,
+  ): ExpressionNode {
+    const separator = memberPath.lastIndexOf(".");
+    const slice = this.context.profile?.extensionSlice(
+      memberPath.substring(0, separator),
+      memberPath.substring(separator + 1),
     );
-    const currentMemberIsArray = this.checkCurrentMemberIsArray(
-      memberName,
-      existingPath,
-      isForEachValue,
+    if (!slice) {
+      throw new FhirPathError(
+        `Element '${memberPath}' is not defined in FHIR ${this.typeModel.fhirVersion}`,
+        null,
+        null,
+        "unknown-element",
+      );
+    }
+    return this.itemQueryNode(
+      source,
+      `${parentPath}.${slice.element}`,
+      null,
+      `JSON_VALUE(value, '$.url') = ${this.formatConstantValue(slice.url)}`,
     );
-
-    const newPath = previousFieldIsArray
-      ? `${existingPath}[0].${memberName}`
-      : `${existingPath}.${memberName}`;
-
-    return currentMemberIsArray
-      ? `JSON_QUERY(${source}, '${newPath}')`
-      : `JSON_VALUE(${source}, '${newPath}')`;
   }
 
-  private checkPreviousFieldIsArray(
-    existingPath: string,
-    isForEachValue: boolean,
-  ): boolean {
-    const alwaysArrayFields = this.getAlwaysArrayFields();
-    const contextDependentFields = ["name"];
-
-    const indexPattern = /\[\d+]/;
-    const pathSegments = existingPath
-      .split(".")
-      .filter((s) => s !== "$" && !indexPattern.exec(s));
-    const lastSegment = pathSegments[pathSegments.length - 1];
-
-    const previousFieldIsAlwaysArray =
-      !!lastSegment && alwaysArrayFields.includes(lastSegment);
-    const previousFieldIsContextArray =
-      !!lastSegment &&
-      contextDependentFields.includes(lastSegment) &&
-      !isForEachValue;
-
-    return previousFieldIsAlwaysArray || previousFieldIsContextArray;
+  /**
+   * The JSON property name of a member, which is the typed name of a choice
+   * element where the profile permits only one of its types.
+   */
+  private profiledMemberName(memberPath: string): string {
+    const memberName = memberPath.substring(memberPath.lastIndexOf(".") + 1);
+    const types = this.context.profile?.constrainedTypes(memberPath);
+    if (!this.typeModel.isChoice(memberPath) || types?.length !== 1) {
+      return memberName;
+    }
+    return `${memberName}${choiceTypeSuffix(types[0])}`;
   }
 
-  private checkCurrentMemberIsArray(
-    memberName: string,
-    existingPath: string,
-    isForEachValue: boolean,
-  ): boolean {
-    const alwaysArrayFields = this.getAlwaysArrayFields();
-    const contextDependentFields = ["name"];
+  /**
+   * The type model that cardinality and choice-type decisions are made with.
+   */
+  private get typeModel(): FhirTypeModel {
+    return this.context.typeModel ?? getTypeModel();
+  }
 
-    const indexPattern = /\[\d+]/;
-    const pathSegments = existingPath
-      .split(".")
-      .filter((s) => s !== "$" && !indexPattern.exec(s));
+  /**
+   * Resolves the FHIR element path addressed by a JSON path within a source
+   * expression, e.g. (`r.json`, `$.name[0].given`) → `Patient.name.given`.
+   * Returns null when the element path of the source is not known.
+   */
+  private elementPathFor(source: string, jsonPath: string): string | null {
+    let basePath: string | undefined;
+    if (
+      source === `${this.context.resourceAlias}.json` ||
+      source === this.rootResourceJson()
+    ) {
+      basePath = this.context.resourceType;
+    } else if (source === this.context.iterationContext) {
+      basePath = this.context.iterationPath;
+    } else {
+      basePath = complexConstantType(this.context, source);
+    }
+    return basePath ? jsonElementPath(basePath, jsonPath) : null;
+  }
 
+  /**
+   * The item expressions are evaluated against: the input of the function
+   * being transpiled, or else the current item or resource.
+   */
+  private contextItem(): ExpressionNode {
     return (
-      alwaysArrayFields.includes(memberName) ||
-      (contextDependentFields.includes(memberName) &&
-        !isForEachValue &&
-        pathSegments.length === 0)
+      this.context.iterationNode ??
+      this.sourceNode(
+        this.context.iterationContext ?? `${this.context.resourceAlias}.json`,
+      )
     );
   }
 
-  private getAlwaysArrayFields(): string[] {
-    return [
-      "given",
-      "telecom",
-      "address",
-      "line",
-      "identifier",
-      "extension",
-      "contact",
-      "output",
-      "item",
-      "udiCarrier",
-      "coding",
-      "component",
-    ];
+  /**
+   * A JSON document, such as a resource, the current item or a constant,
+   * typed by the element it is known to hold.
+   */
+  private sourceNode(sql: string): ExpressionNode {
+    return sqlNode(
+      sql,
+      elementType(this.elementPathFor(sql, "$"), this.typeModel, true),
+    );
   }
 
   /**
-   * Checks if a member name represents a FHIR array field.
-   */
-  private isArrayField(memberName: string): boolean {
-    const knownArrayFields = [
-      "name",
-      "given",
-      "telecom",
-      "address",
-      "line",
-      "identifier",
-      "extension",
-      "contact",
-      "output",
-      "item",
-      "udiCarrier",
-      "coding",
-      "component",
-    ];
-    return knownArrayFields.includes(memberName);
+   * The element at `jsonPath` within `source`, read as JSON where it repeats
+   * or is of a complex type, and otherwise as a scalar.
+   */
+  private pathNode(
+    source: string,
+    jsonPath: string,
+    isJson: boolean,
+  ): PathNode {
+    const elementPath = this.elementPathFor(source, jsonPath);
+    const type = elementType(
+      elementPath,
+      this.typeModel,
+      jsonPath.endsWith("]"),
+    );
+    return {
+      kind: "path",
+      source,
+      jsonPath,
+      isJson: this.readsAsJson(type, isJson),
+      ...type,
+    };
+  }
+
+  /**
+   * Whether an element is read as JSON: where it repeats, or its type is
+   * complex.
+   */
+  private readsAsJson(type: NodeType, isJson: boolean): boolean {
+    return (
+      isJson ||
+      (type.fhirType !== null && this.typeModel.isComplexType(type.fhirType))
+    );
   }
 
   /**
-   * Handles nested JSON_QUERY with array indexing.
+   * The first item of the collection at `jsonPath` within `source` that meets
+   * a condition, under the given alias, if any.
    */
-  private handleNestedQueryWithIndex(
+  private itemQueryNode(
     source: string,
-    existingPath: string,
-    memberName: string,
-  ): string | null {
-    const queryMatch = /^JSON_QUERY\(([^,]+),\s*'([^']+)'\)$/.exec(source);
-    const isArrayIndexPath = /^\$\[\d+]$/.test(existingPath);
+    jsonPath: string,
+    alias: string | null,
+    condition: string,
+  ): ItemQueryNode {
+    const itemPath = this.elementPathFor(source, jsonPath);
+    const element = elementType(
+      itemPath,
+      this.typeModel,
+      jsonPath.endsWith("]"),
+    );
+    return itemQuery(
+      {
+        kind: "json",
+        source,
+        jsonPath,
+        alias,
+        repeating: element.cardinality !== "single",
+        isJson: this.readsAsJson(element, false),
+      },
+      [condition],
+      itemPath,
+      elementType(itemPath, this.typeModel, true),
+    );
+  }
 
-    if (queryMatch && isArrayIndexPath) {
-      const innerSource = queryMatch[1];
-      const arrayPath = queryMatch[2];
-      const indexMatch = /\[(\d+)]/.exec(existingPath);
-      const index = indexMatch?.[1] ?? "0";
-      const newPath = `${arrayPath}[${index}].${memberName}`;
-      return `JSON_VALUE(${innerSource}, '${newPath}')`;
-    }
+  /**
+   * Navigates from the item selected by an item query, or the element within
+   * it that the query reads, to one of its members.
+   */
+  private itemQueryMember(
+    node: ItemQueryNode,
+    memberName: string,
+  ): ItemQueryNode {
+    const parent = node.member?.jsonPath ?? "$";
+    const member = this.navigateMember(
+      "value",
+      parent,
+      memberName,
+      node.itemPath && jsonElementPath(node.itemPath, parent),
+    );
+    return member.kind === "path"
+      ? this.withItemMember(node, member.jsonPath, member.isJson)
+      : this.withItemMember(node, `${parent}.${memberName}`, false);
+  }
 
-    return null;
+  /**
+   * The element at a JSON path (e.g. `$.period.start`) within the item
+   * selected by an item query.
+   */
+  private withItemMember(
+    node: ItemQueryNode,
+    jsonPath: string,
+    isJson: boolean,
+  ): ItemQueryNode {
+    const elementPath =
+      node.itemPath && jsonElementPath(node.itemPath, jsonPath);
+    const type = elementType(
+      elementPath,
+      this.typeModel,
+      jsonPath.endsWith("]"),
+    );
+    return {
+      ...node,
+      member: { jsonPath, isJson: this.readsAsJson(type, isJson) },
+      ...type,
+    };
   }
 
-  private handleJsonValueMember(base: string, memberName: string): string {
-    const pathMatch = /^JSON_VALUE\((.*),\s*'([^']+)'\)$/.exec(base);
-    if (!pathMatch) {
-      return `JSON_VALUE(${base}, '$.${memberName}')`;
+  private handleFunctionInvocation(
+    base: ExpressionNode,
+    functionCtx: FunctionInvocationContext,
+    baseExpr?: ExpressionContext,
+  ): ExpressionNode {
+    const functionName = identifierName(functionCtx.function().identifier());
+    const paramList = functionCtx.function().paramList();
+
+    const specialResult = this.handleRawArgumentFunction(
+      functionName,
+      base,
+      functionCtx,
+      baseExpr,
+    );
+    if (specialResult !== null) {
+      return specialResult;
     }
 
-    const source = pathMatch[1];
-    const existingPath = pathMatch[2];
+    const args = paramList ? this.getParameterList(paramList) : [];
 
-    // Check if the member being accessed is an array field
-    if (this.isArrayField(memberName)) {
-      const newPath = `${existingPath}.${memberName}`;
-      return `JSON_QUERY(${source}, '${newPath}')`;
+    // Create new context and delegate to function handler
+    const newContext = this.createNewIterationContext(base);
+
+    // Carry a directly-applied ofType() datatype to the boundary handler so it
+    // picks the right algorithm (research Decision 2).
+    if (functionName === "lowBoundary" || functionName === "highBoundary") {
+      newContext.boundaryType =
+        this.extractDirectOfTypeName(baseExpr) ?? undefined;
     }
 
-    // Handle nested JSON_QUERY with array indexing
-    const nestedResult = this.handleNestedQueryWithIndex(
-      source,
-      existingPath,
-      memberName,
+    const visitor = new FHIRPathToTSqlVisitor(newContext);
+    return this.locatedAt(functionCtx, () =>
+      visitor.executeFunctionHandler(functionName, args),
     );
-    if (nestedResult) {
-      return nestedResult;
-    }
+  }
+
+  /**
+   * Handles functions that need their base and raw (untranspiled) argument
+   * expressions, e.g. to evaluate a criteria expression against each item of
+   * the input collection rather than in the current context.
+   *
+   * @returns The transpiled invocation, or null if the function takes
+   *   transpiled arguments.
+   */
+  private handleRawArgumentFunction(
+    functionName: string,
+    base: ExpressionNode,
+    functionCtx: FunctionInvocationContext,
+    baseExpr?: ExpressionContext,
+  ): ExpressionNode | null {
+    const handlers: Record<string, () => ExpressionNode> = {
+      // Special handling for first() function to match expected format
+      first: () => this.handleFirstFunctionInvocation(base),
+      // Need raw expression, not transpiled
+      where: () => this.handleWhereFunctionInvocation(base, functionCtx),
+      // Need raw type name, not transpiled
+      ofType: () => this.handleOfTypeFunctionInvocation(base, functionCtx),
+      is: () =>
+        this.handleTypeTest(base, this.typeSpecifierArgument(functionCtx)),
+      as: () =>
+        this.handleTypeCast(base, this.typeSpecifierArgument(functionCtx)),
+      // Needs the element the input addresses
+      type: () => this.typeOf(base),
+      getReferenceKey: () =>
+        this.handleGetReferenceKeyFunctionInvocation(base, functionCtx),
+      resolve: () => this.handleResolve(base),
+      exists: () => this.handleExistsFunctionInvocation(base, functionCtx),
+      // Projection is evaluated per item
+      select: () => this.handleSelectFunctionInvocation(base, functionCtx),
+      // Criteria are evaluated per item
+      all: () => this.handleAllFunction(base, functionCtx.function()),
+    };
 
-    // Check if the path already has an array index
-    if (existingPath.includes("[") && existingPath.includes("]")) {
-      const newPath = `${existingPath}.${memberName}`;
-      return `JSON_VALUE(${source}, '${newPath}')`;
-    }
+    const handler = handlers[functionName];
+    return handler
+      ? handler()
+      : this.handleLambdaFunction(
+          functionName,
+          base,
+          functionCtx.function(),
+          baseExpr,
+        );
+  }
 
-    const pathParts = existingPath.split(".");
-    const shouldAddArrayIndex = this.shouldAddArrayIndexForField(
-      pathParts,
-      existingPath,
+  /**
+   * Transpiles type(), the type of the items of its input.
+   */
+  private typeOf(input: ExpressionNode): ExpressionNode {
+    return sqlNode(
+      typeInfo(
+        { node: input, element: this.expressionElement(input) },
+        this.typeModel,
+      ),
     );
+  }
 
-    if (shouldAddArrayIndex) {
-      const newPath = `${pathParts[0]}.${pathParts[1]}[0].${memberName}`;
-      return `JSON_VALUE(${source}, '${newPath}')`;
-    }
-
-    const newPath = `${existingPath}.${memberName}`;
-    return `JSON_VALUE(${source}, '${newPath}')`;
-  }
-
-  private shouldAddArrayIndexForField(
-    pathParts: string[],
-    existingPath: string,
-  ): boolean {
-    // Special handling for FHIR array fields
-    // Only add [0] when NOT in a forEach iteration context
-    // In forEach, we're already at the element level, so arrays within elements are accessed directly
-    // Note: "name" is excluded because it's an array at Patient level but an object within Contact
-    const knownArrayFields = [
-      "telecom",
-      "address",
-      "identifier",
-      "extension",
-      "contact",
-      "link",
-    ];
-
-    // Determine if we should add [0] for this array field
-    // We should NOT add [0] if:
-    // 1. We're in a forEach context AND
-    // 2. The field is actually the forEach collection itself (not a nested array)
-    //
-    // For example:
-    // - forEach on "contact", accessing "name.family": "name" is NOT an array in contact
-    // - forEach on "contact", accessing "telecom.system": "telecom" IS an array in contact, so add [0]
-    // - forEach on "name", accessing "family": we're iterating names, don't add [0] to name itself
-
-    if (pathParts.length < 2 || existingPath.includes("[")) {
-      return false;
+  /**
+   * Handles the functions whose arguments are evaluated against their input
+   * or each of its items, with `$this`, `$index` and `$total` bound
+   * accordingly.
+   *
+   * @returns The transpiled invocation, or null if the function is not one of
+   *   them.
+   */
+  private handleLambdaFunction(
+    functionName: string,
+    base: ExpressionNode,
+    functionCtx: FunctionContext,
+    baseExpr?: ExpressionContext,
+  ): ExpressionNode | null {
+    switch (functionName) {
+      case "iif":
+        return this.handleIif(base, functionCtx);
+      case "repeat":
+        return this.handleRepeat(base, functionCtx);
+      case "aggregate":
+        return this.handleAggregate(base, functionCtx, baseExpr);
+      case "defineVariable":
+        return this.handleDefineVariable(base, functionCtx);
+      default:
+        return null;
     }
+  }
 
-    const fieldName = pathParts[1];
+  /**
+   * Transpiles iif(), which is its true result where its criterion is true,
+   * and otherwise its otherwise result, if any.
+   */
+  private handleIif(
+    base: ExpressionNode,
+    functionCtx: FunctionContext,
+  ): ExpressionNode {
+    const [criterion, trueResult, otherwiseResult] = this.functionArguments(
+      functionCtx,
+      2,
+      3,
+    );
+    const visitor = this.inputVisitor(base);
+    const otherwise = otherwiseResult
+      ? emitTSql(visitor.comparand(otherwiseResult))
+      : "NULL";
+    return sqlNode(
+      `(CASE WHEN ${visitor.predicate(criterion)} THEN ${emitTSql(visitor.comparand(trueResult))} ELSE ${otherwise} END)`,
+    );
+  }
 
-    // Check if this field is in the known array fields list
-    if (knownArrayFields.includes(fieldName)) {
-      // Don't add [0] if this is the forEach array itself
-      return !this.context.forEachPath?.endsWith(fieldName);
-    } else if (fieldName === "name") {
-      // "name" is special: it's an array in Patient but an object in Contact
-      // Only add [0] for "name" when NOT in a forEach context
-      return !this.context.iterationContext;
+  /**
+   * Transpiles repeat(), the items of its projection of each item of its
+   * input, and of each of those, and so on. The projection must be a path
+   * from `$this`, as it is evaluated within a recursive CTE.
+   */
+  private handleRepeat(
+    base: ExpressionNode,
+    functionCtx: FunctionContext,
+  ): ExpressionNode {
+    const [projectionCtx] = this.functionArguments(functionCtx, 1, 1);
+    const queries = this.recursiveQueries("repeat");
+    const visitor = new FHIRPathToTSqlVisitor(
+      this.itemContext(REPEATED_ALIAS, base.elementPath),
+    );
+    const projection = visitor.visit(projectionCtx);
+    if (
+      projection.kind !== "path" ||
+      projection.source !== `${REPEATED_ALIAS}.value`
+    ) {
+      throw new Error(
+        `The projection of repeat() must be a path, such as item: ${projectionCtx.text}`,
+      );
     }
+    return repeatItems(
+      queries,
+      itemRows({
+        sql: emitTSql(base),
+        type: null,
+        repeating: this.expressionElement(base)?.isArray ?? null,
+        node: base,
+      }),
+      itemRows({
+        sql: emitTSql(projection),
+        type: null,
+        repeating: visitor.expressionElement(projection)?.isArray ?? null,
+        node: projection,
+      }),
+    );
+  }
 
-    return false;
+  /**
+   * The items of an expression not written in the invocation (e.g. the
+   * context item), typed by the element it navigates to.
+   */
+  private collectionOfElement(node: ExpressionNode): Collection {
+    const element = this.expressionElement(node);
+    return {
+      sql: emitTSql(node),
+      type: elementNumericType(element),
+      repeating: element?.isArray ?? null,
+      node,
+    };
   }
 
-  private handleFunctionInvocation(
-    base: string,
-    functionCtx: FunctionInvocationContext,
+  /**
+   * Transpiles aggregate(), the result of its aggregator for the last item of
+   * its input, where `$total` is the result for the previous item, or the
+   * initial value for the first.
+   */
+  private handleAggregate(
+    base: ExpressionNode,
+    functionCtx: FunctionContext,
     baseExpr?: ExpressionContext,
-  ): string {
-    const functionName = this.visit(functionCtx.function().identifier());
-    const paramList = functionCtx.function().paramList();
+  ): ExpressionNode {
+    const [aggregatorCtx, initCtx] = this.functionArguments(functionCtx, 1, 2);
+    const queries = this.recursiveQueries("aggregate");
+    const aggregator = withoutCollectionReads(
+      aggregatorCtx,
+      "The aggregator of aggregate()",
+    );
+    const input: Collection = baseExpr
+      ? this.collection(baseExpr, base)
+      : this.collectionOfElement(base);
+    const init = initCtx
+      ? this.collection(initCtx, this.comparand(initCtx))
+      : null;
+    const totalType = commonNumericType(init?.type ?? null, input.type);
+    // The items are read as text, which arithmetic casts to the type of
+    // their numbers
+    const itemContext: TranspilerContext = {
+      ...this.itemContext(AGGREGATED_ALIAS, base.elementPath),
+      indexExpr: `(${AGGREGATED_ALIAS}.position - 1)`,
+      totalType,
+    };
+    return sqlNode(
+      aggregateItems(
+        queries,
+        itemRows(input),
+        (total) =>
+          emitTSql(
+            new FHIRPathToTSqlVisitor({
+              ...itemContext,
+              totalExpr: total,
+            }).comparand(aggregator),
+          ),
+        init?.sql ?? null,
+        totalType === null ? "NVARCHAR(MAX)" : sqlNumericType(totalType),
+      ),
+    );
+  }
 
-    // Special handling for first() function to match expected format
-    if (functionName === "first") {
-      return this.handleFirstFunctionInvocation(base);
+  /**
+   * Transpiles defineVariable(), which is its input, defining a variable of
+   * its value (or of the input) for the rest of the invocation chain.
+   */
+  private handleDefineVariable(
+    base: ExpressionNode,
+    functionCtx: FunctionContext,
+  ): ExpressionNode {
+    const [nameCtx, valueCtx] = this.functionArguments(functionCtx, 1, 2);
+    const name = this.newVariableName(nameCtx);
+    this.context = {
+      ...this.context,
+      definedVariables: {
+        ...this.context.definedVariables,
+        [name]: valueCtx ? this.inputVisitor(base).comparand(valueCtx) : base,
+      },
+    };
+    // The value of a repeating element is that of each item, where the items
+    // are iterated
+    if (
+      valueCtx &&
+      base.kind === "path" &&
+      base.elementPath !== null &&
+      isRepeating(base, base.isJson)
+    ) {
+      this.context.itemVariables = {
+        ...this.context.itemVariables,
+        [name]: { elementPath: base.elementPath, value: valueCtx },
+      };
     }
+    return base;
+  }
 
-    // Special handling for where() function - need raw expression, not transpiled
-    if (functionName === "where") {
-      return this.handleWhereFunctionInvocation(base, functionCtx);
-    }
+  /**
+   * Binds the variables defined on the items of the element iterated by a
+   * context to the item of that context.
+   */
+  private bindItemVariables(context: TranspilerContext): TranspilerContext {
+    const variables = Object.entries(this.context.itemVariables ?? {}).filter(
+      ([, variable]) => variable.elementPath === context.iterationPath,
+    );
+    if (variables.length === 0) {
+      return context;
+    }
+    const visitor = new FHIRPathToTSqlVisitor(context);
+    return {
+      ...context,
+      definedVariables: {
+        ...context.definedVariables,
+        ...Object.fromEntries(
+          variables.map(([name, { value }]) => [
+            name,
+            visitor.comparand(value),
+          ]),
+        ),
+      },
+    };
+  }
 
-    // Special handling for ofType() function - need raw type name, not transpiled
-    if (functionName === "ofType") {
-      return this.handleOfTypeFunctionInvocation(base, functionCtx);
+  /**
+   * The name of a variable given to defineVariable(), which must be a string
+   * literal naming no other variable in scope.
+   */
+  private newVariableName(ctx: ExpressionContext): string {
+    const name = /^'([^'\\]+)'$/.exec(ctx.text)?.[1];
+    if (name === undefined) {
+      throw new Error(
+        `The name of a variable defined by defineVariable() must be a string literal: ${ctx.text}`,
+      );
     }
-
-    // Special handling for getReferenceKey() function - need raw type name, not transpiled
-    if (functionName === "getReferenceKey") {
-      return this.handleGetReferenceKeyFunctionInvocation(base, functionCtx);
+    const defined = [
+      this.context.constants,
+      this.context.variables,
+      this.context.definedVariables,
+    ].some((values) => values?.[name] !== undefined);
+    if (
+      defined ||
+      name === "rowIndex" ||
+      this.environmentVariable(name) !== null
+    ) {
+      throw new Error(
+        `Variable '%${name}' is already defined and cannot be redefined by defineVariable()`,
+      );
     }
+    return name;
+  }
 
-    // Special handling for exists() function - need raw expression, not transpiled
-    if (functionName === "exists") {
-      return this.handleExistsFunctionInvocation(base, functionCtx);
+  /**
+   * The raw argument expressions of a function, checking their number.
+   */
+  private functionArguments(
+    functionCtx: FunctionContext,
+    min: number,
+    max: number,
+  ): ExpressionContext[] {
+    const args = functionCtx.paramList()?.expression() ?? [];
+    if (args.length < min || args.length > max) {
+      const count =
+        min === max
+          ? `exactly ${ARGUMENT_COUNTS[min]}`
+          : `${ARGUMENT_COUNTS[min]} or ${ARGUMENT_COUNTS[max]}`;
+      throw new Error(
+        `${functionCtx.identifier().text}() function requires ${count} argument${max === 1 ? "" : "s"}`,
+      );
     }
+    return args;
+  }
 
-    const args = paramList ? this.getParameterList(paramList) : [];
-
-    // Create new context and delegate to function handler
-    const newContext = this.createNewIterationContext(base);
+  /**
+   * A visitor of the expressions evaluated against the input of a function,
+   * which is `$this` within them.
+   */
+  private inputVisitor(base: ExpressionNode): FHIRPathToTSqlVisitor {
+    return emitTSql(base) ===
+      (this.context.iterationContext ?? `${this.context.resourceAlias}.json`)
+      ? this
+      : new FHIRPathToTSqlVisitor(this.createNewIterationContext(base));
+  }
 
-    // Carry a directly-applied ofType() datatype to the boundary handler so it
-    // picks the right algorithm (research Decision 2).
-    if (functionName === "lowBoundary" || functionName === "highBoundary") {
-      newContext.boundaryType =
-        this.extractDirectOfTypeName(baseExpr) ?? undefined;
+  /**
+   * The recursive queries a function adds its CTEs to, which are given only
+   * where the rows of the view are in scope.
+   */
+  private recursiveQueries(functionName: string): RecursiveQueries {
+    const queries = this.context.recursiveQueries;
+    if (!queries) {
+      throw new Error(
+        `${functionName}() is supported only within the columns, iterations and where clauses of a view, not within the arguments of another function`,
+      );
     }
-
-    const visitor = new FHIRPathToTSqlVisitor(newContext);
-    return visitor.executeFunctionHandler(functionName, args);
+    return queries;
   }
 
   /**
@@ -892,25 +2359,152 @@ export class FHIRPathToTSqlVisitor
   }
 
   private handleOfTypeFunctionInvocation(
-    base: string,
+    base: ExpressionNode,
     functionCtx: FunctionInvocationContext,
-  ): string {
+  ): ExpressionNode {
+    const type = this.typeSpecifierArgument(functionCtx);
+    const element = this.expressionElement(base);
+    // Elements that cannot be resolved are assumed to be choice elements
+    if (!isResolvedResource(base) && (!element || element.types.length === 0)) {
+      return this.applyPolymorphicFieldMapping(base, type.name);
+    }
+    return this.handleTypeCast(base, type);
+  }
+
+  /**
+   * Resolves the single type specifier argument of a type function such as
+   * `ofType(Quantity)`.
+   */
+  private typeSpecifierArgument(
+    functionCtx: FunctionInvocationContext,
+  ): TypeSpecifier {
+    const functionName = functionCtx.function().identifier().text;
     const paramList = functionCtx.function().paramList();
     if (!paramList || paramList.expression().length !== 1) {
-      throw new Error("ofType() function requires exactly one argument");
+      throw new Error(
+        `${functionName}() function requires exactly one argument`,
+      );
     }
 
     // Get the raw type expression - it should be an identifier
-    const typeExprCtx = paramList.expression()[0];
-    const typeName = typeExprCtx.text; // Get the raw text (e.g., "integer")
+    const specifier = paramList.expression()[0];
+    return this.locatedAt(specifier, () =>
+      resolveTypeSpecifier(specifier.text, this.typeModel),
+    );
+  }
+
+  /**
+   * Transpiles a type test (`is`) against the element the expression
+   * addresses.
+   */
+  private handleTypeTest(
+    expression: ExpressionNode,
+    type: TypeSpecifier,
+  ): ExpressionNode {
+    if (isResolvedResource(expression)) {
+      return sqlNode(
+        resolvedResourceTest(emitTSql(expression), type, this.typeModel),
+      );
+    }
+    return sqlNode(
+      typeTest(
+        { node: expression, element: this.expressionElement(expression) },
+        type,
+        this.typeModel,
+      ),
+    );
+  }
+
+  /**
+   * Transpiles a type cast (`as`, `ofType()`). A choice element is mapped to
+   * the property for the types it permits that match.
+   */
+  private handleTypeCast(
+    expression: ExpressionNode,
+    type: TypeSpecifier,
+  ): ExpressionNode {
+    if (isResolvedResource(expression)) {
+      return resolvedResourceCast(expression, type, this.typeModel);
+    }
+    const element = this.expressionElement(expression);
+    if (!element?.isChoice) {
+      return typeCast({ node: expression, element }, type, this.typeModel);
+    }
+    const values = matchingChoiceTypes(element, type, this.typeModel).map(
+      (code) => this.applyPolymorphicFieldMapping(expression, code),
+    );
+    if (values.length === 0) {
+      return sqlNode("NULL");
+    }
+    return values.length === 1
+      ? values[0]
+      : sqlNode(
+          `COALESCE(${values.map((value) => emitTSql(value)).join(", ")})`,
+        );
+  }
+
+  /**
+   * Resolves the FHIR element addressed by a transpiled expression, or null
+   * if it is not known.
+   */
+  private expressionElement(expression: ExpressionNode): ElementInfo | null {
+    const path = expression.elementPath;
+    return path ? this.typeModel.resolvePath(path) : null;
+  }
+
+  /**
+   * Transpiles resolve(), which looks up the resource addressed by the
+   * `reference` of a Reference.
+   */
+  private handleResolve(base: ExpressionNode): ExpressionNode {
+    const resolution = this.context.referenceResolution;
+    if (!resolution) {
+      throw new Error(
+        "resolve() requires reference resolution, which is not enabled",
+      );
+    }
+    // Every item of a repeating element (e.g. `hasMember`) is resolved
+    const reference = this.member(base, "reference");
+    const references =
+      base.cardinality === "multiple"
+        ? selectItems(
+            { sql: emitTSql(reference), type: null, node: reference },
+            "reference",
+          )
+        : `SELECT ${emitTSql(reference)} AS reference`;
+    return resolveReference(
+      references,
+      this.rootResourceJson(),
+      resolution,
+      this.context.testId,
+    );
+  }
+
+  /**
+   * The JSON of the resource being viewed (`%rootResource`).
+   */
+  private rootResourceJson(): string {
+    return rootResourceJson(this.context);
+  }
 
-    return this.applyPolymorphicFieldMapping(base, typeName);
+  /**
+   * The JSON of the resource holding the current item (`%resource`).
+   */
+  private resourceJson(): string {
+    return resourceJson(this.context);
+  }
+
+  /**
+   * The item the expression is evaluated against (`%context`).
+   */
+  private contextJson(): string {
+    return contextJson(this.context);
   }
 
   private handleGetReferenceKeyFunctionInvocation(
-    base: string,
+    base: ExpressionNode,
     functionCtx: FunctionInvocationContext,
-  ): string {
+  ): ExpressionNode {
     const paramList = functionCtx.function().paramList();
 
     // Get the optional resource type parameter
@@ -924,318 +2518,416 @@ export class FHIRPathToTSqlVisitor
     // Create new context and call the handler
     const newContext = this.createNewIterationContext(base);
     const visitor = new FHIRPathToTSqlVisitor(newContext);
-    return visitor.handleGetReferenceKeyFunctionWithType(resourceType);
+    return sqlNode(visitor.handleGetReferenceKeyFunctionWithType(resourceType));
   }
 
   /**
-   * Maps polymorphic FHIR fields to their typed variants.
+   * Maps choice elements to their typed variants.
    * Example: value.ofType(integer) → valueInteger
    * Handles paths with array indices like "output[0].value" → "output[0].valueUrl"
    */
-  private applyPolymorphicFieldMapping(base: string, typeName: string): string {
-    // Handle SELECT subqueries from extension() function
-    // Pattern: (SELECT TOP 1 JSON_VALUE(value, '$.value') FROM ...)
-    if (base.startsWith("(SELECT TOP 1 JSON_VALUE(value, '$.")) {
-      const suffix = this.getTypeSuffix(typeName);
-      // Find the JSON_VALUE path part
-      const pathMatch = /JSON_VALUE\(value, '\$\.([^']+)'\)/.exec(base);
-      if (pathMatch) {
-        const path = pathMatch[1];
-        if (this.isPolymorphicField(path)) {
-          // Replace the polymorphic field with its typed variant
-          const newPath = `${path}${suffix}`;
-          return base.replace(
-            `JSON_VALUE(value, '$.${path}')`,
-            `JSON_VALUE(value, '$.${newPath}')`,
-          );
-        }
-      }
+  private applyPolymorphicFieldMapping(
+    base: ExpressionNode,
+    typeName: string,
+  ): ExpressionNode {
+    // The member of the item selected by where() or extension()
+    if (base.kind === "itemQuery" && base.member) {
+      return this.withItemMember(
+        base,
+        this.typedChoicePath(base.member.jsonPath, base.elementPath, typeName),
+        false,
+      );
+    }
+
+    // An element read as a scalar
+    if (base.kind !== "path" || !base.jsonPath.startsWith("$.")) {
       return base;
     }
+    return this.pathNode(
+      base.source,
+      this.typedChoicePath(base.jsonPath, base.elementPath, typeName),
+      false,
+    );
+  }
 
-    // Check if base is a JSON_VALUE call for a polymorphic field
-    const match = /JSON_VALUE\(([^,]+),\s*'\$\.([^']+)'\)/.exec(base);
-    if (!match) {
-      return base; // Not a JSON_VALUE call, return unchanged
-    }
-
-    const source = match[1];
-    const path = match[2];
-    const suffix = this.getTypeSuffix(typeName);
-
-    // Check if this is a known polymorphic field pattern
-    if (this.isPolymorphicField(path)) {
-      // Extract the last segment and replace it with the typed variant
-      const lastDotIndex = path.lastIndexOf(".");
-      if (lastDotIndex === -1) {
-        // No dot, so the whole path is the polymorphic field
-        return `JSON_VALUE(${source}, '$.${path}${suffix}')`;
-      } else {
-        // Replace the last segment with its typed variant
-        const prefix = path.substring(0, lastDotIndex);
-        const lastSegment = path.substring(lastDotIndex + 1);
-        return `JSON_VALUE(${source}, '$.${prefix}.${lastSegment}${suffix}')`;
-      }
+  /**
+   * Replaces the last segment of a JSON path that addresses a choice element
+   * with the JSON property name for the given type (`value` → `valueInteger`).
+   * Paths known not to address a choice element are returned unchanged; where
+   * the element cannot be resolved, the path is assumed to address a choice.
+   */
+  private typedChoicePath(
+    path: string,
+    elementPath: string | null,
+    typeName: string,
+  ): string {
+    const element = elementPath && this.typeModel.resolvePath(elementPath);
+    if (element && !element.isChoice) {
+      return path;
     }
+    // Type specifiers may be qualified with their namespace (FHIR.Quantity)
+    const typeCode = typeName.replace(/^FHIR\./, "");
+    return `${path}${choiceTypeSuffix(typeCode)}`;
+  }
 
-    return base; // Not a polymorphic field, return unchanged
-  }
-
-  /**
-   * Returns the type suffix for polymorphic field mapping.
-   */
-  private getTypeSuffix(typeName: string): string {
-    const typeMap: Record<string, string> = {
-      integer: "Integer",
-      string: "String",
-      boolean: "Boolean",
-      decimal: "Decimal",
-      dateTime: "DateTime",
-      date: "Date",
-      time: "Time",
-      instant: "Instant",
-      uri: "Uri",
-      url: "Url",
-      canonical: "Canonical",
-      uuid: "Uuid",
-      oid: "Oid",
-      id: "Id",
-      code: "Code",
-      markdown: "Markdown",
-      base64Binary: "Base64Binary",
-      positiveInt: "PositiveInt",
-      unsignedInt: "UnsignedInt",
-      integer64: "Integer64",
-      // Complex types use PascalCase as they match FHIR type names
-      // eslint-disable-next-line @typescript-eslint/naming-convention
-      Period: "Period",
-      // eslint-disable-next-line @typescript-eslint/naming-convention
-      Range: "Range",
-      // eslint-disable-next-line @typescript-eslint/naming-convention
-      Quantity: "Quantity",
-      // eslint-disable-next-line @typescript-eslint/naming-convention
-      CodeableConcept: "CodeableConcept",
-      // eslint-disable-next-line @typescript-eslint/naming-convention
-      Reference: "Reference",
-    };
+  /**
+   * Transpiles where(), the items of its input for which its criteria are
+   * true, with `$this` bound to each item in turn.
+   */
+  private handleWhereFunctionInvocation(
+    base: ExpressionNode,
+    functionCtx: FunctionInvocationContext,
+  ): ExpressionNode {
+    const paramList = functionCtx.function().paramList();
+    if (!paramList || paramList.expression().length !== 1) {
+      throw new Error("where() function requires exactly one argument");
+    }
+
+    const filterExprCtx = paramList.expression()[0];
+
+    // A single item, such as the resource, is filtered as it is
+    if (this.isSingleItem(base)) {
+      return this.filterItem(base, filterExprCtx);
+    }
+
+    if (base.kind === "itemQuery") {
+      return this.filterQuery(base, filterExprCtx);
+    }
 
-    return typeMap[typeName] || typeName;
+    const { source, jsonPath } = this.itemsSource(base);
+    return this.buildWhereExistsClause(source, jsonPath, filterExprCtx);
   }
 
   /**
-   * Checks if a path represents a polymorphic field (value[x], onset[x], effective[x], deceased[x], identified[x]).
-   * Handles paths with array indices like "output[0].value" or "item[1].onset".
+   * A single item where its criteria are true, read as the items of a query.
+   * A JSON document, such as the resource, is read as an object, and any
+   * other value as a scalar.
    */
-  private isPolymorphicField(path: string): boolean {
-    // Extract the last segment after the last dot (or the whole path if no dot)
-    // This handles paths like "output[0].value" → "value" or "item[1].onset" → "onset"
-    const lastSegment = path.includes(".")
-      ? (path.split(".").pop() ?? "")
-      : path;
-
-    return (
-      lastSegment === "value" ||
-      lastSegment === "onset" ||
-      lastSegment === "effective" ||
-      lastSegment === "deceased" ||
-      lastSegment === "identified"
+  private filterItem(
+    item: ExpressionNode,
+    filterExprCtx: ExpressionContext,
+  ): ExpressionNode {
+    const condition = this.inputVisitor(item).predicate(filterExprCtx);
+    if (item.kind !== "sql" || !this.readsAsJson(item, false)) {
+      return filterItems(this.collectionOfElement(item), () => condition);
+    }
+    return itemQuery(
+      objectItems(item.sql, "$", false),
+      [condition],
+      item.elementPath,
+      elementType(item.elementPath, this.typeModel, true),
     );
   }
 
   /**
-   * Cast expression to DECIMAL for numeric operations if needed.
-   * JSON_VALUE returns NVARCHAR by default, which can't be used in arithmetic operations.
+   * Applies where() to the items of a query. Items read by an alias must meet
+   * the criteria as a further condition, while resolved resources and the
+   * element read from the items, which may repeat, are filtered one by one.
    */
-  private castForNumericOperation(expression: string): string {
-    // Check if expression contains JSON_VALUE and isn't already wrapped in CAST
-    if (expression.includes("JSON_VALUE") && !expression.includes("CAST(")) {
-      return `CAST(${expression} AS DECIMAL(18,6))`;
+  private filterQuery(
+    base: ItemQueryNode,
+    filterExprCtx: ExpressionContext,
+  ): ExpressionNode {
+    const criteria = (alias: string): string =>
+      new FHIRPathToTSqlVisitor(
+        this.itemContext(alias, base.elementPath),
+      ).predicate(filterExprCtx);
+    const { items } = base;
+    if (base.member === null && items.kind === "json" && items.alias) {
+      return {
+        ...base,
+        conditions: [...base.conditions, criteria(items.alias)],
+      };
     }
-    // Already has CAST or doesn't need it
-    return expression;
+    return filterItems(this.collectionOfElement(base), criteria);
   }
 
-  private handleWhereFunctionInvocation(
-    base: string,
+  /**
+   * Whether an expression is a single item not read from a JSON path, such as
+   * the resource, the current item or a literal, to which the criteria of a
+   * function apply as they are.
+   */
+  private isSingleItem(base: ExpressionNode): boolean {
+    return base.kind === "sql" && base.cardinality !== "multiple";
+  }
+
+  /**
+   * The JSON document and path of the items of a collection, filtering the
+   * items of a computed collection (e.g. of repeat()) directly.
+   */
+  private itemsSource(base: ExpressionNode): {
+    source: string;
+    jsonPath: string;
+  } {
+    return base.kind === "array"
+      ? { source: emitTSql(base), jsonPath: "$" }
+      : this.extractSourceAndPath(base);
+  }
+
+  /**
+   * Extracts the source and JSON path from a base expression.
+   */
+  private extractSourceAndPath(base: ExpressionNode): {
+    source: string;
+    jsonPath: string;
+  } {
+    return base.kind === "path"
+      ? base
+      : { source: `${this.context.resourceAlias}.json`, jsonPath: "$" };
+  }
+
+  /**
+   * Builds a subquery for filtering a collection with a where condition.
+   * Returns a subquery that selects the filtered items, allowing further navigation.
+   */
+  private buildWhereExistsClause(
+    source: string,
+    jsonPath: string,
+    filterExprCtx: ExpressionContext,
+  ): ExpressionNode {
+    const tableAlias = "whereItem";
+
+    // Create a new context for the filter condition where expressions refer to items in the collection
+    const itemContext = this.createItemContext(tableAlias, source, jsonPath);
+
+    // Transpile the filter expression with the item context
+    const filterVisitor = new FHIRPathToTSqlVisitor(itemContext);
+    const condition = filterVisitor.predicate(filterExprCtx);
+
+    // Return a subquery that selects the filtered collection
+    // This allows further navigation (e.g., .family) to work correctly
+    return this.itemQueryNode(source, jsonPath, tableAlias, condition);
+  }
+
+  /**
+   * Creates the context for an expression evaluated against each item of the
+   * collection at `jsonPath` within `source`, iterated as `tableAlias`.
+   */
+  private createItemContext(
+    tableAlias: string,
+    source: string,
+    jsonPath: string,
+  ): TranspilerContext {
+    return this.itemContext(tableAlias, this.elementPathFor(source, jsonPath));
+  }
+
+  /**
+   * Creates the context for an expression evaluated against each item of a
+   * collection of the given element, iterated as `tableAlias`.
+   */
+  private itemContext(
+    tableAlias: string,
+    iterationPath: string | null,
+  ): TranspilerContext {
+    return this.bindItemVariables({
+      resourceAlias: tableAlias,
+      constants: this.context.constants,
+      variables: this.context.variables,
+      definedVariables: this.context.definedVariables,
+      iterationContext: `${tableAlias}.value`,
+      resourceType: this.context.resourceType,
+      iterationPath: iterationPath ?? undefined,
+      typeModel: this.context.typeModel,
+      profile: this.context.profile,
+      sqlServerVersion: this.context.sqlServerVersion,
+      now: this.context.now,
+      terminologyTables: this.context.terminologyTables,
+      referenceResolution: this.context.referenceResolution,
+      rootResourceJson: this.rootResourceJson(),
+      resourceJson: itemResourceJson(
+        this.context,
+        iterationPath,
+        `${tableAlias}.value`,
+      ),
+      contextJson: this.contextJson(),
+    });
+  }
+
+  /**
+   * Transpiles all(), which is true where its criteria are true for every item
+   * of its input, with `$this` bound to each item in turn.
+   */
+  private handleAllFunction(
+    base: ExpressionNode,
+    functionCtx: FunctionContext,
+  ): ExpressionNode {
+    const paramList = functionCtx.paramList();
+    if (!paramList || paramList.expression().length !== 1) {
+      throw new Error("all() function requires exactly one argument");
+    }
+
+    const criteriaCtx = paramList.expression()[0];
+
+    // The criteria apply to a single item, such as the resource, itself
+    if (this.isSingleItem(base)) {
+      const criteria = this.inputVisitor(base).predicate(criteriaCtx);
+      return sqlNode(`(CASE WHEN ${criteria} THEN 1 ELSE 0 END = 1)`);
+    }
+
+    const { source, jsonPath } = this.extractSourceAndPath(base);
+    return sqlNode(
+      everyItem(
+        {
+          sql: emitTSql(base),
+          type: null,
+          repeating: this.expressionElement(base)?.isArray ?? null,
+          node: base,
+        },
+        (alias) =>
+          new FHIRPathToTSqlVisitor(
+            this.createItemContext(alias, source, jsonPath),
+          ).predicate(criteriaCtx),
+      ),
+    );
+  }
+
+  private handleSelectFunctionInvocation(
+    base: ExpressionNode,
     functionCtx: FunctionInvocationContext,
-  ): string {
+  ): ExpressionNode {
     const paramList = functionCtx.function().paramList();
     if (!paramList || paramList.expression().length !== 1) {
-      throw new Error("where() function requires exactly one argument");
+      throw new Error("select() function requires exactly one argument");
     }
 
-    const filterExprCtx = paramList.expression()[0];
+    const projectionExprCtx = paramList.expression()[0];
+
+    // The projection applies to a single item, such as the resource, itself
+    if (this.isSingleItem(base)) {
+      return this.inputVisitor(base).visit(projectionExprCtx);
+    }
 
-    // Special case: where() called at resource root level (no collection)
-    if (this.isResourceRootLevel(base)) {
-      const filterVisitor = new FHIRPathToTSqlVisitor(this.context);
-      return filterVisitor.visit(filterExprCtx);
+    // The element read from the items of a query may repeat, so its first
+    // item is projected
+    if (base.kind === "itemQuery" && base.member !== null) {
+      return sqlNode(
+        firstProjection(this.collectionOfElement(base), (alias) =>
+          new FHIRPathToTSqlVisitor(
+            this.itemContext(alias, base.elementPath),
+          ).visitSql(projectionExprCtx),
+        ),
+      );
+    }
+
+    // A singular element is projected directly
+    if (base.kind === "path" && !isRepeating(base, base.isJson)) {
+      return this.inputVisitor(base).visit(projectionExprCtx);
     }
 
-    // Extract source and path from the base expression
     const { source, jsonPath } = this.extractSourceAndPath(base);
+    const tableAlias = "selectItem";
+    const itemContext = this.createItemContext(tableAlias, source, jsonPath);
 
-    // Build and return the EXISTS clause with filtered collection
-    return this.buildWhereExistsClause(source, jsonPath, filterExprCtx);
+    // Otherwise project the first item of the collection, as for a singular
+    // column
+    const projection = new FHIRPathToTSqlVisitor(itemContext).visitSql(
+      projectionExprCtx,
+    );
+    return sqlNode(
+      `(SELECT TOP 1 ${projection} FROM OPENJSON(${source}, '${jsonPath}') AS ${tableAlias} ORDER BY ${tableAlias}.[key])`,
+    );
+  }
+
+  private handleExistsFunctionInvocation(
+    base: ExpressionNode,
+    functionCtx: FunctionInvocationContext,
+  ): ExpressionNode {
+    const criteria = functionCtx.function().paramList()?.expression()[0];
+    return sqlNode(this.existsFunction(base, criteria));
   }
 
   /**
-   * Checks if the base expression represents the resource root level (not a collection).
+   * Transpiles exists(), which is true where its input has any items, or any
+   * items for which its criteria are true.
    */
-  private isResourceRootLevel(base: string): boolean {
-    return (
-      base === `${this.context.resourceAlias}.json` ||
-      base === this.context.resourceAlias ||
-      (!base.includes("JSON_QUERY") &&
-        !base.includes("JSON_VALUE") &&
-        !base.includes("EXISTS") &&
-        !base.includes("SELECT"))
-    );
+  private existsFunction(
+    input: ExpressionNode,
+    criteria?: ExpressionContext,
+  ): string {
+    if (!criteria) {
+      return this.hasAnyItem(input);
+    }
+    if (this.isSingleItem(input)) {
+      return this.inputVisitor(input).predicate(criteria);
+    }
+    if (input.kind === "itemQuery") {
+      return this.hasAnyItem(this.filterQuery(input, criteria));
+    }
+    return this.buildExistsWithFilter(input, criteria);
   }
 
   /**
-   * Extracts the source and JSON path from a base expression.
+   * Whether an expression has any items. A repeating element is read as a
+   * JSON array, which may be empty, and any other value is present where it
+   * is not NULL.
    */
-  private extractSourceAndPath(base: string): {
-    source: string;
-    jsonPath: string;
-  } {
-    let source = `${this.context.resourceAlias}.json`;
-    let jsonPath = "$";
-
-    if (base.includes("JSON_QUERY")) {
-      const match = /JSON_QUERY\(([^,]+),\s*'([^']+)'\)/.exec(base);
-      if (match) {
-        source = match[1];
-        jsonPath = match[2];
-      }
-    } else if (base.includes("JSON_VALUE")) {
-      const match = /JSON_VALUE\(([^,]+),\s*'([^']+)'\)/.exec(base);
-      if (match) {
-        source = match[1];
-        jsonPath = match[2];
-      }
-    }
-
-    return { source, jsonPath };
+  private hasAnyItem(node: ExpressionNode): string {
+    // The element read from the items of a query may repeat, or be absent
+    // from them
+    if (node.kind === "itemQuery") {
+      return node.member === null
+        ? `EXISTS ${emitTSql(node)}`
+        : hasItems(this.collectionOfElement(node));
+    }
+    const sql = emitTSql(node);
+    // The emptiness comparison is against the text '[]', so the operand is
+    // coerced to nvarchar: over a native json column JSON_QUERY returns a
+    // json-typed value that cannot be compared to a varchar literal, while
+    // over an NVARCHAR(MAX) column the cast is a no-op.
+    return node.kind === "path" && isRepeating(node, node.isJson)
+      ? `(${sql} IS NOT NULL AND CAST(${sql} AS NVARCHAR(MAX)) != '[]')`
+      : `(${sql} IS NOT NULL)`;
   }
 
   /**
-   * Builds a subquery for filtering a collection with a where condition.
-   * Returns a subquery that selects the filtered items, allowing further navigation.
+   * Applies first() to an element within a JSON document.
    */
-  private buildWhereExistsClause(
-    source: string,
-    jsonPath: string,
-    filterExprCtx: ExpressionContext,
-  ): string {
-    const tableAlias = "whereItem";
-
-    // Create a new context for the filter condition where expressions refer to items in the collection
-    const itemContext: TranspilerContext = {
-      resourceAlias: tableAlias,
-      constants: this.context.constants,
-      iterationContext: `${tableAlias}.value`,
-    };
-
-    // Transpile the filter expression with the item context
-    const filterVisitor = new FHIRPathToTSqlVisitor(itemContext);
-    const condition = filterVisitor.visit(filterExprCtx);
+  private firstOfPath(node: PathNode): ExpressionNode {
+    // An array, or a repeating element selected as a scalar, needs [0]
+    // indexing
+    if (isRepeating(node, node.isJson)) {
+      return this.pathNode(node.source, `${node.jsonPath}[0]`, false);
+    }
 
-    // Return a subquery that selects the filtered collection
-    // This allows further navigation (e.g., .family) to work correctly
-    return `(SELECT TOP 1 value FROM OPENJSON(${source}, '${jsonPath}') AS ${tableAlias} WHERE ${condition})`;
+    // For non-array fields, first() should return the value as-is since it's already a scalar
+    return node;
   }
 
-  private handleExistsFunctionInvocation(
-    base: string,
-    functionCtx: FunctionInvocationContext,
-  ): string {
-    const paramList = functionCtx.function().paramList();
-
-    // If no arguments, delegate to the standard handler
-    if (!paramList || paramList.expression().length === 0) {
-      const args: string[] = [];
-      return this.handleExistsFunction(args, base);
+  private handleFirstFunctionInvocation(base: ExpressionNode): ExpressionNode {
+    if (base.kind === "path") {
+      return this.firstOfPath(base);
     }
 
-    // Get the raw filter expression context (not transpiled yet)
-    const filterExprCtx = paramList.expression()[0];
-
-    // Call the handler with the base and filter expression context
-    return this.handleExistsFunction([], base, filterExprCtx);
-  }
-
-  private handleFirstFunctionInvocation(base: string): string {
-    // Check if the base is a JSON_QUERY call for an array
-    const queryMatch = /^JSON_QUERY\(([^,]+),\s*'([^']+)'\)$/.exec(base);
-    if (queryMatch) {
-      const source = queryMatch[1];
-      const path = queryMatch[2];
-      return `JSON_VALUE(${source}, '${path}[0]')`;
-    }
-
-    // Check if the base is a JSON_VALUE call
-    const simpleJsonMatch = /^JSON_VALUE\(([^,]+),\s*'([^']+)'\)$/.exec(base);
-    if (simpleJsonMatch) {
-      const source = simpleJsonMatch[1];
-      const path = simpleJsonMatch[2];
-
-      // Check if the path ends with an array field that needs [0] indexing
-      // For known array fields like "given", "family" etc, add [0]
-      const knownArrayFields = [
-        "given",
-        "line",
-        "coding",
-        "telecom",
-        "identifier",
-      ];
-      const pathSegments = path.split(".");
-      const lastSegment = pathSegments[pathSegments.length - 1];
-
-      if (knownArrayFields.includes(lastSegment)) {
-        // This is an array field, add [0] to get first element
-        return `JSON_VALUE(${source}, '${path}[0]')`;
-      }
-
-      // For non-array fields, first() should return the value as-is since it's already a scalar
-      return base;
-    } else if (
-      !base.includes("JSON_VALUE") &&
-      !base.includes("JSON_QUERY") &&
-      !base.includes("EXISTS") &&
-      !base.includes("SELECT")
-    ) {
-      // Simple identifier like 'name'
-      return `JSON_VALUE(${this.context.resourceAlias}.json, '$.${base}[0]')`;
-    } else {
-      // For complex expressions that aren't JSON_QUERY or JSON_VALUE,
-      // we can't easily add [0] indexing, so return as-is
-      return base;
+    // A JSON array computed by a function, e.g. split()
+    if (base.kind === "array") {
+      return this.pathNode(emitTSql(base), "$[0]", false);
     }
-  }
-
-  private createNewIterationContext(base: string): TranspilerContext {
+    // A repeating element within the item selected by an item query
     if (
-      !base.includes("JSON_VALUE") &&
-      !base.includes("JSON_QUERY") &&
-      !base.includes("EXISTS") &&
-      !base.includes("SELECT")
+      base.kind === "itemQuery" &&
+      base.member &&
+      isRepeating(base, base.member.isJson)
     ) {
-      // Simple identifier like 'name' - construct proper JSON path
-      return {
-        ...this.context,
-        iterationContext: `JSON_QUERY(${this.context.resourceAlias}.json, '$.${base}')`,
-      };
-    } else {
-      return {
-        ...this.context,
-        iterationContext: base,
-      };
+      return this.withItemMember(base, `${base.member.jsonPath}[0]`, false);
     }
+    // Other expressions (e.g. an item bound to `$this`) are single values
+    return base;
+  }
+
+  /**
+   * Creates the context for a function invoked on a transpiled expression,
+   * whose input (and `$this`) is that expression.
+   */
+  private createNewIterationContext(base: ExpressionNode): TranspilerContext {
+    return {
+      ...this.context,
+      iterationContext: emitTSql(base),
+      iterationNode: base,
+      contextJson: this.contextJson(),
+    };
   }
 
-  private getParameterList(paramListCtx: ParamListContext): string[] {
+  private getParameterList(paramListCtx: ParamListContext): ExpressionNode[] {
     return paramListCtx.expression().map((expr) => this.visit(expr));
   }
 
@@ -1294,330 +2986,172 @@ export class FHIRPathToTSqlVisitor
     return "";
   }
 
-  private formatConstantValue(value: string | number | boolean | null): string {
-    if (typeof value === "string") {
+  private formatConstantValue(value: ConstantValue): string {
+    if (isComplexConstant(value)) {
+      return complexConstantLiteral(value);
+    } else if (typeof value === "string") {
       return `'${value.replace(/'/g, "''")}'`;
     } else if (typeof value === "number") {
       return value.toString();
     } else if (typeof value === "boolean") {
       // Format as string to match JSON_VALUE output for boolean fields
       return value ? "'true'" : "'false'";
-    } else if (value === null || value === undefined) {
-      return "NULL";
     } else {
-      return `'${JSON.stringify(value).replace(/'/g, "''")}'`;
-    }
-  }
-
-  private executeFunctionHandler(functionName: string, args: string[]): string {
-    const functionMap: Record<string, (args: string[]) => string> = {
-      exists: (args) => this.handleExistsFunction(args),
-      empty: (args) => this.handleEmptyFunction(args),
-      first: (args) => this.handleFirstFunction(args),
-      last: (args) => this.handleLastFunction(args),
-      count: (args) => this.handleCountFunction(args),
-      join: (args) => this.handleJoinFunction(args),
-      where: (args) => this.handleWhereFunction(args),
-      select: (args) => this.handleSelectFunction(args),
-      getResourceKey: () => this.handleGetResourceKeyFunction(),
-      ofType: (args) => this.handleOfTypeFunction(args),
-      not: (args) => this.handleNotFunction(args),
-      extension: (args) => this.handleExtensionFunction(args),
-      lowBoundary: (args) => this.handleBoundaryFunction(functionName, args),
-      highBoundary: (args) => this.handleBoundaryFunction(functionName, args),
-    };
-
-    const handler = functionMap[functionName];
-    if (!handler) {
-      throw new Error(`Unsupported FHIRPath function: ${functionName}`);
+      return "NULL";
     }
-
-    return handler(args);
   }
 
-  // Function handlers (simplified versions of the original implementations)
-  private handleExistsFunction(
-    args: string[],
-    base?: string,
-    filterExprCtx?: ExpressionContext,
-  ): string {
-    // If we have a filter expression context, use it (this comes from handleExistsFunctionInvocation)
-    if (filterExprCtx) {
-      return this.handleExistsWithArgs("", base, filterExprCtx);
-    }
+  private executeFunctionHandler(
+    functionName: string,
+    args: ExpressionNode[],
+  ): ExpressionNode {
+    const functionMap: Record<
+      string,
+      (args: ExpressionNode[]) => ExpressionNode
+    > = {
+      empty: (args) => sqlNode(this.handleEmptyFunction(args)),
+      first: () => this.handleFirstFunctionInvocation(this.contextItem()),
+      last: (args) => sqlNode(this.handleLastFunction(args)),
+      count: (args) => sqlNode(this.handleCountFunction(args)),
+      join: (args) => sqlNode(this.handleJoinFunction(args)),
+      where: (args) => sqlNode(this.handleWhereFunction(args)),
+      select: () => sqlNode(this.handleSelectFunction()),
+      getResourceKey: () => sqlNode(this.handleGetResourceKeyFunction()),
+      resolve: () => this.handleResolve(this.singletonInput()),
+      ofType: (args) => sqlNode(this.handleOfTypeFunction(args)),
+      not: () => sqlNode(this.handleNotFunction()),
+      extension: (args) => this.handleExtensionFunction(args),
+      lowBoundary: (args) =>
+        sqlNode(this.handleBoundaryFunction(functionName, args)),
+      highBoundary: (args) =>
+        sqlNode(this.handleBoundaryFunction(functionName, args)),
+      ...this.libraryFunctionHandlers(STRING_FUNCTIONS),
+      ...this.libraryFunctionHandlers(
+        regexFunctions(this.context.sqlServerVersion),
+      ),
+    };
 
-    // Otherwise check args
-    if (args.length === 0) {
-      return this.handleExistsWithoutArgs(base);
+    if (!Object.hasOwn(functionMap, functionName)) {
+      throw new Error(`Unsupported FHIRPath function: ${functionName}`);
     }
 
-    return this.handleExistsWithArgs(args[0], base, filterExprCtx);
+    return functionMap[functionName](args);
   }
 
   /**
-   * Handles exists() function without arguments, using iteration context or base.
+   * Handlers for the functions of a library, which operate on a single input
+   * value.
    */
-  private handleExistsWithoutArgs(base?: string): string {
-    if (base) {
-      return this.handleExistsWithBase(base);
-    }
-
-    if (this.context.iterationContext) {
-      return this.handleExistsWithIterationContext();
-    }
-
-    // No iteration context or base - check resource
-    return `(${this.context.resourceAlias}.json IS NOT NULL)`;
+  private libraryFunctionHandlers(
+    library: Record<string, LibraryFunction>,
+  ): Record<string, (args: ExpressionNode[]) => ExpressionNode> {
+    return Object.fromEntries(
+      Object.entries(library).map(([name, fn]) => [
+        name,
+        (args: ExpressionNode[]): ExpressionNode => {
+          const sql = callLibraryFunction(
+            name,
+            fn,
+            emitTSql(this.singletonInput()),
+            args.map((arg) => emitTSql(arg)),
+          );
+          return ARRAY_FUNCTIONS.has(name) ? computedArray(sql) : sqlNode(sql);
+        },
+      ]),
+    );
   }
 
-  private handleExistsWithBase(base: string): string {
-    const trimmedBase = base.trim();
-
-    // SELECT subquery from .where() function - wrap in EXISTS
-    if (trimmedBase.startsWith("(SELECT")) {
-      return `EXISTS ${base}`;
-    }
-
-    // Already a boolean expression - return as-is
-    if (this.isBooleanExpression(base)) {
-      return base;
-    }
-
-    // JSON_QUERY (array) - check if not null and not empty. The emptiness
-    // comparison is against the text '[]', so the operand is coerced to
-    // nvarchar: over a native json column JSON_QUERY returns a json-typed value
-    // that cannot be compared to a varchar literal, while over an
-    // NVARCHAR(MAX) column the cast is a no-op.
-    if (base.includes("JSON_QUERY")) {
-      return `(${base} IS NOT NULL AND CAST(${base} AS NVARCHAR(MAX)) != '[]')`;
-    }
-
-    return `(${base} IS NOT NULL)`;
+  /**
+   * The input of a function that operates on a single value. A repeating
+   * element contributes its first item.
+   */
+  private singletonInput(): ExpressionNode {
+    return this.singleValue(this.contextItem());
   }
 
-  private handleExistsWithIterationContext(): string {
-    // This method is only called when iterationContext is defined
-    const iterCtx = this.context.iterationContext;
-    if (!iterCtx) {
-      throw new Error(
-        "handleExistsWithIterationContext called without iteration context",
-      );
-    }
-
-    const trimmedIterCtx = iterCtx.trim();
-
-    // Already an EXISTS clause - return as-is
-    if (trimmedIterCtx.startsWith("EXISTS")) {
-      return iterCtx;
-    }
-
-    // SELECT subquery - wrap in EXISTS
-    if (trimmedIterCtx.startsWith("(SELECT")) {
-      return `EXISTS ${iterCtx}`;
-    }
-
-    // Already a boolean expression - return as-is
-    if (this.isBooleanExpression(trimmedIterCtx)) {
-      return iterCtx;
-    }
-
-    // JSON_QUERY (array) - check if not null and not empty. The operand is cast
-    // to nvarchar so the '[]' comparison is valid on a native json column (a
-    // no-op on NVARCHAR(MAX)).
-    if (trimmedIterCtx.includes("JSON_QUERY")) {
-      return `(${iterCtx} IS NOT NULL AND CAST(${iterCtx} AS NVARCHAR(MAX)) != '[]')`;
-    }
-
-    // Otherwise check if not null
-    return `(${iterCtx} IS NOT NULL)`;
+  /**
+   * The first item of an expression addressing a repeating element, or the
+   * expression itself.
+   */
+  private singleValue(node: ExpressionNode): ExpressionNode {
+    return node.kind === "path" && isRepeating(node, node.isJson)
+      ? this.pathNode(node.source, `${node.jsonPath}[0]`, false)
+      : node;
   }
 
   /**
    * Builds an EXISTS clause with an OPENJSON subquery for filtering a collection.
    */
   private buildExistsWithFilter(
-    base: string,
+    base: ExpressionNode,
     filterExprCtx: ExpressionContext,
   ): string {
-    const { source, jsonPath } = this.extractSourceAndPath(base);
+    const { source, jsonPath } = this.itemsSource(base);
     const tableAlias = "existsItem";
 
-    const itemContext: TranspilerContext = {
-      resourceAlias: tableAlias,
-      constants: this.context.constants,
-      iterationContext: `${tableAlias}.value`,
-    };
+    const itemContext = this.createItemContext(tableAlias, source, jsonPath);
 
     const filterVisitor = new FHIRPathToTSqlVisitor(itemContext);
-    const condition = filterVisitor.visit(filterExprCtx);
+    const condition = filterVisitor.predicate(filterExprCtx);
 
     return `EXISTS (SELECT 1 FROM OPENJSON(${source}, '${jsonPath}') AS ${tableAlias} WHERE ${condition})`;
   }
 
   /**
-   * Handles exists() function with an argument expression.
-   */
-  private handleExistsWithArgs(
-    arg: string,
-    base?: string,
-    filterExprCtx?: ExpressionContext,
-  ): string {
-    // If we have a filter expression context and a base, create an OPENJSON subquery
-    if (filterExprCtx && base) {
-      return this.buildExistsWithFilter(base, filterExprCtx);
-    }
-
-    const trimmedArg = arg.trim();
-
-    // If already an EXISTS clause, return as-is
-    if (trimmedArg.startsWith("EXISTS")) {
-      return arg;
-    }
-
-    // If the argument is a SELECT subquery (from .where() function), wrap in EXISTS
-    if (trimmedArg.startsWith("(SELECT")) {
-      return `EXISTS ${arg}`;
-    }
-
-    // If already a boolean expression, return as-is
-    if (this.isBooleanExpression(trimmedArg)) {
-      return arg;
-    }
-
-    // If the argument is a JSON_QUERY (array), check if it's not null and not
-    // empty. The operand is cast to nvarchar so the '[]' comparison is valid on
-    // a native json column (a no-op on NVARCHAR(MAX)).
-    if (trimmedArg.includes("JSON_QUERY")) {
-      return `(${arg} IS NOT NULL AND CAST(${arg} AS NVARCHAR(MAX)) != '[]')`;
-    }
-
-    // Otherwise wrap in IS NOT NULL check
-    return `(${arg} IS NOT NULL)`;
-  }
-
-  /**
-   * Checks if an expression is a boolean expression (contains comparison operators).
+   * Transpiles empty(), which is true where its input has no items. A
+   * repeating element is read as a JSON array, which may be empty, and any
+   * other value is empty where it is NULL.
    */
-  private isBooleanExpression(expr: string): boolean {
-    return (
-      expr.includes(" = ") ||
-      expr.includes(" != ") ||
-      expr.includes(" < ") ||
-      expr.includes(" > ") ||
-      expr.includes(" <= ") ||
-      expr.includes(" >= ") ||
-      expr.includes(" AND ") ||
-      expr.includes(" OR ") ||
-      expr.startsWith("NOT ") ||
-      expr.startsWith("(NOT ")
-    );
-  }
-
-  private handleEmptyFunction(args: string[]): string {
-    // If we have arguments, we need to check if that expression is empty
-    if (args.length > 0) {
-      const expression = args[0];
-
-      // If the expression is an EXISTS clause, we need to negate it
-      if (expression.includes("EXISTS")) {
-        return `(NOT ${expression})`;
-      }
-
-      return `(CASE
-        WHEN ${expression} IS NULL THEN 1
-        WHEN CAST(JSON_QUERY(${expression}) AS NVARCHAR(MAX)) = '[]' THEN 1
-        WHEN JSON_VALUE(${expression}) IS NULL THEN 1
-        ELSE 0
-      END = 1)`;
-    }
-
-    // No arguments - check current iteration context
-    if (this.context.iterationContext) {
-      // If the current iteration context is an EXISTS clause, negate it
-      if (this.context.iterationContext.includes("EXISTS")) {
-        return `(NOT ${this.context.iterationContext})`;
-      }
-
-      if (this.context.iterationContext.includes("JSON_QUERY")) {
-        return `(CASE 
-          WHEN ${this.context.iterationContext} IS NULL THEN 1
-          WHEN CAST(${this.context.iterationContext} AS NVARCHAR(MAX)) = '[]' THEN 1
-          WHEN CAST(${this.context.iterationContext} AS NVARCHAR(MAX)) = 'null' THEN 1
-          ELSE 0 
-        END = 1)`;
-      } else if (this.context.iterationContext.includes("JSON_VALUE")) {
-        return `(CASE WHEN ${this.context.iterationContext} IS NULL THEN 1 ELSE 0 END = 1)`;
-      } else {
-        return `(CASE
-          WHEN JSON_QUERY(${this.context.iterationContext}) IS NULL THEN 1
-          WHEN CAST(JSON_QUERY(${this.context.iterationContext}) AS NVARCHAR(MAX)) = '[]' THEN 1
-          ELSE 0
-        END = 1)`;
-      }
-    } else {
-      return `(CASE WHEN ${this.context.resourceAlias}.json IS NULL THEN 1 ELSE 0 END = 1)`;
+  private handleEmptyFunction(args: ExpressionNode[]): string {
+    const input = args[0] ?? this.contextItem();
+    if (input.kind === "itemQuery" && input.member !== null) {
+      return `(NOT ${hasItems(this.collectionOfElement(input))})`;
     }
+    const sql = emitTSql(input);
+    // The emptiness comparison is against the text '[]', so the operand is
+    // coerced to nvarchar, as for exists()
+    return input.kind === "path" && isRepeating(input, input.isJson)
+      ? `(${sql} IS NULL OR CAST(${sql} AS NVARCHAR(MAX)) = '[]')`
+      : `(${sql} IS NULL)`;
   }
 
-  private handleFirstFunction(_args: string[]): string {
-    if (this.context.iterationContext) {
-      // Check if we have a JSON_QUERY expression for an array
-      if (this.context.iterationContext.includes("JSON_QUERY")) {
-        const match = /JSON_QUERY\(([^,]+),\s*'([^']+)'\)/.exec(
-          this.context.iterationContext,
-        );
-        if (match) {
-          const source = match[1];
-          const path = match[2];
-          return `JSON_VALUE(${source}, '${path}[0]')`;
-        }
-      }
-
-      if (this.context.iterationContext.includes("[0]")) {
-        return this.context.iterationContext;
-      }
-      return `JSON_VALUE(${this.context.iterationContext}, '$[0]')`;
-    } else {
-      return `JSON_VALUE(${this.context.resourceAlias}.json, '$[0]')`;
-    }
+  private handleLastFunction(args: ExpressionNode[]): string {
+    return this.collectionFunction("last", args[0] ?? this.collectionInput())
+      .sql;
   }
 
-  private handleLastFunction(args: string[]): string {
-    const pathExpr =
-      args.length > 0
-        ? args[0]
-        : (this.context.iterationContext ??
-          `${this.context.resourceAlias}.json`);
-    return `JSON_VALUE(${pathExpr}, '$[last]')`;
+  private handleCountFunction(args: ExpressionNode[]): string {
+    return this.collectionFunction("count", args[0] ?? this.collectionInput())
+      .sql;
   }
 
-  private handleCountFunction(args: string[]): string {
-    const countPath =
-      args.length > 0
-        ? args[0]
-        : (this.context.iterationContext ??
-          `${this.context.resourceAlias}.json`);
-    return `JSON_ARRAY_LENGTH(${countPath})`;
+  /**
+   * The input collection of a function invoked without an explicit input.
+   */
+  private collectionInput(): ExpressionNode {
+    return this.contextItem();
   }
 
-  private handleJoinFunction(args: string[]): string {
+  private handleJoinFunction(args: ExpressionNode[]): string {
     let separator = "''";
     if (args.length > 0) {
-      separator = args[0];
+      separator = emitTSql(args[0]);
     }
 
-    const context =
-      this.context.iterationContext ?? `${this.context.resourceAlias}.json`;
+    const contextItem = this.contextItem();
+    if (contextItem.kind === "itemQuery" && contextItem.member !== null) {
+      return joinItems(this.collectionOfElement(contextItem), separator);
+    }
+    const context = emitTSql(contextItem);
 
-    // Check if context is a JSON_QUERY that accesses a nested array path (e.g., '$.name[0].given')
-    // If so, we need to iterate over ALL parent array elements, not just [0]
-    const nestedArrayMatch =
-      /JSON_QUERY\(([^,]+),\s*'(\$\.[^']+)\[0]\.([^']+)'\)/.exec(context);
+    // Check if context is an array nested within the first item of another
+    // (e.g., '$.name[0].given'). If so, we need to iterate over ALL parent
+    // array elements, not just [0]. Computed arrays (e.g. from split()) are
+    // joined as they are.
+    const nested = this.nestedArray(contextItem);
 
-    if (nestedArrayMatch) {
-      const source = nestedArrayMatch[1];
-      const parentPath = nestedArrayMatch[2]; // e.g., '$.name'
-      const childField = nestedArrayMatch[3]; // e.g., 'given'
+    if (nested) {
+      const { source, parentPath, childField } = nested;
 
       // Iterate over ALL parent array elements and aggregate ALL child array
       // values. STRING_AGG yields SQL NULL when the grouped set is empty, which
@@ -1625,7 +3159,7 @@ export class FHIRPathToTSqlVisitor
       // (FR-001): "nothing to join" must be NULL, not an empty string. The inner
       // ISNULL keeps a present-but-null element contributing an empty string so
       // it does not nullify the whole result (FR-002).
-      return `(SELECT STRING_AGG(ISNULL(childValue.value, ''), ${separator}) WITHIN GROUP (ORDER BY parentItem.[key], childValue.[key])
+      return `(SELECT STRING_AGG(ISNULL(childValue.value, ''), ${separator}) WITHIN GROUP (ORDER BY CAST(parentItem.[key] AS INT), CAST(childValue.[key] AS INT))
               FROM OPENJSON(${source}, '${parentPath}') AS parentItem
               CROSS APPLY OPENJSON(parentItem.value, '$.${childField}') AS childValue
               WHERE childValue.type IN (1, 2))`;
@@ -1634,23 +3168,44 @@ export class FHIRPathToTSqlVisitor
     // Standard join for simple arrays. As above, the empty collection falls
     // through STRING_AGG as SQL NULL (FR-001) while the inner ISNULL preserves
     // empty strings for present-but-null elements (FR-002).
-    return `(SELECT STRING_AGG(ISNULL(value, ''), ${separator}) WITHIN GROUP (ORDER BY [key])
+    return `(SELECT STRING_AGG(ISNULL(value, ''), ${separator}) WITHIN GROUP (ORDER BY CAST([key] AS INT))
             FROM OPENJSON(${context})
             WHERE type IN (1, 2))`;
   }
 
-  private handleWhereFunction(_args: string[]): string {
+  /**
+   * The parent array and child field of an array read from the first item of
+   * another, e.g. (`r.json`, `$.name[0].given`) → (`$.name`, `given`).
+   */
+  private nestedArray(
+    node: ExpressionNode,
+  ): { source: string; parentPath: string; childField: string } | null {
+    if (node.kind !== "path" || !isRepeating(node, node.isJson)) {
+      return null;
+    }
+    const separator = node.jsonPath.lastIndexOf("[0].");
+    if (!node.jsonPath.startsWith("$.") || separator < 3) {
+      return null;
+    }
+    return {
+      source: node.source,
+      parentPath: node.jsonPath.substring(0, separator),
+      childField: node.jsonPath.substring(separator + 4),
+    };
+  }
+
+  private handleWhereFunction(_args: ExpressionNode[]): string {
     // This should not be called anymore since where() is handled specially in handleFunctionInvocation
     throw new Error(
       "where() function should be handled by handleWhereFunctionInvocation",
     );
   }
 
-  private handleSelectFunction(args: string[]): string {
-    if (args.length !== 1) {
-      throw new Error("select() function requires exactly one argument");
-    }
-    return args[0];
+  private handleSelectFunction(): string {
+    // This should not be called anymore since select() is handled specially in handleFunctionInvocation
+    throw new Error(
+      "select() function should be handled by handleSelectFunctionInvocation",
+    );
   }
 
   private handleGetResourceKeyFunction(): string {
@@ -1658,7 +3213,7 @@ export class FHIRPathToTSqlVisitor
     return `CONCAT(${this.context.resourceAlias}.resource_type, '/', JSON_VALUE(${this.context.resourceAlias}.json, '$.id'))`;
   }
 
-  private handleOfTypeFunction(_args: string[]): string {
+  private handleOfTypeFunction(_args: ExpressionNode[]): string {
     // This should not be called anymore since ofType() is handled specially in handleFunctionInvocation
     throw new Error(
       "ofType() function should be handled by handleOfTypeFunctionInvocation",
@@ -1675,25 +3230,14 @@ export class FHIRPathToTSqlVisitor
       // If we're in an iteration context, the context points to the Reference object
       // We need to extract the .reference field
       const refSource = this.context.iterationContext;
+      const node = this.contextItem();
 
-      let referenceExpr: string;
-
-      // Check if it's a JSON_VALUE call - extract just the reference field
-      if (refSource.includes("JSON_VALUE")) {
-        // Replace the current path with .reference
-        const match = /JSON_VALUE\(([^,]+),\s*'([^']+)'\)/.exec(refSource);
-        if (match) {
-          const source = match[1];
-          const path = match[2];
-          referenceExpr = `JSON_VALUE(${source}, '${path}.reference')`;
-        } else {
-          // Fallback
-          referenceExpr = `JSON_VALUE(${refSource}, '$.reference')`;
-        }
-      } else {
-        // For simple iteration context like "forEach_0.value"
-        referenceExpr = `JSON_VALUE(${refSource}, '$.reference')`;
-      }
+      // A scalar path is extended to its .reference field, and anything else
+      // (e.g. "forEach_0.value") holds the Reference object
+      const referenceExpr =
+        node.kind === "path" && !isRepeating(node, node.isJson)
+          ? `JSON_VALUE(${node.source}, '${node.jsonPath}.reference')`
+          : `JSON_VALUE(${refSource}, '$.reference')`;
 
       // If a resource type is specified, only return the reference if it matches
       if (resourceType) {
@@ -1707,30 +3251,34 @@ export class FHIRPathToTSqlVisitor
     throw new Error("getReferenceKey() requires a Reference object context");
   }
 
-  private handleNotFunction(args: string[]): string {
-    if (args.length > 0) {
-      return `NOT (${args[0]})`;
-    }
-    if (this.context.iterationContext) {
-      return `NOT (${this.context.iterationContext})`;
-    }
-    return "NOT (1=1)";
+  /**
+   * Transpiles not() without an input expression, which negates the current
+   * item or resource.
+   */
+  private handleNotFunction(): string {
+    const input = this.contextItem();
+    return `(NOT ${valueCondition(emitTSql(input), this.elementSystemType(input) === "Boolean")})`;
   }
 
-  private handleExtensionFunction(args: string[]): string {
+  private handleExtensionFunction(args: ExpressionNode[]): ExpressionNode {
     if (args.length !== 1) {
       throw new Error("extension() function requires exactly one argument");
     }
 
     // extension('url') is equivalent to .extension.where(url = 'url')
     // Returns the filtered extension object(s) as a JSON_QUERY result
-    const extensionUrl = args[0];
+    const extensionUrl = emitTSql(args[0]);
     const base =
       this.context.iterationContext ?? `${this.context.resourceAlias}.json`;
 
     // Generate SQL that filters the extension array by URL
     // Returns the first matching extension as a JSON value
-    return `(SELECT TOP 1 value FROM OPENJSON(${base}, '$.extension') WHERE JSON_VALUE(value, '$.url') = ${extensionUrl})`;
+    return this.itemQueryNode(
+      base,
+      "$.extension",
+      null,
+      `JSON_VALUE(value, '$.url') = ${extensionUrl}`,
+    );
   }
 
   /**
@@ -1753,7 +3301,10 @@ export class FHIRPathToTSqlVisitor
    * @throws If called with an explicit-precision argument, or resolved (via
    *   ofType) to a datatype for which boundaries are not supported (FR-008).
    */
-  private handleBoundaryFunction(functionName: string, args: string[]): string {
+  private handleBoundaryFunction(
+    functionName: string,
+    args: ExpressionNode[],
+  ): string {
     // The optional explicit-precision argument is out of scope; reject it with a
     // clear error rather than silently returning a wrong value (FR-008).
     if (args.length > 0) {
@@ -1895,3 +3446,199 @@ export class FHIRPathToTSqlVisitor
     return `CAST(${value} AS DECIMAL(38, 18)) ${op} ${delta}`;
   }
 }
+
+/**
+ * The System type of a literal, other than a number.
+ */
+function literalSystemType(literal: LiteralContext): string | null {
+  if (literal instanceof BooleanLiteralContext) {
+    return "Boolean";
+  }
+  if (literal instanceof StringLiteralContext) {
+    return "String";
+  }
+  if (literal instanceof DateLiteralContext) {
+    return "Date";
+  }
+  if (literal instanceof DateTimeLiteralContext) {
+    return "DateTime";
+  }
+  if (literal instanceof QuantityLiteralContext) {
+    return "Quantity";
+  }
+  return literal instanceof TimeLiteralContext ? "Time" : null;
+}
+
+/**
+ * The quantity of an expression that is a quantity literal, or null.
+ */
+function quantityLiteral(ctx: ExpressionContext): QuantityContext | null {
+  const term = ctx instanceof TermExpressionContext ? ctx.term() : null;
+  const literal = term instanceof LiteralTermContext ? term.literal() : null;
+  return literal instanceof QuantityLiteralContext ? literal.quantity() : null;
+}
+
+/**
+ * The unit of a quantity: a calendar duration keyword, or a UCUM unit without
+ * its quotes. A quantity without a unit has the UCUM unit '1'.
+ */
+function quantityUnit(quantity: QuantityContext): string {
+  const unit = quantity.unit();
+  const ucum = unit?.STRING();
+  return ucum ? ucum.text.slice(1, -1) : (unit?.text ?? "1");
+}
+
+/**
+ * Whether an expression is a Boolean operator or a call of a Boolean function.
+ */
+function isBooleanContext(ctx: ExpressionContext): boolean {
+  if (ctx instanceof InvocationExpressionContext) {
+    return isBooleanFunction(ctx.invocation());
+  }
+  const term = ctx instanceof TermExpressionContext ? ctx.term() : null;
+  if (term instanceof InvocationTermContext) {
+    return isBooleanFunction(term.invocation());
+  }
+  return (
+    BOOLEAN_OPERATORS.some((operator) => ctx instanceof operator) ||
+    (ctx instanceof TypeExpressionContext && ctx.getChild(1).text === "is")
+  );
+}
+
+function isBooleanFunction(invocation: InvocationContext): boolean {
+  const name = functionName(invocation);
+  return name !== null && BOOLEAN_FUNCTIONS.has(name);
+}
+
+/**
+ * The name of the function an invocation calls, if it is a function call.
+ */
+function functionName(invocation: InvocationContext): string | null {
+  return invocation instanceof FunctionInvocationContext
+    ? invocation.function().identifier().text
+    : null;
+}
+
+/**
+ * The Boolean value of a condition as text, as read from JSON, which is empty
+ * where the condition is unknown.
+ */
+function booleanText(condition: string): string {
+  return `(CASE WHEN ${condition} THEN 'true' WHEN NOT ${condition} THEN 'false' END)`;
+}
+
+/**
+ * A condition as a Boolean value, `'true'` or `'false'`, as an element holding
+ * a Boolean is read, which is empty (NULL) where the condition is unknown.
+ */
+function booleanValue(condition: string): ExpressionNode {
+  return sqlNode(booleanText(condition), {
+    ...untyped(),
+    fhirType: "boolean",
+    cardinality: "single",
+    isBoolean: true,
+  });
+}
+
+/**
+ * The condition for a value that is not itself a condition: true where a
+ * Boolean value is true, or where any other value is present.
+ */
+function valueCondition(sql: string, isBoolean: boolean): string {
+  return isBoolean ? `(${sql} = 'true')` : `(${sql} IS NOT NULL)`;
+}
+
+/**
+ * An expression, checked not to read a collection by a function or operator
+ * that transpiles to a subquery, which the recursive member of a CTE may not
+ * contain.
+ *
+ * @param ctx - The expression.
+ * @param role - What the expression is, e.g. the aggregator of aggregate().
+ */
+function withoutCollectionReads(
+  ctx: ExpressionContext,
+  role: string,
+): ExpressionContext {
+  if (readsCollection(ctx)) {
+    throw new Error(
+      `${role} must not read a collection, as it is evaluated within a recursive CTE: ${ctx.text}`,
+    );
+  }
+  return ctx;
+}
+
+/**
+ * Whether an expression reads a collection by a function or operator that
+ * transpiles to a subquery.
+ */
+function readsCollection(tree: ParseTree): boolean {
+  if (
+    tree instanceof UnionExpressionContext ||
+    tree instanceof MembershipExpressionContext
+  ) {
+    return true;
+  }
+  if (tree instanceof FunctionContext) {
+    const name = tree.identifier().text;
+    if (
+      COLLECTION_READERS.has(name) ||
+      (name === "exists" && tree.paramList() !== undefined)
+    ) {
+      return true;
+    }
+  }
+  for (let i = 0; i < tree.childCount; i++) {
+    if (readsCollection(tree.getChild(i))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * The name of an identifier, without the backticks of a delimited identifier.
+ */
+function identifierName(ctx: IdentifierContext): string {
+  const delimitedIdentifier = ctx.DELIMITEDIDENTIFIER();
+  // Remove backticks
+  return delimitedIdentifier ? delimitedIdentifier.text.slice(1, -1) : ctx.text;
+}
+
+/**
+ * The qualified name of a type specifier, e.g. `FHIR.Quantity`.
+ */
+function typeSpecifierName(ctx: TypeSpecifierContext): string {
+  return ctx
+    .qualifiedIdentifier()
+    .identifier()
+    .map((identifier) => identifierName(identifier))
+    .join(".");
+}
+
+/**
+ * The SQL type of numbers of a numeric type.
+ */
+function sqlNumericType(type: NumericType): string {
+  return type === "integer" ? INTEGER_SQL_TYPE : DECIMAL_SQL_TYPE;
+}
+
+/**
+ * The numeric type of the results of operations on numbers of the given
+ * types, which is decimal if either is, and otherwise that of either.
+ */
+function commonNumericType(
+  first: NumericType | null,
+  second: NumericType | null,
+): NumericType | null {
+  return first === "decimal" || second === "decimal"
+    ? "decimal"
+    : (first ?? second);
+}
+
+/**
+ * The BIT value of a condition, which is NULL where the condition is unknown.
+ */
+function bitValue(condition: string): string {
+  return `CAST(CASE WHEN ${condition} THEN 1 WHEN NOT ${condition} THEN 0 END AS BIT)`;
+}
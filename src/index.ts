@@ -10,13 +10,30 @@ export {
   ViewDefinitionWhere,
   TranspilationResult,
   ColumnInfo,
+  SourceMapping,
+  SqlKind,
   TestSuite,
   TestCase,
 } from "./types.js";
 export { ViewDefinitionParser } from "./parser.js";
 export { QueryGenerator, QueryGeneratorOptions } from "./queryGenerator";
+export { annotateSql } from "./queryGenerator/treeWalker/index.js";
 export { Transpiler, TranspilerContext } from "./fhirpath/transpiler";
+export {
+  CustomFunction,
+  FunctionCallContext,
+  FunctionSignature,
+} from "./fhirpath/customFunctions.js";
+export {
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticError,
+  formatDiagnostics,
+  SourceRange,
+  SuggestedFix,
+} from "./diagnostics.js";
 
+import { Diagnostic, DiagnosticError } from "./diagnostics.js";
 import { ViewDefinitionParser } from "./parser.js";
 import { QueryGenerator, QueryGeneratorOptions } from "./queryGenerator";
 import { TranspilationResult, ViewDefinition } from "./types.js";
@@ -40,19 +57,42 @@ export class SqlOnFhir {
    * Transpile a ViewDefinition to a T-SQL query.
    *
    * @param viewDefinition - The ViewDefinition to transpile
+   * @throws {DiagnosticError} If the ViewDefinition is invalid or cannot be
+   *   transpiled, with diagnostics locating the problems found.
    */
   transpile(viewDefinition: ViewDefinitionInput): TranspilationResult {
-    let viewDef: ViewDefinition;
+    return this.queryGenerator.generateQuery(this.parse(viewDefinition));
+  }
 
+  /**
+   * Type check the FHIRPath expressions of a ViewDefinition against the FHIR
+   * type model, reporting unknown elements, misuse of choice types and
+   * columns that do not match the types of their paths.
+   *
+   * @param viewDefinition - The ViewDefinition to check
+   */
+  check(viewDefinition: ViewDefinitionInput): Diagnostic[] {
+    return this.queryGenerator.check(this.parse(viewDefinition));
+  }
+
+  private parse(viewDefinition: ViewDefinitionInput): ViewDefinition {
     if (
       typeof viewDefinition === "string" ||
       (typeof viewDefinition === "object" && "resourceType" in viewDefinition)
     ) {
-      viewDef = ViewDefinitionParser.parseViewDefinition(viewDefinition);
-    } else {
-      viewDef = viewDefinition as ViewDefinition;
+      try {
+        return ViewDefinitionParser.parseViewDefinition(viewDefinition);
+      } catch (error) {
+        throw new DiagnosticError([
+          {
+            severity: "error",
+            code: "invalid-view",
+            message: error instanceof Error ? error.message : String(error),
+            pointer: "",
+          },
+        ]);
+      }
     }
-
-    return this.queryGenerator.generateQuery(viewDef);
+    return viewDefinition as ViewDefinition;
   }
 }
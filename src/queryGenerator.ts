@@ -2,30 +2,107 @@
  * T-SQL query generator for ViewDefinition structures.
  *
  * Public façade over the tree-walker query compiler. Builds the base
- * transpiler context (resource alias, constants, optional test id) and
- * delegates SQL generation to `compileViewDefinition`.
+ * transpiler context (resource alias, resource type, the type model for the
+ * targeted FHIR version, profile, constants, optional test id) and delegates SQL
+ * generation to `compileViewDefinition`.
  */
 
+import {
+  type Diagnostic,
+  DiagnosticError,
+  errorDiagnostic,
+  ViewElementError,
+} from "./diagnostics.js";
+import type { ConstantValue } from "./fhirpath/constants.js";
+import {
+  type CustomFunction,
+  type FunctionRegistry,
+  functionRegistry,
+} from "./fhirpath/customFunctions.js";
+import { ENVIRONMENT_VARIABLES } from "./fhirpath/environment.js";
+import { DATE_TIME_WITH_OFFSET } from "./fhirpath/temporalFunctions.js";
+import { terminologyTables } from "./fhirpath/terminologyFunctions.js";
 import { TranspilerContext } from "./fhirpath/transpiler.js";
 import { compileViewDefinition } from "./queryGenerator/treeWalker/index.js";
+import { DEFAULT_TERMINOLOGY_TABLE_NAMES } from "./terminology/tables.js";
+import {
+  FhirProfile,
+  type FhirRelease,
+  FhirTypeModel,
+  getTypeModel,
+  loadProfiles,
+  resolveFhirRelease,
+} from "./typeModel/index.js";
 import {
   TranspilationResult,
   ViewDefinition,
   ViewDefinitionConstant,
 } from "./types.js";
+import { checkViewDefinition } from "./viewChecker.js";
 
 export interface QueryGeneratorOptions {
   tableName?: string;
   schemaName?: string;
   resourceIdColumn?: string;
   resourceJsonColumn?: string;
+  // FHIR version assumed for views that do not declare `fhirVersion`, as a
+  // release name (R4, R4B, R5) or version number (e.g. 4.0.1). Default: R4.
+  fhirVersion?: string;
+  // FHIR packages (e.g. implementation guides) that define the profiles views
+  // may name in `profile`: package tarballs (.tgz), unpacked packages or
+  // directories of tarballs.
+  packages?: string[];
+  // SQL Server version the generated T-SQL targets (2017 or later), which
+  // determines the features it may use, e.g. regular expressions from 2025.
+  // Default: 2017.
+  sqlServerVersion?: number;
+  // A fixed time for now(), today() and timeOfDay() to return, as a date time
+  // with a time zone offset (e.g. "2024-01-01T00:00:00Z"), so that results
+  // are reproducible. Default: the clock of the server.
+  now?: string;
+  // Tables holding the expansions of value sets and the ancestors of concepts,
+  // within the schema, which memberOf(), subsumes() and subsumedBy() read.
+  // Defaults: fhir_valueset_members and fhir_concept_ancestors.
+  valueSetTableName?: string;
+  conceptAncestorTableName?: string;
+  // Whether resolve() follows references to resources within the table, which
+  // adds a correlated lookup for each resolution. Default: false.
+  resolveReferences?: boolean;
+  // Base URLs of absolute references that resolve() treats as references to
+  // resources within the table (e.g. "https://example.org/fhir"). Default:
+  // none.
+  referenceBaseUrls?: string[];
+  // Values of variables that expressions may refer to (e.g. `%cutoff`), by
+  // name without `%`. ViewDefinition constants of the same name take
+  // precedence. Environment variables such as `%resource` cannot be redefined.
+  variables?: { [key: string]: string | number | boolean | null };
+  // Whether the FHIRPath expressions of views are type checked against the
+  // FHIR type model before a query is generated, which fails where errors are
+  // found. Default: false.
+  typeCheck?: boolean;
+  // Custom FHIRPath functions that expressions may call, each transpiled by
+  // its own emitter. A function may replace a built-in function of the same
+  // name only where it is registered with `override: true`. Default: none.
+  functions?: CustomFunction[];
+  // Whether results include a source map linking each SELECT-list item, APPLY
+  // or JOIN clause, CTE and WHERE predicate of the query to the JSON pointer
+  // of the ViewDefinition element that produced it. Default: false.
+  sourceMap?: boolean;
 }
 
+/**
+ * The earliest SQL Server version the generated T-SQL supports.
+ */
+const MINIMUM_SQL_SERVER_VERSION = 2017;
+
 /**
  * Compiles a SQL on FHIR `ViewDefinition` to a T-SQL query.
  */
 export class QueryGenerator {
-  private readonly options: Required<QueryGeneratorOptions>;
+  private readonly options: Required<Omit<QueryGeneratorOptions, "now">> &
+    Pick<QueryGeneratorOptions, "now">;
+  private profiles: Map<string, FhirProfile> | null = null;
+  private readonly functions: FunctionRegistry;
 
   constructor(options: QueryGeneratorOptions = {}) {
     this.options = {
@@ -33,35 +110,115 @@ export class QueryGenerator {
       schemaName: "dbo",
       resourceIdColumn: "id",
       resourceJsonColumn: "json",
+      fhirVersion: "R4",
+      packages: [],
+      resolveReferences: false,
+      referenceBaseUrls: [],
+      typeCheck: false,
+      functions: [],
+      sourceMap: false,
+      ...DEFAULT_TERMINOLOGY_TABLE_NAMES,
       ...options,
+      sqlServerVersion: options.sqlServerVersion ?? MINIMUM_SQL_SERVER_VERSION,
+      variables: options.variables ?? {},
     };
+    if (
+      !Number.isInteger(this.options.sqlServerVersion) ||
+      this.options.sqlServerVersion < MINIMUM_SQL_SERVER_VERSION
+    ) {
+      throw new Error(
+        `Unsupported SQL Server version '${this.options.sqlServerVersion}': ${MINIMUM_SQL_SERVER_VERSION} or later is required`,
+      );
+    }
+    if (
+      this.options.now !== undefined &&
+      !DATE_TIME_WITH_OFFSET.test(this.options.now)
+    ) {
+      throw new Error(
+        `Invalid current time '${this.options.now}': a date time with a time zone offset is required`,
+      );
+    }
+    const reserved = Object.keys(this.options.variables).find((name) =>
+      ENVIRONMENT_VARIABLES.includes(name),
+    );
+    if (reserved !== undefined) {
+      throw new Error(
+        `Variable '%${reserved}' is an environment variable and cannot be redefined`,
+      );
+    }
+    this.functions = functionRegistry(this.options.functions);
   }
 
   /**
    * Generate a T-SQL query from a ViewDefinition.
+   *
+   * @throws {DiagnosticError} If the ViewDefinition is invalid or a query
+   *   cannot be generated for it, with a diagnostic locating the problem.
    */
   generateQuery(viewDef: ViewDefinition, testId?: string): TranspilationResult {
     try {
+      if (this.options.typeCheck) {
+        this.assertTypeChecks(viewDef);
+      }
       const transpilerCtx = this.createBaseContext(viewDef, testId);
       return compileViewDefinition(viewDef, {
         tableName: this.options.tableName,
         schemaName: this.options.schemaName,
         testId,
         transpilerCtx,
+        sourceMap: this.options.sourceMap,
       });
     } catch (error) {
-      throw new Error(`Failed to generate query for ViewDefinition: ${error}`);
+      throw error instanceof DiagnosticError
+        ? error
+        : new DiagnosticError([errorDiagnostic(error, viewDef)]);
+    }
+  }
+
+  /**
+   * Check the FHIRPath expressions of a ViewDefinition against the FHIR type
+   * model of the version it targets, without generating a query.
+   *
+   * @returns The problems found, each located by a JSON pointer to the
+   *   element of the ViewDefinition it was found in.
+   */
+  check(viewDef: ViewDefinition): Diagnostic[] {
+    try {
+      return checkViewDefinition(
+        viewDef,
+        this.getTypeModel(viewDef),
+        this.getProfile(viewDef),
+        this.functions,
+      );
+    } catch (error) {
+      if (error instanceof ViewElementError) {
+        return [errorDiagnostic(error, viewDef)];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * @throws If type checking the ViewDefinition finds errors.
+   */
+  private assertTypeChecks(viewDef: ViewDefinition): void {
+    const errors = this.check(viewDef).filter(
+      (diagnostic) => diagnostic.severity === "error",
+    );
+    if (errors.length > 0) {
+      throw new DiagnosticError(errors);
     }
   }
 
   /**
-   * Create the base transpiler context with resource alias and constants.
+   * Create the base transpiler context with resource alias, resource type,
+   * profile and constants.
    */
   private createBaseContext(
     viewDef: ViewDefinition,
     testId?: string,
   ): TranspilerContext {
-    const constants: { [key: string]: string | number | boolean | null } = {};
+    const constants: { [key: string]: ConstantValue } = {};
 
     if (viewDef.constant) {
       for (const constant of viewDef.constant) {
@@ -71,58 +228,130 @@ export class QueryGenerator {
 
     return {
       resourceAlias: "r",
+      resourceType: viewDef.resource,
+      typeModel: this.getTypeModel(viewDef),
+      profile: this.getProfile(viewDef),
+      sqlServerVersion: this.options.sqlServerVersion,
+      now: this.options.now,
+      terminologyTables: terminologyTables(this.options.schemaName, {
+        valueSetTableName: this.options.valueSetTableName,
+        conceptAncestorTableName: this.options.conceptAncestorTableName,
+      }),
+      referenceResolution: this.options.resolveReferences
+        ? {
+            table: `[${this.options.schemaName}].[${this.options.tableName}]`,
+            baseUrls: this.options.referenceBaseUrls,
+          }
+        : undefined,
       constants,
+      variables: this.options.variables,
+      functions: this.functions,
       testId,
     };
   }
 
+  /**
+   * Get the type model for the FHIR version the view targets. Where the view
+   * lists several versions, the first determines the semantics used.
+   */
+  private getTypeModel(viewDef: ViewDefinition): FhirTypeModel {
+    const typeModel = getTypeModel(this.getFhirRelease(viewDef));
+    if (!typeModel.isResourceType(viewDef.resource)) {
+      throw new ViewElementError(
+        `Resource type '${viewDef.resource}' is not defined in FHIR ${typeModel.fhirVersion}`,
+        viewDef,
+        "resource",
+        "invalid-view",
+      );
+    }
+    return typeModel;
+  }
+
+  /**
+   * Get the FHIR release of the version the view targets, or of the default
+   * version where it declares none.
+   */
+  private getFhirRelease(viewDef: ViewDefinition): FhirRelease {
+    const versions = viewDef.fhirVersion;
+    if (!versions?.length) {
+      return resolveFhirRelease(this.options.fhirVersion);
+    }
+    try {
+      return resolveFhirRelease(versions[0]);
+    } catch (error) {
+      throw new ViewElementError(
+        error instanceof Error ? error.message : String(error),
+        versions,
+        "0",
+        "invalid-view",
+      );
+    }
+  }
+
+  /**
+   * Get the profile the view is defined against, if any, loading the
+   * configured packages on first use. A version suffix on the canonical URL
+   * (`|1.0.0`) is ignored.
+   */
+  private getProfile(viewDef: ViewDefinition): FhirProfile | undefined {
+    if (!viewDef.profile) {
+      return undefined;
+    }
+
+    this.profiles ??= loadProfiles(this.options.packages);
+    const url = viewDef.profile.split("|")[0];
+    const profile = this.profiles.get(url);
+    if (!profile) {
+      throw new ViewElementError(
+        `Profile '${url}' was not found in the loaded packages`,
+        viewDef,
+        "profile",
+        "invalid-view",
+      );
+    }
+    if (profile.type !== viewDef.resource) {
+      throw new ViewElementError(
+        `Profile '${url}' constrains ${profile.type}, not ${viewDef.resource}`,
+        viewDef,
+        "profile",
+        "invalid-view",
+      );
+    }
+    return profile;
+  }
+
   /**
    * Extract the value from a ViewDefinitionConstant. Throws if zero or more
-   * than one `value[x]` element is set.
+   * than one `value[x]` element is set. The value of a complex type (e.g.
+   * `valueCoding`) is kept as JSON along with the name of its type.
    */
-  private getConstantValue(
-    constant: ViewDefinitionConstant,
-  ): string | number | boolean | null {
-    const primitiveKeys: (keyof ViewDefinitionConstant)[] = [
-      "valueString",
-      "valueInteger",
-      "valueDecimal",
-      "valueBoolean",
-      "valueDate",
-      "valueDateTime",
-      "valueTime",
-      "valueInstant",
-      "valueCode",
-      "valueId",
-      "valueUri",
-      "valueUrl",
-      "valueCanonical",
-      "valueUuid",
-      "valueOid",
-      "valueMarkdown",
-      "valueBase64Binary",
-      "valuePositiveInt",
-      "valueUnsignedInt",
-      "valueInteger64",
-    ];
-
-    const definedValues = primitiveKeys.filter(
-      (key) => constant[key] !== undefined,
-    );
+  private getConstantValue(constant: ViewDefinitionConstant): ConstantValue {
+    const definedValues = (
+      Object.keys(constant) as (keyof ViewDefinitionConstant)[]
+    ).filter((key) => key.startsWith("value") && constant[key] !== undefined);
 
     if (definedValues.length === 0) {
-      throw new Error(
+      throw new ViewElementError(
         `Constant '${constant.name}' must have exactly one value[x] element defined`,
+        constant,
+        null,
+        "invalid-view",
       );
     }
 
     if (definedValues.length > 1) {
-      throw new Error(
+      throw new ViewElementError(
         `Constant '${constant.name}' must have exactly one value[x] element defined, but has ${definedValues.length}`,
+        constant,
+        null,
+        "invalid-view",
       );
     }
 
     const key = definedValues[0];
-    return constant[key] as string | number | boolean;
+    const value = constant[key];
+    return typeof value === "object" && value !== null
+      ? { type: key.slice("value".length), value }
+      : (value as string | number | boolean);
   }
 }
@@ -2,9 +2,15 @@
  * Generates SQL expressions for ViewDefinition columns.
  */
 
+import { elementError } from "../diagnostics.js";
 import { Transpiler, TranspilerContext } from "../fhirpath/transpiler.js";
 import { ViewDefinitionColumn } from "../types.js";
 
+/**
+ * The SQL type of Boolean columns.
+ */
+const SQL_BIT_TYPE = "BIT";
+
 /**
  * Handles generation of column expressions with type casting.
  */
@@ -21,7 +27,13 @@ export class ColumnExpressionGenerator {
 
       // Handle collection property.
       if (column.collection === true) {
-        expression = this.generateCollectionExpression(column.path, context);
+        expression = Transpiler.transpileCollection(column.path, context);
+      } else if (
+        column.type &&
+        Transpiler.inferSqlType(column.type) === SQL_BIT_TYPE
+      ) {
+        // A Boolean column reads its expression as a condition.
+        expression = Transpiler.transpileBoolean(column.path, context);
       } else if (column.collection === false) {
         expression = this.generateSingleValueExpression(column.path, context);
       } else {
@@ -35,9 +47,7 @@ export class ColumnExpressionGenerator {
 
       return expression;
     } catch (error) {
-      throw new Error(
-        `Failed to transpile column '${column.name}' with path '${column.path}': ${error}`,
-      );
+      throw elementError(error, column, "path");
     }
   }
 
@@ -50,122 +60,14 @@ export class ColumnExpressionGenerator {
       return expression;
     }
 
-    // Special handling for boolean type.
-    if (sqlType === "BIT") {
-      return this.generateBooleanCaseExpression(expression);
+    // Boolean expressions are already BIT values.
+    if (sqlType === SQL_BIT_TYPE) {
+      return expression;
     }
 
     return `CAST(${expression} AS ${sqlType})`;
   }
 
-  /**
-   * Generate a CASE expression for boolean conversion.
-   * Handles both simple JSON_VALUE fields and boolean expressions.
-   */
-  private generateBooleanCaseExpression(expression: string): string {
-    const hasComparisonOperator =
-      expression.includes("=") ||
-      expression.includes("<") ||
-      expression.includes(">") ||
-      expression.includes("NOT") ||
-      expression.includes(" OR ") ||
-      expression.includes(" AND ");
-
-    if (expression.includes("JSON_VALUE") && !hasComparisonOperator) {
-      // Simple JSON_VALUE - compare to 'true'/'false' strings.
-      return `CASE WHEN ${expression} = 'true' THEN 1 WHEN ${expression} = 'false' THEN 0 ELSE NULL END`;
-    }
-
-    // Boolean expression - use as-is in CASE.
-    return `CASE WHEN ${expression} THEN 1 WHEN NOT ${expression} THEN 0 ELSE NULL END`;
-  }
-
-  /**
-   * Generate collection expression that returns an array.
-   */
-  private generateCollectionExpression(
-    path: string,
-    context: TranspilerContext,
-  ): string {
-    if (context.iterationContext) {
-      return `JSON_QUERY(${context.iterationContext}, '$.${path}')`;
-    }
-
-    return this.buildCollectionJsonPath(path, context);
-  }
-
-  /**
-   * Build a JSON path expression for collection=true.
-   */
-  private buildCollectionJsonPath(
-    path: string,
-    context: TranspilerContext,
-  ): string {
-    const pathParts = path.split(".");
-
-    if (this.isNameFamilyPath(pathParts)) {
-      return this.buildNameFamilyCollectionQuery(context);
-    }
-
-    if (this.isNameGivenPath(pathParts)) {
-      return this.buildNameGivenCollectionQuery(context);
-    }
-
-    // For other paths, try to use JSON_QUERY to get the array directly.
-    return `JSON_QUERY(${context.resourceAlias}.json, '$.${path}')`;
-  }
-
-  /**
-   * Check if path is name.family.
-   */
-  private isNameFamilyPath(pathParts: string[]): boolean {
-    return (
-      pathParts.length === 2 &&
-      pathParts[0] === "name" &&
-      pathParts[1] === "family"
-    );
-  }
-
-  /**
-   * Check if path is name.given.
-   */
-  private isNameGivenPath(pathParts: string[]): boolean {
-    return (
-      pathParts.length === 2 &&
-      pathParts[0] === "name" &&
-      pathParts[1] === "given"
-    );
-  }
-
-  /**
-   * Build collection query for name.family path.
-   */
-  private buildNameFamilyCollectionQuery(context: TranspilerContext): string {
-    return `(
-        SELECT CASE
-          WHEN COUNT(JSON_VALUE(names.value, '$.family')) = 0 THEN JSON_QUERY('[]')
-          ELSE JSON_QUERY('[' + STRING_AGG(CONCAT('"', JSON_VALUE(names.value, '$.family'), '"'), ',') + ']')
-        END
-        FROM OPENJSON(${context.resourceAlias}.json, '$.name') AS names
-        WHERE JSON_VALUE(names.value, '$.family') IS NOT NULL
-      )`;
-  }
-
-  /**
-   * Build collection query for name.given path.
-   */
-  private buildNameGivenCollectionQuery(context: TranspilerContext): string {
-    return `(
-        SELECT CASE
-          WHEN COUNT(n.value) = 0 THEN JSON_QUERY('[]')
-          ELSE JSON_QUERY('[' + STRING_AGG(CONCAT('"', n.value, '"'), ',') + ']')
-        END
-        FROM OPENJSON(${context.resourceAlias}.json, '$.name') AS names
-        CROSS APPLY OPENJSON(names.value, '$.given') AS n
-        WHERE n.value IS NOT NULL
-      )`;
-  }
-
   /**
    * Generate single value expression for collection=false.
    */
@@ -2,7 +2,15 @@
  * Parses and interprets FHIRPath expressions for SQL generation.
  */
 
+import {
+  contextJson,
+  itemResourceJson,
+  rootResourceJson,
+} from "../fhirpath/environment.js";
+import type { SourceRange } from "../diagnostics.js";
+import { FhirPathError, locateWithin } from "../fhirpath/errors.js";
 import { Transpiler, TranspilerContext } from "../fhirpath/transpiler.js";
+import { type FhirTypeModel, getTypeModel } from "../typeModel/index.js";
 
 /**
  * Result of parsing a FHIRPath expression with .where() function.
@@ -33,16 +41,6 @@ export interface SegmentIndexingResult {
  * Handles parsing and interpretation of FHIRPath expressions.
  */
 export class PathParser {
-  private static readonly knownArrayFields = [
-    "name",
-    "telecom",
-    "address",
-    "contact",
-    "identifier",
-    "communication",
-    "link",
-  ];
-
   /**
    * Find the matching closing parenthesis for .where() using balanced counting.
    */
@@ -64,24 +62,37 @@ export class PathParser {
   }
 
   /**
-   * Transpile a where condition to SQL.
+   * Transpile the condition of the first .where() of a path to SQL.
    */
   private transpileWhereCondition(
     condition: string,
+    path: string,
     context: TranspilerContext,
+    itemPath: string | null,
   ): string {
     const itemContext: TranspilerContext = {
       resourceAlias: "forEach_item",
       constants: context.constants,
+      variables: context.variables,
       iterationContext: "value",
+      iterationPath: itemPath ?? undefined,
+      typeModel: context.typeModel,
+      profile: context.profile,
+      sqlServerVersion: context.sqlServerVersion,
+      now: context.now,
+      terminologyTables: context.terminologyTables,
+      referenceResolution: context.referenceResolution,
+      rootResourceJson: rootResourceJson(context),
+      resourceJson: itemResourceJson(context, itemPath, "value"),
+      contextJson: contextJson(context),
     };
 
+    // Errors are located within the path the condition was found in.
     try {
-      return Transpiler.transpile(condition, itemContext);
+      return Transpiler.transpileCondition(condition, itemContext);
     } catch (error) {
-      throw new Error(
-        `Failed to transpile .where() condition "${condition}": ${error instanceof Error ? error.message : String(error)}`,
-      );
+      const offset = path.indexOf(condition, path.indexOf(".where(") + 7);
+      throw locateWithin(error, condition, path, offset);
     }
   }
 
@@ -128,7 +139,12 @@ export class PathParser {
 
     return {
       path: fullPath,
-      whereCondition: this.transpileWhereCondition(condition, context),
+      whereCondition: this.transpileWhereCondition(
+        condition,
+        path,
+        context,
+        this.elementPath(basePath, context),
+      ),
       useFirst,
     };
   }
@@ -137,7 +153,10 @@ export class PathParser {
    * Parse array indexing from a forEach path.
    * For paths like "contact.telecom[0]", interpret as "contact[0].telecom[0]" - apply index to all array segments.
    */
-  parseArrayIndexing(path: string): ArrayIndexingResult {
+  parseArrayIndexing(
+    path: string,
+    context: TranspilerContext,
+  ): ArrayIndexingResult {
     const match = /^(.+)\[(\d+)]$/.exec(path);
     if (!match) {
       return { path, arrayIndex: null };
@@ -151,9 +170,9 @@ export class PathParser {
     if (segments.length > 1) {
       // For contact.telecom[0], interpret as contact[0].telecom[0].
       const indexedPath = segments
-        .map((seg) => {
+        .map((seg, i) => {
           const cleanSeg = seg.replace(/\[.*]/, "");
-          if (PathParser.knownArrayFields.includes(cleanSeg)) {
+          if (this.isRepeatingSegment(segments, i, context)) {
             return `${cleanSeg}[${arrayIndex}]`;
           }
           return cleanSeg;
@@ -185,17 +204,17 @@ export class PathParser {
 
   /**
    * Detect if a forEach path requires array flattening.
-   * Returns array of path segments that are arrays in FHIR Patient resource.
+   * Returns the prefixes of the path that end in a repeating element.
    */
-  detectArrayFlatteningPaths(path: string): string[] {
+  detectArrayFlatteningPaths(
+    path: string,
+    context: TranspilerContext,
+  ): string[] {
     const segments = path.split(".");
     const arraySegments: string[] = [];
 
     for (let i = 0; i < segments.length; i++) {
-      const segment = segments[i];
-      const cleanSegment = segment.replace(/\[.*]/, "");
-
-      if (PathParser.knownArrayFields.includes(cleanSegment)) {
+      if (this.isRepeatingSegment(segments, i, context)) {
         arraySegments.push(segments.slice(0, i + 1).join("."));
       }
     }
@@ -203,6 +222,110 @@ export class PathParser {
     return arraySegments;
   }
 
+  /**
+   * Resolve the FHIR element path selected by a forEach or repeat path,
+   * relative to the element the context is positioned on, e.g.
+   * `contact.where(gender = 'male').telecom[0]` → `Patient.contact.telecom`.
+   * Returns null when the context's element path is not known or the path
+   * invokes functions other than `.where()` and `.first()`.
+   *
+   * @throws If the path names an element that the FHIR version being targeted
+   *   does not define.
+   */
+  elementPath(path: string, context: TranspilerContext): string | null {
+    const basePath = this.contextElementPath(context);
+    const cleanPath = this.removeFilters(path);
+    if (!basePath || !/^(\w+(\.\w+)*)?$/.test(cleanPath)) {
+      return null;
+    }
+
+    const elementPath = cleanPath ? `${basePath}.${cleanPath}` : basePath;
+    const typeModel = context.typeModel ?? getTypeModel();
+    if (!typeModel.isDefined(elementPath)) {
+      const missing = this.undefinedElement(path, basePath, typeModel);
+      throw new FhirPathError(
+        `Element '${missing.elementPath}' is not defined in FHIR ${typeModel.fhirVersion}`,
+        missing.range,
+        path,
+        "unknown-element",
+      );
+    }
+    return elementPath;
+  }
+
+  /**
+   * The first element named by a path that the FHIR version being targeted
+   * does not define, and the characters of the path that name it. Names within
+   * the criteria of `.where()` are passed over.
+   */
+  private undefinedElement(
+    path: string,
+    basePath: string,
+    typeModel: FhirTypeModel,
+  ): { elementPath: string; range: SourceRange | null } {
+    let depth = 0;
+    let elementPath = basePath;
+    for (const { 0: token, index } of path.matchAll(
+      /'(?:\\.|[^'\\])*'|[()]|[A-Za-z_]\w*/g,
+    )) {
+      depth += token === "(" ? 1 : token === ")" ? -1 : 0;
+      const end = index + token.length;
+      if (depth > 0 || !/^\w/.test(token) || path[end] === "(") {
+        continue;
+      }
+      elementPath = `${elementPath}.${token}`;
+      if (!typeModel.isDefined(elementPath)) {
+        return { elementPath, range: { start: index, end } };
+      }
+    }
+    return { elementPath, range: null };
+  }
+
+  /**
+   * Whether the element named by segment `index` of a dotted path repeats.
+   */
+  private isRepeatingSegment(
+    segments: string[],
+    index: number,
+    context: TranspilerContext,
+  ): boolean {
+    const elementPath = this.elementPath(
+      segments.slice(0, index + 1).join("."),
+      context,
+    );
+    const typeModel = context.typeModel ?? getTypeModel();
+    return elementPath !== null && typeModel.isRepeating(elementPath);
+  }
+
+  /**
+   * The element path of the JSON the context's paths are evaluated against:
+   * the current iteration item, or the resource outside of any iteration.
+   */
+  private contextElementPath(context: TranspilerContext): string | undefined {
+    return context.iterationContext
+      ? context.iterationPath
+      : context.resourceType;
+  }
+
+  /**
+   * Strip `.where()` and `.first()` invocations and array indexes from a path,
+   * leaving the element names it navigates through.
+   */
+  private removeFilters(path: string): string {
+    let result = path;
+    let whereIndex = result.indexOf(".where(");
+    while (whereIndex !== -1) {
+      const conditionEnd = this.findWhereClosingParen(result, whereIndex + 7);
+      if (conditionEnd === -1) {
+        break;
+      }
+      result =
+        result.substring(0, whereIndex) + result.substring(conditionEnd + 1);
+      whereIndex = result.indexOf(".where(");
+    }
+    return result.replace(/\.first\(\)/g, "").replace(/\[\d+]/g, "");
+  }
+
   /**
    * Extract path segment for a specific level in array paths.
    */
@@ -2,9 +2,11 @@
  * Builds WHERE clauses for SQL queries.
  */
 
+import { elementError } from "../diagnostics.js";
 import { Transpiler, TranspilerContext } from "../fhirpath/transpiler.js";
 import { ViewDefinitionWhere } from "../types.js";
 import { validateResourceType, validateTestId } from "../validation.js";
+import type { SourceMarkers } from "./treeWalker/sourceMap.js";
 
 /**
  * Handles generation of WHERE clauses.
@@ -13,7 +15,8 @@ export class WhereClauseBuilder {
   /**
    * Build complete WHERE clause combining resource type filter and view-level filters.
    * For test execution, testId is used to filter test data in the test table.
-   * Validates inputs to prevent SQL injection.
+   * Validates inputs to prevent SQL injection. Where markers are given, each
+   * view-level condition is marked as produced by its where element.
    */
   buildWhereClause(
     resourceType: string,
@@ -21,6 +24,7 @@ export class WhereClauseBuilder {
     testId: string | undefined,
     whereConditions: ViewDefinitionWhere[] | undefined,
     context: TranspilerContext,
+    markers?: SourceMarkers,
   ): string | null {
     const conditions: string[] = [];
 
@@ -34,10 +38,18 @@ export class WhereClauseBuilder {
       conditions.push(`[${resourceAlias}].[test_id] = '${testId}'`);
     }
 
+    // Restrict to resources that claim conformance to the view's profile.
+    if (context.profile) {
+      conditions.push(
+        this.generateProfileCondition(resourceAlias, context.profile.url),
+      );
+    }
+
     // Add view-level WHERE conditions.
     const viewWhereClause = this.generateViewWhereClause(
       whereConditions,
       context,
+      markers,
     );
     if (viewWhereClause) {
       conditions.push(viewWhereClause);
@@ -50,41 +62,43 @@ export class WhereClauseBuilder {
     return `WHERE ${conditions.join(" AND ")}`;
   }
 
+  /**
+   * Generate a condition matching resources that list a profile in
+   * `meta.profile`, with or without a version suffix (`url|version`).
+   */
+  private generateProfileCondition(resourceAlias: string, url: string): string {
+    const escaped = url.replace(/'/g, "''");
+    return `EXISTS (SELECT 1 FROM OPENJSON([${resourceAlias}].[json], '$.meta.profile') WHERE value = '${escaped}' OR LEFT(value, ${url.length + 1}) = '${escaped}|')`;
+  }
+
   /**
    * Generate the WHERE clause for view-level filters.
    */
   private generateViewWhereClause(
     whereConditions: ViewDefinitionWhere[] | undefined,
     context: TranspilerContext,
+    markers: SourceMarkers | undefined,
   ): string | null {
     if (!whereConditions || whereConditions.length === 0) {
       return null;
     }
 
     const conditions: string[] = [];
-    const booleanFields = ["active", "deceased", "multipleBirth"];
 
     for (const where of whereConditions) {
+      const ctes = context.recursiveQueries?.ctes ?? [];
+      const from = ctes.length;
+      let condition: string;
       try {
-        const condition = Transpiler.transpile(where.path, context);
-
-        // Check if this looks like a simple boolean field reference that needs to be cast.
-        const simpleBooleanFieldPattern = new RegExp(
-          `^JSON_VALUE\\([^,]+,\\s*'\\$\\.(${booleanFields.join("|")})'\\)$`,
-        );
-
-        if (simpleBooleanFieldPattern.test(condition.trim())) {
-          conditions.push(
-            `(CASE WHEN ${condition} = 'true' THEN 1 ELSE 0 END = 1)`,
-          );
-        } else {
-          conditions.push(condition);
-        }
+        condition = Transpiler.transpileCondition(where.path, context);
       } catch (error) {
-        throw new Error(
-          `Failed to transpile where condition '${where.path}': ${error}`,
-        );
+        throw elementError(error, where, "path");
+      }
+      if (markers) {
+        markers.markCtes(where, ctes, from);
+        condition = markers.mark("where", where, condition);
       }
+      conditions.push(condition);
     }
 
     return `(${conditions.join(") AND (")})`;
@@ -16,6 +16,7 @@ import { ColumnExpressionGenerator } from "../ColumnExpressionGenerator.js";
 import { PathParser } from "../PathParser.js";
 import { WhereClauseBuilder } from "../WhereClauseBuilder.js";
 import { renderRoot } from "./render.js";
+import { SourceMarkers } from "./sourceMap.js";
 import { type Context, type PartitionKey, SQL_INT } from "./types.js";
 import { makeWalker } from "./walker.js";
 
@@ -28,6 +29,8 @@ export interface CompileOptions {
   schemaName: string;
   testId?: string;
   transpilerCtx: TranspilerContext;
+  /** Whether to map the generated SQL to the elements it was generated for. */
+  sourceMap?: boolean;
 }
 
 /**
@@ -40,15 +43,32 @@ export interface CompileOptions {
  * @param viewDef - The parsed ViewDefinition whose `select` tree is compiled.
  * @param options - Compilation options including table/schema names, an
  *   optional test-isolation ID, and the FHIRPath transpiler context.
- * @returns A `TranspilationResult` containing the generated SQL string and
- *   an ordered array of column metadata matching the view's output shape.
+ * @returns A `TranspilationResult` containing the generated SQL string, an
+ *   ordered array of column metadata matching the view's output shape and,
+ *   where requested, the source map of the SQL.
  */
 export function compileViewDefinition(
   viewDef: ViewDefinition,
   options: CompileOptions,
 ): TranspilationResult {
   const resourceAlias = options.transpilerCtx.resourceAlias;
-  const ctx = buildRootContext(resourceAlias, options.transpilerCtx);
+  const tableRef = `[${options.schemaName}].[${options.tableName}]`;
+  const cteCounter = { value: 0 };
+  // The CTEs of repeat() and aggregate() are rendered with those of the
+  // select tree, so they share its counter.
+  const transpilerCtx: TranspilerContext = {
+    ...options.transpilerCtx,
+    recursiveQueries: {
+      ctes: [],
+      counter: cteCounter,
+      from: `FROM ${tableRef} AS [${resourceAlias}]`,
+      applies: "",
+      keys: [idKey(resourceAlias)],
+    },
+  };
+  const ctx = buildRootContext(resourceAlias, transpilerCtx, cteCounter);
+  const sourceMarkers = options.sourceMap ? new SourceMarkers() : undefined;
+  ctx.sourceMarkers = sourceMarkers;
 
   const rootNode: ViewDefinitionSelect = { select: viewDef.select };
   const walk = makeWalker({
@@ -65,34 +85,45 @@ export function compileViewDefinition(
     tableName: options.tableName,
     testId: options.testId,
     whereClauseBuilder,
-    transpilerCtx: options.transpilerCtx,
+    transpilerCtx,
+    sourceMarkers,
   });
 
-  return { sql, columns: collectColumnMetadata(viewDef.select) };
+  return {
+    ...(sourceMarkers ? sourceMarkers.resolve(sql, viewDef) : { sql }),
+    columns: collectColumnMetadata(viewDef.select),
+  };
 }
 
 function buildRootContext(
   resourceAlias: string,
   transpilerCtx: TranspilerContext,
+  cteCounter: { value: number },
 ): Context {
-  const idKey: PartitionKey = {
-    name: "id",
-    sqlExpr: `[${resourceAlias}].[id]`,
-    sqlType: SQL_INT,
-  };
   return {
     resourceAlias,
-    // Use unbracketed `r.json` for the JSON source: matches the FHIRPath
-    // transpiler's expectations (see visitor.ts handleJsonQueryMember which
-    // pattern-matches on the source string).
+    // Use unbracketed `r.json` for the JSON source: matches the document the
+    // FHIRPath transpiler resolves to the resource type (see visitor.ts
+    // elementPathFor).
     source: `${resourceAlias}.json`,
-    partitionKeys: [idKey],
+    partitionKeys: [idKey(resourceAlias)],
     ancestorApplies: "",
-    cteCounter: { value: 0 },
+    cteCounter,
     transpilerCtx,
   };
 }
 
+/**
+ * The key identifying the rows of each resource.
+ */
+function idKey(resourceAlias: string): PartitionKey {
+  return {
+    name: "id",
+    sqlExpr: `[${resourceAlias}].[id]`,
+    sqlType: SQL_INT,
+  };
+}
+
 /**
  * Walk the select tree and collect ColumnInfo metadata in lexical order.
  * Mirrors the behaviour of QueryGenerator.collectAllColumns so the public
@@ -4,3 +4,4 @@
 
 export { compileViewDefinition } from "./compile.js";
 export type { CompileOptions } from "./compile.js";
+export { annotateSql } from "./sourceMap.js";
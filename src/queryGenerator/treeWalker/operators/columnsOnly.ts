@@ -32,10 +32,27 @@ export function projectColumns(
 ): ProjectedColumn[] {
   return columns.map((column) => ({
     name: column.name,
-    sqlExpr: columnGenerator.generateExpression(column, ctx.transpilerCtx),
+    sqlExpr: projectColumn(column, ctx, columnGenerator),
   }));
 }
 
+/**
+ * The SQL expression of a column, marked as produced by the column along with
+ * the CTEs of any `repeat()` or `aggregate()` functions within its path.
+ */
+function projectColumn(
+  column: ViewDefinitionColumn,
+  ctx: Context,
+  columnGenerator: ColumnExpressionGenerator,
+): string {
+  const ctes = ctx.transpilerCtx.recursiveQueries?.ctes ?? [];
+  const from = ctes.length;
+  const sqlExpr = columnGenerator.generateExpression(column, ctx.transpilerCtx);
+  if (!ctx.sourceMarkers) return sqlExpr;
+  ctx.sourceMarkers.markCtes(column, ctes, from);
+  return ctx.sourceMarkers.mark("column", column, sqlExpr);
+}
+
 /**
  * Walker for ColumnsOnly nodes — emits the projected columns for a leaf select node.
  *
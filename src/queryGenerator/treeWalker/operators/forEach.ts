@@ -12,7 +12,13 @@
  * @author John Grimes
  */
 
-import type { TranspilerContext } from "../../../fhirpath/transpiler.js";
+import { elementError } from "../../../diagnostics.js";
+import { itemResourceJson } from "../../../fhirpath/environment.js";
+import { iterationQueries } from "../../../fhirpath/recursiveFunctions.js";
+import {
+  Transpiler,
+  type TranspilerContext,
+} from "../../../fhirpath/transpiler.js";
 import type { ViewDefinitionSelect } from "../../../types.js";
 import type { PathParser } from "../../PathParser.js";
 import { freshAlias } from "../aliasGenerator.js";
@@ -58,21 +64,23 @@ export function walkForEach(
   walk: (n: ViewDefinitionSelect, c: Context) => Fragment,
   deps: ForEachDeps,
 ): Fragment {
-  const isOrNull = node.forEachOrNull !== undefined;
   const rawPath = node.forEach ?? node.forEachOrNull ?? "";
-  const applyType = isOrNull ? "OUTER APPLY" : "CROSS APPLY";
   const alias = freshAlias(ctx, "forEach");
 
-  const applyClause = buildForEachApply(
-    rawPath,
-    ctx.source,
+  const { applyClause, iterationPath } = buildForEachPaths(
+    node,
+    ctx,
     alias,
-    applyType,
-    ctx.transpilerCtx,
     deps.pathParser,
   );
 
-  const innerCtx = buildInnerCtx(ctx, alias, rawPath, applyClause);
+  const innerCtx = buildInnerCtx(
+    ctx,
+    alias,
+    rawPath,
+    applyClause,
+    iterationPath,
+  );
   const innerNode: ViewDefinitionSelect = {
     column: node.column,
     select: node.select,
@@ -86,15 +94,71 @@ export function walkForEach(
   };
 }
 
+/**
+ * The APPLY clause iterating the path of a ForEach node, and the element its
+ * items are instances of, marked as produced by the node where a source map
+ * is generated.
+ */
+function buildForEachPaths(
+  node: ViewDefinitionSelect,
+  ctx: Context,
+  alias: string,
+  pathParser: PathParser,
+): { applyClause: string; iterationPath: string | null } {
+  const isOrNull = node.forEachOrNull !== undefined;
+  const rawPath = node.forEach ?? node.forEachOrNull ?? "";
+  const ctes = ctx.transpilerCtx.recursiveQueries?.ctes ?? [];
+  const from = ctes.length;
+  let applyClause: string;
+  let iterationPath: string | null;
+  try {
+    // The path is checked first, so an element it names that is not defined
+    // is located within it
+    iterationPath = pathParser.elementPath(rawPath, ctx.transpilerCtx);
+    applyClause = buildForEachApply(
+      rawPath,
+      ctx.source,
+      alias,
+      isOrNull ? "OUTER APPLY" : "CROSS APPLY",
+      ctx.transpilerCtx,
+      pathParser,
+    );
+  } catch (error) {
+    throw elementError(error, node, isOrNull ? "forEachOrNull" : "forEach");
+  }
+  if (ctx.sourceMarkers) {
+    ctx.sourceMarkers.markCtes(node, ctes, from);
+    applyClause = ctx.sourceMarkers.mark("apply", node, applyClause);
+  }
+  return { applyClause, iterationPath };
+}
+
 function buildInnerCtx(
   ctx: Context,
   alias: string,
   rawPath: string,
   applyClause: string,
+  iterationPath: string | null,
 ): Context {
+  const innerKey: PartitionKey = {
+    name: `${alias}_key`,
+    sqlExpr: `${alias}.[key]`,
+    sqlType: SQL_NVARCHAR_4000,
+  };
   const innerTranspilerCtx: TranspilerContext = {
     ...ctx.transpilerCtx,
     iterationContext: `${alias}.value`,
+    iterationPath: iterationPath ?? undefined,
+    resourceJson: itemResourceJson(
+      ctx.transpilerCtx,
+      iterationPath,
+      `${alias}.value`,
+    ),
+    recursiveQueries: iterationQueries(
+      ctx.transpilerCtx.recursiveQueries,
+      ctx.ancestorApplies + applyClause,
+      [...ctx.partitionKeys, innerKey],
+    ),
     currentForEachAlias: alias,
     forEachSource: ctx.source,
     forEachPath: `$.${rawPath}`,
@@ -104,11 +168,6 @@ function buildInnerCtx(
     // the spec requires `%rowIndex` to be 0 for that row, hence the COALESCE.
     rowIndexExpr: `COALESCE(CAST(${alias}.[key] AS INT), 0)`,
   };
-  const innerKey: PartitionKey = {
-    name: `${alias}_key`,
-    sqlExpr: `${alias}.[key]`,
-    sqlType: SQL_NVARCHAR_4000,
-  };
   return {
     ...ctx,
     source: `${alias}.value`,
@@ -120,8 +179,8 @@ function buildInnerCtx(
 
 /**
  * Builds the CROSS/OUTER APPLY clause string for a forEach path, handling
- * `.where()`, `.first()`, array indexing, and multi-segment array
- * flattening.
+ * `.where()`, `.first()`, array indexing, multi-segment array flattening and
+ * computed collections such as `name | contact.name`.
  */
 function buildForEachApply(
   rawPath: string,
@@ -131,14 +190,23 @@ function buildForEachApply(
   transpilerCtx: TranspilerContext,
   pathParser: PathParser,
 ): string {
+  if (Transpiler.isComputedCollection(rawPath)) {
+    return `\n${applyType} OPENJSON(${Transpiler.transpile(rawPath, transpilerCtx)}) AS ${alias}`;
+  }
+
   const {
     path: pathWithoutWhere,
     whereCondition,
     useFirst,
   } = pathParser.parseFhirPathWhere(rawPath, transpilerCtx);
-  const { path: forEachPath, arrayIndex } =
-    pathParser.parseArrayIndexing(pathWithoutWhere);
-  const arrayPaths = pathParser.detectArrayFlatteningPaths(forEachPath);
+  const { path: forEachPath, arrayIndex } = pathParser.parseArrayIndexing(
+    pathWithoutWhere,
+    transpilerCtx,
+  );
+  const arrayPaths = pathParser.detectArrayFlatteningPaths(
+    forEachPath,
+    transpilerCtx,
+  );
 
   if (arrayPaths.length > 1) {
     return buildNestedApply(
@@ -9,12 +9,17 @@
  * @author John Grimes
  */
 
+import { elementError } from "../../../diagnostics.js";
+import { itemResourceJson } from "../../../fhirpath/environment.js";
+import { iterationQueries } from "../../../fhirpath/recursiveFunctions.js";
 import type { TranspilerContext } from "../../../fhirpath/transpiler.js";
 import type { ViewDefinitionSelect } from "../../../types.js";
+import type { PathParser } from "../../PathParser.js";
 import { freshAlias } from "../aliasGenerator.js";
 import { buildRepeatCte, qualifiedKeyCols } from "../cteTemplates.js";
 import {
   type Context,
+  type CteDefinition,
   type Fragment,
   type PartitionKey,
   SQL_NVARCHAR_MAX,
@@ -23,6 +28,7 @@ import {
 export interface RepeatDeps {
   schemaName: string;
   tableName: string;
+  pathParser: PathParser;
 }
 
 /**
@@ -48,7 +54,8 @@ export interface RepeatDeps {
  * @param walk - The recursive walk function used to visit the inner sub-tree
  *   (`column`, `select`, `unionAll`) in the repeat-item context.
  * @param deps - Schema and table name needed to construct the resource FROM
- *   clause inside the CTE anchor.
+ *   clause inside the CTE anchor, and the `PathParser` used to resolve the
+ *   element type of the repeated items.
  * @returns A Fragment whose `ctes` list begins with the recursive CTE,
  *   `fromExtensions` begins with the INNER JOIN to that CTE, and `columns`
  *   are those produced by the inner walk.
@@ -66,19 +73,19 @@ export function walkRepeat(
     throw new Error("walkRepeat: repeat node has empty paths array");
   }
 
-  const tableRef = `[${deps.schemaName}].[${deps.tableName}]`;
-  const cte = buildRepeatCte({
+  const { cte, iterationPath } = buildRepeatPaths(node, ctx, cteAlias, deps);
+  let joinClause = buildJoinClause(cteAlias, ctx);
+  if (ctx.sourceMarkers) {
+    cte.body = ctx.sourceMarkers.mark("cte", node, cte.body);
+    joinClause = ctx.sourceMarkers.mark("join", node, joinClause);
+  }
+  const innerCtx = buildRepeatInnerCtx(
+    ctx,
     cteAlias,
     paths,
-    source: ctx.source,
-    fromClause: `FROM ${tableRef} AS [${ctx.resourceAlias}]`,
-    ancestorApplies: ctx.ancestorApplies,
-    partitionKeys: ctx.partitionKeys,
-    resourcePredicate: null, // Resource-level WHERE goes in the outer SELECT.
-  });
-
-  const joinClause = buildJoinClause(cteAlias, ctx);
-  const innerCtx = buildRepeatInnerCtx(ctx, cteAlias, paths, joinClause);
+    joinClause,
+    iterationPath,
+  );
   const innerNode: ViewDefinitionSelect = {
     column: node.column,
     select: node.select,
@@ -96,6 +103,37 @@ export function walkRepeat(
   };
 }
 
+/**
+ * The recursive CTE over the paths of a Repeat node, and the element its
+ * items are instances of. Every path recurses into the same element type, so
+ * the first path identifies the type of all items.
+ */
+function buildRepeatPaths(
+  node: ViewDefinitionSelect,
+  ctx: Context,
+  cteAlias: string,
+  deps: RepeatDeps,
+): { cte: CteDefinition; iterationPath: string | null } {
+  const paths = node.repeat ?? [];
+  const tableRef = `[${deps.schemaName}].[${deps.tableName}]`;
+  try {
+    return {
+      cte: buildRepeatCte({
+        cteAlias,
+        paths,
+        source: ctx.source,
+        fromClause: `FROM ${tableRef} AS [${ctx.resourceAlias}]`,
+        ancestorApplies: ctx.ancestorApplies,
+        partitionKeys: ctx.partitionKeys,
+        resourcePredicate: null, // Resource-level WHERE goes in the outer SELECT.
+      }),
+      iterationPath: deps.pathParser.elementPath(paths[0], ctx.transpilerCtx),
+    };
+  } catch (error) {
+    throw elementError(error, node, "repeat");
+  }
+}
+
 /**
  * Outer-SELECT join condition aligning this CTE's rows with the enclosing
  * partition (resource id plus any forEach/repeat keys above this scope).
@@ -112,6 +150,7 @@ function buildRepeatInnerCtx(
   cteAlias: string,
   paths: string[],
   joinClause: string,
+  iterationPath: string | null,
 ): Context {
   const newKey: PartitionKey = {
     name: `${cteAlias}_path`,
@@ -130,6 +169,17 @@ function buildRepeatInnerCtx(
   const innerTranspilerCtx: TranspilerContext = {
     ...ctx.transpilerCtx,
     iterationContext: `${cteAlias}.item_json`,
+    iterationPath: iterationPath ?? undefined,
+    resourceJson: itemResourceJson(
+      ctx.transpilerCtx,
+      iterationPath,
+      `${cteAlias}.item_json`,
+    ),
+    recursiveQueries: iterationQueries(
+      ctx.transpilerCtx.recursiveQueries,
+      ctx.ancestorApplies + joinClause,
+      [...ctx.partitionKeys, newKey],
+    ),
     currentForEachAlias: cteAlias,
     forEachSource: ctx.source,
     forEachPath: paths.map((p) => `$.${p}`).join(", "),
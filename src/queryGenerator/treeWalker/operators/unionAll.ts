@@ -14,6 +14,7 @@
  * same level as the ua_<n> projection, evaluated in the parent scope).
  */
 
+import { elementError } from "../../../diagnostics.js";
 import type { ViewDefinitionSelect } from "../../../types.js";
 import type { ColumnExpressionGenerator } from "../../ColumnExpressionGenerator.js";
 import { freshAlias } from "../aliasGenerator.js";
@@ -71,7 +72,12 @@ export function walkUnionAll(
   if (branches.length === 0) throw new Error("walkUnionAll: empty unionAll");
 
   const branchFragments: Fragment[] = branches.map((b) => walk(b, ctx));
-  const uaFragment = buildUnionAllFragment(branchFragments, ctx);
+  let uaFragment: Fragment;
+  try {
+    uaFragment = buildUnionAllFragment(node, branchFragments, ctx);
+  } catch (error) {
+    throw elementError(error, node, "unionAll");
+  }
   const outerSiblings = collectOuterSiblings(node, ctx, walk, deps);
 
   return outerSiblings.length === 0
@@ -80,6 +86,7 @@ export function walkUnionAll(
 }
 
 function buildUnionAllFragment(
+  node: ViewDefinitionSelect,
   branchFragments: Fragment[],
   ctx: Context,
 ): Fragment {
@@ -92,13 +99,20 @@ function buildUnionAllFragment(
   const unionDerivedTable = `(\n  ${branchSqls.join(
     "\n  UNION ALL\n  ",
   )}\n) AS ${uaAlias}`;
-  const uaColumns: ProjectedColumn[] = referenceColumns.map((c) => ({
-    name: c.name,
-    sqlExpr: `${uaAlias}.[${c.name}]`,
-  }));
+  const markers = ctx.sourceMarkers;
+  const uaColumns: ProjectedColumn[] = referenceColumns.map((c) => {
+    const sqlExpr = `${uaAlias}.[${c.name}]`;
+    return {
+      name: c.name,
+      sqlExpr: markers ? markers.mark("column", node, sqlExpr) : sqlExpr,
+    };
+  });
+  const applyClause = `\nCROSS APPLY ${unionDerivedTable}`;
   return {
     ctes: allCtes,
-    fromExtensions: `\nCROSS APPLY ${unionDerivedTable}`,
+    fromExtensions: markers
+      ? markers.mark("apply", node, applyClause)
+      : applyClause,
     columns: uaColumns,
     partitionKeys: ctx.partitionKeys,
   };
@@ -7,6 +7,7 @@
 import type { TranspilerContext } from "../../fhirpath/transpiler.js";
 import type { ViewDefinition } from "../../types.js";
 import type { WhereClauseBuilder } from "../WhereClauseBuilder.js";
+import type { SourceMarkers } from "./sourceMap.js";
 import type { Fragment } from "./types.js";
 
 export interface RenderOptions {
@@ -16,14 +17,18 @@ export interface RenderOptions {
   testId?: string;
   whereClauseBuilder: WhereClauseBuilder;
   transpilerCtx: TranspilerContext;
+  /** The markers of the elements the SQL was generated for, if any. */
+  sourceMarkers?: SourceMarkers;
 }
 
 /**
  * Renders a root Fragment into the final T-SQL statement.
  *
- * Assembles the optional `WITH <ctes>` preamble, the `SELECT <cols>` list,
- * the `FROM <table>` clause, any `fromExtensions` (APPLY / JOIN chains), and
- * the optional `WHERE` predicate built by `WhereClauseBuilder`.
+ * Assembles the optional `WITH <ctes>` preamble (the CTEs of the fragment,
+ * then those of the `repeat()` and `aggregate()` functions within the view),
+ * the `SELECT <cols>` list, the `FROM <table>` clause, any `fromExtensions`
+ * (APPLY / JOIN chains), and the optional `WHERE` predicate built by
+ * `WhereClauseBuilder`.
  *
  * @param fragment - The root Fragment produced by walking the select tree.
  * @param viewDef - The ViewDefinition supplying the resource type, WHERE
@@ -41,9 +46,22 @@ export function renderRoot(
   const { resourceAlias, schemaName, tableName } = options;
   const tableRef = `[${schemaName}].[${tableName}]`;
 
+  // The where clause is built first, as the functions within it may add CTEs.
+  const whereClause = options.whereClauseBuilder.buildWhereClause(
+    viewDef.resource,
+    resourceAlias,
+    options.testId,
+    viewDef.where,
+    options.transpilerCtx,
+    options.sourceMarkers,
+  );
+  const ctes = [
+    ...fragment.ctes,
+    ...(options.transpilerCtx.recursiveQueries?.ctes ?? []),
+  ];
   const cteSection =
-    fragment.ctes.length > 0
-      ? `WITH\n${fragment.ctes.map((c) => `${c.alias} AS (\n${c.body}\n)`).join(",\n")}\n`
+    ctes.length > 0
+      ? `WITH\n${ctes.map((c) => `${c.alias} AS (\n${c.body}\n)`).join(",\n")}\n`
       : "";
 
   const selectList = fragment.columns
@@ -52,14 +70,6 @@ export function renderRoot(
 
   const fromClause = `FROM ${tableRef} AS [${resourceAlias}]`;
 
-  const whereClause = options.whereClauseBuilder.buildWhereClause(
-    viewDef.resource,
-    resourceAlias,
-    options.testId,
-    viewDef.where,
-    options.transpilerCtx,
-  );
-
   let body = `SELECT\n  ${selectList}\n${fromClause}${fragment.fromExtensions}`;
   if (whereClause !== null) {
     body += `\n${whereClause}`;
@@ -0,0 +1,159 @@
+/**
+ * Source maps from generated T-SQL back to the ViewDefinition elements that
+ * produced it.
+ *
+ * While a view is walked, each SELECT-list item, APPLY or JOIN clause, CTE
+ * and WHERE predicate is marked with the element it was generated for, by
+ * characters of the Unicode private use area that cannot appear in the SQL
+ * otherwise. Once the statement is rendered, the markers are removed and the
+ * ranges they enclosed are recorded against JSON pointers to the elements.
+ * A clause that is repeated (e.g. an APPLY also found in the anchor of a
+ * repeat CTE) is mapped wherever it appears.
+ *
+ * @author John Grimes
+ */
+
+import { elementPointers } from "../../diagnostics.js";
+import type { SourceMapping, SqlKind, ViewDefinition } from "../../types.js";
+import type { CteDefinition } from "./types.js";
+
+const OPEN = "\uE000";
+const CLOSE = "\uE001";
+const END = "\uE002";
+
+/**
+ * The markers of a statement, from which its source map is read.
+ */
+const MARKER = /([\uE000\uE001])(\d+)\uE002/g;
+
+/**
+ * The elements SQL has been marked as produced by, in the order marked.
+ */
+export class SourceMarkers {
+  private readonly sources: { kind: SqlKind; element: object }[] = [];
+
+  /**
+   * Mark SQL as produced by an element of the ViewDefinition.
+   *
+   * @param kind - What the SQL is, e.g. a SELECT-list item.
+   * @param element - The element, e.g. a column.
+   * @param sql - The SQL.
+   * @returns The marked SQL.
+   */
+  mark(kind: SqlKind, element: object, sql: string): string {
+    const id = this.sources.push({ kind, element }) - 1;
+    return `${OPEN}${id}${END}${sql}${CLOSE}${id}${END}`;
+  }
+
+  /**
+   * Mark the CTEs added to a list since it had a given length (e.g. by the
+   * `repeat()` and `aggregate()` functions of an expression) as produced by
+   * an element of the ViewDefinition.
+   *
+   * @param element - The element, e.g. the column whose path was transpiled.
+   * @param ctes - The list of CTEs.
+   * @param from - The length of the list before the element was transpiled.
+   */
+  markCtes(element: object, ctes: CteDefinition[], from: number): void {
+    for (const cte of ctes.slice(from)) {
+      cte.body = this.mark("cte", element, cte.body);
+    }
+  }
+
+  /**
+   * Remove the markers from a statement, mapping the SQL they enclosed to the
+   * elements of the ViewDefinition it was marked as produced by.
+   *
+   * @param sql - The marked statement.
+   * @param viewDef - The ViewDefinition the statement was generated for.
+   * @returns The statement and its source map, in order of position.
+   */
+  resolve(
+    sql: string,
+    viewDef: ViewDefinition,
+  ): { sql: string; sourceMap: SourceMapping[] } {
+    const pointers = elementPointers(viewDef);
+    const open: { id: number; start: number }[] = [];
+    const sourceMap: SourceMapping[] = [];
+    let output = "";
+    let last = 0;
+    for (const match of sql.matchAll(MARKER)) {
+      output += sql.slice(last, match.index);
+      last = match.index + match[0].length;
+      const id = Number(match[2]);
+      if (match[1] === OPEN) {
+        open.push({ id, start: output.length });
+        continue;
+      }
+      const index = open.map((marker) => marker.id).lastIndexOf(id);
+      const [{ start }] = open.splice(index, 1);
+      const { kind, element } = this.sources[id];
+      sourceMap.push({
+        kind,
+        pointer: pointers.get(element) ?? "",
+        ...trimmedRange(output, start, output.length),
+      });
+    }
+    output += sql.slice(last);
+    sourceMap.sort((a, b) => a.start - b.start || b.end - a.end);
+    return { sql: output, sourceMap };
+  }
+}
+
+/**
+ * The range of SQL without the whitespace that begins and ends it.
+ */
+function trimmedRange(
+  sql: string,
+  start: number,
+  end: number,
+): { start: number; end: number } {
+  const text = sql.slice(start, end);
+  const leading = text.length - text.trimStart().length;
+  const trailing = text.length - text.trimEnd().length;
+  return { start: start + leading, end: Math.max(end - trailing, start) };
+}
+
+/**
+ * Annotate a statement with a comment naming the element of the
+ * ViewDefinition that produced each mapped range, e.g.
+ * `/* select[0].column[2] *\/`, placed before the range.
+ *
+ * @param sql - The statement.
+ * @param sourceMap - The source map of the statement.
+ * @returns The annotated statement.
+ */
+export function annotateSql(sql: string, sourceMap: SourceMapping[]): string {
+  const starts = [...new Set(sourceMap.map((mapping) => mapping.start))].sort(
+    (a, b) => b - a,
+  );
+  return starts.reduce((annotated, start) => {
+    const labels = sourceMap
+      .filter((mapping) => mapping.start === start)
+      .map((mapping) => pointerLabel(mapping.pointer));
+    const comment = [...new Set(labels)]
+      .map((label) => `/* ${label} */ `)
+      .join("");
+    return annotated.slice(0, start) + comment + annotated.slice(start);
+  }, sql);
+}
+
+/**
+ * A JSON pointer as a path of properties and indexes, e.g. `select[0].column[2]`
+ * for `/select/0/column/2`.
+ */
+export function pointerLabel(pointer: string): string {
+  return pointer
+    .split("/")
+    .slice(1)
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce(
+      (label, token) =>
+        /^\d+$/.test(token)
+          ? `${label}[${token}]`
+          : label === ""
+            ? token
+            : `${label}.${token}`,
+      "",
+    );
+}
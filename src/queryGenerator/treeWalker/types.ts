@@ -7,6 +7,7 @@
  */
 
 import type { TranspilerContext } from "../../fhirpath/transpiler.js";
+import type { SourceMarkers } from "./sourceMap.js";
 
 export const SQL_INT = "INT";
 export const SQL_NVARCHAR_4000 = "NVARCHAR(4000)";
@@ -57,6 +58,11 @@ export interface Context {
   cteCounter: { value: number };
   /** Pass-through context for the FHIRPath transpiler. */
   transpilerCtx: TranspilerContext;
+  /**
+   * Shared markers of the elements the SQL was generated for, present where a
+   * source map is generated.
+   */
+  sourceMarkers?: SourceMarkers;
 }
 
 export interface Fragment {
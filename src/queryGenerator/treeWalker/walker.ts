@@ -58,6 +58,7 @@ export function makeWalker(
         return walkRepeat(node, ctx, walk, {
           schemaName: deps.schemaName,
           tableName: deps.tableName,
+          pathParser: deps.pathParser,
         });
       case "UnionAll":
         return walkUnionAll(node, ctx, walk, {
@@ -0,0 +1,230 @@
+/**
+ * Unit tests for the expansion of ValueSets and the hierarchies of
+ * CodeSystems, and the script that fills the terminology tables.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { expandTerminology } from "./expansion";
+import { buildTerminologyScript } from "./tables";
+import type { CodeSystemResource, TerminologyResource } from "./types";
+
+const SYSTEM = "http://example.org/fhir/CodeSystem/shapes";
+
+/**
+ * A code system of shapes: polygons, which are triangles or quadrilaterals,
+ * and circles. Squares are quadrilaterals, by their `parent` property.
+ */
+const shapes: CodeSystemResource = {
+  resourceType: "CodeSystem",
+  url: SYSTEM,
+  concept: [
+    {
+      code: "polygon",
+      concept: [{ code: "triangle" }, { code: "quadrilateral" }],
+    },
+    { code: "circle" },
+    {
+      code: "square",
+      property: [{ code: "parent", valueCode: "quadrilateral" }],
+    },
+  ],
+};
+
+/**
+ * The codes of the members of a value set, sorted.
+ */
+function members(resources: TerminologyResource[], url: string): string[] {
+  return expandTerminology(resources)
+    .members.filter((member) => member.valueSet === url)
+    .map((member) => member.code)
+    .sort();
+}
+
+describe("expandTerminology", () => {
+  it("reads the ancestors of concepts from nesting and parent properties", () => {
+    const { ancestors } = expandTerminology([shapes]);
+    expect(
+      ancestors
+        .map(({ ancestor, descendant }) => `${ancestor}>${descendant}`)
+        .sort(),
+    ).toEqual([
+      "polygon>quadrilateral",
+      "polygon>square",
+      "polygon>triangle",
+      "quadrilateral>square",
+    ]);
+  });
+
+  it("expands a whole code system", () => {
+    expect(
+      members(
+        [
+          shapes,
+          {
+            resourceType: "ValueSet",
+            url: "http://example.org/vs/all",
+            compose: { include: [{ system: SYSTEM }] },
+          },
+        ],
+        "http://example.org/vs/all",
+      ),
+    ).toEqual(["circle", "polygon", "quadrilateral", "square", "triangle"]);
+  });
+
+  it("expands is-a filters, less excluded concepts", () => {
+    expect(
+      members(
+        [
+          shapes,
+          {
+            resourceType: "ValueSet",
+            url: "http://example.org/vs/polygons",
+            compose: {
+              include: [
+                {
+                  system: SYSTEM,
+                  filter: [
+                    { property: "concept", op: "is-a", value: "polygon" },
+                  ],
+                },
+              ],
+              exclude: [{ system: SYSTEM, concept: [{ code: "triangle" }] }],
+            },
+          },
+        ],
+        "http://example.org/vs/polygons",
+      ),
+    ).toEqual(["polygon", "quadrilateral", "square"]);
+  });
+
+  it("expands value sets that include other value sets", () => {
+    expect(
+      members(
+        [
+          shapes,
+          {
+            resourceType: "ValueSet",
+            url: "http://example.org/vs/round",
+            compose: {
+              include: [{ system: SYSTEM, concept: [{ code: "circle" }] }],
+            },
+          },
+          {
+            resourceType: "ValueSet",
+            url: "http://example.org/vs/outer",
+            compose: {
+              include: [{ valueSet: ["http://example.org/vs/round|1.0.0"] }],
+            },
+          },
+        ],
+        "http://example.org/vs/outer",
+      ),
+    ).toEqual(["circle"]);
+  });
+
+  it("reads expansions that are already present", () => {
+    expect(
+      members(
+        [
+          {
+            resourceType: "ValueSet",
+            url: "http://example.org/vs/expanded",
+            expansion: {
+              contains: [
+                { system: SYSTEM, code: "circle" },
+                { contains: [{ system: SYSTEM, code: "square" }] },
+              ],
+            },
+          },
+        ],
+        "http://example.org/vs/expanded",
+      ),
+    ).toEqual(["circle", "square"]);
+  });
+
+  it("skips value sets whose code systems are not loaded", () => {
+    const terminology = expandTerminology([
+      {
+        resourceType: "ValueSet",
+        url: "http://example.org/vs/missing",
+        compose: { include: [{ system: "http://example.org/missing" }] },
+      },
+    ]);
+    expect(terminology.members).toEqual([]);
+    expect(terminology.skipped).toEqual([
+      {
+        valueSet: "http://example.org/vs/missing",
+        reason: expect.stringContaining("is not loaded"),
+      },
+    ]);
+  });
+
+  it("skips value sets with unsupported filters", () => {
+    const terminology = expandTerminology([
+      shapes,
+      {
+        resourceType: "ValueSet",
+        url: "http://example.org/vs/regex",
+        compose: {
+          include: [
+            {
+              system: SYSTEM,
+              filter: [{ property: "code", op: "regex", value: "c.*" }],
+            },
+          ],
+        },
+      },
+    ]);
+    expect(terminology.skipped[0].reason).toContain("is not supported");
+  });
+});
+
+describe("buildTerminologyScript", () => {
+  const script = buildTerminologyScript(
+    expandTerminology([
+      shapes,
+      {
+        resourceType: "ValueSet",
+        url: "http://example.org/vs/o'clock",
+        compose: {
+          include: [{ system: SYSTEM, concept: [{ code: "circle" }] }],
+        },
+      },
+    ]),
+    "terminology",
+  );
+
+  it("creates the tables with a binary collation", () => {
+    expect(script).toContain(
+      "CREATE TABLE [terminology].[fhir_valueset_members]",
+    );
+    expect(script).toContain(
+      "[code] NVARCHAR(255) COLLATE Latin1_General_BIN2 NOT NULL",
+    );
+    expect(script).toContain(
+      "CREATE TABLE [terminology].[fhir_concept_ancestors]",
+    );
+  });
+
+  it("replaces the rows of the loaded value sets and code systems", () => {
+    expect(script).toContain(
+      "DELETE FROM [terminology].[fhir_valueset_members] WHERE [valueset_url] IN (N'http://example.org/vs/o''clock');",
+    );
+    expect(script).toContain(
+      `INSERT INTO [terminology].[fhir_valueset_members] ([valueset_url], [system], [code]) VALUES\n  (N'http://example.org/vs/o''clock', N'${SYSTEM}', N'circle');`,
+    );
+  });
+
+  it("runs in a single transaction", () => {
+    expect(script.startsWith("SET XACT_ABORT ON;")).toBe(true);
+    expect(script.endsWith("COMMIT TRANSACTION;")).toBe(true);
+  });
+
+  it("rejects invalid identifiers", () => {
+    expect(() =>
+      buildTerminologyScript(expandTerminology([]), "dbo]; DROP TABLE x; --"),
+    ).toThrow();
+  });
+});
@@ -0,0 +1,454 @@
+/**
+ * Expansion of ValueSets, and the ancestors of concepts within the
+ * hierarchies of CodeSystems.
+ *
+ * A ValueSet with an expansion is read from its expansion. Otherwise its
+ * definition is expanded against the CodeSystems that were loaded along with
+ * it: concepts listed by their code are included as they are, while a code
+ * system included whole or through filters must have been loaded. A ValueSet
+ * that cannot be expanded is skipped, with the reason.
+ *
+ * @author John Grimes
+ */
+
+import type {
+  CodeSystemConcept,
+  CodeSystemResource,
+  ConceptAncestor,
+  ConceptProperty,
+  Terminology,
+  TerminologyResource,
+  ValueSetContains,
+  ValueSetFilter,
+  ValueSetInclude,
+  ValueSetMember,
+  ValueSetResource,
+} from "./types.js";
+
+/**
+ * The properties of a concept that name the concepts that subsume it.
+ */
+const PARENT_PROPERTIES = new Set(["parent", "subsumedBy"]);
+
+/**
+ * A concept of an expansion, identified by its system and code.
+ */
+type Concept = Omit<ValueSetMember, "valueSet">;
+
+/**
+ * A CodeSystem read for expansion.
+ */
+interface LoadedCodeSystem {
+  /** The codes of its concepts, in the order they are defined. */
+  codes: string[];
+  /** The codes of the parents of each concept. */
+  parents: Map<string, Set<string>>;
+  /** The codes of the children of each concept. */
+  children: Map<string, Set<string>>;
+  /** The values of the properties of each concept, by property code. */
+  properties: Map<string, Map<string, Set<string>>>;
+}
+
+/**
+ * The CodeSystems and ValueSets available to an expansion.
+ */
+interface ExpansionContext {
+  codeSystems: Map<string, LoadedCodeSystem>;
+  valueSets: Map<string, ValueSetResource>;
+  /** The value sets being expanded, to detect circular references. */
+  expanding: Set<string>;
+}
+
+/**
+ * Expand the ValueSets and read the hierarchies of the CodeSystems among a
+ * set of resources.
+ *
+ * @param resources - ValueSet and CodeSystem resources.
+ * @returns The expansions of the value sets and the ancestors of concepts.
+ */
+export function expandTerminology(
+  resources: TerminologyResource[],
+): Terminology {
+  const context: ExpansionContext = {
+    codeSystems: new Map(),
+    valueSets: new Map(),
+    expanding: new Set(),
+  };
+  for (const resource of resources) {
+    if (resource.url === undefined) {
+      continue;
+    }
+    const url = canonicalUrl(resource.url);
+    if (resource.resourceType === "CodeSystem") {
+      context.codeSystems.set(url, loadCodeSystem(resource));
+    } else {
+      context.valueSets.set(url, resource);
+    }
+  }
+
+  const terminology: Terminology = {
+    members: [],
+    ancestors: [...context.codeSystems].flatMap(([system, codeSystem]) =>
+      conceptAncestors(system, codeSystem),
+    ),
+    codeSystems: [...context.codeSystems.keys()],
+    valueSets: [],
+    skipped: [],
+  };
+  for (const valueSet of context.valueSets.keys()) {
+    try {
+      const members = [...expandValueSet(valueSet, context).values()];
+      terminology.members.push(
+        ...members.map((member) => ({ ...member, valueSet })),
+      );
+      terminology.valueSets.push(valueSet);
+    } catch (error) {
+      terminology.skipped.push({
+        valueSet,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return terminology;
+}
+
+/**
+ * A canonical URL without its version (`|1.0.0`).
+ *
+ * @param url - A canonical URL, possibly with a version.
+ * @returns The URL without the version.
+ */
+export function canonicalUrl(url: string): string {
+  return url.split("|")[0];
+}
+
+/**
+ * Read the concepts of a CodeSystem, along with their hierarchy, which is
+ * given by nesting concepts or by their `parent` property.
+ *
+ * @param codeSystem - The CodeSystem resource.
+ * @returns The code system, read for expansion.
+ */
+function loadCodeSystem(codeSystem: CodeSystemResource): LoadedCodeSystem {
+  const loaded: LoadedCodeSystem = {
+    codes: [],
+    parents: new Map(),
+    children: new Map(),
+    properties: new Map(),
+  };
+  const visit = (concepts: CodeSystemConcept[], parent?: string): void => {
+    for (const concept of concepts) {
+      loaded.codes.push(concept.code);
+      if (parent !== undefined) {
+        addParent(loaded, concept.code, parent);
+      }
+      for (const property of concept.property ?? []) {
+        const value = propertyValue(property);
+        if (value === undefined) {
+          continue;
+        }
+        if (PARENT_PROPERTIES.has(property.code)) {
+          addParent(loaded, concept.code, value);
+        } else {
+          addToSet(
+            getOrCreate(loaded.properties, concept.code, () => new Map()),
+            property.code,
+            value,
+          );
+        }
+      }
+      visit(concept.concept ?? [], concept.code);
+    }
+  };
+  visit(codeSystem.concept ?? []);
+  return loaded;
+}
+
+/**
+ * Record that a concept is a child of another.
+ *
+ * @param codeSystem - The code system being read.
+ * @param child - The code of the child concept.
+ * @param parent - The code of the parent concept.
+ */
+function addParent(
+  codeSystem: LoadedCodeSystem,
+  child: string,
+  parent: string,
+): void {
+  addToSet(codeSystem.parents, child, parent);
+  addToSet(codeSystem.children, parent, child);
+}
+
+/**
+ * The value of a property of a concept, as a string.
+ *
+ * @param property - The property.
+ * @returns The value, or undefined if it is of a type that is not read.
+ */
+function propertyValue(property: ConceptProperty): string | undefined {
+  const value =
+    property.valueCode ??
+    property.valueString ??
+    property.valueCoding?.code ??
+    property.valueBoolean ??
+    property.valueInteger;
+  return value === undefined ? undefined : String(value);
+}
+
+/**
+ * Every pair of concepts of a code system where one subsumes the other.
+ *
+ * @param system - The URL of the code system.
+ * @param codeSystem - The code system.
+ * @returns The ancestors of each concept.
+ */
+function conceptAncestors(
+  system: string,
+  codeSystem: LoadedCodeSystem,
+): ConceptAncestor[] {
+  return codeSystem.codes.flatMap((descendant) =>
+    [...related(codeSystem.parents, descendant)].map((ancestor) => ({
+      system,
+      ancestor,
+      descendant,
+    })),
+  );
+}
+
+/**
+ * The concepts reachable from a concept through a relationship (its parents
+ * or its children), not including the concept itself.
+ *
+ * @param relationship - The concepts each concept is related to.
+ * @param code - The code of the concept.
+ * @returns The codes of the related concepts.
+ */
+function related(
+  relationship: Map<string, Set<string>>,
+  code: string,
+): Set<string> {
+  const found = new Set<string>();
+  const pending = [...(relationship.get(code) ?? [])];
+  while (pending.length > 0) {
+    const next = pending.pop() as string;
+    if (next !== code && !found.has(next)) {
+      found.add(next);
+      pending.push(...(relationship.get(next) ?? []));
+    }
+  }
+  return found;
+}
+
+/**
+ * Expand a ValueSet.
+ *
+ * @param url - The canonical URL of the value set.
+ * @param context - The code systems and value sets available.
+ * @returns The concepts of the value set, keyed by system and code.
+ * @throws If the value set, or a code system or value set it depends on, is
+ *   not loaded, or it uses a filter that is not supported.
+ */
+function expandValueSet(
+  url: string,
+  context: ExpansionContext,
+): Map<string, Concept> {
+  const valueSet = context.valueSets.get(url);
+  if (!valueSet) {
+    throw new Error(`ValueSet '${url}' is not loaded`);
+  }
+  if (context.expanding.has(url)) {
+    throw new Error(`ValueSet '${url}' includes itself`);
+  }
+  context.expanding.add(url);
+  try {
+    return valueSet.expansion?.contains
+      ? conceptMap(flattenContains(valueSet.expansion.contains))
+      : expandDefinition(valueSet, url, context);
+  } finally {
+    context.expanding.delete(url);
+  }
+}
+
+/**
+ * Expand the definition of a ValueSet: the concepts it includes, less those
+ * it excludes.
+ *
+ * @param valueSet - The value set.
+ * @param url - The canonical URL of the value set.
+ * @param context - The code systems and value sets available.
+ * @returns The concepts of the value set, keyed by system and code.
+ */
+function expandDefinition(
+  valueSet: ValueSetResource,
+  url: string,
+  context: ExpansionContext,
+): Map<string, Concept> {
+  const included = new Map<string, Concept>();
+  for (const include of valueSet.compose?.include ?? []) {
+    for (const [key, concept] of expandInclude(include, url, context)) {
+      included.set(key, concept);
+    }
+  }
+  for (const exclude of valueSet.compose?.exclude ?? []) {
+    for (const key of expandInclude(exclude, url, context).keys()) {
+      included.delete(key);
+    }
+  }
+  return included;
+}
+
+/**
+ * The concepts of an expansion, including those nested within others.
+ *
+ * @param contains - The concepts of the expansion.
+ * @returns The concepts with both a system and a code.
+ */
+function flattenContains(contains: ValueSetContains[]): Concept[] {
+  return contains.flatMap((concept) => [
+    ...(concept.system !== undefined && concept.code !== undefined
+      ? [{ system: concept.system, code: concept.code }]
+      : []),
+    ...flattenContains(concept.contains ?? []),
+  ]);
+}
+
+/**
+ * The concepts of a set included in or excluded from a ValueSet: those of its
+ * code system that it lists or that satisfy its filters, which are also in
+ * each of the value sets it names.
+ *
+ * @param include - The set of concepts.
+ * @param url - The canonical URL of the value set, for error messages.
+ * @param context - The code systems and value sets available.
+ * @returns The concepts, keyed by system and code.
+ */
+function expandInclude(
+  include: ValueSetInclude,
+  url: string,
+  context: ExpansionContext,
+): Map<string, Concept> {
+  const sets = (include.valueSet ?? []).map((valueSet) =>
+    expandValueSet(canonicalUrl(valueSet), context),
+  );
+  if (include.system !== undefined) {
+    const system = include.system;
+    const codes = include.concept
+      ? include.concept.map((concept) => concept.code)
+      : systemCodes(include, url, context);
+    sets.push(conceptMap(codes.map((code) => ({ system, code }))));
+  }
+  const [first, ...rest] = sets;
+  return new Map(
+    [...(first ?? [])].filter(([key]) => rest.every((set) => set.has(key))),
+  );
+}
+
+/**
+ * The codes of a code system included in a ValueSet, all of them or those
+ * that satisfy its filters.
+ *
+ * @param include - The set of concepts, which has a system.
+ * @param url - The canonical URL of the value set, for error messages.
+ * @param context - The code systems and value sets available.
+ * @returns The codes.
+ */
+function systemCodes(
+  include: ValueSetInclude,
+  url: string,
+  context: ExpansionContext,
+): string[] {
+  const system = canonicalUrl(include.system as string);
+  const codeSystem = context.codeSystems.get(system);
+  if (!codeSystem) {
+    throw new Error(
+      `CodeSystem '${system}', which ValueSet '${url}' includes, is not loaded`,
+    );
+  }
+  return (include.filter ?? []).reduce(
+    (codes, filter) => {
+      const matching = filterCodes(codeSystem, filter, url);
+      return codes.filter((code) => matching.has(code));
+    },
+    [...codeSystem.codes],
+  );
+}
+
+/**
+ * The codes of a code system that satisfy a filter.
+ *
+ * @param codeSystem - The code system.
+ * @param filter - The filter.
+ * @param url - The canonical URL of the value set, for error messages.
+ * @returns The codes.
+ * @throws If the operator of the filter is not supported.
+ */
+function filterCodes(
+  codeSystem: LoadedCodeSystem,
+  filter: ValueSetFilter,
+  url: string,
+): Set<string> {
+  const { property, op, value } = filter;
+  const list = new Set(value.split(",").map((code) => code.trim()));
+  const except = (codes: Set<string>): Set<string> =>
+    new Set(codeSystem.codes.filter((code) => !codes.has(code)));
+  switch (op) {
+    case "is-a":
+      return new Set([value, ...related(codeSystem.children, value)]);
+    case "descendent-of":
+      return related(codeSystem.children, value);
+    case "is-not-a":
+      return except(new Set([value, ...related(codeSystem.children, value)]));
+    case "generalizes":
+      return new Set([value, ...related(codeSystem.parents, value)]);
+    case "in":
+      return list;
+    case "not-in":
+      return except(list);
+    case "=":
+      return property === "concept"
+        ? new Set([value])
+        : new Set(
+            codeSystem.codes.filter((code) =>
+              codeSystem.properties.get(code)?.get(property)?.has(value),
+            ),
+          );
+    case "exists":
+      return new Set(
+        codeSystem.codes.filter(
+          (code) =>
+            (codeSystem.properties.get(code)?.has(property) ?? false) ===
+            (value === "true"),
+        ),
+      );
+    default:
+      throw new Error(
+        `ValueSet '${url}' uses the filter '${property} ${op} ${value}', which is not supported`,
+      );
+  }
+}
+
+/**
+ * Concepts keyed by their system and code.
+ *
+ * @param concepts - The concepts.
+ * @returns The concepts, keyed by system and code.
+ */
+function conceptMap(concepts: Concept[]): Map<string, Concept> {
+  return new Map(
+    concepts.map((concept) => [`${concept.system}|${concept.code}`, concept]),
+  );
+}
+
+function addToSet<K, V>(map: Map<K, Set<V>>, key: K, value: V): void {
+  getOrCreate(map, key, () => new Set()).add(value);
+}
+
+function getOrCreate<K, V>(map: Map<K, V>, key: K, create: () => V): V {
+  let value = map.get(key);
+  if (value === undefined) {
+    value = create();
+    map.set(key, value);
+  }
+  return value;
+}
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for loading terminology: reading ValueSets and CodeSystems,
+ * expanding them and building the script that fills the terminology tables.
+ *
+ * @author John Grimes
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { loadTerminology } from "./index";
+
+const SYSTEM = "http://example.org/fhir/CodeSystem/shapes";
+const VALUE_SET = "http://example.org/fhir/ValueSet/shapes";
+
+let directory: string;
+
+beforeAll(() => {
+  directory = mkdtempSync(join(tmpdir(), "sof-terminology-"));
+  writeFileSync(
+    join(directory, "terminology.ndjson"),
+    [
+      {
+        resourceType: "CodeSystem",
+        url: SYSTEM,
+        concept: [{ code: "polygon", concept: [{ code: "triangle" }] }],
+      },
+      {
+        resourceType: "ValueSet",
+        url: VALUE_SET,
+        compose: { include: [{ system: SYSTEM }] },
+      },
+    ]
+      .map((resource) => JSON.stringify(resource))
+      .join("\n"),
+  );
+});
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("loadTerminology", () => {
+  it("expands the terminology of a directory into a script", async () => {
+    const { terminology, script } = await loadTerminology({
+      directory,
+      quiet: true,
+    });
+    expect(terminology.valueSets).toEqual([VALUE_SET]);
+    expect(terminology.codeSystems).toEqual([SYSTEM]);
+    expect(script).toContain("[dbo].[fhir_valueset_members]");
+    expect(script).toContain("[dbo].[fhir_concept_ancestors]");
+  });
+
+  it("fills the tables named in the options", async () => {
+    const { script } = await loadTerminology({
+      directory,
+      schemaName: "terminology",
+      valueSetTableName: "members",
+      conceptAncestorTableName: "ancestors",
+      quiet: true,
+    });
+    expect(script).toContain("[terminology].[members]");
+    expect(script).toContain("[terminology].[ancestors]");
+  });
+
+  it("requires a directory or the database to read from", async () => {
+    await expect(loadTerminology({ quiet: true })).rejects.toThrow(
+      "Provide a directory of ValueSets and CodeSystems, or read them from the database",
+    );
+  });
+
+  it("requires database configuration to read from the database", async () => {
+    await expect(
+      loadTerminology({ fromDatabase: true, quiet: true }),
+    ).rejects.toThrow("Database configuration is required");
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Main orchestration for the terminology loader.
+ * Reads ValueSets and CodeSystems, expands them and builds (and optionally
+ * installs) the terminology tables that `memberOf()`, `subsumes()` and
+ * `subsumedBy()` are transpiled against.
+ *
+ * @author John Grimes
+ */
+
+import type { ConnectionPool } from "mssql";
+import { closeConnectionPool, createConnectionPool } from "../loader/index.js";
+import { expandTerminology } from "./expansion.js";
+import { readTerminologyDirectory, readTerminologyTable } from "./sources.js";
+import {
+  buildTerminologyScript,
+  DEFAULT_TERMINOLOGY_TABLE_NAMES,
+} from "./tables.js";
+import type {
+  Terminology,
+  TerminologyOptions,
+  TerminologyResource,
+  TerminologyTableNames,
+} from "./types.js";
+
+/**
+ * The result of loading terminology.
+ */
+export interface TerminologyResult {
+  /** The expanded value sets and code system hierarchies. */
+  terminology: Terminology;
+  /** The script that creates and fills the terminology tables. */
+  script: string;
+}
+
+/**
+ * Read, expand and build the terminology tables, installing them into the
+ * database where requested.
+ *
+ * @param options - Terminology options.
+ * @returns Promise that resolves to the expanded terminology and its script.
+ */
+export async function loadTerminology(
+  options: TerminologyOptions,
+): Promise<TerminologyResult> {
+  if (options.directory === undefined && !options.fromDatabase) {
+    throw new Error(
+      "Provide a directory of ValueSets and CodeSystems, or read them from the database",
+    );
+  }
+  const pool = await connect(options);
+  try {
+    const terminology = expandTerminology(await readResources(options, pool));
+    const script = buildTerminologyScript(
+      terminology,
+      options.schemaName ?? "dbo",
+      tableNames(options),
+    );
+    if (options.install && pool) {
+      await pool.request().batch(script);
+    }
+    if (!options.quiet) {
+      printTerminologySummary(terminology);
+    }
+    return { terminology, script };
+  } finally {
+    if (pool) {
+      await closeConnectionPool(pool);
+    }
+  }
+}
+
+/**
+ * Connect to the database, where terminology is read from or installed into
+ * it.
+ *
+ * @param options - Terminology options.
+ * @returns Promise that resolves to the connection pool, or null if the
+ *   database is not used.
+ */
+async function connect(
+  options: TerminologyOptions,
+): Promise<ConnectionPool | null> {
+  if (!options.fromDatabase && !options.install) {
+    return null;
+  }
+  if (!options.database) {
+    throw new Error("Database configuration is required");
+  }
+  return createConnectionPool(options.database);
+}
+
+/**
+ * The names of the terminology tables, with defaults for those not given.
+ *
+ * @param options - Terminology options.
+ * @returns The table names.
+ */
+function tableNames(options: TerminologyOptions): TerminologyTableNames {
+  return {
+    valueSetTableName:
+      options.valueSetTableName ??
+      DEFAULT_TERMINOLOGY_TABLE_NAMES.valueSetTableName,
+    conceptAncestorTableName:
+      options.conceptAncestorTableName ??
+      DEFAULT_TERMINOLOGY_TABLE_NAMES.conceptAncestorTableName,
+  };
+}
+
+/**
+ * Read the ValueSets and CodeSystems from the directory and the database, as
+ * requested.
+ *
+ * @param options - Terminology options.
+ * @param pool - The connection pool, if the database is used.
+ * @returns Promise that resolves to the resources.
+ */
+async function readResources(
+  options: TerminologyOptions,
+  pool: ConnectionPool | null,
+): Promise<TerminologyResource[]> {
+  const resources =
+    options.directory === undefined
+      ? []
+      : readTerminologyDirectory(options.directory);
+  if (options.fromDatabase && pool) {
+    resources.push(
+      ...(await readTerminologyTable(
+        pool,
+        options.schemaName ?? "dbo",
+        options.tableName ?? "fhir_resources",
+      )),
+    );
+  }
+  return resources;
+}
+
+/**
+ * Print a summary of the expanded terminology, and the value sets that could
+ * not be expanded, to stderr so that a script written to stdout is kept
+ * apart.
+ *
+ * @param terminology - The expanded terminology.
+ */
+function printTerminologySummary(terminology: Terminology): void {
+  console.error(
+    `Expanded ${terminology.valueSets.length} value set(s) to ${terminology.members.length} concept(s), ` +
+      `and read ${terminology.ancestors.length} ancestor(s) from ${terminology.codeSystems.length} code system(s)`,
+  );
+  for (const { valueSet, reason } of terminology.skipped) {
+    console.error(`  Skipped ${valueSet}: ${reason}`);
+  }
+}
+
+/**
+ * Export all terminology functionality.
+ */
+export * from "./types.js";
+export * from "./expansion.js";
+export * from "./sources.js";
+export * from "./tables.js";
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for reading ValueSet and CodeSystem resources from a directory
+ * of JSON and NDJSON files, and from the resources table.
+ *
+ * @author John Grimes
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import type { ConnectionPool } from "mssql";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { readTerminologyDirectory, readTerminologyTable } from "./sources";
+
+const VALUE_SET = {
+  resourceType: "ValueSet",
+  url: "http://example.org/fhir/ValueSet/shapes",
+};
+
+const CODE_SYSTEM = {
+  resourceType: "CodeSystem",
+  url: "http://example.org/fhir/CodeSystem/shapes",
+};
+
+const PATIENT = { resourceType: "Patient", id: "p1" };
+
+let directory: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), "sof-terminology-"));
+});
+
+afterEach(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+/**
+ * The URLs of resources, sorted.
+ */
+function urls(resources: { url?: string }[]): (string | undefined)[] {
+  return resources.map((resource) => resource.url).sort();
+}
+
+describe("readTerminologyDirectory", () => {
+  it("reads resources and Bundles from JSON and NDJSON files", () => {
+    writeFileSync(join(directory, "ValueSet.json"), JSON.stringify(VALUE_SET));
+    writeFileSync(
+      join(directory, "Bundle.json"),
+      JSON.stringify({
+        resourceType: "Bundle",
+        entry: [{ resource: CODE_SYSTEM }, { resource: PATIENT }],
+      }),
+    );
+    writeFileSync(
+      join(directory, "resources.ndjson"),
+      `${JSON.stringify(PATIENT)}\n\n${JSON.stringify(VALUE_SET)}\n`,
+    );
+    writeFileSync(join(directory, "README.txt"), "Not a resource");
+    expect(urls(readTerminologyDirectory(directory))).toEqual([
+      CODE_SYSTEM.url,
+      VALUE_SET.url,
+      VALUE_SET.url,
+    ]);
+  });
+
+  it("names the file holding JSON that is not valid", () => {
+    const path = join(directory, "ValueSet.json");
+    writeFileSync(path, "{ not JSON");
+    expect(() => readTerminologyDirectory(directory)).toThrow(
+      `Invalid JSON in ${path}: `,
+    );
+  });
+
+  it("names the line of an NDJSON file holding JSON that is not valid", () => {
+    const path = join(directory, "resources.ndjson");
+    writeFileSync(path, `${JSON.stringify(VALUE_SET)}\n{ not JSON\n`);
+    expect(() => readTerminologyDirectory(directory)).toThrow(
+      `Invalid JSON in ${path}:2: `,
+    );
+  });
+});
+
+describe("readTerminologyTable", () => {
+  /**
+   * A connection pool whose queries return rows of the given JSON, recording
+   * the queries run.
+   */
+  function pool(json: string[], queries: string[] = []): ConnectionPool {
+    return {
+      request: () => ({
+        query: (sql: string) => {
+          queries.push(sql);
+          return Promise.resolve({
+            recordset: json.map((row) => ({ json: row })),
+          });
+        },
+      }),
+    } as unknown as ConnectionPool;
+  }
+
+  it("reads the ValueSets and CodeSystems of the resources table", async () => {
+    const queries: string[] = [];
+    const resources = await readTerminologyTable(
+      pool([JSON.stringify(VALUE_SET), JSON.stringify(CODE_SYSTEM)], queries),
+      "dbo",
+      "fhir_resources",
+    );
+    expect(urls(resources)).toEqual([CODE_SYSTEM.url, VALUE_SET.url]);
+    expect(queries[0]).toContain(
+      "FROM [dbo].[fhir_resources] WHERE [resource_type] IN ('ValueSet', 'CodeSystem')",
+    );
+  });
+
+  it("rejects names of tables that are not valid identifiers", async () => {
+    await expect(
+      readTerminologyTable(pool([]), "dbo", "fhir_resources; DROP TABLE x"),
+    ).rejects.toThrow("Table name");
+  });
+
+  it("names the table holding JSON that is not valid", async () => {
+    await expect(
+      readTerminologyTable(pool(["{ not JSON"]), "dbo", "fhir_resources"),
+    ).rejects.toThrow("Invalid JSON in [dbo].[fhir_resources]: ");
+  });
+});
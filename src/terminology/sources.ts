@@ -0,0 +1,114 @@
+/**
+ * Sources of ValueSet and CodeSystem resources: a directory of JSON and
+ * NDJSON files, or the resources table.
+ *
+ * @author John Grimes
+ */
+
+import { readdirSync, readFileSync, statSync } from "fs";
+import type { ConnectionPool } from "mssql";
+import { extname, join } from "path";
+import { validateSqlServerIdentifier } from "../validation.js";
+import type { TerminologyResource } from "./types.js";
+
+/**
+ * The resource types read by the terminology loader.
+ */
+const TERMINOLOGY_RESOURCE_TYPES = new Set(["ValueSet", "CodeSystem"]);
+
+/**
+ * Read the ValueSet and CodeSystem resources within a directory. JSON files
+ * may hold a single resource or a Bundle of them, and NDJSON files a resource
+ * on each line. Other resources are ignored.
+ *
+ * @param directory - The directory to read.
+ * @returns The resources.
+ * @throws If a file holds JSON that is not valid, naming the file.
+ */
+export function readTerminologyDirectory(
+  directory: string,
+): TerminologyResource[] {
+  return readdirSync(directory)
+    .map((entry) => join(directory, entry))
+    .filter((path) => statSync(path).isFile())
+    .flatMap((path) => {
+      const extension = extname(path).toLowerCase();
+      if (extension === ".ndjson") {
+        return readFileSync(path, "utf-8")
+          .split("\n")
+          .flatMap((line, index) =>
+            line.trim() === ""
+              ? []
+              : terminologyResources(parseJson(line, `${path}:${index + 1}`)),
+          );
+      }
+      return extension === ".json"
+        ? terminologyResources(parseJson(readFileSync(path, "utf-8"), path))
+        : [];
+    });
+}
+
+/**
+ * Read the ValueSet and CodeSystem resources within the resources table.
+ *
+ * @param pool - The connection pool.
+ * @param schemaName - Schema name.
+ * @param tableName - Table name of the resources table.
+ * @returns The resources.
+ */
+export async function readTerminologyTable(
+  pool: ConnectionPool,
+  schemaName: string,
+  tableName: string,
+): Promise<TerminologyResource[]> {
+  validateSqlServerIdentifier(schemaName, "Schema name");
+  validateSqlServerIdentifier(tableName, "Table name");
+  const result = await pool.request().query<{
+    json: string;
+  }>(`SELECT CAST([json] AS NVARCHAR(MAX)) AS [json] FROM [${schemaName}].[${tableName}] WHERE [resource_type] IN ('ValueSet', 'CodeSystem')`);
+  return result.recordset.flatMap((row) =>
+    terminologyResources(parseJson(row.json, `[${schemaName}].[${tableName}]`)),
+  );
+}
+
+/**
+ * Parse JSON read from a source of resources.
+ *
+ * @param text - The JSON.
+ * @param source - Where the JSON was read from, e.g. the path of a file.
+ * @returns The parsed value.
+ * @throws If the JSON is not valid, naming its source.
+ */
+function parseJson(text: string, source: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON in ${source}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * The ValueSet and CodeSystem resources within a resource, which may be a
+ * Bundle.
+ *
+ * @param resource - The parsed resource.
+ * @returns The resources.
+ */
+function terminologyResources(resource: unknown): TerminologyResource[] {
+  if (typeof resource !== "object" || resource === null) {
+    return [];
+  }
+  const { resourceType, entry } = resource as {
+    resourceType?: string;
+    entry?: { resource?: unknown }[];
+  };
+  if (resourceType === "Bundle") {
+    return (entry ?? []).flatMap((item) => terminologyResources(item.resource));
+  }
+  return resourceType !== undefined &&
+    TERMINOLOGY_RESOURCE_TYPES.has(resourceType)
+    ? [resource as TerminologyResource]
+    : [];
+}
@@ -0,0 +1,169 @@
+/**
+ * The terminology tables: the expansions of ValueSets, read by `memberOf()`,
+ * and the ancestors of concepts, read by `subsumes()` and `subsumedBy()`.
+ *
+ * Codes and URLs are held with a binary collation, so that they are compared
+ * case-sensitively whatever the collation of the database.
+ *
+ * @author John Grimes
+ */
+
+import { validateSqlServerIdentifier } from "../validation.js";
+import type { Terminology, TerminologyTableNames } from "./types.js";
+
+/**
+ * The default names of the terminology tables.
+ */
+export const DEFAULT_TERMINOLOGY_TABLE_NAMES: TerminologyTableNames = {
+  valueSetTableName: "fhir_valueset_members",
+  conceptAncestorTableName: "fhir_concept_ancestors",
+};
+
+/**
+ * The SQL type of codes, systems and URLs within the terminology tables.
+ */
+const TERMINOLOGY_STRING_TYPE = "NVARCHAR(255) COLLATE Latin1_General_BIN2";
+
+/**
+ * The maximum number of rows of a single `INSERT ... VALUES` statement.
+ */
+const INSERT_BATCH_SIZE = 1000;
+
+/**
+ * Build the script that creates the terminology tables if they do not exist,
+ * and replaces the rows of the value sets and code systems that were loaded.
+ * Rows of other value sets and code systems are kept. The script runs in a
+ * single transaction.
+ *
+ * @param terminology - The expanded value sets and code system hierarchies.
+ * @param schemaName - Schema name.
+ * @param tableNames - The names of the terminology tables.
+ * @returns The T-SQL script.
+ */
+export function buildTerminologyScript(
+  terminology: Terminology,
+  schemaName: string,
+  tableNames: TerminologyTableNames = DEFAULT_TERMINOLOGY_TABLE_NAMES,
+): string {
+  validateSqlServerIdentifier(schemaName, "Schema name");
+  validateSqlServerIdentifier(tableNames.valueSetTableName, "Table name");
+  validateSqlServerIdentifier(
+    tableNames.conceptAncestorTableName,
+    "Table name",
+  );
+  const valueSets = `[${schemaName}].[${tableNames.valueSetTableName}]`;
+  const ancestors = `[${schemaName}].[${tableNames.conceptAncestorTableName}]`;
+
+  return [
+    "SET XACT_ABORT ON;",
+    "BEGIN TRANSACTION;",
+    createTable(schemaName, tableNames.valueSetTableName, [
+      "valueset_url",
+      "system",
+      "code",
+    ]),
+    createTable(schemaName, tableNames.conceptAncestorTableName, [
+      "system",
+      "ancestor_code",
+      "descendant_code",
+    ]),
+    ...deleteRows(valueSets, "valueset_url", terminology.valueSets),
+    ...deleteRows(ancestors, "system", terminology.codeSystems),
+    ...insertRows(
+      valueSets,
+      ["valueset_url", "system", "code"],
+      terminology.members.map((member) => [
+        member.valueSet,
+        member.system,
+        member.code,
+      ]),
+    ),
+    ...insertRows(
+      ancestors,
+      ["system", "ancestor_code", "descendant_code"],
+      terminology.ancestors.map((ancestor) => [
+        ancestor.system,
+        ancestor.ancestor,
+        ancestor.descendant,
+      ]),
+    ),
+    "COMMIT TRANSACTION;",
+  ].join("\n\n");
+}
+
+/**
+ * A statement that creates a terminology table, and an index on all of its
+ * columns, if it does not exist.
+ *
+ * @param schemaName - Schema name.
+ * @param tableName - Table name.
+ * @param columns - The names of its columns.
+ * @returns The statement.
+ */
+function createTable(
+  schemaName: string,
+  tableName: string,
+  columns: string[],
+): string {
+  const table = `[${schemaName}].[${tableName}]`;
+  const definitions = columns
+    .map((column) => `    [${column}] ${TERMINOLOGY_STRING_TYPE} NOT NULL`)
+    .join(",\n");
+  return `IF OBJECT_ID(N'${table}', N'U') IS NULL
+BEGIN
+  CREATE TABLE ${table} (
+${definitions}
+  );
+  CREATE INDEX [IX_${tableName}] ON ${table} (${columns.map((column) => `[${column}]`).join(", ")});
+END;`;
+}
+
+/**
+ * Statements that delete the rows of a terminology table with a key among
+ * those given.
+ *
+ * @param table - The qualified name of the table.
+ * @param column - The column holding the key.
+ * @param keys - The keys of the rows to delete.
+ * @returns The statements.
+ */
+function deleteRows(table: string, column: string, keys: string[]): string[] {
+  return batches(keys).map(
+    (batch) =>
+      `DELETE FROM ${table} WHERE [${column}] IN (${batch.map(literal).join(", ")});`,
+  );
+}
+
+/**
+ * Statements that insert rows into a terminology table.
+ *
+ * @param table - The qualified name of the table.
+ * @param columns - The names of its columns.
+ * @param rows - The values of the rows.
+ * @returns The statements.
+ */
+function insertRows(
+  table: string,
+  columns: string[],
+  rows: string[][],
+): string[] {
+  const names = columns.map((column) => `[${column}]`).join(", ");
+  return batches(rows).map(
+    (batch) =>
+      `INSERT INTO ${table} (${names}) VALUES\n${batch
+        .map((row) => `  (${row.map(literal).join(", ")})`)
+        .join(",\n")};`,
+  );
+}
+
+function batches<T>(items: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += INSERT_BATCH_SIZE) {
+    result.push(items.slice(i, i + INSERT_BATCH_SIZE));
+  }
+  return result;
+}
+
+function literal(value: string): string {
+  return `N'${value.replace(/'/g, "''")}'`;
+}
@@ -0,0 +1,181 @@
+/**
+ * Type definitions for the terminology loader.
+ *
+ * @author John Grimes
+ */
+
+import type { DatabaseConfig } from "../loader/types.js";
+
+/**
+ * A concept defined by a CodeSystem, with the concepts it subsumes nested
+ * within it.
+ */
+export interface CodeSystemConcept {
+  /** The code of the concept. */
+  code: string;
+  /** The properties of the concept, e.g. its `parent`. */
+  property?: ConceptProperty[];
+  /** The child concepts of the concept. */
+  concept?: CodeSystemConcept[];
+}
+
+/**
+ * A property of a concept defined by a CodeSystem.
+ */
+export interface ConceptProperty {
+  /** The code of the property. */
+  code: string;
+  valueCode?: string;
+  valueString?: string;
+  valueBoolean?: boolean;
+  valueInteger?: number;
+  valueCoding?: { code?: string };
+}
+
+/**
+ * A CodeSystem resource, as far as it is read by the loader.
+ */
+export interface CodeSystemResource {
+  resourceType: "CodeSystem";
+  /** The canonical URL of the code system, used as the system of codings. */
+  url?: string;
+  /** The concepts the code system defines. */
+  concept?: CodeSystemConcept[];
+}
+
+/**
+ * A filter on the concepts of a code system included in a ValueSet.
+ */
+export interface ValueSetFilter {
+  /** The property filtered on, e.g. `concept`. */
+  property: string;
+  /** The operator, e.g. `is-a`. */
+  op: string;
+  /** The value of the filter. */
+  value: string;
+}
+
+/**
+ * A set of concepts included in or excluded from a ValueSet.
+ */
+export interface ValueSetInclude {
+  /** The code system of the concepts. */
+  system?: string;
+  /** Concepts listed by their code. */
+  concept?: { code: string }[];
+  /** Filters that the concepts satisfy. */
+  filter?: ValueSetFilter[];
+  /** ValueSets whose concepts are included, by their canonical URL. */
+  valueSet?: string[];
+}
+
+/**
+ * A concept of the expansion of a ValueSet, with those nested within it.
+ */
+export interface ValueSetContains {
+  system?: string;
+  code?: string;
+  contains?: ValueSetContains[];
+}
+
+/**
+ * A ValueSet resource, as far as it is read by the loader.
+ */
+export interface ValueSetResource {
+  resourceType: "ValueSet";
+  /** The canonical URL of the value set, used by `memberOf()`. */
+  url?: string;
+  /** The definition of the value set. */
+  compose?: {
+    include?: ValueSetInclude[];
+    exclude?: ValueSetInclude[];
+  };
+  /** An expansion of the value set, used in place of its definition. */
+  expansion?: { contains?: ValueSetContains[] };
+}
+
+/**
+ * A resource read by the terminology loader.
+ */
+export type TerminologyResource = CodeSystemResource | ValueSetResource;
+
+/**
+ * A concept of the expansion of a ValueSet.
+ */
+export interface ValueSetMember {
+  /** The canonical URL of the value set. */
+  valueSet: string;
+  /** The code system of the concept. */
+  system: string;
+  /** The code of the concept. */
+  code: string;
+}
+
+/**
+ * A concept that subsumes another within the hierarchy of a CodeSystem.
+ */
+export interface ConceptAncestor {
+  /** The code system of both concepts. */
+  system: string;
+  /** The code of the subsuming concept. */
+  ancestor: string;
+  /** The code of the subsumed concept. */
+  descendant: string;
+}
+
+/**
+ * A ValueSet that could not be expanded.
+ */
+export interface SkippedValueSet {
+  /** The canonical URL of the value set. */
+  valueSet: string;
+  /** Why the value set could not be expanded. */
+  reason: string;
+}
+
+/**
+ * The expansions of ValueSets and the hierarchies of CodeSystems, as loaded
+ * into the terminology tables.
+ */
+export interface Terminology {
+  /** The concepts of every value set that was expanded. */
+  members: ValueSetMember[];
+  /** Every pair of concepts where one subsumes the other. */
+  ancestors: ConceptAncestor[];
+  /** The code systems whose hierarchies were read. */
+  codeSystems: string[];
+  /** The value sets that were expanded. */
+  valueSets: string[];
+  /** The value sets that could not be expanded. */
+  skipped: SkippedValueSet[];
+}
+
+/**
+ * The names of the terminology tables.
+ */
+export interface TerminologyTableNames {
+  /** The table of the expansions of value sets. */
+  valueSetTableName: string;
+  /** The table of the ancestors of concepts. */
+  conceptAncestorTableName: string;
+}
+
+/**
+ * Options for the terminology loader.
+ */
+export interface TerminologyOptions extends Partial<TerminologyTableNames> {
+  /** Directory containing ValueSet and CodeSystem resources (JSON or NDJSON). */
+  directory?: string;
+  /** Whether to read ValueSets and CodeSystems from the resources table. */
+  fromDatabase?: boolean;
+  /** Whether to create and fill the terminology tables in the database. */
+  install?: boolean;
+  /** Database connection configuration, to read from or install into. */
+  database?: DatabaseConfig;
+  /** Table name of the resources table (default: fhir_resources). */
+  tableName?: string;
+  /** Schema name (default: dbo). */
+  schemaName?: string;
+  /** Minimal output. */
+  quiet?: boolean;
+}
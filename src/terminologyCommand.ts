@@ -0,0 +1,132 @@
+/**
+ * CLI command for loading ValueSets and CodeSystems into the terminology
+ * tables.
+ *
+ * @author John Grimes
+ */
+
+import { Command } from "commander";
+import { writeFileSync } from "fs";
+import { getDatabaseConfigFromEnv } from "./loader/index.js";
+import {
+  loadTerminology,
+  type TerminologyOptions,
+} from "./terminology/index.js";
+
+/**
+ * Build terminology options from command options.
+ *
+ * @param directory - Directory to read from, if any.
+ * @param commandOptions - Command options.
+ * @returns Terminology options.
+ */
+export function buildTerminologyOptions(
+  directory: string | undefined,
+  commandOptions: Record<string, unknown>,
+): TerminologyOptions {
+  const fromDatabase = commandOptions.fromDatabase as boolean | undefined;
+  const install = commandOptions.install as boolean | undefined;
+  const database =
+    fromDatabase || install
+      ? getDatabaseConfigFromEnv({
+          host: commandOptions.host as string | undefined,
+          port: commandOptions.port as number | undefined,
+          user: commandOptions.user as string | undefined,
+          password: commandOptions.password as string | undefined,
+          database: commandOptions.database as string | undefined,
+          trustServerCertificate: commandOptions.trustServerCertificate as
+            | boolean
+            | undefined,
+        })
+      : undefined;
+
+  return {
+    directory,
+    fromDatabase,
+    install,
+    database,
+    tableName: commandOptions.tableName as string | undefined,
+    schemaName: commandOptions.schemaName as string | undefined,
+    valueSetTableName: commandOptions.valueSetTableName as string | undefined,
+    conceptAncestorTableName: commandOptions.conceptAncestorTableName as
+      | string
+      | undefined,
+    quiet: commandOptions.quiet as boolean | undefined,
+  };
+}
+
+/**
+ * Handle the terminology command action.
+ *
+ * @param directory - Directory to read from, if any.
+ * @param commandOptions - Command options.
+ */
+async function handleTerminologyCommand(
+  directory: string | undefined,
+  commandOptions: Record<string, unknown>,
+): Promise<void> {
+  try {
+    const options = buildTerminologyOptions(directory, commandOptions);
+    const { script } = await loadTerminology(options);
+    const output = commandOptions.output as string | undefined;
+    if (output) {
+      writeFileSync(output, script, "utf-8");
+    } else if (!options.install) {
+      process.stdout.write(script);
+    }
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Create the terminology command.
+ *
+ * @returns Commander command for loading terminology.
+ */
+export function createTerminologyCommand(): Command {
+  const command = new Command("terminology");
+
+  command
+    .description(
+      "Expand ValueSets and CodeSystems into the tables used by memberOf(), subsumes() and subsumedBy()",
+    )
+    .argument(
+      "[directory]",
+      "Directory containing ValueSet and CodeSystem resources (JSON or NDJSON)",
+    )
+    .option(
+      "--from-database",
+      "Read ValueSets and CodeSystems from the resources table",
+      false,
+    )
+    .option("--install", "Create and fill the tables in the database", false)
+    .option(
+      "-o, --output <file>",
+      "Output SQL file (default: stdout, unless installing)",
+    )
+    .option("--host <host>", "Database server hostname")
+    .option("--port <port>", "Database server port", parseInt)
+    .option("--user <user>", "Database username")
+    .option("--password <password>", "Database password")
+    .option("--database <database>", "Database name")
+    .option("--trust-server-certificate", "Trust server certificate", false)
+    .option(
+      "--table-name <name>",
+      "Resources table name (default: fhir_resources)",
+    )
+    .option("--schema-name <name>", "Schema name (default: dbo)")
+    .option(
+      "--value-set-table-name <name>",
+      "Value set table name (default: fhir_valueset_members)",
+    )
+    .option(
+      "--concept-ancestor-table-name <name>",
+      "Concept ancestor table name (default: fhir_concept_ancestors)",
+    )
+    .option("--quiet", "Minimal output", false)
+    .action(handleTerminologyCommand);
+
+  return command;
+}
@@ -0,0 +1,333 @@
+/**
+ * Unit tests for the diagnostics reported of ViewDefinitions.
+ *
+ * Problems found while transpiling and type checking are located by a JSON
+ * pointer to the element of the ViewDefinition they were found in and by the
+ * range of characters of its FHIRPath expression, and may suggest fixes.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  type Diagnostic,
+  DiagnosticError,
+  formatDiagnostics,
+  SqlOnFhir,
+} from "../index";
+import { patientView } from "./utils/transpile";
+
+/**
+ * The diagnostics of the error raised transpiling a ViewDefinition.
+ */
+function transpileDiagnostics(view: object): Diagnostic[] {
+  try {
+    new SqlOnFhir().transpile(view);
+  } catch (error) {
+    expect(error).toBeInstanceOf(DiagnosticError);
+    return (error as DiagnosticError).diagnostics;
+  }
+  throw new Error("Expected the ViewDefinition not to transpile");
+}
+
+describe("transpilation errors", () => {
+  it("are located at the column path and the function not supported", () => {
+    expect(
+      transpileDiagnostics(
+        patientView([
+          {
+            column: [
+              { name: "id", path: "id" },
+              { name: "family", path: "name.family.foo()" },
+            ],
+          },
+        ]),
+      ),
+    ).toEqual([
+      {
+        severity: "error",
+        code: "transpile-error",
+        message: "Unsupported FHIRPath function: foo",
+        pointer: "/select/0/column/1/path",
+        range: { start: 12, end: 17 },
+      },
+    ]);
+  });
+
+  it("are located within the criteria of a forEach", () => {
+    expect(
+      transpileDiagnostics(
+        patientView([
+          {
+            forEach: "name.where(%missing = 'x')",
+            column: [{ name: "family", path: "family" }],
+          },
+        ]),
+      ),
+    ).toMatchObject([
+      {
+        code: "transpile-error",
+        message: expect.stringContaining("Variable '%missing' is not defined"),
+        pointer: "/select/0/forEach",
+        range: { start: 11, end: 19 },
+      },
+    ]);
+  });
+
+  it("are located at the occurrence of the criteria within the path", () => {
+    expect(
+      transpileDiagnostics(
+        patientView([
+          {
+            forEach: "name.where(name)",
+            column: [{ name: "family", path: "family" }],
+          },
+        ]),
+      ),
+    ).toMatchObject([
+      {
+        code: "unknown-element",
+        pointer: "/select/0/forEach",
+        range: { start: 11, end: 15 },
+      },
+    ]);
+  });
+
+  it("report unknown elements as type checking does", () => {
+    const view = patientView([
+      { column: [{ name: "family", path: "nmae.family" }] },
+    ]);
+    expect(transpileDiagnostics(view)).toEqual([
+      {
+        severity: "error",
+        code: "unknown-element",
+        message: "Element 'Patient.nmae' is not defined in FHIR 4.0.1",
+        pointer: "/select/0/column/0/path",
+        range: { start: 0, end: 4 },
+      },
+    ]);
+    expect(new SqlOnFhir().check(view)).toMatchObject([
+      { code: "unknown-element", range: { start: 0, end: 4 } },
+    ]);
+  });
+
+  it("locate unknown nested elements at their name", () => {
+    const view = patientView([
+      { column: [{ name: "family", path: "name.nmae", collection: true }] },
+    ]);
+    expect(transpileDiagnostics(view)).toMatchObject([
+      {
+        code: "unknown-element",
+        message: "Element 'Patient.name.nmae' is not defined in FHIR 4.0.1",
+        range: { start: 5, end: 9 },
+      },
+    ]);
+    expect(new SqlOnFhir().check(view)).toMatchObject([
+      { code: "unknown-element", range: { start: 5, end: 9 } },
+    ]);
+    expect(
+      transpileDiagnostics(
+        patientView([
+          {
+            forEach: "contact.where(gender = 'male').nmae.family",
+            column: [{ name: "family", path: "family" }],
+          },
+        ]),
+      ),
+    ).toMatchObject([
+      {
+        code: "unknown-element",
+        message: "Element 'Patient.contact.nmae' is not defined in FHIR 4.0.1",
+        pointer: "/select/0/forEach",
+        range: { start: 31, end: 35 },
+      },
+    ]);
+  });
+
+  it("report unknown types at the type specifier", () => {
+    const view = patientView([
+      { column: [{ name: "x", path: "deceased.ofType(Foo)" }] },
+    ]);
+    expect(transpileDiagnostics(view)).toEqual([
+      {
+        severity: "error",
+        code: "unknown-type",
+        message: "Unknown type 'Foo'",
+        pointer: "/select/0/column/0/path",
+        range: { start: 16, end: 19 },
+      },
+    ]);
+    expect(new SqlOnFhir().check(view)).toMatchObject([
+      { code: "unknown-type", range: { start: 16, end: 19 } },
+    ]);
+  });
+
+  it("are located within view-level where clauses", () => {
+    expect(
+      transpileDiagnostics(
+        patientView([{ column: [{ name: "id", path: "id" }] }], {
+          where: [{ path: "active = true" }, { path: "name.exists() and %y" }],
+        }),
+      ),
+    ).toMatchObject([{ pointer: "/where/1/path", range: { start: 18 } }]);
+  });
+
+  it("report syntax errors at the offending token", () => {
+    expect(
+      transpileDiagnostics(
+        patientView([
+          { column: [{ name: "family", path: "name.where(use = ).family" }] },
+        ]),
+      ),
+    ).toMatchObject([
+      {
+        code: "syntax-error",
+        pointer: "/select/0/column/0/path",
+        range: { start: 17, end: 18 },
+      },
+    ]);
+  });
+
+  it("report invalid ViewDefinitions at the element in error", () => {
+    expect(
+      transpileDiagnostics({
+        ...patientView([{ column: [{ name: "id", path: "id" }] }]),
+        resource: "Patent",
+      }),
+    ).toEqual([
+      {
+        severity: "error",
+        code: "invalid-view",
+        message: "Resource type 'Patent' is not defined in FHIR 4.0.1",
+        pointer: "/resource",
+      },
+    ]);
+    expect(
+      transpileDiagnostics(
+        patientView([{ column: [{ name: "id", path: "id" }] }], {
+          constant: [{ name: "a", valueString: "x" }, { name: "b" }],
+        }),
+      ),
+    ).toMatchObject([{ code: "invalid-view", pointer: "/constant/1" }]);
+    expect(
+      transpileDiagnostics({ resourceType: "ViewDefinition", select: [] }),
+    ).toMatchObject([{ code: "invalid-view", pointer: "" }]);
+  });
+
+  it("report unsupported FHIR versions at the version", () => {
+    expect(
+      transpileDiagnostics(
+        patientView([{ column: [{ name: "id", path: "id" }] }], {
+          fhirVersion: ["9.9"],
+        }),
+      ),
+    ).toMatchObject([
+      {
+        code: "invalid-view",
+        message: expect.stringContaining("Unsupported FHIR version '9.9'"),
+        pointer: "/fhirVersion/0",
+      },
+    ]);
+  });
+
+  it("are summarised in the message of the error", () => {
+    expect(() =>
+      new SqlOnFhir().transpile(
+        patientView([{ column: [{ name: "x", path: "foo()" }] }]),
+      ),
+    ).toThrow("/select/0/column/0/path: Unsupported FHIRPath function: foo");
+  });
+});
+
+describe("type checking diagnostics", () => {
+  it("locate and suggest fixes for navigation of choice types", () => {
+    const diagnostics = new SqlOnFhir().check({
+      resourceType: "ViewDefinition",
+      status: "active",
+      resource: "Observation",
+      select: [{ column: [{ name: "value", path: "valueQuantity.value" }] }],
+    });
+    expect(diagnostics).toMatchObject([
+      {
+        code: "choice-type",
+        range: { start: 0, end: 13 },
+        fixes: [{ replacement: "value.ofType(Quantity)" }],
+      },
+    ]);
+  });
+
+  it("suggest selecting one item for singleton functions", () => {
+    expect(
+      new SqlOnFhir().check(
+        patientView([
+          {
+            column: [
+              { name: "upper", path: "name.family.upper()", collection: true },
+            ],
+          },
+        ]),
+      ),
+    ).toMatchObject([
+      {
+        code: "singleton-function",
+        range: { start: 12, end: 19 },
+        fixes: [{ replacement: "first().upper()" }],
+      },
+    ]);
+  });
+
+  it("suggest the type inferred for mistyped columns", () => {
+    expect(
+      new SqlOnFhir().check(
+        patientView([
+          { column: [{ name: "active", path: "active", type: "string" }] },
+        ]),
+      ),
+    ).toMatchObject([
+      {
+        code: "column-type",
+        pointer: "/select/0/column/0/type",
+        fixes: [{ replacement: "boolean" }],
+      },
+    ]);
+  });
+
+  it("report invalid ViewDefinitions rather than throwing", () => {
+    expect(
+      new SqlOnFhir().check({
+        ...patientView([{ column: [{ name: "id", path: "id" }] }]),
+        resource: "Patent",
+      }),
+    ).toMatchObject([{ code: "invalid-view", pointer: "/resource" }]);
+  });
+});
+
+describe("formatDiagnostics", () => {
+  it("underlines the range of the expression and lists fixes", () => {
+    const view = patientView([
+      { column: [{ name: "family", path: "nmae.family" }] },
+    ]);
+    expect(formatDiagnostics(new SqlOnFhir().check(view), view)).toBe(
+      [
+        "error[unknown-element] /select/0/column/0/path: Element 'Patient.nmae' is not defined in FHIR 4.0.1",
+        "  nmae.family",
+        "  ^^^^",
+        "  fix: Did you mean 'name'?",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("shows diagnostics without a range on a single line", () => {
+    expect(
+      formatDiagnostics([
+        {
+          severity: "warning",
+          code: "invalid-view",
+          message: "Something is amiss",
+          pointer: "",
+        },
+      ]),
+    ).toBe("warning[invalid-view] /: Something is amiss\n");
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for FHIR version selection.
+ *
+ * The FHIR version a view targets is taken from `ViewDefinition.fhirVersion`,
+ * falling back to the `fhirVersion` option of the query generator (R4 by
+ * default). It determines the type model used to decide cardinality, choice
+ * element names and which paths are valid.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { SqlOnFhir } from "../index";
+import { resolveFhirRelease } from "../typeModel/index.js";
+import { transpilePath } from "./utils/transpile";
+
+describe("resolveFhirRelease", () => {
+  it("accepts release names", () => {
+    expect(resolveFhirRelease("R4")).toBe("R4");
+    expect(resolveFhirRelease("r4b")).toBe("R4B");
+    expect(resolveFhirRelease("R5")).toBe("R5");
+  });
+
+  it("accepts version numbers", () => {
+    expect(resolveFhirRelease("4.0.1")).toBe("R4");
+    expect(resolveFhirRelease("4.3")).toBe("R4B");
+    expect(resolveFhirRelease("5.0.0")).toBe("R5");
+  });
+
+  it("rejects unsupported versions", () => {
+    expect(() => resolveFhirRelease("3.0.2")).toThrow(
+      "Unsupported FHIR version '3.0.2'",
+    );
+  });
+});
+
+describe("FHIR version selection", () => {
+  it("defaults to R4", () => {
+    expect(
+      transpilePath(
+        "MedicationRequest",
+        "medication.ofType(CodeableConcept).text",
+      ),
+    ).toContain("JSON_VALUE(r.json, '$.medicationCodeableConcept.text')");
+  });
+
+  it("uses the version declared by the view", () => {
+    expect(
+      transpilePath(
+        "MedicationRequest",
+        "medication.concept.text",
+        {},
+        {
+          fhirVersion: ["5.0.0"],
+        },
+      ),
+    ).toContain("JSON_VALUE(r.json, '$.medication.concept.text')");
+  });
+
+  it("uses the version configured as the default", () => {
+    expect(
+      transpilePath("MedicationRequest", "medication.concept.text", {
+        fhirVersion: "R5",
+      }),
+    ).toContain("JSON_VALUE(r.json, '$.medication.concept.text')");
+  });
+
+  it("prefers the version declared by the view over the default", () => {
+    expect(() =>
+      transpilePath(
+        "MedicationRequest",
+        "medication.concept.text",
+        { fhirVersion: "R5" },
+        { fhirVersion: ["4.0.1"] },
+      ),
+    ).toThrow(
+      "Element 'MedicationRequest.medication.concept' is not defined in FHIR 4.0.1",
+    );
+  });
+
+  it("rejects paths that are not valid in the targeted version", () => {
+    expect(() =>
+      transpilePath(
+        "MedicationRequest",
+        "dosageInstruction.nmae",
+        {},
+        { fhirVersion: ["4.3.0"] },
+      ),
+    ).toThrow(
+      "Element 'MedicationRequest.dosageInstruction.nmae' is not defined in FHIR 4.3.0",
+    );
+  });
+
+  it("rejects forEach paths that are not valid in the targeted version", () => {
+    expect(() =>
+      new SqlOnFhir().transpile({
+        resource: "Patient",
+        status: "active",
+        select: [
+          { forEach: "contact.nmae", column: [{ name: "x", path: "family" }] },
+        ],
+      }),
+    ).toThrow("Element 'Patient.contact.nmae' is not defined in FHIR 4.0.1");
+  });
+
+  it("rejects resource types that the targeted version does not define", () => {
+    expect(() =>
+      new SqlOnFhir().transpile({
+        resource: "Ingredient",
+        status: "active",
+        select: [{ column: [{ name: "x", path: "id" }] }],
+      }),
+    ).toThrow("Resource type 'Ingredient' is not defined in FHIR 4.0.1");
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for the source maps of generated queries.
+ *
+ * Each SELECT-list item, APPLY or JOIN clause, CTE and WHERE predicate of the
+ * query is linked to a JSON pointer to the element of the ViewDefinition that
+ * produced it, and the query may be annotated with comments naming them.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { annotateSql, SqlOnFhir, type TranspilationResult } from "../index";
+import { patientView } from "./utils/transpile";
+
+/**
+ * The SQL of each range of a source map, by kind and pointer.
+ */
+function mappedSql(result: TranspilationResult): string[] {
+  return (result.sourceMap ?? []).map(
+    ({ kind, pointer, start, end }) =>
+      `${kind} ${pointer}: ${result.sql.slice(start, end)}`,
+  );
+}
+
+describe("source maps", () => {
+  it("link columns, applies and where predicates to their elements", () => {
+    const result = new SqlOnFhir({ sourceMap: true }).transpile(
+      patientView(
+        [
+          { column: [{ name: "id", path: "id" }] },
+          { forEach: "name", column: [{ name: "family", path: "family" }] },
+        ],
+        { where: [{ path: "active" }] },
+      ),
+    );
+    expect(mappedSql(result)).toEqual([
+      "column /select/0/column/0: JSON_VALUE(r.json, '$.id')",
+      "column /select/1/column/0: JSON_VALUE(forEach_0.value, '$.family')",
+      "apply /select/1: CROSS APPLY OPENJSON(r.json, '$.name') AS forEach_0",
+      "where /where/0: (JSON_VALUE(r.json, '$.active') = 'true')",
+    ]);
+  });
+
+  it("link the CTE and join of a repeat to the repeat", () => {
+    const result = new SqlOnFhir({ sourceMap: true }).transpile(
+      patientView([
+        { repeat: ["contact"], column: [{ name: "g", path: "gender" }] },
+      ]),
+    );
+    expect(result.sourceMap).toMatchObject([
+      { kind: "cte", pointer: "/select/0" },
+      { kind: "column", pointer: "/select/0/column/0" },
+      { kind: "join", pointer: "/select/0" },
+    ]);
+    expect(mappedSql(result)[2]).toBe(
+      "join /select/0: INNER JOIN repeat_0 ON repeat_0.[id] = [r].[id]",
+    );
+  });
+
+  it("link the CTEs of functions to the path that calls them", () => {
+    const result = new SqlOnFhir({ sourceMap: true }).transpile(
+      patientView([
+        { column: [{ name: "n", path: "repeat(link.other).count()" }] },
+      ]),
+    );
+    expect(result.sourceMap).toMatchObject([
+      { kind: "cte", pointer: "/select/0/column/0" },
+      { kind: "column", pointer: "/select/0/column/0" },
+    ]);
+  });
+
+  it("link union branches within the apply of the union", () => {
+    const result = new SqlOnFhir({ sourceMap: true }).transpile(
+      patientView([
+        {
+          unionAll: [
+            { forEach: "telecom", column: [{ name: "v", path: "value" }] },
+            { forEach: "address", column: [{ name: "v", path: "city" }] },
+          ],
+        },
+      ]),
+    );
+    expect(
+      result.sourceMap?.map(({ kind, pointer }) => [kind, pointer]),
+    ).toEqual([
+      ["column", "/select/0"],
+      ["apply", "/select/0"],
+      ["column", "/select/0/unionAll/0/column/0"],
+      ["apply", "/select/0/unionAll/0"],
+      ["column", "/select/0/unionAll/1/column/0"],
+      ["apply", "/select/0/unionAll/1"],
+    ]);
+  });
+
+  it("are only generated where requested, without changing the SQL", () => {
+    const view = patientView(
+      [{ forEach: "name", column: [{ name: "family", path: "family" }] }],
+      { where: [{ path: "active" }] },
+    );
+    const plain = new SqlOnFhir().transpile(view);
+    expect(plain.sourceMap).toBeUndefined();
+    expect(new SqlOnFhir({ sourceMap: true }).transpile(view).sql).toBe(
+      plain.sql,
+    );
+  });
+});
+
+describe("annotateSql", () => {
+  it("names the element of each mapped range in a comment", () => {
+    const { sql, sourceMap = [] } = new SqlOnFhir({
+      sourceMap: true,
+    }).transpile(
+      patientView([{ column: [{ name: "id", path: "id" }] }], {
+        where: [{ path: "active" }],
+      }),
+    );
+    expect(annotateSql(sql, sourceMap)).toBe(
+      [
+        "SELECT",
+        "  /* select[0].column[0] */ JSON_VALUE(r.json, '$.id') AS [id]",
+        "FROM [dbo].[fhir_resources] AS [r]",
+        "WHERE [r].[resource_type] = 'Patient' AND (/* where[0] */ (JSON_VALUE(r.json, '$.active') = 'true'))",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Transpilation checks for the local conformance suites in `src/tests/suites`.
+ *
+ * The suites follow the SQL on FHIR test format and are executed against a
+ * database by pointing `SQLONFHIR_TEST_PATH` at the directory. These checks
+ * run without a database, confirming that every view transpiles, or fails to
+ * transpile when the test expects an error.
+ *
+ * @author John Grimes
+ */
+
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import { SqlOnFhir } from "../index";
+import { ViewDefinitionParser } from "../parser";
+
+const SUITES_DIRECTORY = join(__dirname, "suites");
+
+const suiteFiles = readdirSync(SUITES_DIRECTORY).filter((file) =>
+  file.endsWith(".json"),
+);
+
+for (const file of suiteFiles) {
+  const suite = ViewDefinitionParser.parseTestSuite(
+    readFileSync(join(SUITES_DIRECTORY, file), "utf8"),
+  );
+
+  describe(`${file}: ${suite.title}`, () => {
+    for (const test of suite.tests) {
+      const transpile = (): string => new SqlOnFhir().transpile(test.view).sql;
+
+      it(test.title, () => {
+        if (test.expectError) {
+          expect(transpile).toThrow();
+        } else {
+          expect(transpile()).toMatch(/^SELECT/);
+        }
+      });
+    }
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * Unit tests for the `terminology` command option mapping.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { buildTerminologyOptions } from "../terminologyCommand";
+
+const DATABASE_OPTIONS = {
+  host: "localhost",
+  user: "sa",
+  password: "secret",
+  database: "fhir",
+};
+
+describe("buildTerminologyOptions", () => {
+  it("reads a directory without database configuration", () => {
+    const options = buildTerminologyOptions("./terminology", { quiet: true });
+    expect(options).toMatchObject({
+      directory: "./terminology",
+      database: undefined,
+      quiet: true,
+    });
+  });
+
+  it("configures the database where reading from or installing into it", () => {
+    for (const flag of ["fromDatabase", "install"]) {
+      const options = buildTerminologyOptions(undefined, {
+        [flag]: true,
+        ...DATABASE_OPTIONS,
+        port: 1434,
+      });
+      expect(options[flag as "fromDatabase" | "install"]).toBe(true);
+      expect(options.database).toMatchObject({
+        ...DATABASE_OPTIONS,
+        port: 1434,
+      });
+    }
+  });
+
+  it("passes the names of the tables through", () => {
+    const options = buildTerminologyOptions("./terminology", {
+      schemaName: "fhir",
+      tableName: "resources",
+      valueSetTableName: "members",
+      conceptAncestorTableName: "ancestors",
+    });
+    expect(options).toMatchObject({
+      schemaName: "fhir",
+      tableName: "resources",
+      valueSetTableName: "members",
+      conceptAncestorTableName: "ancestors",
+    });
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Unit tests for the static type checking of ViewDefinitions.
+ *
+ * Every column, `where`, `forEach` and `repeat` path is checked against the
+ * FHIR type model, and each problem found is located by a JSON pointer to the
+ * element of the ViewDefinition it was found in.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  type Diagnostic,
+  SqlOnFhir,
+  type ViewDefinitionSelect,
+} from "../index";
+
+/**
+ * Check a view of the given resource type.
+ *
+ * @param resource - The resource type viewed.
+ * @param select - The selects of the view.
+ * @returns The problems found.
+ */
+function check(resource: string, select: ViewDefinitionSelect[]): Diagnostic[] {
+  return new SqlOnFhir().check({
+    resourceType: "ViewDefinition",
+    status: "active",
+    resource,
+    select,
+  });
+}
+
+describe("unknown elements", () => {
+  it("are reported at the path they are found in", () => {
+    expect(
+      check("Patient", [
+        { column: [{ name: "family", path: "Patient.nmae.family" }] },
+      ]),
+    ).toEqual([
+      {
+        severity: "error",
+        code: "unknown-element",
+        message: "Element 'Patient.nmae' is not defined in FHIR 4.0.1",
+        pointer: "/select/0/column/0/path",
+        range: { start: 8, end: 12 },
+        fixes: [{ message: "Did you mean 'name'?", replacement: "name" }],
+      },
+    ]);
+  });
+
+  it("are found relative to the items of forEach and repeat", () => {
+    expect(
+      check("Patient", [
+        {
+          forEach: "name",
+          column: [{ name: "family", path: "famly" }],
+          select: [
+            { forEach: "given", column: [{ name: "g", path: "$this" }] },
+          ],
+        },
+      ]),
+    ).toMatchObject([
+      {
+        code: "unknown-element",
+        message: "Element 'Patient.name.famly' is not defined in FHIR 4.0.1",
+        pointer: "/select/0/column/0/path",
+      },
+    ]);
+    expect(
+      check("QuestionnaireResponse", [
+        {
+          repeat: ["item", "answer.item"],
+          column: [{ name: "linkId", path: "linkId" }],
+        },
+      ]),
+    ).toEqual([]);
+  });
+
+  it("are found in where clauses and iterations", () => {
+    const diagnostics = new SqlOnFhir().check({
+      resourceType: "ViewDefinition",
+      status: "active",
+      resource: "Patient",
+      where: [{ path: "actve = true" }],
+      select: [
+        {
+          forEach: "contact.nam",
+          column: [{ name: "family", path: "family" }],
+        },
+      ],
+    });
+    expect(diagnostics.map((diagnostic) => diagnostic.pointer)).toEqual([
+      "/where/0/path",
+      "/select/0/forEach",
+    ]);
+  });
+
+  it("are not reported of the type of the resource viewed", () => {
+    expect(
+      check("Patient", [
+        {
+          column: [
+            { name: "id", path: "Patient.id" },
+            { name: "key", path: "getResourceKey()" },
+            {
+              name: "org",
+              path: "managingOrganization.getReferenceKey(Organization)",
+            },
+          ],
+        },
+      ]),
+    ).toEqual([]);
+  });
+
+  it("are reported as syntax errors where the path does not parse", () => {
+    expect(
+      check("Patient", [{ column: [{ name: "x", path: "name.(" }] }]),
+    ).toMatchObject([
+      {
+        severity: "error",
+        code: "syntax-error",
+        pointer: "/select/0/column/0/path",
+      },
+    ]);
+  });
+});
+
+describe("choice types", () => {
+  it("must permit the type selected by ofType()", () => {
+    expect(
+      check("Observation", [
+        { column: [{ name: "code", path: "value.ofType(Coding).code" }] },
+      ]),
+    ).toMatchObject([
+      {
+        severity: "error",
+        code: "choice-type",
+        message: expect.stringContaining(
+          "'Observation.value' cannot be of type Coding",
+        ),
+      },
+    ]);
+  });
+
+  it("are navigated into once narrowed", () => {
+    expect(
+      check("Observation", [
+        {
+          column: [
+            {
+              name: "value",
+              path: "value.ofType(Quantity).value",
+              type: "decimal",
+            },
+          ],
+        },
+      ]),
+    ).toEqual([]);
+  });
+
+  it("warn of navigation before narrowing, and of typed element names", () => {
+    expect(
+      check("Observation", [
+        {
+          column: [
+            { name: "unit", path: "value.unit" },
+            { name: "value", path: "valueQuantity.value" },
+          ],
+        },
+      ]).map(({ severity, code, message }) => [severity, code, message]),
+    ).toEqual([
+      [
+        "warning",
+        "choice-type",
+        "'Observation.value' is a choice of types: select one with ofType() before navigating to 'unit', e.g. Observation.value.ofType(Quantity).unit",
+      ],
+      [
+        "warning",
+        "choice-type",
+        "'valueQuantity' is not a FHIRPath element of 'Observation': use value.ofType(Quantity)",
+      ],
+    ]);
+  });
+});
+
+describe("singleton functions", () => {
+  it("warn where applied to a collection", () => {
+    expect(
+      check("Patient", [
+        {
+          column: [
+            { name: "upper", path: "name.family.upper()", collection: true },
+            { name: "first", path: "name.family.first().upper()" },
+          ],
+        },
+      ]),
+    ).toMatchObject([
+      {
+        severity: "warning",
+        code: "singleton-function",
+        pointer: "/select/0/column/0/path",
+      },
+    ]);
+  });
+});
+
+describe("columns", () => {
+  it("must declare collections where the path may return several values", () => {
+    expect(
+      check("Patient", [
+        {
+          column: [
+            { name: "given", path: "name.given" },
+            { name: "all", path: "name.given", collection: true },
+            { name: "joined", path: "name.given.join(' ')" },
+            { name: "official", path: "name.where(use = 'official').first()" },
+          ],
+        },
+      ]),
+    ).toEqual([
+      {
+        severity: "error",
+        code: "collection-column",
+        message:
+          "Column 'given' may have several values: declare it with \"collection\": true, or select one value with first()",
+        pointer: "/select/0/column/0",
+        fixes: [
+          { message: 'Declare the column with "collection": true' },
+          { message: "Select one value with name.given.first()" },
+        ],
+      },
+    ]);
+  });
+
+  it("must declare a type that matches the type of the path", () => {
+    expect(
+      check("Patient", [
+        {
+          column: [
+            { name: "birthDate", path: "birthDate", type: "integer" },
+            { name: "gender", path: "gender", type: "string" },
+            { name: "count", path: "name.count()", type: "integer" },
+            {
+              name: "unknown",
+              path: "extension.value",
+              type: "string",
+              collection: true,
+            },
+          ],
+        },
+      ]),
+    ).toMatchObject([
+      {
+        severity: "error",
+        code: "column-type",
+        message:
+          "Column 'birthDate' is declared as integer, but its path is of type date",
+        pointer: "/select/0/column/0/type",
+      },
+    ]);
+  });
+});
+
+describe("where clauses", () => {
+  it("must be Boolean conditions", () => {
+    const diagnostics = new SqlOnFhir().check({
+      resourceType: "ViewDefinition",
+      status: "active",
+      resource: "Observation",
+      where: [
+        { path: "status" },
+        { path: "status = 'final'" },
+        { path: "value" },
+      ],
+      select: [
+        {
+          where: [{ path: "code.coding.exists()" }, { path: "issued" }],
+          column: [{ name: "id", path: "id" }],
+        },
+      ],
+    });
+    expect(diagnostics).toEqual([
+      {
+        severity: "error",
+        code: "where-type",
+        message:
+          "The path of a where clause must be a Boolean condition, but it is of type code",
+        pointer: "/where/0/path",
+      },
+      {
+        severity: "error",
+        code: "where-type",
+        message:
+          "The path of a where clause must be a Boolean condition, but it is of type instant",
+        pointer: "/select/0/where/1/path",
+      },
+    ]);
+  });
+});
+
+describe("type checking before generation", () => {
+  it("fails on errors where enabled", () => {
+    const view = {
+      resourceType: "ViewDefinition",
+      status: "active",
+      resource: "Patient",
+      select: [{ column: [{ name: "family", path: "nmae.family" }] }],
+    };
+    expect(() => new SqlOnFhir({ typeCheck: true }).transpile(view)).toThrow(
+      "/select/0/column/0/path: Element 'Patient.nmae' is not defined",
+    );
+  });
+});
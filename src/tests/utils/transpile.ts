@@ -0,0 +1,85 @@
+/**
+ * Shared helpers for unit tests of the transpilation of FHIRPath expressions
+ * and views.
+ *
+ * @author John Grimes
+ */
+
+import { SqlOnFhir } from "../../index";
+import type { QueryGeneratorOptions } from "../../queryGenerator";
+import type { ViewDefinitionSelect } from "../../types";
+
+/**
+ * The column and view a FHIRPath expression is transpiled in.
+ */
+export interface PathColumn {
+  /** The type of the column. */
+  type?: string;
+  /** The FHIR versions the view targets. */
+  fhirVersion?: string[];
+}
+
+/**
+ * Transpile a single column of a resource for the given FHIRPath expression.
+ *
+ * @param resource - The type of resource the view is of.
+ * @param path - The FHIRPath expression to transpile.
+ * @param options - The options of the transpiler.
+ * @param column - The type of the column and the FHIR versions of the view.
+ * @returns The generated T-SQL.
+ */
+export function transpilePath(
+  resource: string,
+  path: string,
+  options: QueryGeneratorOptions = {},
+  { type, fhirVersion }: PathColumn = {},
+): string {
+  return new SqlOnFhir(options).transpile({
+    resource,
+    status: "active",
+    fhirVersion,
+    select: [{ column: [{ name: "x", path, type }] }],
+  }).sql;
+}
+
+/**
+ * Transpile a view of a resource with the given selects, filtered by the
+ * given FHIRPath expressions.
+ *
+ * @param resource - The type of resource the view is of.
+ * @param select - The selects of the view.
+ * @param where - The FHIRPath expressions of its filters.
+ * @returns The generated T-SQL.
+ */
+export function transpileView(
+  resource: string,
+  select: ViewDefinitionSelect[],
+  where: string[] = [],
+): string {
+  return new SqlOnFhir().transpile({
+    resource,
+    status: "active",
+    select,
+    where: where.map((path) => ({ path })),
+  }).sql;
+}
+
+/**
+ * A view of patients with the given selects.
+ *
+ * @param select - The selects of the view.
+ * @param extra - Other elements of the view, e.g. its `where` clauses.
+ * @returns The ViewDefinition.
+ */
+export function patientView(
+  select: ViewDefinitionSelect[],
+  extra: object = {},
+): object {
+  return {
+    resourceType: "ViewDefinition",
+    status: "active",
+    resource: "Patient",
+    select,
+    ...extra,
+  };
+}
@@ -0,0 +1,187 @@
+/**
+ * Compaction of FHIR StructureDefinitions into the type model's compact
+ * definition format.
+ *
+ * Reads StructureDefinitions from unpacked FHIR packages (directories of
+ * `StructureDefinition-*.json` files) or definition Bundles
+ * (`profiles-types.json`, `profiles-resources.json`) and reduces each snapshot
+ * to the cardinality and type codes of the elements it introduces.
+ *
+ * @author John Grimes
+ */
+
+import { readdirSync, readFileSync, statSync } from "fs";
+import { join } from "path";
+import type {
+  CompactDefinitions,
+  CompactElement,
+  CompactTypeDefinition,
+} from "./types.js";
+
+const FHIR_TYPE_EXTENSION =
+  "http://hl7.org/fhir/StructureDefinition/structuredefinition-fhir-type";
+const FHIRPATH_SYSTEM_PREFIX = "http://hl7.org/fhirpath/System.";
+const STRUCTURE_DEFINITION_PREFIX = "http://hl7.org/fhir/StructureDefinition/";
+
+export interface RawTypeRef {
+  code: string;
+  profile?: string[];
+  extension?: { url: string; valueUrl?: string }[];
+}
+
+export interface RawElement {
+  id?: string;
+  path: string;
+  sliceName?: string;
+  min?: number;
+  max?: string;
+  base?: { path: string };
+  type?: RawTypeRef[];
+  contentReference?: string;
+}
+
+export interface RawStructureDefinition {
+  resourceType: string;
+  url?: string;
+  name: string;
+  type?: string;
+  kind: string;
+  abstract?: boolean;
+  derivation?: string;
+  baseDefinition?: string;
+  fhirVersion?: string;
+  snapshot?: { element: RawElement[] };
+}
+
+/**
+ * Collect StructureDefinition resources from a file or directory. Bundles are
+ * unpacked; anything that is not a StructureDefinition is ignored.
+ */
+export function readStructureDefinitions(
+  inputPath: string,
+): RawStructureDefinition[] {
+  if (statSync(inputPath).isDirectory()) {
+    return readdirSync(inputPath)
+      .filter((file) => file.endsWith(".json"))
+      .flatMap((file) => readStructureDefinitions(join(inputPath, file)));
+  }
+
+  const resource = JSON.parse(readFileSync(inputPath, "utf-8"));
+  if (resource.resourceType === "Bundle") {
+    return (resource.entry ?? [])
+      .map((entry: { resource?: RawStructureDefinition }) => entry.resource)
+      .filter(
+        (r: RawStructureDefinition | undefined) =>
+          r?.resourceType === "StructureDefinition",
+      );
+  }
+  return resource.resourceType === "StructureDefinition" ? [resource] : [];
+}
+
+/**
+ * Resolve the FHIR type code of an element type, preferring the declared FHIR
+ * type over FHIRPath system types (used for `id` and primitive values).
+ */
+export function typeCode(ref: RawTypeRef): string {
+  const declared = ref.extension?.find(
+    (ext) => ext.url === FHIR_TYPE_EXTENSION,
+  )?.valueUrl;
+  const code = declared ?? ref.code;
+  return code.startsWith(FHIRPATH_SYSTEM_PREFIX)
+    ? code.substring(FHIRPATH_SYSTEM_PREFIX.length).toLowerCase()
+    : code;
+}
+
+/**
+ * Normalise a content reference to the `#Owner.path` form. R5 qualifies the
+ * reference with the canonical URL of the defining StructureDefinition.
+ */
+function contentReference(reference: string): string {
+  return reference.substring(reference.indexOf("#"));
+}
+
+/**
+ * Reduce a snapshot element to its compact form.
+ */
+function compactElement(element: RawElement): CompactElement {
+  const cardinality = `${element.min ?? 0}..${element.max ?? "*"}`;
+  if (element.contentReference) {
+    return [cardinality, contentReference(element.contentReference)];
+  }
+  const codes = (element.type ?? []).map(typeCode);
+  return [cardinality, ...Array.from(new Set(codes))];
+}
+
+/**
+ * The compacted elements a StructureDefinition introduces, keyed by path
+ * relative to the type.
+ */
+function introducedElements(
+  sd: RawStructureDefinition,
+): Record<string, CompactElement> {
+  const name = sd.type ?? sd.name;
+  const elements: Record<string, CompactElement> = {};
+
+  for (const element of sd.snapshot?.element ?? []) {
+    const basePath = element.base?.path ?? element.path;
+    const relative = element.path.substring(name.length + 1);
+    if (relative && basePath.split(".")[0] === name) {
+      elements[relative] = compactElement(element);
+    }
+  }
+  return elements;
+}
+
+/**
+ * Compact a core StructureDefinition, keeping only the elements introduced by
+ * the type itself. Inherited elements are identified by a `base.path` rooted
+ * in another type.
+ */
+export function compactTypeDefinition(
+  sd: RawStructureDefinition,
+): CompactTypeDefinition {
+  const elements = sd.kind === "primitive-type" ? {} : introducedElements(sd);
+  const definition: CompactTypeDefinition = { kind: sd.kind, elements };
+  if (sd.baseDefinition?.startsWith(STRUCTURE_DEFINITION_PREFIX)) {
+    definition.base = sd.baseDefinition.substring(
+      STRUCTURE_DEFINITION_PREFIX.length,
+    );
+  }
+  if (sd.abstract) {
+    definition.abstract = true;
+  }
+  return definition;
+}
+
+/**
+ * Whether a StructureDefinition defines a core type (rather than a profile,
+ * a logical model or an extension definition).
+ */
+function isCoreType(sd: RawStructureDefinition): boolean {
+  const isSpecialisation =
+    sd.derivation === "specialization" || sd.baseDefinition === undefined;
+  return (
+    isSpecialisation &&
+    ["resource", "complex-type", "primitive-type"].includes(sd.kind)
+  );
+}
+
+/**
+ * Build the compact definitions for a set of StructureDefinitions.
+ */
+export function buildCompactDefinitions(
+  structureDefinitions: RawStructureDefinition[],
+): CompactDefinitions {
+  const types: Record<string, CompactTypeDefinition> = {};
+  let fhirVersion = "";
+
+  const core = structureDefinitions
+    .filter(isCoreType)
+    .sort((a, b) => (a.type ?? a.name).localeCompare(b.type ?? b.name));
+  for (const sd of core) {
+    types[sd.type ?? sd.name] = compactTypeDefinition(sd);
+    fhirVersion ||= sd.fhirVersion ?? "";
+  }
+
+  return { fhirVersion, types };
+}
@@ -0,0 +1,41 @@
+/**
+ * Generates the compact type model definitions bundled in
+ * `src/typeModel/definitions` from the core StructureDefinitions of a FHIR
+ * release:
+ *
+ *   npm run typemodel -- <input>... <output.json>
+ *
+ * Each input is an unpacked FHIR package directory (e.g.
+ * `hl7.fhir.r5.core/package`) or a definition Bundle (e.g.
+ * `profiles-resources.json`).
+ *
+ * @author John Grimes
+ */
+
+import { writeFileSync } from "fs";
+import {
+  buildCompactDefinitions,
+  readStructureDefinitions,
+} from "./compact.js";
+
+/**
+ * Command line entry point.
+ */
+function main(args: string[]): void {
+  if (args.length < 2) {
+    console.error("Usage: generate <input>... <output.json>");
+    process.exit(1);
+  }
+  const output = args[args.length - 1];
+  const inputs = args.slice(0, -1);
+
+  const definitions = buildCompactDefinitions(
+    inputs.flatMap((input) => readStructureDefinitions(input)),
+  );
+  writeFileSync(output, `${JSON.stringify(definitions)}\n`, "utf-8");
+  console.log(
+    `Wrote ${Object.keys(definitions.types).length} types (FHIR ${definitions.fhirVersion}) to ${output}`,
+  );
+}
+
+main(process.argv.slice(2));
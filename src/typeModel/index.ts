@@ -0,0 +1,89 @@
+/**
+ * FHIR type model subsystem.
+ *
+ * Provides cardinality, choice and type information for FHIR element paths,
+ * loaded from compact core StructureDefinition snapshots bundled with the
+ * library (no network access is required).
+ *
+ * @author John Grimes
+ */
+
+import r4Definitions from "./definitions/r4.json";
+import r4bDefinitions from "./definitions/r4b.json";
+import r5Definitions from "./definitions/r5.json";
+import { FhirTypeModel } from "./model.js";
+import type { CompactDefinitions, FhirRelease } from "./types.js";
+
+export { choiceTypeSuffix, FhirTypeModel } from "./model.js";
+export { loadProfiles } from "./packages.js";
+export { type ExtensionSlice, FhirProfile } from "./profile.js";
+export type {
+  CompactDefinitions,
+  CompactElement,
+  CompactTypeDefinition,
+  ElementInfo,
+  FhirRelease,
+  TypeLocation,
+} from "./types.js";
+
+const BUNDLED_DEFINITIONS: Record<FhirRelease, CompactDefinitions> = {
+  // eslint-disable-next-line @typescript-eslint/naming-convention -- FHIR release names are upper case.
+  R4: r4Definitions,
+  // eslint-disable-next-line @typescript-eslint/naming-convention -- FHIR release names are upper case.
+  R4B: r4bDefinitions,
+  // eslint-disable-next-line @typescript-eslint/naming-convention -- FHIR release names are upper case.
+  R5: r5Definitions,
+};
+
+const models = new Map<FhirRelease, FhirTypeModel>();
+
+/**
+ * Get the type model for a FHIR release, built from the bundled core
+ * definitions. Models are created on first use and cached.
+ *
+ * @param release - The FHIR release (default: R4).
+ * @returns The shared type model for the release.
+ */
+export function getTypeModel(release: FhirRelease = "R4"): FhirTypeModel {
+  let model = models.get(release);
+  if (!model) {
+    model = new FhirTypeModel(BUNDLED_DEFINITIONS[release]);
+    models.set(release, model);
+  }
+  return model;
+}
+
+/**
+ * Version number prefixes of each release, as used in `fhirVersion` elements
+ * (e.g. `4.0.1`, `4.3.0`, `5.0.0`).
+ */
+const RELEASE_VERSIONS: [string, FhirRelease][] = [
+  ["4.0", "R4"],
+  ["4.3", "R4B"],
+  ["5.0", "R5"],
+];
+
+/**
+ * Resolve a FHIR version to the release whose definitions apply to it. Accepts
+ * either a release name (`R4`, `R4B`, `R5`) or a version number (`4.0.1`,
+ * `4.3`, `5.0.0`).
+ *
+ * @param version - The FHIR release name or version number.
+ * @returns The matching release.
+ * @throws If the version does not belong to a supported release.
+ */
+export function resolveFhirRelease(version: string): FhirRelease {
+  const release = version.toUpperCase();
+  if (release in BUNDLED_DEFINITIONS) {
+    return release as FhirRelease;
+  }
+  const match = RELEASE_VERSIONS.find(
+    ([prefix]) => version === prefix || version.startsWith(`${prefix}.`),
+  );
+  if (!match) {
+    throw new Error(
+      `Unsupported FHIR version '${version}', expected one of R4 (4.0.x), R4B (4.3.x) or R5 (5.0.x)`,
+    );
+  }
+  return match[1];
+}
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for the FHIR type model and its use in transpilation.
+ *
+ * Cardinality and choice-type decisions are read from the bundled core
+ * StructureDefinitions, so elements that share a name but differ in
+ * cardinality between types (e.g. `Patient.name` and `Patient.contact.name`)
+ * are handled correctly without any hard-coded field lists.
+ *
+ * @author John Grimes
+ */
+
+import { describe, expect, it } from "vitest";
+import { transpileView } from "../tests/utils/transpile";
+import { getTypeModel } from "./index.js";
+
+describe("FhirTypeModel", () => {
+  const model = getTypeModel("R4");
+
+  it("resolves cardinality by element path rather than name", () => {
+    expect(model.isRepeating("Patient.name")).toBe(true);
+    expect(model.isRepeating("Patient.contact.name")).toBe(false);
+    expect(model.isRepeating("Patient.contact.telecom")).toBe(true);
+  });
+
+  it("resolves elements inherited from base types", () => {
+    expect(model.isRepeating("Observation.extension")).toBe(true);
+    expect(model.isRepeating("Patient.contact.modifierExtension")).toBe(true);
+    expect(model.resolvePath("Patient.meta.lastUpdated")?.types).toEqual([
+      "instant",
+    ]);
+  });
+
+  it("follows content references", () => {
+    expect(
+      model.isRepeating("QuestionnaireResponse.item.answer.item.answer"),
+    ).toBe(true);
+  });
+
+  it("identifies choice elements and their typed names", () => {
+    expect(model.isChoice("Observation.value")).toBe(true);
+    expect(model.isChoice("Observation.valueQuantity")).toBe(false);
+    expect(model.choiceElementName("Observation.value", "Quantity")).toBe(
+      "valueQuantity",
+    );
+    expect(model.choiceElementName("Observation.value", "Address")).toBeNull();
+    expect(model.resolvePath("Observation.valueQuantity.unit")?.types).toEqual([
+      "string",
+    ]);
+  });
+
+  it("checks that paths are defined", () => {
+    expect(model.isDefined("Patient.contact.name.family")).toBe(true);
+    expect(model.isDefined("Patient.contact.nmae")).toBe(false);
+    expect(model.isDefined("Observation.value.unit")).toBe(true);
+    expect(model.isDefined("Observation.value.concept")).toBe(false);
+  });
+
+  it("walks the type hierarchy", () => {
+    expect(model.isSubtypeOf("positiveInt", "integer")).toBe(true);
+    expect(model.isSubtypeOf("Age", "Quantity")).toBe(true);
+    expect(model.isSubtypeOf("Quantity", "Age")).toBe(false);
+    expect(model.concreteResourceTypes("DomainResource")).not.toContain(
+      "Bundle",
+    );
+    expect(model.concreteResourceTypes("Resource")).toContain("Bundle");
+  });
+
+  it("returns null for unknown elements", () => {
+    expect(model.resolvePath("Patient.nmae")).toBeNull();
+    expect(model.resolvePath("NotAResource.id")).toBeNull();
+  });
+
+  it("bundles both R4 and R5 definitions", () => {
+    expect(model.fhirVersion).toBe("4.0.1");
+    expect(getTypeModel("R5").fhirVersion).toBe("5.0.0");
+    expect(getTypeModel("R5").hasType("Patient")).toBe(true);
+  });
+});
+
+describe("type-driven transpilation", () => {
+  it("indexes repeating elements outside of a forEach", () => {
+    const sql = transpileView("Observation", [
+      {
+        column: [
+          { name: "low", path: "referenceRange.low.value" },
+          { name: "code", path: "category.coding.code" },
+        ],
+      },
+    ]);
+    expect(sql).toContain(
+      "JSON_VALUE(r.json, '$.referenceRange[0].low.value')",
+    );
+    expect(sql).toContain("JSON_VALUE(r.json, '$.category[0].coding[0].code')");
+  });
+
+  it("treats an element as singular where its type defines it so", () => {
+    const sql = transpileView("Patient", [
+      {
+        forEach: "contact",
+        column: [{ name: "family", path: "name.family" }],
+      },
+    ]);
+    expect(sql).toMatch(/JSON_VALUE\(forEach_\d+\.value, '\$\.name\.family'\)/);
+  });
+
+  it("maps ofType() on any choice element to its typed name", () => {
+    const sql = transpileView("Condition", [
+      {
+        column: [
+          { name: "abatement", path: "abatement.ofType(dateTime)" },
+          { name: "code", path: "code.ofType(CodeableConcept)" },
+        ],
+      },
+    ]);
+    expect(sql).toContain("JSON_VALUE(r.json, '$.abatementDateTime')");
+    expect(sql).not.toContain("codeCodeableConcept");
+  });
+});
@@ -0,0 +1,426 @@
+/**
+ * FHIR type model backed by compact StructureDefinition snapshots.
+ *
+ * Answers cardinality and type questions ("does this element repeat?", "is it
+ * a choice?", "what type is it?") for element paths rooted at a resource or
+ * datatype, e.g. `Patient.contact.name` or `Observation.referenceRange.low`.
+ *
+ * Paths are resolved one segment at a time. Each segment may be the FHIR
+ * element name (`value`) or the JSON property name of a choice element
+ * narrowed to one of its types (`valueQuantity`), so paths recovered from
+ * JSON paths resolve the same way as FHIRPath member names.
+ *
+ * @author John Grimes
+ */
+
+import type {
+  CompactDefinitions,
+  CompactElement,
+  CompactTypeDefinition,
+  ElementInfo,
+  TypeLocation,
+} from "./types.js";
+
+/**
+ * Type codes that denote an anonymous (backbone) element whose children are
+ * defined inline in the owning type.
+ */
+const BACKBONE_TYPES = ["BackboneElement", "Element"];
+
+/**
+ * The type that supplies `id`, `extension` and `modifierExtension` to every
+ * backbone element.
+ */
+const BACKBONE_BASE = "BackboneElement";
+
+/**
+ * An element found in the model together with the location its children are
+ * resolved from (null when it cannot be navigated into without narrowing,
+ * e.g. an unnarrowed choice).
+ */
+interface ResolvedElement {
+  info: ElementInfo;
+  location: TypeLocation | null;
+}
+
+/**
+ * Capitalise a type code to form the suffix of a choice element's JSON name,
+ * e.g. `dateTime` → `DateTime` (`valueDateTime`).
+ */
+export function choiceTypeSuffix(typeCode: string): string {
+  return typeCode.charAt(0).toUpperCase() + typeCode.substring(1);
+}
+
+/**
+ * Whether a maximum cardinality permits more than one value.
+ */
+function isRepeatingMax(max: string): boolean {
+  return max === "*" || Number(max) > 1;
+}
+
+export class FhirTypeModel {
+  constructor(private readonly definitions: CompactDefinitions) {}
+
+  /**
+   * The FHIR version the model was generated from (e.g. `4.0.1`).
+   */
+  get fhirVersion(): string {
+    return this.definitions.fhirVersion;
+  }
+
+  /**
+   * Whether the model defines a type with the given name.
+   */
+  hasType(typeName: string): boolean {
+    return this.definitions.types[typeName] !== undefined;
+  }
+
+  /**
+   * Whether the named type is a resource type (including abstract ones).
+   */
+  isResourceType(typeName: string): boolean {
+    return this.definitions.types[typeName]?.kind === "resource";
+  }
+
+  /**
+   * Whether the named type is a primitive datatype.
+   */
+  isPrimitiveType(typeName: string): boolean {
+    return this.definitions.types[typeName]?.kind === "primitive-type";
+  }
+
+  /**
+   * Whether the values of the named type are JSON objects: those of complex
+   * datatypes, backbone elements and resources.
+   */
+  isComplexType(typeName: string): boolean {
+    const kind = this.definitions.types[typeName]?.kind;
+    return kind !== undefined && kind !== "primitive-type";
+  }
+
+  /**
+   * Name of the type the given type specialises, or null at the root.
+   */
+  baseTypeOf(typeName: string): string | null {
+    return this.definitions.types[typeName]?.base ?? null;
+  }
+
+  /**
+   * Whether the named type is abstract (e.g. Resource, DomainResource).
+   */
+  isAbstract(typeName: string): boolean {
+    return this.definitions.types[typeName]?.abstract ?? false;
+  }
+
+  /**
+   * Whether `typeName` is `ancestor` or specialises it, directly or through
+   * its base types (e.g. `positiveInt` is a subtype of `integer`).
+   */
+  isSubtypeOf(typeName: string, ancestor: string): boolean {
+    let current: string | null = typeName;
+    while (current) {
+      if (current === ancestor) {
+        return true;
+      }
+      current = this.baseTypeOf(current);
+    }
+    return false;
+  }
+
+  /**
+   * The concrete resource types that are `ancestor` or specialise it, e.g.
+   * every resource type other than Bundle, Binary and Parameters for
+   * `DomainResource`.
+   */
+  concreteResourceTypes(ancestor: string): string[] {
+    return Object.entries(this.definitions.types)
+      .filter(
+        ([name, definition]) =>
+          definition.kind === "resource" &&
+          !definition.abstract &&
+          this.isSubtypeOf(name, ancestor),
+      )
+      .map(([name]) => name);
+  }
+
+  /**
+   * Resolve an element path such as `Patient.name.given`. The first segment
+   * must name a type; a path consisting of the type name alone resolves to a
+   * singular element of that type.
+   *
+   * @returns The element's information, or null if any segment is unknown.
+   */
+  resolvePath(path: string): ElementInfo | null {
+    return this.resolve(path)?.info ?? null;
+  }
+
+  /**
+   * Whether every segment of `path` names an element of its parent. Beneath an
+   * unnarrowed choice element, a segment must name an element of at least one
+   * of the choice's types; segments beyond one that several types define
+   * cannot be checked and are assumed to be defined.
+   */
+  isDefined(path: string): boolean {
+    const [typeName, ...segments] = path.split(".");
+    let current = this.resolve(typeName);
+    for (const segment of segments) {
+      if (!current) {
+        return false;
+      }
+      const candidates = current.location
+        ? [this.childElement(current.location, segment)]
+        : current.info.types.map((type) =>
+            this.childElement({ owner: type, key: "" }, segment),
+          );
+      const found = candidates.filter((c): c is ResolvedElement => c !== null);
+      if (found.length > 1) {
+        return true;
+      }
+      current = found[0] ?? null;
+    }
+    return current !== null;
+  }
+
+  /**
+   * Whether the element at `path` may repeat. Unknown elements are treated as
+   * singular.
+   */
+  isRepeating(path: string): boolean {
+    return this.resolvePath(path)?.isArray ?? false;
+  }
+
+  /**
+   * Whether the element at `path` is an unnarrowed choice element.
+   */
+  isChoice(path: string): boolean {
+    return this.resolvePath(path)?.isChoice ?? false;
+  }
+
+  /**
+   * The JSON property name of a choice element narrowed to one of its types,
+   * e.g. (`Observation.value`, `Quantity`) → `valueQuantity`.
+   *
+   * @returns The property name, or null if `path` is not a choice element or
+   *   the type is not one of its permitted types.
+   */
+  choiceElementName(path: string, typeCode: string): string | null {
+    const element = this.resolvePath(path);
+    if (!element?.isChoice || !element.types.includes(typeCode)) {
+      return null;
+    }
+    const name = path.substring(path.lastIndexOf(".") + 1);
+    return `${name}${choiceTypeSuffix(typeCode)}`;
+  }
+
+  /**
+   * The names of the child elements of the element at `path`, as FHIRPath
+   * member names (`value` rather than `value[x]`).
+   *
+   * @returns The names, or an empty array if the element is not known or its
+   *   children cannot be resolved without narrowing it to one type.
+   */
+  childNames(path: string): string[] {
+    const location = this.resolve(path)?.location;
+    if (!location) {
+      return [];
+    }
+    const names = new Set<string>();
+    let next: TypeLocation | null = location;
+    while (next) {
+      const prefix = next.key === "" ? "" : `${next.key}.`;
+      for (const key of Object.keys(
+        this.definitions.types[next.owner]?.elements ?? {},
+      )) {
+        const name = key.substring(prefix.length).replace(/\[x]$/, "");
+        if (key.startsWith(prefix) && !name.includes(".")) {
+          names.add(name);
+        }
+      }
+      next = this.parentLocation(next);
+    }
+    return [...names];
+  }
+
+  /**
+   * The location the children of a location are inherited from: the base
+   * type of a type, and `BackboneElement` for a backbone element.
+   */
+  private parentLocation(location: TypeLocation): TypeLocation | null {
+    if (location.key !== "") {
+      return { owner: BACKBONE_BASE, key: "" };
+    }
+    const base = this.baseTypeOf(location.owner);
+    return base ? { owner: base, key: "" } : null;
+  }
+
+  private resolve(path: string): ResolvedElement | null {
+    const [typeName, ...segments] = path.split(".");
+    if (!this.hasType(typeName)) {
+      return null;
+    }
+
+    let current: ResolvedElement = {
+      info: {
+        path: typeName,
+        min: 0,
+        max: "1",
+        types: [typeName],
+        isArray: false,
+        isChoice: false,
+      },
+      location: { owner: typeName, key: "" },
+    };
+    for (const segment of segments) {
+      const next = current.location
+        ? this.childElement(current.location, segment)
+        : null;
+      if (!next) {
+        return null;
+      }
+      current = next;
+    }
+    return current;
+  }
+
+  /**
+   * Resolve a child element by name from a location, walking the base type
+   * chain for top-level elements and falling back to `BackboneElement` for
+   * the common children of backbone elements.
+   */
+  private childElement(
+    location: TypeLocation,
+    name: string,
+  ): ResolvedElement | null {
+    if (location.key !== "") {
+      return (
+        this.findInType(location.owner, location.key, name) ??
+        this.childElement({ owner: BACKBONE_BASE, key: "" }, name)
+      );
+    }
+
+    let typeName: string | null = location.owner;
+    while (typeName) {
+      const found = this.findInType(typeName, "", name);
+      if (found) {
+        return found;
+      }
+      typeName = this.baseTypeOf(typeName);
+    }
+    return null;
+  }
+
+  /**
+   * Look up `name` among the children of `key` in one type definition,
+   * matching either the element name or a narrowed choice property name.
+   */
+  private findInType(
+    owner: string,
+    key: string,
+    name: string,
+  ): ResolvedElement | null {
+    const definition = this.definitions.types[owner];
+    if (!definition) {
+      return null;
+    }
+    const prefix = key === "" ? "" : `${key}.`;
+
+    for (const elementKey of [`${prefix}${name}`, `${prefix}${name}[x]`]) {
+      const element = definition.elements[elementKey];
+      if (element) {
+        return this.toResolved(owner, elementKey, element, definition);
+      }
+    }
+    return this.findNarrowedChoice(owner, prefix, name, definition);
+  }
+
+  /**
+   * Match a JSON property name such as `valueQuantity` against the choice
+   * elements among a set of children, yielding the element narrowed to the
+   * named type.
+   */
+  private findNarrowedChoice(
+    owner: string,
+    prefix: string,
+    name: string,
+    definition: CompactTypeDefinition,
+  ): ResolvedElement | null {
+    for (const [elementKey, element] of Object.entries(definition.elements)) {
+      if (!elementKey.startsWith(prefix) || !elementKey.endsWith("[x]")) {
+        continue;
+      }
+      const baseName = elementKey.substring(
+        prefix.length,
+        elementKey.length - 3,
+      );
+      if (baseName.includes(".") || !name.startsWith(baseName)) {
+        continue;
+      }
+      const suffix = name.substring(baseName.length);
+      const typeCode = element
+        .slice(1)
+        .find((code) => choiceTypeSuffix(code) === suffix);
+      if (typeCode) {
+        const narrowed = [element[0], typeCode];
+        const resolved = this.toResolved(owner, elementKey, narrowed);
+        resolved.info.path = `${owner}.${prefix}${name}`;
+        resolved.info.isChoice = false;
+        return resolved;
+      }
+    }
+    return null;
+  }
+
+  private toResolved(
+    owner: string,
+    elementKey: string,
+    element: CompactElement,
+    definition?: CompactTypeDefinition,
+  ): ResolvedElement {
+    const [cardinality, ...types] = element;
+    const [min, max] = cardinality.split("..");
+    const isChoice = elementKey.endsWith("[x]");
+    const name = isChoice ? elementKey.slice(0, -3) : elementKey;
+    const info: ElementInfo = {
+      path: `${owner}.${name}`,
+      min: Number(min),
+      max,
+      types: types[0]?.startsWith("#") ? [] : types,
+      isArray: isRepeatingMax(max),
+      isChoice,
+    };
+    return {
+      info,
+      location: this.childLocation(owner, elementKey, types, definition),
+    };
+  }
+
+  /**
+   * Determine where the children of an element are defined: inline in the
+   * owning type for backbone elements, at the referenced element for content
+   * references, and in the element's type otherwise.
+   */
+  private childLocation(
+    owner: string,
+    elementKey: string,
+    types: string[],
+    definition?: CompactTypeDefinition,
+  ): TypeLocation | null {
+    if (types.length !== 1) {
+      return null;
+    }
+    const [type] = types;
+    if (type.startsWith("#")) {
+      const [refOwner, ...refPath] = type.substring(1).split(".");
+      return { owner: refOwner, key: refPath.join(".") };
+    }
+    const hasInlineChildren =
+      definition !== undefined &&
+      Object.keys(definition.elements).some((key) =>
+        key.startsWith(`${elementKey}.`),
+      );
+    if (BACKBONE_TYPES.includes(type) && hasInlineChildren) {
+      return { owner, key: elementKey };
+    }
+    return { owner: type, key: "" };
+  }
+}
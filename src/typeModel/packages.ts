@@ -0,0 +1,140 @@
+/**
+ * Loading of profiles from local FHIR packages.
+ *
+ * A package may be supplied as a package tarball (`.tgz`, as published to a
+ * FHIR package registry), an unpacked package (a directory with a `package`
+ * subdirectory, or the `package` directory itself), or a directory containing
+ * tarballs. Packages are read from the local file system only.
+ *
+ * @author John Grimes
+ */
+
+import { readdirSync, readFileSync, statSync } from "fs";
+import { join } from "path";
+import { gunzipSync } from "zlib";
+import {
+  type RawStructureDefinition,
+  readStructureDefinitions,
+} from "./compact.js";
+import { FhirProfile } from "./profile.js";
+
+const TAR_BLOCK_SIZE = 512;
+
+/**
+ * A file within a tar archive.
+ */
+interface TarEntry {
+  name: string;
+  content: Buffer;
+}
+
+/**
+ * Load the resource profiles defined by a set of packages.
+ *
+ * @param packagePaths - Paths to package tarballs or directories.
+ * @returns The profiles, keyed by canonical URL.
+ * @throws If a path does not exist or a package cannot be read.
+ */
+export function loadProfiles(packagePaths: string[]): Map<string, FhirProfile> {
+  const profiles = new Map<string, FhirProfile>();
+  for (const sd of packagePaths.flatMap(readPackage)) {
+    const profile = FhirProfile.fromStructureDefinition(sd);
+    if (profile) {
+      profiles.set(profile.url, profile);
+    }
+  }
+  return profiles;
+}
+
+/**
+ * Read the StructureDefinitions in a package tarball or directory.
+ */
+function readPackage(packagePath: string): RawStructureDefinition[] {
+  if (!statSync(packagePath).isDirectory()) {
+    return readTarball(packagePath);
+  }
+
+  const unpacked = join(packagePath, "package");
+  const definitions = readStructureDefinitions(
+    existsAsDirectory(unpacked) ? unpacked : packagePath,
+  );
+  const tarballs = readdirSync(packagePath)
+    .filter((file) => file.endsWith(".tgz"))
+    .flatMap((file) => readTarball(join(packagePath, file)));
+  return [...definitions, ...tarballs];
+}
+
+function existsAsDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read the StructureDefinitions in a gzipped package tarball.
+ */
+function readTarball(tarballPath: string): RawStructureDefinition[] {
+  const entries = readTarEntries(gunzipSync(readFileSync(tarballPath)));
+  return entries
+    .filter((entry) => entry.name.endsWith(".json"))
+    .map((entry) => JSON.parse(entry.content.toString("utf-8")))
+    .filter((resource) => resource?.resourceType === "StructureDefinition");
+}
+
+/**
+ * Extract the regular files from an (uncompressed) tar archive. Supports the
+ * ustar name prefix, GNU long names and pax `path` records.
+ */
+function readTarEntries(archive: Buffer): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let longName: string | null = null;
+  let offset = 0;
+
+  while (offset + TAR_BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + TAR_BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    const size = parseInt(headerField(header, 124, 12) || "0", 8);
+    const typeFlag = String.fromCharCode(header[156]);
+    const contentStart = offset + TAR_BLOCK_SIZE;
+    const content = archive.subarray(contentStart, contentStart + size);
+
+    if (typeFlag === "L") {
+      longName = content.toString("utf-8").replace(/\0.*$/s, "");
+    } else if (typeFlag === "x") {
+      longName = paxPath(content) ?? longName;
+    } else {
+      if (typeFlag === "0" || typeFlag === "\0") {
+        entries.push({ name: longName ?? headerName(header), content });
+      }
+      longName = null;
+    }
+    offset = contentStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+  }
+  return entries;
+}
+
+function headerField(header: Buffer, start: number, length: number): string {
+  return header
+    .subarray(start, start + length)
+    .toString("utf-8")
+    .replace(/\0.*$/s, "")
+    .trim();
+}
+
+function headerName(header: Buffer): string {
+  const name = headerField(header, 0, 100);
+  const prefix = headerField(header, 345, 155);
+  return prefix ? `${prefix}/${name}` : name;
+}
+
+/**
+ * Extract the `path` record from a pax extended header.
+ */
+function paxPath(content: Buffer): string | null {
+  const match = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(content.toString("utf-8"));
+  return match ? match[1] : null;
+}
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for profile-aware transpilation.
+ *
+ * A minimal Patient profile is written to a temporary package, which is read
+ * both unpacked and as a tarball. The profile declares an extension slice,
+ * limits `name` to a single value and narrows `deceased[x]` to boolean.
+ *
+ * @author John Grimes
+ */
+
+import { execFileSync } from "child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { SqlOnFhir } from "../index";
+import type { ViewDefinitionSelect } from "../types.js";
+import { loadProfiles } from "./index.js";
+
+const PROFILE_URL = "http://example.org/StructureDefinition/test-patient";
+const EXTENSION_URL =
+  "http://example.org/StructureDefinition/indigenous-status";
+
+const PROFILE = {
+  resourceType: "StructureDefinition",
+  url: PROFILE_URL,
+  name: "TestPatient",
+  kind: "resource",
+  type: "Patient",
+  derivation: "constraint",
+  baseDefinition: "http://hl7.org/fhir/StructureDefinition/Patient",
+  snapshot: {
+    element: [
+      { id: "Patient", path: "Patient", min: 0, max: "*" },
+      { id: "Patient.extension", path: "Patient.extension", max: "*" },
+      {
+        id: "Patient.extension:indigenousStatus",
+        path: "Patient.extension",
+        sliceName: "indigenousStatus",
+        max: "1",
+        type: [{ code: "Extension", profile: [EXTENSION_URL] }],
+      },
+      {
+        id: "Patient.extension:indigenousStatus.url",
+        path: "Patient.extension.url",
+        max: "1",
+      },
+      { id: "Patient.name", path: "Patient.name", min: 1, max: "1" },
+      {
+        id: "Patient.deceased[x]",
+        path: "Patient.deceased[x]",
+        max: "1",
+        type: [{ code: "boolean" }],
+      },
+    ],
+  },
+};
+
+let packageDir: string;
+let tarball: string;
+
+beforeAll(() => {
+  packageDir = mkdtempSync(join(tmpdir(), "sof-profile-"));
+  mkdirSync(join(packageDir, "package"));
+  writeFileSync(
+    join(packageDir, "package", "StructureDefinition-test-patient.json"),
+    JSON.stringify(PROFILE),
+  );
+  writeFileSync(
+    join(packageDir, "package", "package.json"),
+    JSON.stringify({ name: "example.test", version: "1.0.0" }),
+  );
+  tarball = join(tmpdir(), `sof-profile-${Date.now()}.tgz`);
+  execFileSync("tar", ["-czf", tarball, "-C", packageDir, "package"]);
+});
+
+afterAll(() => {
+  rmSync(packageDir, { recursive: true, force: true });
+  rmSync(tarball, { force: true });
+});
+
+/**
+ * Transpile a Patient view against the test profile.
+ *
+ * @param select - The select clauses of the view.
+ * @returns The generated T-SQL.
+ */
+function transpile(select: ViewDefinitionSelect[]): string {
+  return new SqlOnFhir({ packages: [packageDir] }).transpile({
+    resource: "Patient",
+    profile: PROFILE_URL,
+    status: "active",
+    select,
+  }).sql;
+}
+
+describe("loadProfiles", () => {
+  it("reads profiles from an unpacked package", () => {
+    expect(loadProfiles([packageDir]).get(PROFILE_URL)?.type).toBe("Patient");
+  });
+
+  it("reads profiles from a package tarball", () => {
+    expect(loadProfiles([tarball]).get(PROFILE_URL)?.type).toBe("Patient");
+  });
+});
+
+describe("profile-aware transpilation", () => {
+  it("filters to resources that claim the profile", () => {
+    const sql = transpile([{ column: [{ name: "id", path: "id" }] }]);
+    expect(sql).toContain(
+      `EXISTS (SELECT 1 FROM OPENJSON([r].[json], '$.meta.profile') WHERE value = '${PROFILE_URL}' OR LEFT(value, ${PROFILE_URL.length + 1}) = '${PROFILE_URL}|')`,
+    );
+  });
+
+  it("resolves extension slices by name", () => {
+    const sql = transpile([
+      {
+        column: [
+          {
+            name: "status",
+            path: "indigenousStatus.value.ofType(Coding).code",
+          },
+        ],
+      },
+    ]);
+    expect(sql).toContain(
+      `(SELECT TOP 1 JSON_VALUE(value, '$.valueCoding.code') FROM OPENJSON(r.json, '$.extension') WHERE JSON_VALUE(value, '$.url') = '${EXTENSION_URL}')`,
+    );
+  });
+
+  it("selects a single item where the profile limits cardinality", () => {
+    const sql = transpile([
+      { column: [{ name: "given", path: "name.given" }] },
+    ]);
+    expect(sql).toContain("JSON_QUERY(r.json, '$.name[0].given')");
+
+    const singular = transpile([{ column: [{ name: "name", path: "name" }] }]);
+    expect(singular).toContain("JSON_QUERY(r.json, '$.name[0]')");
+  });
+
+  it("names choice elements narrowed to a single type", () => {
+    const sql = transpile([{ column: [{ name: "d", path: "deceased" }] }]);
+    expect(sql).toContain("JSON_VALUE(r.json, '$.deceasedBoolean')");
+  });
+
+  it("rejects profiles that are not in the loaded packages", () => {
+    expect(() =>
+      new SqlOnFhir().transpile({
+        resource: "Patient",
+        profile: PROFILE_URL,
+        status: "active",
+        select: [{ column: [{ name: "id", path: "id" }] }],
+      }),
+    ).toThrow(`Profile '${PROFILE_URL}' was not found in the loaded packages`);
+  });
+
+  it("rejects profiles of a different resource type", () => {
+    expect(() =>
+      new SqlOnFhir({ packages: [packageDir] }).transpile({
+        resource: "Observation",
+        profile: PROFILE_URL,
+        status: "active",
+        select: [{ column: [{ name: "id", path: "id" }] }],
+      }),
+    ).toThrow(`Profile '${PROFILE_URL}' constrains Patient, not Observation`);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Constraints that a resource profile places on its base resource type.
+ *
+ * Built from the snapshot of a profile StructureDefinition (e.g. one from an
+ * implementation guide such as AU Core). Only the constraints that affect
+ * transpilation are kept: maximum cardinality, the types permitted for choice
+ * elements, and the extension slices that can be referred to by name.
+ *
+ * Element paths use the same form as the type model (`Patient.name.given`,
+ * `Observation.value`). Constraints declared within a slice apply only to the
+ * items of that slice, so they are ignored.
+ *
+ * @author John Grimes
+ */
+
+import {
+  type RawElement,
+  type RawStructureDefinition,
+  typeCode,
+} from "./compact.js";
+
+/**
+ * Matches the id of an extension slice declared directly on an element, e.g.
+ * `Patient.extension:indigenousStatus`.
+ */
+const EXTENSION_SLICE_PATTERN =
+  /^([^:]+)\.(extension|modifierExtension):([^.:]+)$/;
+
+/**
+ * An extension slice that can be navigated to by its slice name.
+ */
+export interface ExtensionSlice {
+  /** Whether the slice is on `extension` or `modifierExtension`. */
+  element: "extension" | "modifierExtension";
+  /** Canonical URL of the extension definition. */
+  url: string;
+}
+
+export class FhirProfile {
+  private readonly maxCardinality = new Map<string, string>();
+  private readonly choiceTypes = new Map<string, string[]>();
+  private readonly extensionSlices = new Map<string, ExtensionSlice>();
+
+  /**
+   * @param url - Canonical URL of the profile.
+   * @param type - The resource type the profile constrains.
+   * @param elements - The snapshot elements of the profile.
+   */
+  constructor(
+    readonly url: string,
+    readonly type: string,
+    elements: RawElement[],
+  ) {
+    for (const element of elements) {
+      this.addElement(element);
+    }
+  }
+
+  /**
+   * Build a profile from a StructureDefinition.
+   *
+   * @returns The profile, or null if the StructureDefinition is not a
+   *   constraint on a resource type with a snapshot.
+   */
+  static fromStructureDefinition(
+    sd: RawStructureDefinition,
+  ): FhirProfile | null {
+    if (
+      sd.derivation !== "constraint" ||
+      sd.kind !== "resource" ||
+      !sd.url ||
+      !sd.type ||
+      !sd.snapshot
+    ) {
+      return null;
+    }
+    return new FhirProfile(sd.url, sd.type, sd.snapshot.element);
+  }
+
+  /**
+   * Whether the profile limits the element at `path` to at most one value.
+   */
+  isSingleton(path: string): boolean {
+    const max = this.maxCardinality.get(path);
+    return max === "0" || max === "1";
+  }
+
+  /**
+   * The types the profile permits for the choice element at `path`, or null
+   * if the profile does not constrain them.
+   */
+  constrainedTypes(path: string): string[] | null {
+    return this.choiceTypes.get(path) ?? null;
+  }
+
+  /**
+   * The extension slice named `sliceName` on the element at `path`, or null if
+   * the profile declares no such slice.
+   */
+  extensionSlice(path: string, sliceName: string): ExtensionSlice | null {
+    return this.extensionSlices.get(`${path}:${sliceName}`) ?? null;
+  }
+
+  private addElement(element: RawElement): void {
+    const id = element.id ?? element.path;
+    // Constraints within slices apply to the slice only
+    if (this.addExtensionSlice(id, element) || id.includes(":")) {
+      return;
+    }
+
+    const path = element.path.replace(/\[x]$/, "");
+    if (element.max !== undefined) {
+      this.maxCardinality.set(path, element.max);
+    }
+    if (element.path.endsWith("[x]") && element.type) {
+      this.choiceTypes.set(path, element.type.map(typeCode));
+    }
+  }
+
+  /**
+   * Record the element as an extension slice, if it is one.
+   *
+   * @returns Whether the element is an extension slice.
+   */
+  private addExtensionSlice(id: string, element: RawElement): boolean {
+    const sliceMatch = EXTENSION_SLICE_PATTERN.exec(id);
+    const extensionUrl = element.type?.[0]?.profile?.[0];
+    if (!sliceMatch || !extensionUrl) {
+      return false;
+    }
+    const [, parentPath, extensionElement, sliceName] = sliceMatch;
+    this.extensionSlices.set(`${parentPath}:${sliceName}`, {
+      element: extensionElement as ExtensionSlice["element"],
+      url: extensionUrl,
+    });
+    return true;
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Type definitions for the FHIR type model.
+ *
+ * The bundled definitions are a compact projection of the core
+ * StructureDefinition snapshots: for every resource and datatype, only the
+ * elements it introduces itself are recorded (inherited elements are reached
+ * by walking the `base` chain), each reduced to its cardinality and type
+ * codes.
+ *
+ * @author John Grimes
+ */
+
+/**
+ * FHIR releases with bundled core definitions.
+ */
+export type FhirRelease = "R4" | "R4B" | "R5";
+
+/**
+ * One element of a compact type definition.
+ *
+ * The first entry is the cardinality (`"0..1"`, `"1..*"`), the remaining
+ * entries are the element's type codes. A choice element (`value[x]`) lists
+ * every permitted type; an element defined by a content reference lists a
+ * single `#Owner.path` entry instead of a type code.
+ */
+export type CompactElement = string[];
+
+/**
+ * Compact definition of a single resource or datatype.
+ */
+export interface CompactTypeDefinition {
+  /** StructureDefinition kind (resource, complex-type or primitive-type). */
+  kind: string;
+  /** Name of the type this one specialises, absent for `Base`/`Element`. */
+  base?: string;
+  /** Whether the type is abstract (e.g. Resource, DomainResource). */
+  abstract?: boolean;
+  /** Elements introduced by this type, keyed by path relative to the type. */
+  elements: Record<string, CompactElement>;
+}
+
+/**
+ * Compact definitions for one FHIR release.
+ */
+export interface CompactDefinitions {
+  /** The FHIR version the definitions were generated from (e.g. 4.0.1). */
+  fhirVersion: string;
+  types: Record<string, CompactTypeDefinition>;
+}
+
+/**
+ * Resolved information about an element of a FHIR type.
+ */
+export interface ElementInfo {
+  /** Canonical element path, e.g. `Patient.contact.name`. */
+  path: string;
+  /** Minimum cardinality. */
+  min: number;
+  /** Maximum cardinality (`"1"`, `"*"` or a number as a string). */
+  max: string;
+  /** Type codes permitted for the element; more than one for a choice. */
+  types: string[];
+  /** Whether the element may repeat (max cardinality greater than one). */
+  isArray: boolean;
+  /** Whether the element is a choice element (`value[x]`). */
+  isChoice: boolean;
+}
+
+/**
+ * A position in the type model from which child elements can be resolved.
+ *
+ * `owner` is the type that defines the children; `key` is the path of the
+ * backbone element within that type, or an empty string when the children are
+ * the top-level elements of `owner`.
+ */
+export interface TypeLocation {
+  owner: string;
+  key: string;
+}
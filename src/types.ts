@@ -299,6 +299,26 @@ export interface TestSuite {
 export interface TranspilationResult {
   sql: string;
   columns: ColumnInfo[];
+  /** Where the query was generated with a source map, its source map. */
+  sourceMap?: SourceMapping[];
+}
+
+/**
+ * What a range of generated T-SQL is: a SELECT-list item, an APPLY or JOIN
+ * clause, a common table expression or a WHERE predicate.
+ */
+export type SqlKind = "column" | "apply" | "join" | "cte" | "where";
+
+/**
+ * A range of the generated T-SQL, from the offset of its first character to
+ * the offset after its last, and the ViewDefinition element that produced it.
+ */
+export interface SourceMapping {
+  kind: SqlKind;
+  /** A JSON pointer to the element, e.g. `/select/0/column/2`. */
+  pointer: string;
+  start: number;
+  end: number;
 }
 
 export interface ColumnInfo {
@@ -0,0 +1,295 @@
+/**
+ * Static checking of the FHIRPath expressions of a ViewDefinition against the
+ * FHIR type model, before SQL is generated for it.
+ *
+ * Every column, `where`, `forEach`, `forEachOrNull` and `repeat` path is type
+ * checked against the items it is evaluated on, and each column is checked
+ * against the type inferred for its path: its declared `type` must match, and
+ * a path that may return several values must be declared a collection. The
+ * path of a `where` must be a Boolean condition.
+ *
+ * @author John Grimes
+ */
+
+import type { Diagnostic } from "./diagnostics.js";
+import type { FunctionRegistry } from "./fhirpath/customFunctions.js";
+import { Transpiler } from "./fhirpath/transpiler.js";
+import {
+  checkExpression,
+  type ExpressionType,
+  itemType,
+  resourceType,
+  type TypeScope,
+  UNKNOWN,
+} from "./fhirpath/typeChecker.js";
+import { systemTypeOf } from "./fhirpath/typeOperators.js";
+import type { FhirProfile, FhirTypeModel } from "./typeModel/index.js";
+import type {
+  ViewDefinition,
+  ViewDefinitionColumn,
+  ViewDefinitionConstant,
+  ViewDefinitionSelect,
+  ViewDefinitionWhere,
+} from "./types.js";
+
+/**
+ * The result of checking a path: its type, or null if it could not be parsed,
+ * and the diagnostics found in it.
+ */
+interface PathCheck {
+  type: ExpressionType | null;
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Check the FHIRPath expressions of a ViewDefinition.
+ *
+ * @param viewDef - The ViewDefinition to check.
+ * @param model - The type model of the FHIR version the view targets.
+ * @param profile - Profile constraints on the resource type, if any.
+ * @param functions - The custom functions the view may call, if any.
+ * @returns The problems found, in the order of the elements they were found
+ *   in.
+ */
+export function checkViewDefinition(
+  viewDef: ViewDefinition,
+  model: FhirTypeModel,
+  profile?: FhirProfile,
+  functions?: FunctionRegistry,
+): Diagnostic[] {
+  const scope: TypeScope = {
+    model,
+    profile,
+    functions,
+    resourceType: viewDef.resource,
+    focus: resourceType(viewDef.resource),
+    constants: constantTypes(viewDef.constant ?? [], model),
+  };
+  return [
+    ...checkWhere(viewDef.where ?? [], "", scope),
+    ...checkSelects(viewDef.select, "/select", scope),
+  ];
+}
+
+/**
+ * The FHIR types of constants, by name, from the names of their `value[x]`
+ * elements.
+ */
+function constantTypes(
+  constants: ViewDefinitionConstant[],
+  model: FhirTypeModel,
+): Record<string, string | null> {
+  const types: Record<string, string | null> = {};
+  for (const constant of constants) {
+    const key = Object.keys(constant).find((name) => name.startsWith("value"));
+    const typeName = key?.slice("value".length) ?? "";
+    const primitive = typeName.charAt(0).toLowerCase() + typeName.slice(1);
+    types[constant.name] = model.hasType(primitive)
+      ? primitive
+      : model.hasType(typeName)
+        ? typeName
+        : null;
+  }
+  return types;
+}
+
+function checkSelects(
+  selects: ViewDefinitionSelect[],
+  pointer: string,
+  scope: TypeScope,
+): Diagnostic[] {
+  return selects.flatMap((select, index) =>
+    checkSelect(select, `${pointer}/${index}`, scope),
+  );
+}
+
+/**
+ * Check a select, whose columns, nested selects and unions are evaluated on
+ * the items of its `forEach`, `forEachOrNull` or `repeat`, if it has one.
+ */
+function checkSelect(
+  select: ViewDefinitionSelect,
+  pointer: string,
+  scope: TypeScope,
+): Diagnostic[] {
+  const iteration = checkIteration(select, pointer, scope);
+  const itemScope = { ...scope, focus: iteration.type ?? scope.focus };
+  return [
+    ...iteration.diagnostics,
+    ...checkWhere(select.where ?? [], pointer, itemScope),
+    ...(select.column ?? []).flatMap((column, index) =>
+      checkColumn(column, `${pointer}/column/${index}`, itemScope),
+    ),
+    ...checkSelects(select.select ?? [], `${pointer}/select`, itemScope),
+    ...checkSelects(select.unionAll ?? [], `${pointer}/unionAll`, itemScope),
+  ];
+}
+
+/**
+ * Check the iteration of a select, giving the type of a single item iterated
+ * over, or null where the select does not iterate.
+ */
+function checkIteration(
+  select: ViewDefinitionSelect,
+  pointer: string,
+  scope: TypeScope,
+): PathCheck {
+  if (select.repeat) {
+    return checkRepeat(select.repeat, `${pointer}/repeat`, scope);
+  }
+  const element = select.forEach ? "forEach" : "forEachOrNull";
+  const path = select.forEach ?? select.forEachOrNull;
+  if (path === undefined) {
+    return { type: null, diagnostics: [] };
+  }
+  const { type, diagnostics } = checkPath(path, `${pointer}/${element}`, scope);
+  return { type: itemType(type ?? UNKNOWN), diagnostics };
+}
+
+/**
+ * Check the paths of a `repeat`. Each path is evaluated on the items selected
+ * by any of them as well as on the focus of the select (e.g. `answer.item` on
+ * the items of `item`), so a path is in error only where it is valid on
+ * neither.
+ */
+function checkRepeat(
+  paths: string[],
+  pointer: string,
+  scope: TypeScope,
+): PathCheck {
+  const checks = paths.map((path, index) =>
+    checkPath(path, `${pointer}/${index}`, scope),
+  );
+  const items = checks.flatMap((check) =>
+    check.type && check.diagnostics.length === 0 ? [itemType(check.type)] : [],
+  );
+  const validOnItems = (path: string): boolean =>
+    items.some(
+      (focus) =>
+        checkPath(path, "", { ...scope, focus }).diagnostics.length === 0,
+    );
+  const diagnostics = checks.flatMap((check, index) =>
+    check.diagnostics.length === 0 || validOnItems(paths[index])
+      ? []
+      : check.diagnostics,
+  );
+  return { type: items[0] ?? UNKNOWN, diagnostics };
+}
+
+/**
+ * Check the paths of `where` clauses, each of which must be a Boolean
+ * condition.
+ */
+function checkWhere(
+  where: ViewDefinitionWhere[],
+  pointer: string,
+  scope: TypeScope,
+): Diagnostic[] {
+  return where.flatMap((clause, index) => {
+    const path = `${pointer}/where/${index}/path`;
+    const { type, diagnostics } = checkPath(clause.path, path, scope);
+    const inferred = type?.types.length === 1 ? type.types[0] : null;
+    if (inferred && systemTypeOf(inferred, scope.model) !== "Boolean") {
+      diagnostics.push({
+        severity: "error",
+        code: "where-type",
+        message: `The path of a where clause must be a Boolean condition, but it is of type ${inferred}`,
+        pointer: path,
+      });
+    }
+    return diagnostics;
+  });
+}
+
+/**
+ * Check the path of a column, and the column against the type inferred for
+ * the path.
+ */
+function checkColumn(
+  column: ViewDefinitionColumn,
+  pointer: string,
+  scope: TypeScope,
+): Diagnostic[] {
+  const { type, diagnostics } = checkPath(
+    column.path,
+    `${pointer}/path`,
+    scope,
+  );
+  if (type?.collection && column.collection !== true) {
+    diagnostics.push({
+      severity: "error",
+      code: "collection-column",
+      message: `Column '${column.name}' may have several values: declare it with "collection": true, or select one value with first()`,
+      pointer,
+      fixes: [
+        { message: 'Declare the column with "collection": true' },
+        { message: `Select one value with ${column.path}.first()` },
+      ],
+    });
+  }
+  const inferred = type?.types.length === 1 ? type.types[0] : null;
+  if (
+    column.type &&
+    inferred &&
+    !compatibleTypes(column.type, inferred, scope.model)
+  ) {
+    diagnostics.push({
+      severity: "error",
+      code: "column-type",
+      message: `Column '${column.name}' is declared as ${column.type}, but its path is of type ${inferred}`,
+      pointer: `${pointer}/type`,
+      fixes: [
+        { message: `Declare the column as ${inferred}`, replacement: inferred },
+      ],
+    });
+  }
+  return diagnostics;
+}
+
+/**
+ * Whether values of an inferred type may be returned in a column declared to
+ * be of another: either is a subtype of the other (e.g. `code` of `string`),
+ * or they are of the same System type (e.g. `instant` and `dateTime`). Types
+ * not defined by the model are not checked.
+ */
+function compatibleTypes(
+  declared: string,
+  inferred: string,
+  model: FhirTypeModel,
+): boolean {
+  if (!model.hasType(declared) || !model.hasType(inferred)) {
+    return true;
+  }
+  const systemType = systemTypeOf(declared, model);
+  return (
+    model.isSubtypeOf(inferred, declared) ||
+    model.isSubtypeOf(declared, inferred) ||
+    (systemType !== null && systemType === systemTypeOf(inferred, model))
+  );
+}
+
+/**
+ * Parse and type check a path.
+ */
+function checkPath(path: string, pointer: string, scope: TypeScope): PathCheck {
+  const { tree, error } = Transpiler.parseExpression(path);
+  if (!tree) {
+    return {
+      type: null,
+      diagnostics: [
+        {
+          severity: "error",
+          code: "syntax-error",
+          message: `Syntax error in FHIRPath expression '${path}': ${error?.message}`,
+          pointer,
+          ...(error ? { range: error.range } : {}),
+        },
+      ],
+    };
+  }
+  const { type, problems } = checkExpression(tree, scope);
+  return {
+    type,
+    diagnostics: problems.map((problem) => ({ ...problem, pointer })),
+  };
+}